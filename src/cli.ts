@@ -5,6 +5,8 @@ import { version } from "./version.js";
 import { registerCodeCommands } from "./commands/code/index.js";
 import { registerProcessCommands } from "./commands/process/index.js";
 import { registerInfraCommands } from "./commands/infra/index.js";
+import { registerAuditCommands } from "./commands/audit/index.js";
+import { registerScanCommand } from "./commands/scan/index.js";
 
 program
   .name("drift")
@@ -32,4 +34,13 @@ const infraCmd = program
 
 registerInfraCommands(infraCmd);
 
+const auditCmd = program
+  .command("audit")
+  .description("Audit outstanding drift issues across the organization");
+
+registerAuditCommands(auditCmd);
+
+// Unified scan across all domains
+registerScanCommand(program);
+
 program.parse();
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock external modules before imports
+vi.mock("../../github/client.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../github/client.js")>();
+  return {
+    ...actual,
+    listRepos: vi.fn(),
+    createOrUpdateIssue: vi.fn(),
+    closeResolvedIssue: vi.fn(),
+    getGitHubToken: vi.fn(() => "test-token"),
+  };
+});
+
+vi.mock("../../github/issues.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../github/issues.js")>();
+  return { ...actual, listOpenDriftIssues: vi.fn() };
+});
+
+vi.mock("../../github/repo-checks.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../github/repo-checks.js")>();
+  return { ...actual, getRemoteRepoMetadata: vi.fn() };
+});
+
+// Import after mocking
+import {
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  getGitHubToken,
+  listRepos,
+} from "../../github/client.js";
+import { listOpenDriftIssues } from "../../github/issues.js";
+import { getRemoteRepoMetadata } from "../../github/repo-checks.js";
+import type { AuditResults } from "../../github/audit-issue-formatter.js";
+
+function mockRepo(name: string) {
+  return {
+    name,
+    full_name: `test-org/${name}`,
+    clone_url: `https://github.com/test-org/${name}.git`,
+    archived: false,
+    disabled: false,
+    owner: { login: "test-org" },
+  };
+}
+
+function mockIssues(count: number, label = "drift:code") {
+  return Array.from({ length: count }, (_, i) => ({
+    number: i + 1,
+    html_url: `https://github.com/test-org/repo/issues/${i + 1}`,
+    title: `Drift ${i + 1}`,
+    body: null,
+    labels: [label],
+  }));
+}
+
+describe("audit", () => {
+  const mockListRepos = vi.mocked(listRepos);
+  const mockListOpenDriftIssues = vi.mocked(listOpenDriftIssues);
+  const mockGetRemoteRepoMetadata = vi.mocked(getRemoteRepoMetadata);
+  const mockCreateOrUpdateIssue = vi.mocked(createOrUpdateIssue);
+  const mockCloseResolvedIssue = vi.mocked(closeResolvedIssue);
+  const mockGetGitHubToken = vi.mocked(getGitHubToken);
+
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let exitSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetGitHubToken.mockReturnValue("test-token");
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    exitSpy = vi
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+    vi.resetAllMocks();
+  });
+
+  function lastJsonOutput(): AuditResults {
+    return JSON.parse(String(consoleSpy.mock.calls.at(-1)?.[0]));
+  }
+
+  it("groups repos over the threshold by team", async () => {
+    mockListRepos.mockResolvedValueOnce({
+      repos: [
+        mockRepo("api"),
+        mockRepo("web"),
+        mockRepo("quiet"),
+        mockRepo("drift-config"),
+      ],
+      isOrg: true,
+    });
+    mockListOpenDriftIssues.mockImplementation(async (_owner, repo) => {
+      const counts: Record<string, number> = { api: 3, web: 4, quiet: 1 };
+      return mockIssues(counts[repo] ?? 0);
+    });
+    mockGetRemoteRepoMetadata.mockImplementation(async (_org, repo) =>
+      repo === "api"
+        ? { tier: "production", status: "active", team: "platform", raw: {} }
+        : null
+    );
+    mockCreateOrUpdateIssue.mockResolvedValueOnce({
+      number: 10,
+      html_url: "https://github.com/test-org/drift-config/issues/10",
+      action: "created",
+    });
+
+    const { audit } = await import("./audit.js");
+    await audit({ org: "test-org", threshold: "3", json: true });
+
+    const results = lastJsonOutput();
+    expect(results.summary).toEqual({
+      reposAudited: 3,
+      reposOverThreshold: 2,
+      reposSkipped: 0,
+      openDriftIssues: 8,
+    });
+    expect(results.teams.map((t) => t.team)).toEqual([
+      "platform",
+      "unassigned",
+    ]);
+    expect(results.teams[1].repos[0].repo).toBe("test-org/web");
+    expect(results.issueNumber).toBe(10);
+    expect(mockListOpenDriftIssues).not.toHaveBeenCalledWith(
+      "test-org",
+      "drift-config",
+      "test-token"
+    );
+    expect(mockCreateOrUpdateIssue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: "test-org",
+        repo: "drift-config",
+        labels: ["drift:audit"],
+      }),
+      "test-token"
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("does not file an issue in dry-run mode", async () => {
+    mockListRepos.mockResolvedValueOnce({
+      repos: [mockRepo("api")],
+      isOrg: true,
+    });
+    mockListOpenDriftIssues.mockResolvedValueOnce(mockIssues(6));
+    mockGetRemoteRepoMetadata.mockResolvedValueOnce(null);
+
+    const { audit } = await import("./audit.js");
+    await audit({ org: "test-org", json: true, dryRun: true });
+
+    expect(lastJsonOutput().summary.reposOverThreshold).toBe(1);
+    expect(mockCreateOrUpdateIssue).not.toHaveBeenCalled();
+    expect(mockCloseResolvedIssue).not.toHaveBeenCalled();
+  });
+
+  it("closes the audit issue when no repo is over the threshold", async () => {
+    mockListRepos.mockResolvedValueOnce({
+      repos: [mockRepo("api")],
+      isOrg: true,
+    });
+    mockListOpenDriftIssues.mockResolvedValueOnce(mockIssues(1));
+    mockCloseResolvedIssue.mockResolvedValueOnce(null);
+
+    const { audit } = await import("./audit.js");
+    await audit({ org: "test-org", json: true });
+
+    expect(mockCloseResolvedIssue).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "audit-summary", scan: "drift audit" }),
+      "test-token"
+    );
+    expect(mockGetRemoteRepoMetadata).not.toHaveBeenCalled();
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  it("ignores audit issues when counting drift issues", async () => {
+    mockListRepos.mockResolvedValueOnce({
+      repos: [mockRepo("api")],
+      isOrg: true,
+    });
+    mockListOpenDriftIssues.mockResolvedValueOnce([
+      ...mockIssues(1),
+      ...mockIssues(1, "drift:audit"),
+    ]);
+
+    const { audit } = await import("./audit.js");
+    await audit({ org: "test-org", json: true, dryRun: true });
+
+    expect(lastJsonOutput().summary.openDriftIssues).toBe(1);
+  });
+
+  it("rejects an invalid threshold", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { audit } = await import("./audit.js");
+    await audit({ org: "test-org", threshold: "zero" });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("--threshold")
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockListRepos).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
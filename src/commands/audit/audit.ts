@@ -0,0 +1,359 @@
+import { version } from "../../version.js";
+import { actionsOutput, COLORS, getErrorMessage } from "../../utils/index.js";
+import {
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  describeSyncedIssue,
+  configureGitHubUrl,
+  getGitHubAppToken,
+  getGitHubToken,
+  listRepos,
+} from "../../github/client.js";
+import { listOpenDriftIssues } from "../../github/issues.js";
+import { getRemoteRepoMetadata } from "../../github/repo-checks.js";
+import {
+  formatAuditIssueBody,
+  getAuditIssueTitle,
+  getAuditIssueLabel,
+} from "../../github/audit-issue-formatter.js";
+import { CONCURRENCY, DEFAULTS } from "../../constants.js";
+import type {
+  AuditRepoResult,
+  AuditResults,
+  AuditTeamGroup,
+} from "../../github/audit-issue-formatter.js";
+
+export interface AuditOptions {
+  org?: string;
+  configRepo?: string;
+  githubToken?: string;
+  githubUrl?: string; // GitHub Enterprise Server URL
+  threshold?: string;
+  json?: boolean;
+  dryRun?: boolean;
+}
+
+/** Team name used for repos without a team in repo-metadata.yaml */
+const UNASSIGNED_TEAM = "unassigned";
+
+/**
+ * Run async tasks with a concurrency limit.
+ */
+async function parallelLimit<T, R>(
+  items: T[],
+  fn: (item: T, index: number) => Promise<R>,
+  concurrency: number = CONCURRENCY.maxRepoScans
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let currentIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (currentIndex < items.length) {
+      const index = currentIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array(Math.min(concurrency, items.length))
+    .fill(null)
+    .map(() => worker());
+
+  await Promise.all(workers);
+  return results;
+}
+
+interface AuditRepoContext {
+  org: string;
+  repoName: string;
+  token: string;
+  threshold: number;
+}
+
+/**
+ * Collect a repo's open drift issues. The team is only looked up for repos
+ * over the threshold, as only those are reported.
+ */
+async function auditRepo(
+  ctx: AuditRepoContext
+): Promise<AuditRepoResult | { repo: string; error: string }> {
+  const { org, repoName, token, threshold } = ctx;
+  const repo = `${org}/${repoName}`;
+
+  try {
+    const openIssues = await listOpenDriftIssues(org, repoName, token);
+    const issues = openIssues
+      .filter((i) => !i.labels.includes(getAuditIssueLabel()))
+      .map((i) => ({
+        number: i.number,
+        title: i.title,
+        url: i.html_url,
+        labels: i.labels,
+      }));
+
+    const result: AuditRepoResult = { repo, issues };
+    if (issues.length >= threshold) {
+      const metadata = await getRemoteRepoMetadata(org, repoName, token);
+      result.team = metadata?.team;
+    }
+    return result;
+  } catch (error) {
+    return { repo, error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Group repos by team, busiest repos first. Teams are sorted by name with
+ * unassigned repos last.
+ */
+function groupByTeam(repos: AuditRepoResult[]): AuditTeamGroup[] {
+  const byTeam = new Map<string, AuditRepoResult[]>();
+  for (const repo of repos) {
+    const team = repo.team ?? UNASSIGNED_TEAM;
+    byTeam.set(team, [...(byTeam.get(team) ?? []), repo]);
+  }
+
+  return [...byTeam.entries()]
+    .sort(([a], [b]) => {
+      if (a === UNASSIGNED_TEAM || b === UNASSIGNED_TEAM) {
+        return a === UNASSIGNED_TEAM ? 1 : -1;
+      }
+      return a.localeCompare(b);
+    })
+    .map(([team, teamRepos]) => ({
+      team,
+      repos: teamRepos.sort((a, b) => b.issues.length - a.issues.length),
+    }));
+}
+
+/**
+ * Print audit results
+ */
+function printResults(results: AuditResults): void {
+  console.log("");
+  console.log(`${COLORS.bold}REPOS OVER THRESHOLD BY TEAM${COLORS.reset}`);
+  console.log("═".repeat(60));
+
+  for (const group of results.teams) {
+    console.log(`\n${group.team}`);
+    console.log("─".repeat(60));
+    for (const repo of group.repos) {
+      console.log(
+        `  ${COLORS.red}✗ ${repo.repo}: ${repo.issues.length} open drift issue(s)${COLORS.reset}`
+      );
+    }
+  }
+
+  console.log("");
+  console.log(`${COLORS.bold}SUMMARY${COLORS.reset}`);
+  console.log("═".repeat(60));
+  console.log(`  Organization: ${results.org}`);
+  console.log(`  Threshold: ${results.threshold} open drift issues`);
+  console.log(
+    `  Repos: ${results.summary.reposAudited} audited` +
+      (results.summary.reposSkipped > 0
+        ? `, ${results.summary.reposSkipped} skipped`
+        : "") +
+      (results.summary.reposOverThreshold > 0
+        ? `, ${COLORS.red}${results.summary.reposOverThreshold} over threshold${COLORS.reset}`
+        : "")
+  );
+  console.log(`  Open drift issues: ${results.summary.openDriftIssues}`);
+  if (results.issueAction && results.issueNumber) {
+    const issue = { number: results.issueNumber, action: results.issueAction };
+    console.log(
+      `  ${COLORS.green}✓ ${describeSyncedIssue(issue, "audit issue")}${COLORS.reset}`
+    );
+  }
+  console.log("");
+
+  if (results.summary.reposOverThreshold > 0) {
+    actionsOutput.error(
+      `${results.summary.reposOverThreshold} repository(s) over the drift issue threshold`
+    );
+  } else {
+    console.log(`${COLORS.green}✓ No repos over threshold${COLORS.reset}`);
+    actionsOutput.notice("No repositories over the drift issue threshold");
+  }
+}
+
+/**
+ * File (or update) the audit summary issue in the config repo, or close it
+ * once no repo is over the threshold.
+ */
+async function syncAuditIssue(
+  results: AuditResults,
+  token: string
+): Promise<void> {
+  const issue =
+    results.summary.reposOverThreshold > 0
+      ? await createOrUpdateIssue(
+          {
+            owner: results.org,
+            repo: results.configRepo,
+            title: getAuditIssueTitle(),
+            body: formatAuditIssueBody(results),
+            labels: [getAuditIssueLabel()],
+          },
+          token
+        )
+      : await closeResolvedIssue(
+          {
+            owner: results.org,
+            repo: results.configRepo,
+            label: getAuditIssueLabel(),
+            kind: "audit-summary",
+            scan: "drift audit",
+            scanTime: results.timestamp,
+          },
+          token
+        );
+
+  if (issue) {
+    results.issueNumber = issue.number;
+    results.issueUrl = issue.html_url;
+    results.issueAction = issue.action;
+  }
+}
+
+interface RunAuditOptions {
+  org: string;
+  configRepo: string;
+  token: string;
+  threshold: number;
+  json: boolean;
+}
+
+/**
+ * Audit all repos in an organization for open drift issues.
+ */
+async function runAudit(options: RunAuditOptions): Promise<AuditResults> {
+  const { org, configRepo, token, threshold, json } = options;
+
+  if (!json) {
+    console.log(`Fetching repos for ${org}...`);
+  }
+  const { repos } = await listRepos(org, token);
+  const repoNames = repos.map((r) => r.name).filter((n) => n !== configRepo);
+
+  if (!json) {
+    console.log(
+      `Auditing ${repoNames.length} repos for open drift issues (threshold: ${threshold})\n`
+    );
+  }
+
+  const repoResults = await parallelLimit(repoNames, (repoName) =>
+    auditRepo({ org, repoName, token, threshold })
+  );
+
+  const results: AuditResults = {
+    org,
+    configRepo,
+    timestamp: new Date().toISOString(),
+    threshold,
+    teams: [],
+    summary: {
+      reposAudited: 0,
+      reposOverThreshold: 0,
+      reposSkipped: 0,
+      openDriftIssues: 0,
+    },
+  };
+
+  const overThreshold: AuditRepoResult[] = [];
+  for (const result of repoResults) {
+    if ("error" in result) {
+      results.summary.reposSkipped++;
+      if (!json) {
+        console.log(
+          `${COLORS.yellow}⚠ ${result.repo} skipped (${result.error})${COLORS.reset}`
+        );
+      }
+      continue;
+    }
+    results.summary.reposAudited++;
+    results.summary.openDriftIssues += result.issues.length;
+    if (result.issues.length >= threshold) {
+      overThreshold.push(result);
+    }
+  }
+  results.summary.reposOverThreshold = overThreshold.length;
+  results.teams = groupByTeam(overThreshold);
+
+  return results;
+}
+
+export async function audit(options: AuditOptions): Promise<void> {
+  const { org, json, dryRun } = options;
+  const configRepo = options.configRepo ?? DEFAULTS.configRepo;
+  const threshold = parseInt(
+    options.threshold ?? String(DEFAULTS.auditThreshold),
+    10
+  );
+
+  if (!org) {
+    const errorMsg = "--org must be specified";
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+
+  if (Number.isNaN(threshold) || threshold < 1) {
+    const errorMsg = "--threshold must be a positive number";
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+
+  configureGitHubUrl(options.githubUrl);
+  const token =
+    getGitHubToken(options.githubToken) ?? (await getGitHubAppToken(org));
+  if (!token) {
+    const errorMsg =
+      "GitHub token required. Set GITHUB_TOKEN environment variable or use --github-token";
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+
+  if (!json) {
+    console.log(`Drift v${version}`);
+  }
+
+  try {
+    const results = await runAudit({
+      org,
+      configRepo,
+      token,
+      threshold,
+      json: json ?? false,
+    });
+
+    if (dryRun) {
+      if (!json && results.summary.reposOverThreshold > 0) {
+        console.log(
+          `\n${COLORS.yellow}[DRY RUN] Would file audit issue in ${org}/${configRepo}${COLORS.reset}`
+        );
+      }
+    } else {
+      await syncAuditIssue(results, token);
+    }
+
+    if (json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      printResults(results);
+    }
+
+    if (results.summary.reposOverThreshold > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    const errorMsg = getErrorMessage(error);
+    console.error(`\n${COLORS.red}Error: ${errorMsg}${COLORS.reset}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,32 @@
+import { Command } from "commander";
+import { audit } from "./audit.js";
+import { DEFAULTS } from "../../constants.js";
+
+/**
+ * Register audit commands on the given program
+ */
+export function registerAuditCommands(program: Command): void {
+  program
+    .command("run", { isDefault: true })
+    .description(
+      "Summarize repos with outstanding drift issues in the config repo"
+    )
+    .option("-o, --org <org>", "GitHub organization or username to audit")
+    .option("--config-repo <repo>", "Config repo name (default: drift-config)")
+    .option(
+      "--github-token <token>",
+      "GitHub token (or set GITHUB_TOKEN env var)"
+    )
+    .option(
+      "--github-url <url>",
+      "GitHub Enterprise Server URL (default: https://github.com)"
+    )
+    .option(
+      "--threshold <count>",
+      `Open drift issues before a repo is reported (default: ${DEFAULTS.auditThreshold})`,
+      String(DEFAULTS.auditThreshold)
+    )
+    .option("--json", "Output results as JSON")
+    .option("-n, --dry-run", "Show what issue would be filed without filing it")
+    .action(audit);
+}
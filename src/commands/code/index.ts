@@ -20,11 +20,32 @@ export function registerCodeCommands(program: Command): void {
       "--github-token <token>",
       "GitHub token (or set GITHUB_TOKEN env var)"
     )
+    .option(
+      "--github-url <url>",
+      "GitHub Enterprise Server URL (default: https://github.com)"
+    )
     .option("--json", "Output results as JSON")
+    .option(
+      "--format <format>",
+      "Output format: text, json or sarif (default: text)"
+    )
     .option(
       "-n, --dry-run",
       "Show what issues would be created without creating them"
     )
+    .option(
+      "--base <ref>",
+      "Diff dependency files from this commit or branch (default: HEAD~1, local scan only)"
+    )
+    .option(
+      "--head <ref>",
+      "Report dependency file changes between --base and this ref, without failing the scan"
+    )
+    .option(
+      "--pr <number>",
+      "Report the dependency file changes a pull request introduces and comment on it",
+      (value) => parseInt(value, 10)
+    )
     .option(
       "-a, --all",
       "Scan all repos regardless of commit activity (org scan only)"
@@ -34,5 +55,21 @@ export function registerCodeCommands(program: Command): void {
       "Hours to look back for commits (default: 24, org scan only)",
       (value) => parseInt(value, 10)
     )
+    .option(
+      "--state-file <path>",
+      "Local JSON file recording the last scanned commit per repo (org scan only)"
+    )
+    .option(
+      "--close-resolved",
+      "Close drift issues whose drift is no longer detected (org scan only)"
+    )
+    .option(
+      "--no-cache",
+      "Do not cache GitHub API responses on disk (org scan only)"
+    )
+    .option(
+      "--clone-cache <dir>",
+      "Keep repo clones in this directory and fetch updates on later scans (org scan only)"
+    )
     .action(scan);
 }
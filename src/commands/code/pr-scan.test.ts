@@ -0,0 +1,213 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type MockInstance,
+} from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Mock the cm-backed dependency lookup before imports
+vi.mock("../../repo/dependencies.js", () => ({
+  getDependencies: vi.fn(() => ({
+    files: ["tsconfig.json"],
+    byCheck: { "types.tsc": ["tsconfig.json"] },
+    alwaysTracked: [".github/workflows/*.yml", "check.toml"],
+  })),
+}));
+
+// Import after mocking
+import * as apiUtils from "../../github/api-utils.js";
+import { scan } from "./scan.js";
+import type { PullRequestScanResult } from "./pr-scan.js";
+
+describe("code scan (pre-merge)", () => {
+  let repoDir: string;
+  let output: string[];
+  let mockExit: ReturnType<typeof vi.spyOn>;
+  let mockFetchWithRetry: MockInstance<typeof apiUtils.fetchWithRetry>;
+
+  function git(args: string): string {
+    return execSync(`git ${args}`, { cwd: repoDir, stdio: "pipe" })
+      .toString()
+      .trim();
+  }
+
+  function commit(file: string, content: string): void {
+    writeFileSync(join(repoDir, file), content);
+    git(`add . && git commit --quiet -m "Update ${file}"`);
+  }
+
+  function jsonResult(): PullRequestScanResult {
+    return JSON.parse(output.join("\n")) as PullRequestScanResult;
+  }
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), "drift-pr-scan-"));
+    git("init --quiet -b main");
+    git("config user.email test@example.com");
+    git("config user.name Test");
+    git("remote add origin https://github.com/test-org/test-repo.git");
+    commit("check.toml", "[code.types.tsc]\nenabled = true\n");
+    commit("tsconfig.json", '{ "compilerOptions": { "strict": true } }\n');
+    git("checkout --quiet -b feature");
+    commit("check.toml", "[code.types.tsc]\nenabled = false\n");
+    git("checkout --quiet main");
+    // Merged into main after the branch was cut: not part of the PR
+    commit("tsconfig.json", '{ "compilerOptions": { "strict": false } }\n');
+
+    mockFetchWithRetry = vi.spyOn(apiUtils, "fetchWithRetry");
+    output = [];
+    vi.spyOn(console, "log").mockImplementation((line: string) => {
+      output.push(line);
+    });
+    mockExit = vi
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("reports changes between the merge base and --head without failing", async () => {
+    await scan({ path: repoDir, json: true, base: "main", head: "feature" });
+
+    const result = jsonResult();
+    expect(result.repository).toBe("test-org/test-repo");
+    expect(result.baseCommit).toBe(git("merge-base main feature"));
+    expect(result.headCommit).toBe(git("rev-parse feature"));
+    expect(result.dependencyChanges?.changes.map((c) => c.file)).toEqual([
+      "check.toml",
+    ]);
+    expect(result.dependencyChanges?.impact).toBe("weakening");
+    expect(result.commentUrl).toBeUndefined();
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it("deepens a shallow checkout to find the merge base", async () => {
+    const mergeBase = git("merge-base main feature");
+    const cloneDir = mkdtempSync(join(tmpdir(), "drift-pr-scan-shallow-"));
+    try {
+      execSync(
+        `git clone --quiet --depth=1 --no-single-branch file://${repoDir} ${cloneDir}`,
+        { stdio: "pipe" }
+      );
+
+      await scan({
+        path: cloneDir,
+        json: true,
+        base: "origin/main",
+        head: "origin/feature",
+      });
+
+      const result = jsonResult();
+      expect(result.baseCommit).toBe(mergeBase);
+      expect(result.warnings).toBeUndefined();
+      expect(result.dependencyChanges?.changes.map((c) => c.file)).toEqual([
+        "check.toml",
+      ]);
+    } finally {
+      rmSync(cloneDir, { recursive: true, force: true });
+    }
+  });
+
+  it("warns that the range is approximate without a merge base", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    git("checkout --quiet --orphan unrelated");
+    commit("check.toml", "[code.types.tsc]\nenabled = false\n");
+
+    await scan({ path: repoDir, json: true, base: "main", head: "unrelated" });
+
+    const result = jsonResult();
+    expect(result.baseCommit).toBe(git("rev-parse main"));
+    expect(result.warnings).toEqual([
+      expect.stringContaining("No merge base found"),
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Warning: No merge base found")
+    );
+  });
+
+  it("requires a base for --head", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await scan({ path: repoDir, json: true, head: "feature" });
+
+    expect(console.error).toHaveBeenCalledWith(
+      "Error: --head requires --base or --pr"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("compares a pull request's commits and comments on it", async () => {
+    mockFetchWithRetry
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            number: 7,
+            html_url: "https://github.com/test-org/test-repo/pull/7",
+            base: { sha: git("rev-parse main") },
+            head: { sha: git("rev-parse feature") },
+          })
+        )
+      )
+      .mockResolvedValueOnce(new Response("[]"))
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            id: 1,
+            html_url:
+              "https://github.com/test-org/test-repo/pull/7#issuecomment-1",
+          }),
+          { status: 201 }
+        )
+      );
+
+    await scan({ path: repoDir, json: true, pr: 7, githubToken: "token" });
+
+    const result = jsonResult();
+    expect(result.pullRequest).toBe(7);
+    expect(result.dependencyChanges?.changes.map((c) => c.file)).toEqual([
+      "check.toml",
+    ]);
+    expect(result.commentUrl).toBe(
+      "https://github.com/test-org/test-repo/pull/7#issuecomment-1"
+    );
+    const [, init] = mockFetchWithRetry.mock.calls[2];
+    const { body } = JSON.parse(init?.body as string) as { body: string };
+    expect(body).toContain("<!-- drift-toolkit:pr-comment -->");
+    expect(body).toContain("weakens code standards");
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it("does not comment with --dry-run", async () => {
+    mockFetchWithRetry.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          number: 7,
+          html_url: "https://github.com/test-org/test-repo/pull/7",
+          base: { sha: git("rev-parse main") },
+          head: { sha: git("rev-parse feature") },
+        })
+      )
+    );
+
+    await scan({
+      path: repoDir,
+      pr: 7,
+      githubToken: "token",
+      dryRun: true,
+    });
+
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
+    expect(output).toContain("Pull request: #7");
+    expect(output).toContain("⚠ DEPENDENCY FILE CHANGES (weakening)");
+  });
+});
@@ -0,0 +1,282 @@
+import { basename } from "path";
+import { DEFAULTS } from "../../constants.js";
+import { getGitHubToken } from "../../github/client.js";
+import { formatPullRequestComment } from "../../github/issue-formatter.js";
+import { detectDependencyChangesBetween } from "../../github/org-scanner.js";
+import {
+  getPullRequest,
+  upsertPullRequestComment,
+} from "../../github/pull-requests.js";
+import { getOriginRepo } from "../../repo/changes.js";
+import type { OutputFormat } from "../../output/format.js";
+import { formatSarif, getCodeScanFindings } from "../../output/sarif.js";
+import type { DependencyChangesDetection } from "../../types.js";
+import { actionsOutput, getErrorMessage } from "../../utils/index.js";
+import { execGit } from "../../utils/git.js";
+import { version } from "../../version.js";
+
+export interface PullRequestScanResult {
+  repository: string;
+  pullRequest?: number;
+  baseCommit: string; // Merge base of the base and head refs
+  headCommit: string;
+  dependencyChanges?: DependencyChangesDetection;
+  commentUrl?: string; // Drift's pull request comment, once posted
+  warnings?: string[]; // e.g. no merge base, so the range is approximate
+}
+
+export interface PullRequestScanOptions {
+  targetPath: string;
+  format: OutputFormat;
+  pr?: number;
+  base?: string;
+  head?: string;
+  githubToken?: string;
+  dryRun?: boolean;
+}
+
+interface CommitRange {
+  pullRequest?: number;
+  base: string;
+  head: string;
+  approximate?: boolean; // No merge base: base is the base commit itself
+}
+
+/** Resolve a ref to a commit SHA, fetching it from origin if missing. */
+function resolveCommit(targetPath: string, ref: string, label: string): string {
+  const verify = (): string =>
+    ref.startsWith("-")
+      ? ""
+      : execGit(targetPath, `rev-parse --verify --quiet ${ref}^{commit}`);
+  let sha = verify();
+  if (!sha && /^[0-9a-f]{40}$/.test(ref)) {
+    // PR commits are often missing from shallow CI checkouts
+    execGit(targetPath, `fetch --quiet --no-tags origin ${ref}`);
+    sha = verify();
+  }
+  if (!sha) {
+    throw new Error(`${label} ref not found: ${ref}`);
+  }
+  return sha;
+}
+
+/**
+ * Find the merge base of two commits. Shallow CI checkouts often stop short
+ * of it, so their history is deepened step by step, then fetched in full,
+ * until it is found.
+ *
+ * @returns The merge base, or null if none is found
+ */
+function findMergeBase(
+  targetPath: string,
+  baseCommit: string,
+  headCommit: string
+): string | null {
+  const mergeBase = () =>
+    execGit(targetPath, `merge-base ${baseCommit} ${headCommit}`) || null;
+  const isShallow = () =>
+    execGit(targetPath, "rev-parse --is-shallow-repository") === "true";
+  const fetchArgs = `fetch --quiet --no-tags origin ${baseCommit} ${headCommit}`;
+  let sha = mergeBase();
+  for (const depth of DEFAULTS.mergeBaseDeepenSteps) {
+    if (sha || !isShallow()) {
+      return sha;
+    }
+    execGit(targetPath, `${fetchArgs} --deepen=${depth}`);
+    sha = mergeBase();
+  }
+  if (!sha && isShallow()) {
+    execGit(targetPath, `${fetchArgs} --unshallow`);
+    sha = mergeBase();
+  }
+  return sha;
+}
+
+/**
+ * Resolve the commits to compare: the pull request's base and head, unless
+ * --base/--head override them. Like GitHub's pull request diff, the range
+ * starts at the merge base, so commits since merged into the base branch
+ * are not reported. Without a merge base, the range starts at the base
+ * commit and is marked approximate.
+ */
+async function resolveRange(
+  options: PullRequestScanOptions,
+  repository: { owner: string; repo: string } | null,
+  token: string | undefined
+): Promise<CommitRange> {
+  const { targetPath, pr } = options;
+  let base = options.base;
+  let head = options.head;
+  if (pr !== undefined && !(Number.isInteger(pr) && pr > 0)) {
+    throw new Error(`Invalid pull request number: ${pr}`);
+  }
+  if (pr !== undefined) {
+    if (!repository) {
+      throw new Error(
+        `Cannot determine the GitHub repository from the origin remote of ${targetPath}`
+      );
+    }
+    if (!token) {
+      throw new Error(
+        "GitHub token required for --pr. Set GITHUB_TOKEN environment variable or use --github-token"
+      );
+    }
+    const pullRequest = await getPullRequest(
+      repository.owner,
+      repository.repo,
+      pr,
+      token
+    );
+    base ??= pullRequest.baseSha;
+    head ??= pullRequest.headSha;
+  }
+  if (!base) {
+    throw new Error("--head requires --base or --pr");
+  }
+  const headCommit = resolveCommit(targetPath, head ?? "HEAD", "Head");
+  const baseCommit = resolveCommit(targetPath, base, "Base");
+  const mergeBase = findMergeBase(targetPath, baseCommit, headCommit);
+  return {
+    pullRequest: pr,
+    base: mergeBase ?? baseCommit,
+    head: headCommit,
+    ...(mergeBase ? {} : { approximate: true }),
+  };
+}
+
+/** Print the changes a pull request introduces */
+function printPullRequestResults(
+  targetPath: string,
+  result: PullRequestScanResult
+): void {
+  console.log(`Drift v${version}`);
+  console.log(`Target: ${targetPath}`);
+  if (result.pullRequest !== undefined) {
+    console.log(`Pull request: #${result.pullRequest}`);
+  }
+  console.log(
+    `Commits: ${result.baseCommit.slice(0, 7)}...${result.headCommit.slice(0, 7)}`
+  );
+  console.log("");
+
+  const detection = result.dependencyChanges;
+  if (!detection) {
+    console.log("✓ No dependency file changes");
+  } else {
+    printDependencyChanges(detection);
+  }
+  if (result.commentUrl) {
+    console.log(`\nPull request comment: ${result.commentUrl}`);
+  }
+}
+
+/** Print each changed file with its key-by-key changes */
+function printDependencyChanges(detection: DependencyChangesDetection): void {
+  const weakening = detection.impact === "weakening" ? " (weakening)" : "";
+  console.log(`⚠ DEPENDENCY FILE CHANGES${weakening}`);
+  console.log("─".repeat(50));
+  for (const change of detection.changes) {
+    console.log(`  ${change.file} (${change.status})`);
+    for (const c of change.checkTomlChanges ?? []) {
+      const impact = c.impact === "neutral" ? "" : ` (${c.impact})`;
+      console.log(`    • ${c.description}${impact}`);
+    }
+    for (const c of change.configChanges ?? []) {
+      console.log(`    • ${c.description}`);
+    }
+  }
+  for (const finding of detection.workflowFindings ?? []) {
+    console.log(
+      `  ⚠ [${finding.severity}] ${finding.file}: ${finding.message}`
+    );
+  }
+  actionsOutput.warning(
+    `Dependency file changes: ${detection.changes.map((c) => c.file).join(", ")}`
+  );
+}
+
+/**
+ * Post or update drift's comment on the pull request. A pull request
+ * without dependency file changes only updates an earlier comment.
+ *
+ * @returns The comment URL, or undefined if nothing was posted
+ */
+async function commentOnPullRequest(
+  repository: { owner: string; repo: string },
+  prNumber: number,
+  detection: DependencyChangesDetection | null,
+  token: string
+): Promise<string | undefined> {
+  const comment = await upsertPullRequestComment(
+    {
+      owner: repository.owner,
+      repo: repository.repo,
+      prNumber,
+      body: formatPullRequestComment(detection),
+      create: detection !== null,
+    },
+    token
+  );
+  return comment?.html_url;
+}
+
+/**
+ * Report the dependency file and check.toml changes a pull request
+ * introduces, and post them as a pull request comment (unless --dry-run).
+ * Reviewers get visibility without the scan blocking the merge: it exits 0
+ * whatever the changes.
+ */
+export async function scanPullRequest(
+  options: PullRequestScanOptions
+): Promise<void> {
+  const { targetPath, format, pr, dryRun } = options;
+  const repository = getOriginRepo(targetPath);
+  const token = getGitHubToken(options.githubToken);
+
+  try {
+    const range = await resolveRange(options, repository, token);
+    const detection = detectDependencyChangesBetween({
+      org: repository?.owner ?? "local",
+      repoName: repository?.repo ?? basename(targetPath),
+      repoDir: targetPath,
+      baseCommit: range.base,
+      headCommit: range.head,
+    });
+    const result: PullRequestScanResult = {
+      repository: repository
+        ? `${repository.owner}/${repository.repo}`
+        : basename(targetPath),
+      pullRequest: range.pullRequest,
+      baseCommit: range.base,
+      headCommit: range.head,
+      dependencyChanges: detection ?? undefined,
+    };
+    if (range.approximate) {
+      const warning = `No merge base found for ${range.base.slice(0, 7)}...${range.head.slice(0, 7)}: the changes are compared with the base commit, so they may include changes since made to the base branch`;
+      result.warnings = [warning];
+      console.warn(`Warning: ${warning}`);
+    }
+    if (pr !== undefined && repository && token && !dryRun) {
+      result.commentUrl = await commentOnPullRequest(
+        repository,
+        pr,
+        detection,
+        token
+      );
+    }
+
+    if (format === "sarif") {
+      const findings = getCodeScanFindings(result.repository, result);
+      console.log(JSON.stringify(formatSarif(findings), null, 2));
+    } else if (format === "json") {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printPullRequestResults(targetPath, result);
+    }
+  } catch (error) {
+    const errorMsg = getErrorMessage(error);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+  }
+}
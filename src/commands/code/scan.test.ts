@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+
+// Mock the cm-backed detectors before imports
+vi.mock("../../repo/project-detection.js", () => ({
+  detectMissingProjects: vi.fn(() => []),
+}));
+
+vi.mock("../../repo/tier-validation.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../repo/tier-validation.js")>();
+  return { ...actual, validateTierRuleset: vi.fn(() => null) };
+});
+
+vi.mock("../../repo/dependencies.js", () => ({
+  getDependencies: vi.fn(() => ({
+    files: ["tsconfig.json"],
+    byCheck: { "types.tsc": ["tsconfig.json"] },
+    alwaysTracked: [".github/workflows/*.yml", "check.toml"],
+  })),
+}));
+
+// Import after mocking
+import { detectMissingProjects } from "../../repo/project-detection.js";
+import { scan } from "./scan.js";
+import type { RepoScanResult } from "../../types.js";
+
+describe("code scan (local)", () => {
+  let repoDir: string;
+  let output: string[];
+  let mockExit: ReturnType<typeof vi.spyOn>;
+
+  function git(args: string): void {
+    execSync(`git ${args}`, { cwd: repoDir, stdio: "pipe" });
+  }
+
+  function commit(file: string, content: string): void {
+    writeFileSync(join(repoDir, file), content);
+    git(`add . && git commit --quiet -m "Update ${file}"`);
+  }
+
+  function jsonResult(): RepoScanResult {
+    return JSON.parse(output.join("\n")) as RepoScanResult;
+  }
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), "drift-local-scan-"));
+    git("init --quiet -b main");
+    git("config user.email test@example.com");
+    git("config user.name Test");
+    git("remote add origin https://github.com/test-org/test-repo.git");
+    commit("repo-metadata.yaml", "tier: production\n");
+    commit("check.toml", "[code.types.tsc]\nenabled = true\n");
+    commit("tsconfig.json", '{ "compilerOptions": { "strict": true } }\n');
+
+    output = [];
+    vi.spyOn(console, "log").mockImplementation((line: string) => {
+      output.push(line);
+    });
+    mockExit = vi
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("runs the detectors and prints a RepoScanResult", async () => {
+    git("branch base");
+    commit("tsconfig.json", '{ "compilerOptions": { "strict": false } }\n');
+    commit("check.toml", "[code.types.tsc]\nenabled = false\n");
+
+    await scan({ path: repoDir, json: true, base: "base" });
+
+    const result = jsonResult();
+    expect(result.repo).toBe("test-repo");
+    expect(detectMissingProjects).toHaveBeenCalledWith(repoDir);
+    expect(result.dependencyChanges?.commitUrl).toMatch(
+      /^https:\/\/github\.com\/test-org\/test-repo\/commit\//
+    );
+    expect(result.dependencyChanges?.changes.map((c) => c.file).sort()).toEqual(
+      ["check.toml", "tsconfig.json"]
+    );
+    expect(result.dependencyChanges?.impact).toBe("weakening");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("diffs from the previous commit by default", async () => {
+    commit("README.md", "# Test\n");
+
+    await scan({ path: repoDir, json: true });
+
+    const result = jsonResult();
+    expect(result.dependencyChanges).toBeUndefined();
+    expect(result.warnings).toBeUndefined();
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it("reports invalid check.toml files as warnings", async () => {
+    commit("check.toml", "[code\n");
+
+    await scan({ path: repoDir, json: true });
+
+    expect(jsonResult().warnings).toEqual([
+      expect.stringContaining("Invalid TOML in check.toml"),
+    ]);
+  });
+
+  it("names the origin repo in SARIF output", async () => {
+    git("branch base");
+    commit("check.toml", "[code.types.tsc]\nenabled = false\n");
+
+    await scan({ path: repoDir, format: "sarif", base: "base" });
+
+    const sarif = JSON.parse(output.join("\n"));
+    expect(sarif.runs[0].results).toEqual([
+      expect.objectContaining({
+        properties: { repository: "test-org/test-repo" },
+      }),
+    ]);
+  });
+
+  it("names the directory in SARIF output without an origin remote", async () => {
+    git("remote remove origin");
+    git("branch base");
+    commit("check.toml", "[code.types.tsc]\nenabled = false\n");
+
+    await scan({ path: repoDir, format: "sarif", base: "base" });
+
+    const sarif = JSON.parse(output.join("\n"));
+    expect(sarif.runs[0].results[0].properties).toEqual({
+      repository: basename(repoDir),
+    });
+  });
+
+  it("rejects unknown base refs", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await scan({ path: repoDir, json: true, base: "no-such-branch" });
+
+    expect(console.error).toHaveBeenCalledWith(
+      "Error: Base ref not found: no-such-branch"
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(output).toEqual([]);
+  });
+});
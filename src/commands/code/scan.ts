@@ -1,9 +1,17 @@
-import { resolve } from "path";
+import { basename, resolve } from "path";
 import { existsSync } from "fs";
 import { loadConfig, findConfigPath } from "../../config/loader.js";
-import { scanOrg } from "../../github/org-scanner.js";
+import { configureApiCache, configureGitHubUrl } from "../../github/client.js";
+import { configureCloneCache } from "../../github/clone-cache.js";
+import {
+  printRepoFindings,
+  repoHasIssues,
+  runCodeChecks,
+  scanOrg,
+} from "../../github/org-scanner.js";
 import { version } from "../../version.js";
 import { actionsOutput } from "../../utils/index.js";
+import { execGit } from "../../utils/git.js";
 import {
   hasMetadata,
   hasCheckToml,
@@ -11,6 +19,14 @@ import {
   findCheckTomlFiles,
 } from "../../repo/detection.js";
 import { validateCheckToml } from "../../repo/check-toml.js";
+import { getOriginRepo } from "../../repo/changes.js";
+import type { DriftConfig, RepoScanResult } from "../../types.js";
+import {
+  getInvalidFormatMessage,
+  resolveOutputFormat,
+} from "../../output/format.js";
+import { formatSarif, getCodeScanFindings } from "../../output/sarif.js";
+import { scanPullRequest } from "./pr-scan.js";
 
 export interface ScanOptions {
   org?: string;
@@ -19,17 +35,29 @@ export interface ScanOptions {
   config?: string;
   configRepo?: string;
   githubToken?: string;
+  githubUrl?: string; // GitHub Enterprise Server URL (org scan only)
   json?: boolean;
+  format?: string; // text, json or sarif
   dryRun?: boolean;
   all?: boolean; // Skip commit window filter (scan all repos)
   since?: number; // Hours to look back for commits (default: 24)
+  stateFile?: string; // Local scan state file (overrides config repo state)
+  closeResolved?: boolean; // Close issues for drift no longer detected
+  cache?: boolean; // false with --no-cache (org scan only)
+  cloneCache?: string; // Persistent clone cache directory (org scan only)
+  base?: string; // Ref to diff dependency files from (local scan only)
+  head?: string; // Ref to diff dependency files to (pre-merge mode)
+  pr?: number; // Pull request to report and comment on (pre-merge mode)
 }
 
 /**
  * Validate that required repo files exist and are valid.
  * Returns warnings for missing or empty files.
  */
-function validateRepoFiles(targetPath: string): string[] {
+function validateRepoFiles(
+  targetPath: string,
+  allowedTiers?: string[]
+): string[] {
   const warnings: string[] = [];
 
   // Check for repo-metadata.yaml
@@ -39,7 +67,7 @@ function validateRepoFiles(targetPath: string): string[] {
     );
   } else {
     // Check for empty metadata (has file but no content)
-    const metadataResult = getRepoMetadata(targetPath);
+    const metadataResult = getRepoMetadata(targetPath, allowedTiers);
     if (metadataResult.metadata === null) {
       // File exists but couldn't be parsed (empty or read error)
       if (metadataResult.warnings.length > 0) {
@@ -89,12 +117,9 @@ function printRepoFileWarnings(warnings: string[]): void {
 /**
  * Print help message when no config is found
  */
-function printNoConfigHelp(targetPath: string): void {
-  console.log(`Drift v${version}`);
-  console.log(`Target: ${targetPath}`);
-  console.log("");
+function printNoConfigHelp(): void {
   console.log(
-    "No drift.config.yaml found. Create one to configure drift detection."
+    "No drift.config.yaml found. Create one to validate repo-metadata.yaml against a schema."
   );
   console.log("");
   console.log("Example drift.config.yaml:");
@@ -103,20 +128,113 @@ function printNoConfigHelp(targetPath: string): void {
   console.log("      - production");
   console.log("      - staging");
   console.log("      - development");
+  console.log("");
+}
+
+/**
+ * Resolve the commit a local scan diffs dependency files from: the --base
+ * ref, or the previous commit by default.
+ *
+ * @returns The commit SHA, or null if --base is not a commit
+ */
+function resolveLocalBase(targetPath: string, base?: string): string | null {
+  if (!base) {
+    return "HEAD~1";
+  }
+  if (base.startsWith("-")) {
+    return null;
+  }
+  return (
+    execGit(targetPath, `rev-parse --verify --quiet ${base}^{commit}`) || null
+  );
+}
+
+/** Name a local checkout `owner/repo` after its origin remote, or its directory. */
+function getLocalRepoName(targetPath: string): string {
+  const origin = getOriginRepo(targetPath);
+  return origin ? `${origin.owner}/${origin.repo}` : basename(targetPath);
+}
+
+/**
+ * Run the code checks against a local checkout, as org scans do for each
+ * repo. Links in findings point at the origin remote's repo.
+ */
+function scanLocalRepo(
+  targetPath: string,
+  config: DriftConfig | null,
+  baseCommit: string
+): RepoScanResult {
+  const origin = getOriginRepo(targetPath);
+  const result = runCodeChecks({
+    org: origin?.owner ?? "local",
+    repoName: origin?.repo ?? basename(targetPath),
+    repoDir: targetPath,
+    config: config ?? {},
+    baseCommit,
+  });
+  const warnings = validateRepoFiles(targetPath, config?.schema?.tiers);
+  if (warnings.length > 0) {
+    result.warnings = warnings;
+  }
+  return result;
+}
+
+/**
+ * Print local scan results
+ */
+function printLocalResults(
+  targetPath: string,
+  config: DriftConfig | null,
+  result: RepoScanResult
+): void {
+  console.log(`Drift v${version}`);
+  console.log(`Target: ${targetPath}`);
+  console.log("");
+  if (!config) {
+    printNoConfigHelp();
+  }
+  printRepoFileWarnings(result.warnings ?? []);
+
+  if (repoHasIssues(result)) {
+    console.log("✗ DRIFT DETECTED");
+    console.log("─".repeat(50));
+    printRepoFindings(result);
+    console.log("");
+    actionsOutput.error(`Drift detected in ${targetPath}`);
+  } else {
+    console.log("✓ Repository validated");
+    actionsOutput.notice("Repository validated");
+  }
 }
 
 export async function scan(options: ScanOptions): Promise<void> {
+  const format = resolveOutputFormat(options);
+  if (!format) {
+    const errorMsg = getInvalidFormatMessage(options.format);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+  const json = format !== "text";
+
   // GitHub org scanning mode
   if (options.org) {
+    configureGitHubUrl(options.githubUrl);
+    configureApiCache(options.cache !== false);
+    configureCloneCache(options.cloneCache);
     await scanOrg({
       org: options.org,
       repo: options.repo,
       configRepo: options.configRepo,
       token: options.githubToken,
-      json: options.json,
+      json,
+      format,
       dryRun: options.dryRun,
       all: options.all,
       since: options.since,
+      stateFile: options.stateFile,
+      closeResolved: options.closeResolved,
     });
     return;
   }
@@ -148,38 +266,47 @@ export async function scan(options: ScanOptions): Promise<void> {
     return;
   }
 
+  // Pre-merge mode: report what a pull request or --base/--head range changes
+  if (options.pr !== undefined || options.head) {
+    await scanPullRequest({
+      targetPath,
+      format,
+      pr: options.pr,
+      base: options.base,
+      head: options.head,
+      githubToken: options.githubToken,
+      dryRun: options.dryRun,
+    });
+    return;
+  }
+
   // Load configuration
   const configPath = options.config
     ? resolve(options.config)
     : findConfigPath(targetPath);
   const config = configPath ? loadConfig(targetPath) : null;
 
-  if (!config && !options.json) {
-    printNoConfigHelp(targetPath);
+  const baseCommit = resolveLocalBase(targetPath, options.base);
+  if (!baseCommit) {
+    const errorMsg = `Base ref not found: ${options.base}`;
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
     return;
   }
 
-  // Validate required repo files (repo-metadata.yaml, check.toml)
-  if (!options.json) {
-    const repoFileWarnings = validateRepoFiles(targetPath);
-    if (repoFileWarnings.length > 0) {
-      printRepoFileWarnings(repoFileWarnings);
-    }
-  }
+  const result = scanLocalRepo(targetPath, config, baseCommit);
 
-  // Print scan info
-  if (!options.json) {
-    console.log(`Drift v${version}`);
-    console.log(`Target: ${targetPath}`);
-    console.log("");
-    console.log("✓ Repository validated");
-    actionsOutput.notice("Repository validated");
+  if (format === "sarif") {
+    const findings = getCodeScanFindings(getLocalRepoName(targetPath), result);
+    console.log(JSON.stringify(formatSarif(findings), null, 2));
+  } else if (json) {
+    console.log(JSON.stringify(result, null, 2));
   } else {
-    console.log(
-      JSON.stringify({
-        path: targetPath,
-        timestamp: new Date().toISOString(),
-      })
-    );
+    printLocalResults(targetPath, config, result);
+  }
+
+  if (repoHasIssues(result)) {
+    process.exit(1);
   }
 }
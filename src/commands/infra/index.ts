@@ -15,6 +15,10 @@ export function registerInfraCommands(program: Command): void {
       "Organization or user to discover repos with [infra] config"
     )
     .option("--json", "Output results as JSON")
+    .option(
+      "--format <format>",
+      "Output format: text, json or sarif (default: text)"
+    )
     .option(
       "-n, --dry-run",
       "Show what issues would be created without creating them"
@@ -28,5 +32,29 @@ export function registerInfraCommands(program: Command): void {
       `Only scan repos with commits in the last N hours (default: ${DEFAULTS.commitWindowHours})`,
       String(DEFAULTS.commitWindowHours)
     )
+    .option(
+      "--config-repo <repo>",
+      "Config repo with notification settings (default: drift-config, with --org)"
+    )
+    .option(
+      "--github-url <url>",
+      "GitHub Enterprise Server URL (default: https://github.com)"
+    )
+    .option(
+      "--discovery <backend>",
+      "Repo discovery backend: rest or graphql (default: rest, with --org)"
+    )
+    .option(
+      "--close-resolved",
+      "Close drift issues whose drift is no longer detected (with --org)"
+    )
+    .option(
+      "--no-cache",
+      "Do not cache GitHub API responses on disk (with --org)"
+    )
+    .option(
+      "--clone-cache <dir>",
+      "Keep repo clones in this directory and fetch updates on later scans"
+    )
     .action(scan);
 }
@@ -6,19 +6,43 @@ import {
 import { version } from "../../version.js";
 import { actionsOutput, COLORS } from "../../utils/index.js";
 import {
-  createIssue,
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  describeSyncedIssue,
+  configureApiCache,
+  evictUnlistedRepos,
+  configureGitHubUrl,
+  getGitHubAppToken,
   getGitHubToken,
-  cloneRepo,
-  createTempDir,
-  removeTempDir,
+  checkoutRepo,
 } from "../../github/client.js";
+import {
+  configureCloneCache,
+  type RepoCheckout,
+} from "../../github/clone-cache.js";
 import { discoverInfraRepos } from "../../github/infra-repo-discovery.js";
+import {
+  getInvalidDiscoveryMessage,
+  parseDiscoveryBackend,
+} from "../../github/graphql-discovery.js";
+import {
+  formatHttpCacheStats,
+  getHttpCacheStats,
+} from "../../github/http-cache.js";
 import {
   formatInfraDriftIssueBody,
   getInfraDriftIssueTitle,
   getInfraDriftIssueLabel,
 } from "../../github/infra-issue-formatter.js";
-import { CONCURRENCY } from "../../constants.js";
+import { CONCURRENCY, DEFAULTS } from "../../constants.js";
+import { getRemoteDriftConfig } from "../../github/repo-checks.js";
+import { sendScanNotifications } from "../../notifications/notify.js";
+import {
+  getInvalidFormatMessage,
+  resolveOutputFormat,
+  type OutputFormat,
+} from "../../output/format.js";
+import { formatSarif, getInfraFindings } from "../../output/sarif.js";
 import type {
   InfraDriftDetection,
   InfraScanSummary,
@@ -26,6 +50,7 @@ import type {
   InfraRepoScanResult,
   InfraOrgScanResults,
   InfraOrgScanSummary,
+  DiscoveryBackend,
 } from "../../types.js";
 
 export interface InfraScanCommandOptions {
@@ -33,9 +58,16 @@ export interface InfraScanCommandOptions {
   org?: string;
   account?: string;
   json?: boolean;
+  format?: string; // text, json or sarif
   dryRun?: boolean;
   all?: boolean;
   since?: string;
+  closeResolved?: boolean;
+  configRepo?: string; // Config repo holding notification settings (with --org)
+  githubUrl?: string; // GitHub Enterprise Server URL
+  discovery?: string; // Repo discovery backend: rest or graphql
+  cache?: boolean; // false with --no-cache
+  cloneCache?: string; // Persistent clone cache directory
 }
 
 /**
@@ -105,13 +137,15 @@ function createEmptySummary(): InfraOrgScanSummary {
     reposWithDrift: 0,
     reposSkipped: 0,
     issuesCreated: 0,
+    issuesUpdated: 0,
+    issuesClosed: 0,
   };
 }
 
 /**
  * Check if drift was detected (missing resources or errors)
  */
-function hasDrift(detection: InfraDriftDetection): boolean {
+export function hasDrift(detection: InfraDriftDetection): boolean {
   return detection.summary.missing > 0 || detection.summary.errors > 0;
 }
 
@@ -180,6 +214,7 @@ function printResults(detection: InfraDriftDetection): void {
 interface SingleRepoScanOptions {
   repo: string;
   json: boolean;
+  format: OutputFormat;
   dryRun: boolean;
   token: string;
 }
@@ -191,25 +226,24 @@ interface SingleRepoScanOptions {
 async function scanSingleRepo(
   options: SingleRepoScanOptions
 ): Promise<boolean> {
-  const { repo, json, dryRun, token } = options;
+  const { repo, json, format, dryRun, token } = options;
   const [owner, repoName] = repo.split("/");
 
   if (!json) {
     console.log(`Scanning infrastructure for: ${repo}`);
   }
 
-  // Clone the repo to a temp directory
-  const tempDir = createTempDir(`infra-${repoName}`);
+  let checkout: RepoCheckout | null = null;
 
   try {
     if (!json) {
       console.log(`Cloning ${repo}...`);
     }
-    cloneRepo(owner, repoName, tempDir, token);
+    checkout = await checkoutRepo(owner, repoName, token);
 
     // Call check-my-toolkit's scanInfra with the cloned repo
     const scanOptions: ScanInfraOptions = {
-      configPath: tempDir,
+      configPath: checkout.dir,
     };
 
     const result = await scanInfra(scanOptions);
@@ -218,7 +252,11 @@ async function scanSingleRepo(
     const detection = mapToDetection(result, repo);
 
     // Output results
-    if (json) {
+    if (format === "sarif") {
+      console.log(
+        JSON.stringify(formatSarif(getInfraFindings(detection)), null, 2)
+      );
+    } else if (json) {
       console.log(JSON.stringify(detection, null, 2));
     } else {
       printResults(detection);
@@ -234,7 +272,7 @@ async function scanSingleRepo(
         }
         actionsOutput.warning(`Infrastructure drift detected in ${repo}`);
       } else {
-        const issueResult = await createIssue(
+        const issueResult = await createOrUpdateIssue(
           {
             owner,
             repo: repoName,
@@ -246,12 +284,12 @@ async function scanSingleRepo(
         );
         if (!json) {
           console.log(
-            `\n${COLORS.green}✓ Created issue #${issueResult.number}${COLORS.reset}`
+            `\n${COLORS.green}✓ ${describeSyncedIssue(issueResult)}${COLORS.reset}`
           );
           console.log(`  ${issueResult.html_url}`);
         }
         actionsOutput.notice(
-          `Created issue #${issueResult.number} for infrastructure drift`
+          `${describeSyncedIssue(issueResult)} for infrastructure drift`
         );
       }
       return true; // drift found
@@ -260,8 +298,7 @@ async function scanSingleRepo(
     actionsOutput.notice(`Infrastructure scan passed for ${repo}`);
     return false; // no drift
   } finally {
-    // Clean up temp directory
-    removeTempDir(tempDir);
+    checkout?.release();
   }
 }
 
@@ -269,34 +306,43 @@ interface ScanOrgReposOptions {
   org: string;
   token: string;
   json: boolean;
+  format: OutputFormat;
   dryRun: boolean;
   includeAll: boolean;
   sinceHours: number;
+  closeResolved: boolean;
+  configRepo: string;
+  discovery: DiscoveryBackend;
 }
 
-interface ScanRepoContext {
+export interface InfraRepoScanContext {
   repo: string;
+  repoDir?: string; // Existing checkout (default: clone to a temp directory)
   token: string;
   dryRun: boolean;
+  closeResolved: boolean;
+  scanTime: string;
 }
 
 /**
  * Scan a single repo for infrastructure drift (for parallel execution).
  */
-async function scanRepoForOrg(
-  ctx: ScanRepoContext
+export async function scanInfraRepo(
+  ctx: InfraRepoScanContext
 ): Promise<InfraRepoScanResult> {
-  const { repo, token, dryRun } = ctx;
+  const { repo, repoDir, token, dryRun, closeResolved, scanTime } = ctx;
   const [owner, repoName] = repo.split("/");
 
-  // Clone the repo to a temp directory
-  const tempDir = createTempDir(`infra-${repoName}`);
+  // Check out the repo unless a checkout was provided
+  let checkout: RepoCheckout | null = null;
 
   try {
-    cloneRepo(owner, repoName, tempDir, token);
+    if (!repoDir) {
+      checkout = await checkoutRepo(owner, repoName, token);
+    }
 
     const scanOptions: ScanInfraOptions = {
-      configPath: tempDir,
+      configPath: repoDir ?? checkout?.dir,
     };
 
     const result = await scanInfra(scanOptions);
@@ -312,7 +358,7 @@ async function scanRepoForOrg(
       if (dryRun) {
         scanResult.issueCreated = false;
       } else {
-        const issueResult = await createIssue(
+        const issueResult = await createOrUpdateIssue(
           {
             owner,
             repo: repoName,
@@ -322,10 +368,28 @@ async function scanRepoForOrg(
           },
           token
         );
-        scanResult.issueCreated = true;
+        scanResult.issueCreated = issueResult.action === "created";
+        scanResult.issueAction = issueResult.action;
         scanResult.issueNumber = issueResult.number;
         scanResult.issueUrl = issueResult.html_url;
       }
+    } else if (closeResolved && !dryRun) {
+      const closed = await closeResolvedIssue(
+        {
+          owner,
+          repo: repoName,
+          label: getInfraDriftIssueLabel(),
+          kind: "infra-drift",
+          scan: "drift infra scan",
+          scanTime,
+        },
+        token
+      );
+      if (closed) {
+        scanResult.issueAction = closed.action;
+        scanResult.issueNumber = closed.number;
+        scanResult.issueUrl = closed.html_url;
+      }
     }
 
     return scanResult;
@@ -335,8 +399,7 @@ async function scanRepoForOrg(
       error: error instanceof Error ? error.message : "Unknown error",
     };
   } finally {
-    // Clean up temp directory
-    removeTempDir(tempDir);
+    checkout?.release();
   }
 }
 
@@ -375,9 +438,13 @@ function printOrgResults(results: InfraOrgScanResults): void {
       );
     }
 
-    if (repoResult.issueCreated && repoResult.issueNumber) {
+    if (repoResult.issueAction && repoResult.issueNumber) {
+      const issue = {
+        number: repoResult.issueNumber,
+        action: repoResult.issueAction,
+      };
       console.log(
-        `  ${COLORS.green}✓ Created issue #${repoResult.issueNumber}${COLORS.reset}`
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue)}${COLORS.reset}`
       );
     }
   }
@@ -396,11 +463,26 @@ function printOrgResults(results: InfraOrgScanResults): void {
         ? `, ${COLORS.red}${results.summary.reposWithDrift} with drift${COLORS.reset}`
         : "")
   );
+  if (results.summary.apiCache) {
+    console.log(
+      `  API cache: ${formatHttpCacheStats(results.summary.apiCache)}`
+    );
+  }
   if (results.summary.issuesCreated > 0) {
     console.log(
       `  Issues created: ${COLORS.green}${results.summary.issuesCreated}${COLORS.reset}`
     );
   }
+  if (results.summary.issuesUpdated > 0) {
+    console.log(
+      `  Issues updated: ${COLORS.green}${results.summary.issuesUpdated}${COLORS.reset}`
+    );
+  }
+  if (results.summary.issuesClosed > 0) {
+    console.log(
+      `  Issues closed: ${COLORS.green}${results.summary.issuesClosed}${COLORS.reset}`
+    );
+  }
 
   console.log("");
 
@@ -417,13 +499,41 @@ function printOrgResults(results: InfraOrgScanResults): void {
   }
 }
 
+/**
+ * Print org-wide scan results as JSON or SARIF
+ */
+function printMachineOutput(
+  results: InfraOrgScanResults,
+  format: OutputFormat
+): void {
+  if (format === "sarif") {
+    const findings = results.repos.flatMap((r) =>
+      r.detection ? getInfraFindings(r.detection) : []
+    );
+    console.log(JSON.stringify(formatSarif(findings), null, 2));
+  } else {
+    console.log(JSON.stringify(results, null, 2));
+  }
+}
+
 /**
  * Scan all repos in an organization for infrastructure drift.
  */
 async function scanOrgRepos(
   options: ScanOrgReposOptions
 ): Promise<InfraOrgScanResults> {
-  const { org, token, json, dryRun, includeAll, sinceHours } = options;
+  const {
+    org,
+    token,
+    json,
+    format,
+    dryRun,
+    includeAll,
+    sinceHours,
+    closeResolved,
+    configRepo,
+    discovery,
+  } = options;
 
   // Initialize results
   const results: InfraOrgScanResults = {
@@ -449,6 +559,8 @@ async function scanOrgRepos(
     token,
     includeAll,
     sinceHours,
+    discovery,
+    onListed: (listing) => evictUnlistedRepos(org, listing),
     onProgress: (checked, total) => {
       if (!json) {
         process.stdout.write(
@@ -488,7 +600,7 @@ async function scanOrgRepos(
 
   if (repoNames.length === 0) {
     if (json) {
-      console.log(JSON.stringify(results, null, 2));
+      printMachineOutput(results, format);
     } else {
       console.log("\nNo repos to scan.");
     }
@@ -509,10 +621,12 @@ async function scanOrgRepos(
         process.stdout.write(`Scanning ${repo}... `);
       }
 
-      const result = await scanRepoForOrg({
+      const result = await scanInfraRepo({
         repo,
         token,
         dryRun,
+        closeResolved,
+        scanTime: results.timestamp,
       });
 
       // Print inline status
@@ -522,7 +636,7 @@ async function scanOrgRepos(
             `${COLORS.yellow}⚠ skipped (${result.error})${COLORS.reset}`
           );
         } else if (result.detection && hasDrift(result.detection)) {
-          const issueInfo = result.issueCreated
+          const issueInfo = result.issueNumber
             ? ` → issue #${result.issueNumber}`
             : dryRun
               ? " [dry-run]"
@@ -532,7 +646,11 @@ async function scanOrgRepos(
           );
           actionsOutput.warning(`Infrastructure drift detected in ${repo}`);
         } else {
-          console.log(`${COLORS.green}✓ ok${COLORS.reset}`);
+          const closedInfo =
+            result.issueAction === "closed"
+              ? ` → closed issue #${result.issueNumber}`
+              : "";
+          console.log(`${COLORS.green}✓ ok${closedInfo}${COLORS.reset}`);
         }
       }
 
@@ -552,14 +670,46 @@ async function scanOrgRepos(
       }
       if (repoResult.issueCreated) {
         results.summary.issuesCreated++;
+      } else if (repoResult.issueAction === "updated") {
+        results.summary.issuesUpdated++;
+      } else if (repoResult.issueAction === "closed") {
+        results.summary.issuesClosed++;
       }
     }
     results.repos.push(repoResult);
   }
 
+  // Send the summary to any notifiers configured in the config repo
+  if (!dryRun) {
+    const driftConfig = await getRemoteDriftConfig(org, configRepo, token);
+    if (driftConfig?.notifications) {
+      await sendScanNotifications({
+        notifiers: driftConfig.notifications,
+        notification: {
+          scan: "drift infra scan",
+          org,
+          timestamp: results.timestamp,
+          summary: results.summary,
+          repos: results.repos
+            .filter((r) => r.detection && hasDrift(r.detection))
+            .map((r) => ({
+              repo: r.repo,
+              issueUrls: r.issueUrl ? [r.issueUrl] : [],
+            })),
+        },
+        token,
+      });
+    }
+  }
+
+  const apiCache = getHttpCacheStats();
+  if (apiCache) {
+    results.summary.apiCache = apiCache;
+  }
+
   // Output results
   if (json) {
-    console.log(JSON.stringify(results, null, 2));
+    printMachineOutput(results, format);
   } else {
     printOrgResults(results);
   }
@@ -568,8 +718,26 @@ async function scanOrgRepos(
 }
 
 export async function scan(options: InfraScanCommandOptions): Promise<void> {
-  const { repo, org, json, dryRun, all, since } = options;
+  const { repo, org, dryRun, all, since, closeResolved } = options;
   const sinceHours = parseInt(since ?? "24", 10);
+  const format = resolveOutputFormat(options);
+  if (!format) {
+    const errorMsg = getInvalidFormatMessage(options.format);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+  const json = format !== "text";
+
+  const discovery = parseDiscoveryBackend(options.discovery);
+  if (!discovery) {
+    const errorMsg = getInvalidDiscoveryMessage(options.discovery);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
 
   // Validate options: need either --repo or --org
   if (!repo && !org) {
@@ -580,8 +748,15 @@ export async function scan(options: InfraScanCommandOptions): Promise<void> {
     return;
   }
 
+  configureGitHubUrl(options.githubUrl);
+  configureApiCache(options.cache !== false);
+  configureCloneCache(options.cloneCache);
+
   // Get GitHub token
-  const token = getGitHubToken();
+  // (falls back to a GitHub App installation token for the repo owner)
+  const owner = (org ?? repo)?.split("/")[0];
+  const token =
+    getGitHubToken() ?? (owner ? await getGitHubAppToken(owner) : undefined);
   if (!token) {
     const errorMsg =
       "GitHub token required. Set GITHUB_TOKEN environment variable or use --github-token";
@@ -609,7 +784,8 @@ export async function scan(options: InfraScanCommandOptions): Promise<void> {
 
       const hasDriftDetected = await scanSingleRepo({
         repo,
-        json: json ?? false,
+        json,
+        format,
         dryRun: dryRun ?? false,
         token,
       });
@@ -625,10 +801,14 @@ export async function scan(options: InfraScanCommandOptions): Promise<void> {
       const results = await scanOrgRepos({
         org,
         token,
-        json: json ?? false,
+        json,
+        format,
         dryRun: dryRun ?? false,
         includeAll: all ?? false,
         sinceHours,
+        closeResolved: closeResolved ?? false,
+        configRepo: options.configRepo ?? DEFAULTS.configRepo,
+        discovery,
       });
 
       // Exit with error code if there is drift
@@ -16,6 +16,10 @@ export function registerProcessCommands(program: Command): void {
     )
     .option("-c, --config <path>", "Path to check.toml config file")
     .option("--json", "Output results as JSON")
+    .option(
+      "--format <format>",
+      "Output format: text, json or sarif (default: text)"
+    )
     .option(
       "-n, --dry-run",
       "Show what issues would be created without creating them"
@@ -29,5 +33,25 @@ export function registerProcessCommands(program: Command): void {
       `Only scan repos with commits in the last N hours (default: ${DEFAULTS.commitWindowHours})`,
       String(DEFAULTS.commitWindowHours)
     )
+    .option(
+      "--config-repo <repo>",
+      "Config repo with the process baseline and notification settings (default: drift-config, with --org)"
+    )
+    .option(
+      "--github-url <url>",
+      "GitHub Enterprise Server URL (default: https://github.com)"
+    )
+    .option(
+      "--discovery <backend>",
+      "Repo discovery backend: rest or graphql (default: rest, with --org)"
+    )
+    .option(
+      "--close-resolved",
+      "Close drift issues whose drift is no longer detected (with --org)"
+    )
+    .option(
+      "--no-cache",
+      "Do not cache GitHub API responses on disk (with --org)"
+    )
     .action(scan);
 }
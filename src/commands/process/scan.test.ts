@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "fs";
 
 // Mock external modules before imports
 vi.mock("check-my-toolkit", () => ({
@@ -14,15 +15,57 @@ vi.mock("../../github/client.js", async (importOriginal) => {
     await importOriginal<typeof import("../../github/client.js")>();
   return {
     ...actual,
-    createIssue: vi.fn(),
+    createOrUpdateIssue: vi.fn(),
+    closeResolvedIssue: vi.fn(),
     getGitHubToken: vi.fn(() => "test-token"),
   };
 });
 
+vi.mock("../../github/repo-checks.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../github/repo-checks.js")>();
+  return {
+    ...actual,
+    getRemoteDriftConfig: vi.fn(),
+    getRemoteRepoMetadata: vi.fn(),
+    getRemoteCheckToml: vi.fn(),
+    getRemoteWaivers: vi.fn(),
+  };
+});
+
+vi.mock("../../github/repo-settings.js", () => ({
+  getRepoSettings: vi.fn(),
+  getVulnerabilityAlerts: vi.fn(),
+}));
+
+vi.mock("../../github/rulesets.js", () => ({
+  getBranchRules: vi.fn(),
+  getRuleset: vi.fn(),
+}));
+
+vi.mock("../../notifications/notify.js", () => ({
+  sendScanNotifications: vi.fn(),
+}));
+
 // Import after mocking
 import { validateProcess } from "check-my-toolkit";
 import { discoverProcessRepos } from "../../github/process-repo-discovery.js";
-import { createIssue, getGitHubToken } from "../../github/client.js";
+import {
+  getRemoteCheckToml,
+  getRemoteDriftConfig,
+  getRemoteRepoMetadata,
+  getRemoteWaivers,
+} from "../../github/repo-checks.js";
+import {
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  getGitHubToken,
+} from "../../github/client.js";
+import {
+  getRepoSettings,
+  getVulnerabilityAlerts,
+} from "../../github/repo-settings.js";
+import { getBranchRules, getRuleset } from "../../github/rulesets.js";
 
 // Helper to create a valid ValidateProcessResult
 function createValidateResult(
@@ -71,12 +114,21 @@ function createValidateResult(
 describe("process/scan", () => {
   const mockValidateProcess = vi.mocked(validateProcess);
   const mockDiscoverProcessRepos = vi.mocked(discoverProcessRepos);
-  const mockCreateIssue = vi.mocked(createIssue);
+  const mockCreateOrUpdateIssue = vi.mocked(createOrUpdateIssue);
+  const mockCloseResolvedIssue = vi.mocked(closeResolvedIssue);
   const mockGetGitHubToken = vi.mocked(getGitHubToken);
 
   beforeEach(() => {
     vi.clearAllMocks();
     mockGetGitHubToken.mockReturnValue("test-token");
+    vi.mocked(getRemoteWaivers).mockResolvedValue([]);
+    vi.mocked(getRepoSettings).mockResolvedValue({
+      mergeMethods: ["squash"],
+      deleteBranchOnMerge: true,
+      defaultBranch: "main",
+      visibility: "private",
+    });
+    vi.mocked(getBranchRules).mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -175,9 +227,10 @@ describe("process/scan", () => {
         ])
       );
 
-      mockCreateIssue.mockResolvedValueOnce({
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
         number: 42,
         html_url: "https://github.com/test-org/repo-with-violations/issues/42",
+        action: "created",
       });
 
       const { scan } = await import("./scan.js");
@@ -195,8 +248,8 @@ describe("process/scan", () => {
       mockExit.mockRestore();
 
       // Should create an issue for the repo with violations
-      expect(mockCreateIssue).toHaveBeenCalledTimes(1);
-      expect(mockCreateIssue).toHaveBeenCalledWith(
+      expect(mockCreateOrUpdateIssue).toHaveBeenCalledTimes(1);
+      expect(mockCreateOrUpdateIssue).toHaveBeenCalledWith(
         expect.objectContaining({
           owner: "test-org",
           repo: "repo-with-violations",
@@ -206,6 +259,100 @@ describe("process/scan", () => {
       );
     });
 
+    it("merges the org baseline for the repo's tier into its rules", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      vi.mocked(getRemoteDriftConfig).mockResolvedValue({
+        process: {
+          baseline: {
+            production: {
+              branches: { enabled: true, require_reviews: true },
+            },
+          },
+        },
+      });
+      vi.mocked(getRemoteRepoMetadata).mockResolvedValueOnce({
+        tier: "production",
+        status: "active",
+        raw: { tier: "production" },
+      });
+      vi.mocked(getRemoteCheckToml).mockResolvedValueOnce(
+        "[process.codeowners]\nenabled = true\n"
+      );
+      let mergedConfig = "";
+      mockValidateProcess.mockImplementationOnce(
+        async (options: { config?: string }) => {
+          mergedConfig = readFileSync(options.config ?? "", "utf-8");
+          return createValidateResult([
+            {
+              name: "branches.protection",
+              passed: false,
+              violations: [
+                {
+                  rule: "require_reviews",
+                  message: "Reviews not required",
+                  severity: "error",
+                },
+              ],
+            },
+            {
+              name: "codeowners.file",
+              passed: false,
+              violations: [
+                {
+                  rule: "codeowners",
+                  message: "CODEOWNERS missing",
+                  severity: "error",
+                },
+              ],
+            },
+          ]);
+        }
+      );
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
+        number: 1,
+        html_url: "https://github.com/test-org/api/issues/1",
+        action: "created",
+      });
+
+      const { scan } = await import("./scan.js");
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      mockExit.mockRestore();
+
+      expect(mergedConfig).toContain("[process.branches]");
+      expect(mergedConfig).toContain("require_reviews = true");
+      expect(mergedConfig).toContain("[process.codeowners]");
+      const body = mockCreateOrUpdateIssue.mock.calls[0][0].body;
+      expect(body).toContain(
+        "Rules: org baseline for the `production` tier, merged with the repo's check.toml"
+      );
+      expect(body).toContain(
+        "| branches.protection | Reviews not required | :x: | org baseline |"
+      );
+      expect(body).toContain(
+        "| codeowners.file | CODEOWNERS missing | :x: | repo |"
+      );
+    });
+
     it("does not create issues in dry-run mode", async () => {
       const repos = [
         {
@@ -258,7 +405,95 @@ describe("process/scan", () => {
       mockExit.mockRestore();
 
       // Should NOT create an issue in dry-run mode
-      expect(mockCreateIssue).not.toHaveBeenCalled();
+      expect(mockCreateOrUpdateIssue).not.toHaveBeenCalled();
+    });
+
+    it("closes resolved issues with closeResolved", async () => {
+      const repos = [
+        {
+          name: "fixed-repo",
+          full_name: "test-org/fixed-repo",
+          clone_url: "https://github.com/test-org/fixed-repo.git",
+          archived: false,
+          disabled: false,
+          owner: { login: "test-org" },
+        },
+      ];
+
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos,
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+
+      mockValidateProcess.mockResolvedValueOnce(
+        createValidateResult([{ name: "branches.protection", passed: true }])
+      );
+
+      mockCloseResolvedIssue.mockResolvedValueOnce({
+        number: 7,
+        html_url: "https://github.com/test-org/fixed-repo/issues/7",
+        action: "closed",
+      });
+
+      const { scan } = await import("./scan.js");
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await scan({
+        org: "test-org",
+        json: true,
+        all: true,
+        closeResolved: true,
+      });
+
+      const output = JSON.parse(String(consoleSpy.mock.calls.at(-1)?.[0]));
+      consoleSpy.mockRestore();
+
+      expect(mockCloseResolvedIssue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          owner: "test-org",
+          repo: "fixed-repo",
+          kind: "process-violations",
+          scan: "drift process scan",
+        }),
+        "test-token"
+      );
+      expect(output.summary.issuesClosed).toBe(1);
+      expect(mockCreateOrUpdateIssue).not.toHaveBeenCalled();
+    });
+
+    it("does not close issues without closeResolved", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "fixed-repo",
+            full_name: "test-org/fixed-repo",
+            clone_url: "https://github.com/test-org/fixed-repo.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+
+      mockValidateProcess.mockResolvedValueOnce(
+        createValidateResult([{ name: "branches.protection", passed: true }])
+      );
+
+      const { scan } = await import("./scan.js");
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      await scan({ org: "test-org", json: true, all: true });
+      consoleSpy.mockRestore();
+
+      expect(mockCloseResolvedIssue).not.toHaveBeenCalled();
     });
 
     it("handles scan errors gracefully", async () => {
@@ -348,9 +583,10 @@ describe("process/scan", () => {
         ])
       );
 
-      mockCreateIssue.mockResolvedValueOnce({
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
         number: 1,
         html_url: "https://github.com/test-org/failing-repo/issues/1",
+        action: "created",
       });
 
       const { scan } = await import("./scan.js");
@@ -411,6 +647,466 @@ describe("process/scan", () => {
       mockExit.mockRestore();
     });
 
+    it("records warnings below the issue severity threshold without failing", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      vi.mocked(getRemoteDriftConfig).mockResolvedValue({
+        process: { issueSeverity: { default: "error" } },
+      });
+      mockValidateProcess.mockResolvedValueOnce(
+        createValidateResult([
+          {
+            name: "docs.readme",
+            passed: false,
+            violations: [
+              {
+                rule: "readme",
+                message: "README is short",
+                severity: "warning",
+              },
+            ],
+          },
+        ])
+      );
+
+      const { scan } = await import("./scan.js");
+      const output: string[] = [];
+      const mockLog = vi
+        .spyOn(console, "log")
+        .mockImplementation((line: string) => {
+          output.push(line);
+        });
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      expect(mockExit).not.toHaveBeenCalled();
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      expect(mockCreateOrUpdateIssue).not.toHaveBeenCalled();
+      const results = JSON.parse(output.join("\n"));
+      expect(results.repos[0].unreported).toBe(1);
+      expect(results.repos[0].detection.violations).toHaveLength(1);
+      expect(results.summary.reposWithViolations).toBe(1);
+      expect(results.summary.reposWithErrors).toBe(0);
+    });
+
+    it("checks the default branch's rulesets against [process.branches]", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      vi.mocked(getRemoteCheckToml).mockResolvedValueOnce(
+        '[process.branches]\nrequire_reviews = 2\nrequire_status_checks = ["build"]\n'
+      );
+      vi.mocked(getBranchRules).mockResolvedValueOnce([
+        {
+          type: "pull_request",
+          parameters: { required_approving_review_count: 2 },
+          rulesetId: 1,
+          rulesetSourceType: "Organization",
+        },
+        {
+          type: "pull_request",
+          parameters: { required_approving_review_count: 1 },
+          rulesetId: 2,
+          rulesetSourceType: "Repository",
+        },
+      ]);
+      vi.mocked(getRuleset).mockImplementation(async (_owner, _repo, id) => ({
+        id,
+        name: id === 1 ? "org-default" : "api-main",
+        sourceType: id === 1 ? "Organization" : "Repository",
+        bypassActors: [],
+      }));
+      mockValidateProcess.mockResolvedValueOnce(createValidateResult([]));
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
+        number: 1,
+        html_url: "https://github.com/test-org/api/issues/1",
+        action: "created",
+      });
+
+      const { scan } = await import("./scan.js");
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      expect(mockExit).toHaveBeenCalledWith(1);
+      mockExit.mockRestore();
+
+      expect(getBranchRules).toHaveBeenCalledWith(
+        "test-org",
+        "api",
+        "main",
+        "test-token"
+      );
+      // Settings and check.toml are fetched once for every check
+      expect(getRepoSettings).toHaveBeenCalledTimes(1);
+      expect(getRemoteCheckToml).toHaveBeenCalledTimes(1);
+      const body = mockCreateOrUpdateIssue.mock.calls[0][0].body;
+      expect(body).toContain(
+        "Rulesets do not require status check(s) build on main"
+      );
+      expect(body).toContain(
+        'Repository ruleset "api-main" weakens org ruleset "org-default"'
+      );
+      expect(body).not.toContain("approving review(s)");
+    });
+
+    it("takes the default branch from the repo listing", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            default_branch: "trunk",
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      mockValidateProcess.mockResolvedValueOnce(createValidateResult([]));
+
+      const { scan } = await import("./scan.js");
+      await scan({ org: "test-org", json: true, all: true });
+
+      // No settings expected, so the settings are not read
+      expect(getRepoSettings).not.toHaveBeenCalled();
+      expect(getBranchRules).toHaveBeenCalledWith(
+        "test-org",
+        "api",
+        "trunk",
+        "test-token"
+      );
+    });
+
+    it("reports a scan error when check.toml cannot be fetched", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      vi.mocked(getRemoteCheckToml).mockRejectedValueOnce(
+        new Error("Failed to fetch check.toml: 403 Forbidden")
+      );
+
+      const { scan } = await import("./scan.js");
+      const output: string[] = [];
+      const mockLog = vi
+        .spyOn(console, "log")
+        .mockImplementation((msg: string) => output.push(msg));
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      expect(mockValidateProcess).not.toHaveBeenCalled();
+      expect(mockCreateOrUpdateIssue).not.toHaveBeenCalled();
+      const results = JSON.parse(output.join("\n"));
+      expect(results.repos[0].error).toBe(
+        "Failed to fetch check.toml: 403 Forbidden"
+      );
+      expect(results.summary.reposSkipped).toBe(1);
+    });
+
+    it("checks repository settings for the repo's tier", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      vi.mocked(getRemoteDriftConfig).mockResolvedValue({
+        process: {
+          repoSettings: {
+            deleteBranchOnMerge: true,
+            vulnerabilityAlerts: true,
+            tiers: { production: { visibility: "private" } },
+          },
+        },
+      });
+      vi.mocked(getRemoteRepoMetadata).mockResolvedValueOnce({
+        tier: "production",
+        status: "active",
+        raw: { tier: "production" },
+      });
+      vi.mocked(getRepoSettings).mockResolvedValueOnce({
+        mergeMethods: ["squash"],
+        deleteBranchOnMerge: true,
+        defaultBranch: "main",
+        visibility: "public",
+      });
+      vi.mocked(getVulnerabilityAlerts).mockResolvedValueOnce(false);
+      mockValidateProcess.mockResolvedValueOnce(createValidateResult([]));
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
+        number: 1,
+        html_url: "https://github.com/test-org/api/issues/1",
+        action: "created",
+      });
+
+      const { scan } = await import("./scan.js");
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      // Settings that differ are error-level violations
+      expect(mockExit).toHaveBeenCalledWith(1);
+      mockExit.mockRestore();
+
+      expect(getRepoSettings).toHaveBeenCalledWith(
+        "test-org",
+        "api",
+        "test-token"
+      );
+      const body = mockCreateOrUpdateIssue.mock.calls[0][0].body;
+      expect(body).toContain("Repository Settings");
+      expect(body).toContain("Visibility is public, expected private");
+      expect(body).toContain(
+        "Vulnerability alerts is disabled, expected enabled"
+      );
+      expect(body).not.toContain("Delete branch on merge");
+    });
+
+    it("suppresses waived violations and reports expired waivers", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "docs",
+            full_name: "test-org/docs",
+            clone_url: "https://github.com/test-org/docs.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      const waiver = {
+        domain: "process" as const,
+        category: "ci",
+        check: "ci.workflows",
+        rule: "required_workflows",
+        reason: "Docs-only repo, nothing to build",
+        owner: "@docs-team",
+        expires: "2099-12-31",
+      };
+      // The repo's own waiver, then the config repo's, naming the repo
+      vi.mocked(getRemoteWaivers).mockImplementation(async (_org, repo) =>
+        repo === "docs"
+          ? [waiver]
+          : [
+              {
+                ...waiver,
+                repo: "docs",
+                check: "branches.protection",
+                category: "branches",
+                rule: "require_reviews",
+                expires: "2020-01-31",
+              },
+            ]
+      );
+      mockValidateProcess.mockResolvedValueOnce(
+        createValidateResult([
+          {
+            name: "ci.workflows",
+            passed: false,
+            violations: [
+              {
+                rule: "required_workflows",
+                message: "No CI workflow",
+                severity: "error",
+              },
+            ],
+          },
+        ])
+      );
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
+        number: 1,
+        html_url: "https://github.com/test-org/docs/issues/1",
+        action: "created",
+      });
+
+      const { scan } = await import("./scan.js");
+      const output: string[] = [];
+      const mockLog = vi
+        .spyOn(console, "log")
+        .mockImplementation((line: string) => {
+          output.push(line);
+        });
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      // The expired waiver is a warning, so the scan passes
+      expect(mockExit).not.toHaveBeenCalled();
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      const results = JSON.parse(output.join("\n"));
+      const detection = results.repos[0].detection;
+      expect(detection.waived).toHaveLength(1);
+      expect(detection.waived[0].waiver.owner).toBe("@docs-team");
+      expect(detection.violations).toEqual([
+        expect.objectContaining({
+          check: "waivers.expiry",
+          severity: "warning",
+          file: "drift-waivers.yaml",
+        }),
+      ]);
+      expect(results.summary.violationsWaived).toBe(1);
+      const body = mockCreateOrUpdateIssue.mock.calls[0][0].body;
+      expect(body).not.toContain("No CI workflow");
+      expect(body).toContain(
+        "Waiver for branches.protection (require_reviews) expired on 2020-01-31"
+      );
+    });
+
+    it("applies per-tier and per-category issue severity thresholds", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "api",
+            full_name: "test-org/api",
+            clone_url: "https://github.com/test-org/api.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      vi.mocked(getRemoteDriftConfig).mockResolvedValue({
+        process: {
+          issueSeverity: {
+            default: "error",
+            tiers: { production: { categories: { branches: "warning" } } },
+          },
+        },
+      });
+      vi.mocked(getRemoteRepoMetadata).mockResolvedValueOnce({
+        tier: "production",
+        status: "active",
+        raw: { tier: "production" },
+      });
+      mockValidateProcess.mockResolvedValueOnce(
+        createValidateResult([
+          {
+            name: "branches.protection",
+            passed: false,
+            violations: [
+              {
+                rule: "required_approvals",
+                message: "Only 1 approval required",
+                severity: "warning",
+              },
+            ],
+          },
+          {
+            name: "docs.readme",
+            passed: false,
+            violations: [
+              {
+                rule: "readme",
+                message: "README is short",
+                severity: "warning",
+              },
+            ],
+          },
+        ])
+      );
+      mockCreateOrUpdateIssue.mockResolvedValueOnce({
+        number: 1,
+        html_url: "https://github.com/test-org/api/issues/1",
+        action: "created",
+      });
+
+      const { scan } = await import("./scan.js");
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ org: "test-org", json: true, all: true });
+
+      expect(mockExit).not.toHaveBeenCalled();
+      mockExit.mockRestore();
+
+      const body = mockCreateOrUpdateIssue.mock.calls[0][0].body;
+      expect(body).toContain("Only 1 approval required");
+      expect(body).not.toContain("README is short");
+    });
+
     it("handles empty repo list", async () => {
       mockDiscoverProcessRepos.mockResolvedValueOnce({
         repos: [],
@@ -437,5 +1133,204 @@ describe("process/scan", () => {
       // Should not call validateProcess when no repos
       expect(mockValidateProcess).not.toHaveBeenCalled();
     });
+
+    it("outputs SARIF with --format sarif", async () => {
+      mockDiscoverProcessRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "repo-a",
+            full_name: "test-org/repo-a",
+            clone_url: "https://github.com/test-org/repo-a.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        totalRepos: 1,
+        reposWithCheckToml: 1,
+        isOrg: true,
+        filteredByActivity: false,
+      });
+      mockValidateProcess.mockResolvedValueOnce(
+        createValidateResult([
+          {
+            name: "branches.protection",
+            passed: false,
+            violations: [
+              {
+                rule: "require_reviews",
+                message: "Branch protection requires no reviews",
+                severity: "error",
+              },
+            ],
+          },
+        ])
+      );
+
+      const { scan } = await import("./scan.js");
+
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+      const mockLog = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await scan({ org: "test-org", format: "sarif", dryRun: true, all: true });
+
+      const output = JSON.parse(String(mockLog.mock.calls.at(-1)?.[0]));
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      expect(output.version).toBe("2.1.0");
+      expect(output.runs[0].results).toHaveLength(1);
+      expect(output.runs[0].results[0]).toMatchObject({
+        ruleId: "drift/process/branches.protection/require_reviews",
+        level: "error",
+      });
+    });
+
+    it("rejects an unknown --format", async () => {
+      const { scan } = await import("./scan.js");
+
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+      const mockError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await scan({ org: "test-org", format: "xml" });
+
+      expect(mockExit).toHaveBeenCalledWith(1);
+      expect(mockError).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown format "xml"')
+      );
+      expect(mockDiscoverProcessRepos).not.toHaveBeenCalled();
+
+      mockError.mockRestore();
+      mockExit.mockRestore();
+    });
+  });
+
+  describe("single repo scanning", () => {
+    it("runs the ruleset checks without [process.branches] expectations", async () => {
+      vi.mocked(getRemoteCheckToml).mockResolvedValueOnce("[process.ci]\nenabled = true\n");
+      vi.mocked(getBranchRules).mockResolvedValueOnce([
+        {
+          type: "pull_request",
+          parameters: { required_approving_review_count: 2 },
+          rulesetId: 1,
+          rulesetSourceType: "Organization",
+        },
+        {
+          type: "pull_request",
+          parameters: { required_approving_review_count: 0 },
+          rulesetId: 2,
+          rulesetSourceType: "Repository",
+        },
+      ]);
+      vi.mocked(getRuleset).mockImplementation(async (_owner, _repo, id) => ({
+        id,
+        name: id === 1 ? "org-default" : "api-main",
+        sourceType: id === 1 ? "Organization" : "Repository",
+        bypassActors: [],
+      }));
+      mockValidateProcess.mockResolvedValueOnce(createValidateResult([]));
+
+      const { scan } = await import("./scan.js");
+      const output: string[] = [];
+      const mockLog = vi.spyOn(console, "log").mockImplementation((msg) => {
+        output.push(msg);
+      });
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ repo: "test-org/api", json: true, dryRun: true });
+
+      // Ruleset overrides are warnings, so the scan passes
+      expect(mockExit).not.toHaveBeenCalledWith(1);
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      expect(getBranchRules).toHaveBeenCalledWith(
+        "test-org",
+        "api",
+        "main",
+        "test-token"
+      );
+      const detection = JSON.parse(output.join("\n"));
+      expect(detection.violations).toEqual([
+        expect.objectContaining({
+          check: "branches.rulesets",
+          rule: "org_ruleset_override",
+          severity: "warning",
+        }),
+      ]);
+    });
+
+    it("warns when the repo settings are not visible to the token", async () => {
+      vi.mocked(getRemoteCheckToml).mockResolvedValueOnce("[process.branches]\nrequire_reviews = 2\n");
+      vi.mocked(getRepoSettings).mockResolvedValueOnce(null);
+      mockValidateProcess.mockResolvedValueOnce(createValidateResult([]));
+
+      const { scan } = await import("./scan.js");
+      const output: string[] = [];
+      const mockLog = vi.spyOn(console, "log").mockImplementation((msg) => {
+        output.push(msg);
+      });
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ repo: "test-org/api", json: true, dryRun: true });
+
+      expect(mockExit).not.toHaveBeenCalledWith(1);
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      // Without the default branch, the ruleset checks are skipped
+      expect(getBranchRules).not.toHaveBeenCalled();
+      const detection = JSON.parse(output.join("\n"));
+      expect(detection.violations).toEqual([
+        {
+          category: "repo",
+          check: "repo.settings",
+          rule: "settings",
+          message: "Repository settings are not visible to the token",
+          severity: "warning",
+        },
+      ]);
+    });
+
+    it("warns when the rulesets are not visible to the token", async () => {
+      vi.mocked(getRemoteCheckToml).mockResolvedValueOnce("[process.branches]\nrequire_reviews = 2\n");
+      vi.mocked(getBranchRules).mockResolvedValueOnce(undefined);
+      mockValidateProcess.mockResolvedValueOnce(createValidateResult([]));
+
+      const { scan } = await import("./scan.js");
+      const output: string[] = [];
+      const mockLog = vi.spyOn(console, "log").mockImplementation((msg) => {
+        output.push(msg);
+      });
+      const mockExit = vi
+        .spyOn(process, "exit")
+        .mockImplementation(() => undefined as never);
+
+      await scan({ repo: "test-org/api", json: true, dryRun: true });
+
+      expect(mockExit).not.toHaveBeenCalledWith(1);
+      mockLog.mockRestore();
+      mockExit.mockRestore();
+
+      expect(getRuleset).not.toHaveBeenCalled();
+      const detection = JSON.parse(output.join("\n"));
+      expect(detection.violations).toEqual([
+        {
+          category: "branches",
+          check: "branches.rulesets",
+          rule: "rulesets",
+          message: "Rulesets on main are not visible to the token",
+          severity: "warning",
+        },
+      ]);
+    });
   });
 });
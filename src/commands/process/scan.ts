@@ -1,14 +1,81 @@
 import { validateProcess, type ValidateProcessResult } from "check-my-toolkit";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
 import { version } from "../../version.js";
 import { actionsOutput, COLORS } from "../../utils/index.js";
-import { createIssue, getGitHubToken } from "../../github/client.js";
+import {
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  describeSyncedIssue,
+  configureApiCache,
+  configureGitHubUrl,
+  createTempDir,
+  getGitHubAppToken,
+  getGitHubToken,
+  removeTempDir,
+} from "../../github/client.js";
 import { discoverProcessRepos } from "../../github/process-repo-discovery.js";
+import {
+  getInvalidDiscoveryMessage,
+  parseDiscoveryBackend,
+} from "../../github/graphql-discovery.js";
+import {
+  formatHttpCacheStats,
+  getHttpCacheStats,
+} from "../../github/http-cache.js";
 import {
   formatProcessViolationsIssueBody,
   getProcessViolationsIssueTitle,
   getProcessViolationsIssueLabel,
 } from "../../github/process-issue-formatter.js";
-import { CONCURRENCY } from "../../constants.js";
+import { CONCURRENCY, DEFAULTS, FILE_PATTERNS } from "../../constants.js";
+import {
+  getRemoteCheckToml,
+  getRemoteDriftConfig,
+  getRemoteWaivers,
+  getRemoteRepoMetadata,
+} from "../../github/repo-checks.js";
+import {
+  getViolationLayer,
+  mergeProcessBaseline,
+} from "../../config/process-baseline.js";
+import {
+  filterIssueViolations,
+  hasErrorViolations,
+} from "../../config/issue-severity.js";
+import {
+  addCheckResults,
+  applyRepoSettingsChecks,
+  getRepoSettingsExpectations,
+  type RepoSettingsExpectations,
+} from "../../repo/settings-checks.js";
+import {
+  checkBranchRulesets,
+  parseBranchExpectations,
+} from "../../repo/ruleset-checks.js";
+import {
+  getBranchRules,
+  getRuleset,
+  resolveBypassActors,
+} from "../../github/rulesets.js";
+import {
+  getRepoSettings,
+  getVulnerabilityAlerts,
+  type RepoSettings,
+} from "../../github/repo-settings.js";
+import {
+  applyWaivers,
+  loadWaivers,
+  selectRepoWaivers,
+} from "../../config/waivers.js";
+import { getRepoMetadata } from "../../repo/detection.js";
+import { sendScanNotifications } from "../../notifications/notify.js";
+import {
+  getInvalidFormatMessage,
+  resolveOutputFormat,
+  type OutputFormat,
+} from "../../output/format.js";
+import { formatSarif, getProcessFindings } from "../../output/sarif.js";
 import type {
   ProcessViolationsDetection,
   ProcessCheckSummary,
@@ -16,6 +83,10 @@ import type {
   ProcessRepoScanResult,
   ProcessOrgScanResults,
   ProcessOrgScanSummary,
+  ProcessConfig,
+  ProcessRuleLayers,
+  Waiver,
+  DiscoveryBackend,
 } from "../../types.js";
 
 export interface ProcessScanOptions {
@@ -23,9 +94,15 @@ export interface ProcessScanOptions {
   org?: string;
   config?: string;
   json?: boolean;
+  format?: string; // text, json or sarif
   dryRun?: boolean;
   all?: boolean;
   since?: string;
+  closeResolved?: boolean;
+  configRepo?: string; // Config repo holding the process baseline and notification settings (with --org)
+  githubUrl?: string; // GitHub Enterprise Server URL
+  discovery?: string; // Repo discovery backend: rest or graphql
+  cache?: boolean; // false with --no-cache
 }
 
 /**
@@ -33,7 +110,8 @@ export interface ProcessScanOptions {
  */
 function mapToDetection(
   result: ValidateProcessResult,
-  repo: string
+  repo: string,
+  layers?: ProcessRuleLayers
 ): ProcessViolationsDetection {
   // Group checks by category (extract from check name, e.g., "branches.protection" -> "branches")
   const categoryMap = new Map<string, { passed: number; failed: number }>();
@@ -55,14 +133,16 @@ function mapToDetection(
     // Collect violations from failed checks
     if (!check.passed && check.violations) {
       for (const v of check.violations) {
-        violations.push({
+        const violation: ProcessViolation = {
           category,
           check: check.name,
           rule: v.rule,
           message: v.message,
           severity: v.severity,
           file: v.file,
-        });
+        };
+        const layer = layers && getViolationLayer(layers, violation);
+        violations.push(layer ? { ...violation, layer } : violation);
       }
     }
   }
@@ -119,8 +199,12 @@ function createEmptySummary(): ProcessOrgScanSummary {
   return {
     reposScanned: 0,
     reposWithViolations: 0,
+    reposWithErrors: 0,
+    violationsWaived: 0,
     reposSkipped: 0,
     issuesCreated: 0,
+    issuesUpdated: 0,
+    issuesClosed: 0,
   };
 }
 
@@ -169,23 +253,32 @@ function printResults(detection: ProcessViolationsDetection): void {
   } else {
     console.log(`\n${COLORS.green}✓ All process checks passed${COLORS.reset}`);
   }
+
+  for (const v of detection.waived ?? []) {
+    console.log(
+      `${COLORS.dim}Waived: [${v.category}] ${v.check} until ${v.waiver.expires} (${v.waiver.owner}): ${v.waiver.reason}${COLORS.reset}`
+    );
+  }
 }
 
 interface SingleRepoScanOptions {
   repo: string;
   config?: string;
   json: boolean;
+  format: OutputFormat;
   dryRun: boolean;
   token: string;
 }
 
 /**
  * Scan a single repository for process violations.
+ *
+ * @returns true if error-level violations were found
  */
 async function scanSingleRepo(
   options: SingleRepoScanOptions
 ): Promise<boolean> {
-  const { repo, config, json, dryRun, token } = options;
+  const { repo, config, json, format, dryRun, token } = options;
   const [owner, repoName] = repo.split("/");
 
   if (!json) {
@@ -195,17 +288,18 @@ async function scanSingleRepo(
     }
   }
 
-  // Call check-my-toolkit's validateProcess
-  const result = await validateProcess({
-    repo,
-    config,
-  });
-
-  // Map to drift-toolkit detection format
-  const detection = mapToDetection(result, repo);
+  // Run the same checks as org scans, minus the repo's waivers
+  const detection = applyWaivers(
+    await runProcessChecks({ repo, config, token }, undefined),
+    await loadRepoWaivers({ repo, config, token })
+  );
 
   // Output results
-  if (json) {
+  if (format === "sarif") {
+    console.log(
+      JSON.stringify(formatSarif(getProcessFindings(detection)), null, 2)
+    );
+  } else if (json) {
     console.log(JSON.stringify(detection, null, 2));
   } else {
     printResults(detection);
@@ -221,7 +315,7 @@ async function scanSingleRepo(
       }
       actionsOutput.warning(`Process violations detected in ${repo}`);
     } else {
-      const issueResult = await createIssue(
+      const issueResult = await createOrUpdateIssue(
         {
           owner,
           repo: repoName,
@@ -233,15 +327,16 @@ async function scanSingleRepo(
       );
       if (!json) {
         console.log(
-          `\n${COLORS.green}✓ Created issue #${issueResult.number}${COLORS.reset}`
+          `\n${COLORS.green}✓ ${describeSyncedIssue(issueResult)}${COLORS.reset}`
         );
         console.log(`  ${issueResult.html_url}`);
       }
       actionsOutput.notice(
-        `Created issue #${issueResult.number} for process violations`
+        `${describeSyncedIssue(issueResult)} for process violations`
       );
     }
-    return true; // violations found
+    // Warnings alone do not fail the scan
+    return hasErrorViolations(detection);
   }
 
   actionsOutput.notice(`Process scan passed for ${repo}`);
@@ -252,55 +347,337 @@ interface ScanOrgReposOptions {
   org: string;
   token: string;
   json: boolean;
+  format: OutputFormat;
   dryRun: boolean;
   includeAll: boolean;
   sinceHours: number;
+  closeResolved: boolean;
+  configRepo: string;
+  discovery: DiscoveryBackend;
 }
 
-interface ScanRepoContext {
+export interface ProcessRepoScanContext {
   repo: string;
+  config?: string; // Path to check.toml (default: fetched from the repo)
+  processConfig?: ProcessConfig; // Org baseline, issue thresholds and settings
+  waivers?: Waiver[]; // Config repo waivers, for every repo
+  defaultBranch?: string; // From the repo listing (default: read from its settings)
   token: string;
   dryRun: boolean;
+  closeResolved: boolean;
+  scanTime: string;
+}
+
+/** What the process checks of a repo need from its scan context */
+type ProcessCheckContext = Pick<
+  ProcessRepoScanContext,
+  "repo" | "config" | "processConfig" | "defaultBranch" | "token"
+>;
+
+interface ResolvedProcessConfig {
+  path?: string; // check.toml to validate against
+  checkToml: string | null; // Its content, with any baseline merged in
+  tier?: string; // Tier whose baseline was merged in
+  layers?: ProcessRuleLayers;
+  tempDir?: string;
+}
+
+/** Read the repo's check.toml from its checkout, or fetch it. */
+async function readRepoCheckToml(
+  ctx: ProcessCheckContext
+): Promise<string | null> {
+  if (ctx.config) {
+    return existsSync(ctx.config) ? readFileSync(ctx.config, "utf-8") : null;
+  }
+  const [owner, repoName] = ctx.repo.split("/");
+  return getRemoteCheckToml(owner, repoName, ctx.token);
+}
+
+/**
+ * Get the waivers for a repo: its own drift-waivers.yaml, read from its
+ * checkout or fetched, and the config repo's waivers that apply to it.
+ */
+async function loadRepoWaivers(
+  ctx: Pick<ProcessRepoScanContext, "repo" | "config" | "waivers" | "token">
+): Promise<Waiver[]> {
+  const [owner, repoName] = ctx.repo.split("/");
+  const own = ctx.config
+    ? loadWaivers(dirname(ctx.config))
+    : await getRemoteWaivers(owner, repoName, ctx.token);
+  return [...own, ...selectRepoWaivers(ctx.waivers ?? [], repoName)];
+}
+
+/**
+ * Read the repo's settings if the settings checks expect any, or if the
+ * ruleset checks need its default branch and the repo listing lacked it.
+ *
+ * @returns The settings, null if the token cannot read them, or undefined
+ * if they are not needed
+ */
+async function readRepoSettings(
+  ctx: ProcessCheckContext,
+  expected: RepoSettingsExpectations
+): Promise<RepoSettings | null | undefined> {
+  if (Object.keys(expected).length === 0 && ctx.defaultBranch) {
+    return undefined;
+  }
+  const [owner, repoName] = ctx.repo.split("/");
+  return getRepoSettings(owner, repoName, ctx.token);
+}
+
+/**
+ * Check the repo's settings against the org's expectations for its tier.
+ * Vulnerability alerts are only read from GitHub when expected. Settings
+ * the token cannot read are reported as a warning.
+ */
+async function runRepoSettingsChecks(
+  ctx: ProcessCheckContext,
+  expected: RepoSettingsExpectations,
+  settings: RepoSettings | null | undefined,
+  detection: ProcessViolationsDetection
+): Promise<ProcessViolationsDetection> {
+  if (settings === null) {
+    return addCheckResults(detection, "repo", 1, [
+      {
+        category: "repo",
+        check: "repo.settings",
+        rule: "settings",
+        message: "Repository settings are not visible to the token",
+        severity: "warning",
+      },
+    ]);
+  }
+  if (!settings || Object.keys(expected).length === 0) {
+    return detection;
+  }
+  if (expected.vulnerabilityAlerts !== undefined) {
+    const [owner, repoName] = ctx.repo.split("/");
+    settings = {
+      ...settings,
+      vulnerabilityAlerts: await getVulnerabilityAlerts(
+        owner,
+        repoName,
+        ctx.token
+      ),
+    };
+  }
+  return applyRepoSettingsChecks(detection, settings, expected);
+}
+
+/**
+ * Check the rulesets on the repo's default branch against its
+ * `[process.branches]` expectations, with any org baseline merged in, and
+ * for repo rulesets that weaken org rulesets. Branches without ruleset
+ * rules are left to check-my-toolkit's branch protection checks, and rules
+ * the token cannot see are reported as a warning.
+ */
+async function runRulesetChecks(
+  ctx: ProcessCheckContext,
+  resolved: ResolvedProcessConfig,
+  defaultBranch: string,
+  detection: ProcessViolationsDetection
+): Promise<ProcessViolationsDetection> {
+  const [owner, repoName] = ctx.repo.split("/");
+  const { token } = ctx;
+  const rules = await getBranchRules(owner, repoName, defaultBranch, token);
+  if (!rules) {
+    return addCheckResults(detection, "branches", 1, [
+      {
+        category: "branches",
+        check: "branches.rulesets",
+        rule: "rulesets",
+        message: `Rulesets on ${defaultBranch} are not visible to the token`,
+        severity: "warning",
+      },
+    ]);
+  }
+  if (rules.length === 0) {
+    return detection;
+  }
+  const expected = parseBranchExpectations(resolved.checkToml);
+  if (expected.bypassActors) {
+    expected.bypassActors = await resolveBypassActors(
+      owner,
+      expected.bypassActors,
+      token
+    );
+  }
+  const rulesetIds = [...new Set(rules.map((r) => r.rulesetId))];
+  const rulesets = await Promise.all(
+    rulesetIds.map((id) => getRuleset(owner, repoName, id, token))
+  );
+  const violations = checkBranchRulesets(
+    { branch: defaultBranch, rules, rulesets },
+    expected
+  ).map((v) => {
+    const layer = resolved.layers && getViolationLayer(resolved.layers, v);
+    return layer ? { ...v, layer } : v;
+  });
+  // One check per expectation, plus the org ruleset override check
+  const checked = Object.keys(expected).length + 1;
+  return addCheckResults(detection, "branches", checked, violations);
+}
+
+/** Read the repo's tier from its checkout, or fetch its metadata. */
+async function getRepoTier(
+  ctx: ProcessCheckContext
+): Promise<string | undefined> {
+  if (ctx.config) {
+    return getRepoMetadata(dirname(ctx.config)).metadata?.tier;
+  }
+  const [owner, repoName] = ctx.repo.split("/");
+  return (await getRemoteRepoMetadata(owner, repoName, ctx.token))?.tier;
+}
+
+/**
+ * Merge the org baseline for the repo's tier into its check.toml, written
+ * to a temp dir for validateProcess. Repos whose tier has no baseline are
+ * validated against their own check.toml as-is.
+ */
+function applyProcessBaseline(
+  ctx: ProcessCheckContext,
+  tier: string | undefined,
+  checkToml: string | null
+): ResolvedProcessConfig {
+  const { config } = ctx;
+  const baseline = ctx.processConfig?.baseline;
+  const tierBaseline = tier ? baseline?.[tier] : undefined;
+  if (!tierBaseline) {
+    return { path: config, checkToml };
+  }
+  const merged = mergeProcessBaseline(checkToml, tierBaseline);
+  if (!merged) {
+    // Invalid TOML: let validateProcess report it
+    return { path: config, checkToml };
+  }
+  const tempDir = createTempDir("process-baseline");
+  const path = join(tempDir, FILE_PATTERNS.checkToml);
+  writeFileSync(path, merged.content);
+  return {
+    path,
+    checkToml: merged.content,
+    tier,
+    layers: merged.layers,
+    tempDir,
+  };
+}
+
+/**
+ * Run every process check on a repo: check-my-toolkit's validateProcess
+ * against its check.toml, with the org baseline for its tier merged in,
+ * then the repo settings and ruleset checks. The ruleset checks are
+ * skipped when the default branch is unknown. Waivers are not applied.
+ */
+async function runProcessChecks(
+  ctx: ProcessCheckContext,
+  tier: string | undefined
+): Promise<ProcessViolationsDetection> {
+  const { repo } = ctx;
+  const resolved = applyProcessBaseline(
+    ctx,
+    tier,
+    await readRepoCheckToml(ctx)
+  );
+
+  try {
+    const result = await validateProcess({ repo, config: resolved.path });
+    const expected = getRepoSettingsExpectations(
+      ctx.processConfig?.repoSettings,
+      tier
+    );
+    const settings = await readRepoSettings(ctx, expected);
+    let detection = mapToDetection(result, repo, resolved.layers);
+    detection = await runRepoSettingsChecks(ctx, expected, settings, detection);
+    const defaultBranch = ctx.defaultBranch ?? settings?.defaultBranch;
+    if (defaultBranch) {
+      detection = await runRulesetChecks(
+        ctx,
+        resolved,
+        defaultBranch,
+        detection
+      );
+    }
+    if (resolved.tier) {
+      detection.baselineTier = resolved.tier;
+    }
+    return detection;
+  } finally {
+    if (resolved.tempDir) {
+      removeTempDir(resolved.tempDir);
+    }
+  }
 }
 
 /**
  * Scan a single repo for process violations (for parallel execution).
  * Returns ProcessRepoScanResult instead of printing directly.
  */
-async function scanRepoForOrg(
-  ctx: ScanRepoContext
+export async function scanProcessRepo(
+  ctx: ProcessRepoScanContext
 ): Promise<ProcessRepoScanResult> {
-  const { repo, token, dryRun } = ctx;
+  const { repo, processConfig, token, dryRun, closeResolved, scanTime } = ctx;
   const [owner, repoName] = repo.split("/");
 
   try {
-    const result = await validateProcess({ repo });
-    const detection = mapToDetection(result, repo);
+    const tier = processConfig ? await getRepoTier(ctx) : undefined;
+    const detection = applyWaivers(
+      await runProcessChecks(ctx, tier),
+      await loadRepoWaivers(ctx)
+    );
 
     const scanResult: ProcessRepoScanResult = {
       repo,
       detection,
     };
 
-    // Create issue if there are violations
-    if (detection.violations.length > 0) {
+    // Only violations at or above the issue severity threshold open issues
+    const reported = filterIssueViolations(
+      detection,
+      processConfig?.issueSeverity,
+      tier
+    );
+    const unreported = detection.violations.length - reported.violations.length;
+    if (unreported > 0) {
+      scanResult.unreported = unreported;
+    }
+
+    // Create issue if there are reportable violations
+    if (reported.violations.length > 0) {
       if (dryRun) {
         scanResult.issueCreated = false;
       } else {
-        const issueResult = await createIssue(
+        const issueResult = await createOrUpdateIssue(
           {
             owner,
             repo: repoName,
             title: getProcessViolationsIssueTitle(),
-            body: formatProcessViolationsIssueBody(detection),
+            body: formatProcessViolationsIssueBody(reported),
             labels: [getProcessViolationsIssueLabel()],
           },
           token
         );
-        scanResult.issueCreated = true;
+        scanResult.issueCreated = issueResult.action === "created";
+        scanResult.issueAction = issueResult.action;
         scanResult.issueNumber = issueResult.number;
         scanResult.issueUrl = issueResult.html_url;
       }
+    } else if (closeResolved && !dryRun) {
+      const closed = await closeResolvedIssue(
+        {
+          owner,
+          repo: repoName,
+          label: getProcessViolationsIssueLabel(),
+          kind: "process-violations",
+          scan: "drift process scan",
+          scanTime,
+        },
+        token
+      );
+      if (closed) {
+        scanResult.issueAction = closed.action;
+        scanResult.issueNumber = closed.number;
+        scanResult.issueUrl = closed.html_url;
+      }
     }
 
     return scanResult;
@@ -348,11 +725,20 @@ function printOrgResults(results: ProcessOrgScanResults): void {
         const severityIcon = v.severity === "error" ? "✗" : "⚠";
         console.log(`    ${severityIcon} [${v.category}] ${v.message}`);
       }
+      if (repoResult.unreported) {
+        console.log(
+          `  ${COLORS.dim}${repoResult.unreported} below the issue severity threshold${COLORS.reset}`
+        );
+      }
     }
 
-    if (repoResult.issueCreated && repoResult.issueNumber) {
+    if (repoResult.issueAction && repoResult.issueNumber) {
+      const issue = {
+        number: repoResult.issueNumber,
+        action: repoResult.issueAction,
+      };
       console.log(
-        `  ${COLORS.green}✓ Created issue #${repoResult.issueNumber}${COLORS.reset}`
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue)}${COLORS.reset}`
       );
     }
   }
@@ -371,20 +757,46 @@ function printOrgResults(results: ProcessOrgScanResults): void {
         ? `, ${COLORS.red}${results.summary.reposWithViolations} with violations${COLORS.reset}`
         : "")
   );
+  if (results.summary.violationsWaived > 0) {
+    console.log(`  Waived violations: ${results.summary.violationsWaived}`);
+  }
+  if (results.summary.apiCache) {
+    console.log(
+      `  API cache: ${formatHttpCacheStats(results.summary.apiCache)}`
+    );
+  }
   if (results.summary.issuesCreated > 0) {
     console.log(
       `  Issues created: ${COLORS.green}${results.summary.issuesCreated}${COLORS.reset}`
     );
   }
+  if (results.summary.issuesUpdated > 0) {
+    console.log(
+      `  Issues updated: ${COLORS.green}${results.summary.issuesUpdated}${COLORS.reset}`
+    );
+  }
+  if (results.summary.issuesClosed > 0) {
+    console.log(
+      `  Issues closed: ${COLORS.green}${results.summary.issuesClosed}${COLORS.reset}`
+    );
+  }
 
   console.log("");
 
-  if (results.summary.reposWithViolations > 0) {
+  const { reposWithViolations, reposWithErrors } = results.summary;
+  if (reposWithErrors > 0) {
     console.log(
-      `${COLORS.red}✗ VIOLATIONS DETECTED IN ${results.summary.reposWithViolations} REPO${results.summary.reposWithViolations > 1 ? "S" : ""}${COLORS.reset}`
+      `${COLORS.red}✗ VIOLATIONS DETECTED IN ${reposWithErrors} REPO${reposWithErrors > 1 ? "S" : ""}${COLORS.reset}`
     );
     actionsOutput.error(
-      `Process violations detected in ${results.summary.reposWithViolations} repository(s)`
+      `Process violations detected in ${reposWithErrors} repository(s)`
+    );
+  } else if (reposWithViolations > 0) {
+    console.log(
+      `${COLORS.yellow}⚠ WARNINGS DETECTED IN ${reposWithViolations} REPO${reposWithViolations > 1 ? "S" : ""}${COLORS.reset}`
+    );
+    actionsOutput.warning(
+      `Process warnings detected in ${reposWithViolations} repository(s)`
     );
   } else {
     console.log(`${COLORS.green}✓ All repos passed${COLORS.reset}`);
@@ -392,13 +804,41 @@ function printOrgResults(results: ProcessOrgScanResults): void {
   }
 }
 
+/**
+ * Print org-wide scan results as JSON or SARIF
+ */
+function printMachineOutput(
+  results: ProcessOrgScanResults,
+  format: OutputFormat
+): void {
+  if (format === "sarif") {
+    const findings = results.repos.flatMap((r) =>
+      r.detection ? getProcessFindings(r.detection) : []
+    );
+    console.log(JSON.stringify(formatSarif(findings), null, 2));
+  } else {
+    console.log(JSON.stringify(results, null, 2));
+  }
+}
+
 /**
  * Scan all repos in an organization for process violations.
  */
 async function scanOrgRepos(
   options: ScanOrgReposOptions
 ): Promise<ProcessOrgScanResults> {
-  const { org, token, json, dryRun, includeAll, sinceHours } = options;
+  const {
+    org,
+    token,
+    json,
+    format,
+    dryRun,
+    includeAll,
+    sinceHours,
+    closeResolved,
+    configRepo,
+    discovery,
+  } = options;
 
   // Initialize results
   const results: ProcessOrgScanResults = {
@@ -424,6 +864,7 @@ async function scanOrgRepos(
     token,
     includeAll,
     sinceHours,
+    discovery,
     onProgress: (checked, total) => {
       if (!json) {
         process.stdout.write(
@@ -445,6 +886,9 @@ async function scanOrgRepos(
   }
 
   const repoNames = discoveryResult.repos.map((r) => r.full_name);
+  const defaultBranches = new Map(
+    discoveryResult.repos.map((r) => [r.full_name, r.default_branch])
+  );
 
   if (!json) {
     if (discoveryResult.filteredByActivity) {
@@ -463,13 +907,17 @@ async function scanOrgRepos(
 
   if (repoNames.length === 0) {
     if (json) {
-      console.log(JSON.stringify(results, null, 2));
+      printMachineOutput(results, format);
     } else {
       console.log("\nNo repos to scan.");
     }
     return results;
   }
 
+  // The config repo holds the org baseline, waivers and notification settings
+  const driftConfig = await getRemoteDriftConfig(org, configRepo, token);
+  const waivers = await getRemoteWaivers(org, configRepo, token);
+
   // Scan repos in parallel
   if (!json) {
     console.log(
@@ -484,7 +932,16 @@ async function scanOrgRepos(
         process.stdout.write(`Scanning ${repo}... `);
       }
 
-      const result = await scanRepoForOrg({ repo, token, dryRun });
+      const result = await scanProcessRepo({
+        repo,
+        processConfig: driftConfig?.process,
+        waivers,
+        defaultBranch: defaultBranches.get(repo),
+        token,
+        dryRun,
+        closeResolved,
+        scanTime: results.timestamp,
+      });
 
       // Print inline status
       if (!json) {
@@ -493,7 +950,7 @@ async function scanOrgRepos(
             `${COLORS.yellow}⚠ skipped (${result.error})${COLORS.reset}`
           );
         } else if (result.detection && result.detection.violations.length > 0) {
-          const issueInfo = result.issueCreated
+          const issueInfo = result.issueNumber
             ? ` → issue #${result.issueNumber}`
             : dryRun
               ? " [dry-run]"
@@ -503,7 +960,11 @@ async function scanOrgRepos(
           );
           actionsOutput.warning(`Process violations detected in ${repo}`);
         } else {
-          console.log(`${COLORS.green}✓ ok${COLORS.reset}`);
+          const closedInfo =
+            result.issueAction === "closed"
+              ? ` → closed issue #${result.issueNumber}`
+              : "";
+          console.log(`${COLORS.green}✓ ok${closedInfo}${COLORS.reset}`);
         }
       }
 
@@ -521,16 +982,52 @@ async function scanOrgRepos(
       if (repoResult.detection && repoResult.detection.violations.length > 0) {
         results.summary.reposWithViolations++;
       }
+      if (hasErrorViolations(repoResult.detection)) {
+        results.summary.reposWithErrors++;
+      }
+      results.summary.violationsWaived +=
+        repoResult.detection?.waived?.length ?? 0;
       if (repoResult.issueCreated) {
         results.summary.issuesCreated++;
+      } else if (repoResult.issueAction === "updated") {
+        results.summary.issuesUpdated++;
+      } else if (repoResult.issueAction === "closed") {
+        results.summary.issuesClosed++;
       }
     }
     results.repos.push(repoResult);
   }
 
+  // Send the summary to any notifiers configured in the config repo
+  if (!dryRun) {
+    if (driftConfig?.notifications) {
+      await sendScanNotifications({
+        notifiers: driftConfig.notifications,
+        notification: {
+          scan: "drift process scan",
+          org,
+          timestamp: results.timestamp,
+          summary: results.summary,
+          repos: results.repos
+            .filter((r) => r.detection && r.detection.violations.length > 0)
+            .map((r) => ({
+              repo: r.repo,
+              issueUrls: r.issueUrl ? [r.issueUrl] : [],
+            })),
+        },
+        token,
+      });
+    }
+  }
+
+  const apiCache = getHttpCacheStats();
+  if (apiCache) {
+    results.summary.apiCache = apiCache;
+  }
+
   // Output results
   if (json) {
-    console.log(JSON.stringify(results, null, 2));
+    printMachineOutput(results, format);
   } else {
     printOrgResults(results);
   }
@@ -539,8 +1036,26 @@ async function scanOrgRepos(
 }
 
 export async function scan(options: ProcessScanOptions): Promise<void> {
-  const { repo, org, config, json, dryRun, all, since } = options;
+  const { repo, org, config, dryRun, all, since, closeResolved } = options;
   const sinceHours = parseInt(since ?? "24", 10);
+  const format = resolveOutputFormat(options);
+  if (!format) {
+    const errorMsg = getInvalidFormatMessage(options.format);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+  const json = format !== "text";
+
+  const discovery = parseDiscoveryBackend(options.discovery);
+  if (!discovery) {
+    const errorMsg = getInvalidDiscoveryMessage(options.discovery);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
 
   // Validate options: need either --repo or --org
   if (!repo && !org) {
@@ -551,8 +1066,14 @@ export async function scan(options: ProcessScanOptions): Promise<void> {
     return;
   }
 
+  configureGitHubUrl(options.githubUrl);
+  configureApiCache(options.cache !== false);
+
   // Get GitHub token (required for validateProcess to fetch repo data)
-  const token = getGitHubToken();
+  // (falls back to a GitHub App installation token for the repo owner)
+  const owner = (org ?? repo)?.split("/")[0];
+  const token =
+    getGitHubToken() ?? (owner ? await getGitHubAppToken(owner) : undefined);
   if (!token) {
     const errorMsg =
       "GitHub token required. Set GITHUB_TOKEN environment variable or use --github-token";
@@ -578,15 +1099,16 @@ export async function scan(options: ProcessScanOptions): Promise<void> {
         return;
       }
 
-      const hasViolations = await scanSingleRepo({
+      const hasErrors = await scanSingleRepo({
         repo,
         config,
-        json: json ?? false,
+        json,
+        format,
         dryRun: dryRun ?? false,
         token,
       });
 
-      if (hasViolations) {
+      if (hasErrors) {
         process.exit(1);
       }
       return;
@@ -597,14 +1119,18 @@ export async function scan(options: ProcessScanOptions): Promise<void> {
       const results = await scanOrgRepos({
         org,
         token,
-        json: json ?? false,
+        json,
+        format,
         dryRun: dryRun ?? false,
         includeAll: all ?? false,
         sinceHours,
+        closeResolved: closeResolved ?? false,
+        configRepo: options.configRepo ?? DEFAULTS.configRepo,
+        discovery,
       });
 
-      // Exit with error code if there are violations
-      if (results.summary.reposWithViolations > 0) {
+      // Exit with error code if there are error-level violations
+      if (results.summary.reposWithErrors > 0) {
         process.exit(1);
       }
     }
@@ -0,0 +1,64 @@
+import { Command } from "commander";
+import { scan } from "./scan.js";
+import { DEFAULTS } from "../../constants.js";
+
+/**
+ * Register the unified scan command on the given program
+ */
+export function registerScanCommand(program: Command): void {
+  program
+    .command("scan")
+    .description(
+      "Scan an organization for code, process and infra drift in one pass"
+    )
+    .requiredOption(
+      "-o, --org <org>",
+      "GitHub organization or username to scan"
+    )
+    .option(
+      "--only <domains>",
+      "Comma-separated domains to scan: code, process, infra (default: all)"
+    )
+    .option("--config-repo <repo>", "Config repo name (default: drift-config)")
+    .option(
+      "--github-token <token>",
+      "GitHub token (or set GITHUB_TOKEN env var)"
+    )
+    .option(
+      "--github-url <url>",
+      "GitHub Enterprise Server URL (default: https://github.com)"
+    )
+    .option(
+      "--discovery <backend>",
+      "Repo discovery backend: rest or graphql (default: rest)"
+    )
+    .option("--json", "Output results as JSON")
+    .option(
+      "--format <format>",
+      "Output format: text, json or sarif (default: text)"
+    )
+    .option(
+      "-n, --dry-run",
+      "Show what issues would be created without creating them"
+    )
+    .option("-a, --all", "Scan all repos regardless of commit activity")
+    .option(
+      "--since <hours>",
+      `Hours to look back for commits (default: ${DEFAULTS.commitWindowHours})`,
+      (value) => parseInt(value, 10)
+    )
+    .option(
+      "--state-file <path>",
+      "Local JSON file recording the last scanned commit per repo"
+    )
+    .option(
+      "--close-resolved",
+      "Close drift issues whose drift is no longer detected"
+    )
+    .option("--no-cache", "Do not cache GitHub API responses on disk")
+    .option(
+      "--clone-cache <dir>",
+      "Keep repo clones in this directory and fetch updates on later scans"
+    )
+    .action(scan);
+}
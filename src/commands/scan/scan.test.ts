@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock external modules before imports
+vi.mock("check-my-toolkit", () => ({
+  validateProcess: vi.fn(),
+  scanInfra: vi.fn(),
+}));
+
+vi.mock("../../github/scan-repo-discovery.js", () => ({
+  discoverScanRepos: vi.fn(),
+}));
+
+vi.mock("../../github/client.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../github/client.js")>();
+  return {
+    ...actual,
+    checkoutRepo: vi.fn(async (_org: string, repo: string) => ({
+      dir: `/tmp/drift-${repo}`,
+      release: vi.fn(),
+    })),
+    getGitHubToken: vi.fn(() => "test-token"),
+  };
+});
+
+vi.mock("../../github/org-scanner.js", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../github/org-scanner.js")>();
+  return {
+    ...actual,
+    loadConfigRepo: vi.fn(async () => ({})),
+    runCodeChecks: vi.fn(),
+    syncCodeIssues: vi.fn(),
+  };
+});
+
+vi.mock("../process/scan.js", () => ({
+  scanProcessRepo: vi.fn(),
+}));
+
+vi.mock("../infra/scan.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../infra/scan.js")>();
+  return { ...actual, scanInfraRepo: vi.fn() };
+});
+
+// Import after mocking
+import { discoverScanRepos } from "../../github/scan-repo-discovery.js";
+import { checkoutRepo } from "../../github/client.js";
+import { runCodeChecks, syncCodeIssues } from "../../github/org-scanner.js";
+import { scanProcessRepo } from "../process/scan.js";
+import { scanInfraRepo } from "../infra/scan.js";
+import { createEmptyResults } from "../../utils/index.js";
+import type { ScanDomain } from "../../types.js";
+import type { UnifiedScanResults } from "./scan.js";
+
+function candidate(name: string, domains: ScanDomain[]) {
+  return {
+    repo: {
+      name,
+      full_name: `test-org/${name}`,
+      clone_url: `https://github.com/test-org/${name}.git`,
+      archived: false,
+      disabled: false,
+      owner: { login: "test-org" },
+    },
+    domains,
+  };
+}
+
+describe("scan", () => {
+  const mockDiscoverScanRepos = vi.mocked(discoverScanRepos);
+  const mockCheckoutRepo = vi.mocked(checkoutRepo);
+  const mockRunCodeChecks = vi.mocked(runCodeChecks);
+  const mockSyncCodeIssues = vi.mocked(syncCodeIssues);
+  const mockScanProcessRepo = vi.mocked(scanProcessRepo);
+  const mockScanInfraRepo = vi.mocked(scanInfraRepo);
+
+  let mockExit: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExit = vi
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function getJsonOutput(): UnifiedScanResults {
+    return JSON.parse(consoleSpy.mock.calls[0][0] as string);
+  }
+
+  describe("parseScanDomains", () => {
+    it("defaults to every domain", async () => {
+      const { parseScanDomains } = await import("./scan.js");
+      expect(parseScanDomains(undefined)).toEqual(["code", "process", "infra"]);
+    });
+
+    it("returns requested domains in canonical order", async () => {
+      const { parseScanDomains } = await import("./scan.js");
+      expect(parseScanDomains("infra, process")).toEqual(["process", "infra"]);
+    });
+
+    it("rejects unknown or empty domain lists", async () => {
+      const { parseScanDomains } = await import("./scan.js");
+      expect(parseScanDomains("process,deploy")).toBeNull();
+      expect(parseScanDomains(",")).toBeNull();
+    });
+  });
+
+  it("clones each repo once and runs every configured domain against it", async () => {
+    mockDiscoverScanRepos.mockResolvedValueOnce({
+      repos: [candidate("repo-a", ["code", "process", "infra"])],
+      totalRepos: 1,
+      reposConfigured: 1,
+      isOrg: true,
+      filteredByActivity: false,
+    });
+    mockRunCodeChecks.mockReturnValueOnce({
+      repo: "repo-a",
+      results: createEmptyResults("test-org/repo-a"),
+      missingProjects: [],
+    });
+    mockScanProcessRepo.mockResolvedValueOnce({ repo: "test-org/repo-a" });
+    mockScanInfraRepo.mockResolvedValueOnce({ repo: "test-org/repo-a" });
+
+    const { scan } = await import("./scan.js");
+    await scan({ org: "test-org", json: true, all: true });
+
+    expect(mockCheckoutRepo).toHaveBeenCalledTimes(1);
+    const { dir: repoDir, release } =
+      await mockCheckoutRepo.mock.results[0].value;
+    expect(release).toHaveBeenCalled();
+    expect(mockSyncCodeIssues).toHaveBeenCalledTimes(1);
+    expect(mockScanProcessRepo).toHaveBeenCalledWith(
+      expect.objectContaining({
+        repo: "test-org/repo-a",
+        config: `${repoDir}/check.toml`,
+      })
+    );
+    expect(mockScanInfraRepo).toHaveBeenCalledWith(
+      expect.objectContaining({ repo: "test-org/repo-a", repoDir })
+    );
+
+    const output = getJsonOutput();
+    expect(output.domains).toEqual(["code", "process", "infra"]);
+    expect(output.summary.reposScanned).toBe(1);
+    expect(output.summary.reposWithDrift).toBe(0);
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it("only runs the domains passed to --only", async () => {
+    mockDiscoverScanRepos.mockResolvedValueOnce({
+      repos: [candidate("repo-a", ["process"])],
+      totalRepos: 1,
+      reposConfigured: 1,
+      isOrg: true,
+      filteredByActivity: false,
+    });
+    mockScanProcessRepo.mockResolvedValueOnce({ repo: "test-org/repo-a" });
+
+    const { scan } = await import("./scan.js");
+    await scan({ org: "test-org", only: "process,infra", json: true });
+
+    expect(mockDiscoverScanRepos).toHaveBeenCalledWith(
+      expect.objectContaining({ domains: ["process", "infra"] })
+    );
+    expect(mockRunCodeChecks).not.toHaveBeenCalled();
+    expect(mockScanInfraRepo).not.toHaveBeenCalled();
+    expect(mockScanProcessRepo).toHaveBeenCalledTimes(1);
+  });
+
+  it("combines drift from every domain and exits with 1", async () => {
+    mockDiscoverScanRepos.mockResolvedValueOnce({
+      repos: [candidate("repo-a", ["process"]), candidate("repo-b", ["infra"])],
+      totalRepos: 2,
+      reposConfigured: 2,
+      isOrg: true,
+      filteredByActivity: false,
+    });
+    mockScanProcessRepo.mockResolvedValueOnce({
+      repo: "test-org/repo-a",
+      detection: {
+        repository: "test-org/repo-a",
+        scanTime: "",
+        summary: [],
+        violations: [
+          {
+            check: "branches",
+            rule: "protection",
+            message: "Branch protection not enabled",
+            severity: "error",
+            category: "branches",
+          },
+        ],
+      },
+    });
+    mockScanInfraRepo.mockResolvedValueOnce({
+      repo: "test-org/repo-b",
+      detection: {
+        repository: "test-org/repo-b",
+        scanTime: "",
+        manifest: "infra-manifest.json",
+        summary: { total: 1, found: 0, missing: 1, errors: 0 },
+        resources: [
+          {
+            arn: "arn:aws:s3:::bucket",
+            exists: false,
+            service: "s3",
+            resourceType: "bucket",
+            resourceId: "bucket",
+          },
+        ],
+      },
+    });
+
+    const { scan } = await import("./scan.js");
+    await scan({ org: "test-org", only: "process,infra", format: "sarif" });
+
+    const sarif = JSON.parse(consoleSpy.mock.calls[0][0] as string);
+    expect(
+      sarif.runs[0].results.map((r: { ruleId: string }) => r.ruleId)
+    ).toEqual([
+      "drift/process/branches/protection",
+      "drift/infra/missing-resource",
+    ]);
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("rejects unknown domains", async () => {
+    const { scan } = await import("./scan.js");
+    await scan({ org: "test-org", only: "deploy" });
+
+    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(mockDiscoverScanRepos).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,769 @@
+import { join } from "path";
+import { version } from "../../version.js";
+import {
+  actionsOutput,
+  COLORS,
+  createEmptyResults,
+  getErrorMessage,
+} from "../../utils/index.js";
+import {
+  checkoutRepo,
+  createTempDir,
+  describeSyncedIssue,
+  configureApiCache,
+  evictUnlistedRepos,
+  configureGitHubUrl,
+  getGitHubAppToken,
+  getGitHubToken,
+  removeTempDir,
+} from "../../github/client.js";
+import {
+  configureCloneCache,
+  type RepoCheckout,
+} from "../../github/clone-cache.js";
+import {
+  discoverScanRepos,
+  type ScanRepoCandidate,
+} from "../../github/scan-repo-discovery.js";
+import {
+  getInvalidDiscoveryMessage,
+  parseDiscoveryBackend,
+} from "../../github/graphql-discovery.js";
+import {
+  formatHttpCacheStats,
+  getHttpCacheStats,
+} from "../../github/http-cache.js";
+import {
+  getActivityWindowHours,
+  loadConfigRepo,
+  markUnchangedFindings,
+  matchesExcludePattern,
+  openScanState,
+  persistScanState,
+  recordRepoScanState,
+  repoHasIssues,
+  runCodeChecks,
+  syncCodeIssues,
+} from "../../github/org-scanner.js";
+import { scanProcessRepo } from "../process/scan.js";
+import { hasErrorViolations } from "../../config/issue-severity.js";
+import { hasDrift, scanInfraRepo } from "../infra/scan.js";
+import { sendScanNotifications } from "../../notifications/notify.js";
+import type { ScanState } from "../../config/scan-state.js";
+import { loadWaivers } from "../../config/waivers.js";
+import { CONCURRENCY, DEFAULTS, FILE_PATTERNS } from "../../constants.js";
+import {
+  getInvalidFormatMessage,
+  resolveOutputFormat,
+  type OutputFormat,
+} from "../../output/format.js";
+import {
+  formatSarif,
+  getCodeScanFindings,
+  getInfraFindings,
+  getProcessFindings,
+  type DriftFinding,
+} from "../../output/sarif.js";
+import type {
+  DiscoveryBackend,
+  DriftConfig,
+  InfraRepoScanResult,
+  ProcessRepoScanResult,
+  RepoScanResult,
+  ScanDomain,
+  UnifiedScanSummary,
+  Waiver,
+} from "../../types.js";
+
+export interface UnifiedRepoScanResult {
+  repo: string; // owner/repo
+  domains: ScanDomain[]; // Domains the repo is configured for
+  code?: RepoScanResult;
+  process?: ProcessRepoScanResult;
+  infra?: InfraRepoScanResult;
+  error?: string;
+}
+
+export interface UnifiedScanResults {
+  org: string;
+  configRepo: string;
+  timestamp: string;
+  domains: ScanDomain[];
+  repos: UnifiedRepoScanResult[];
+  summary: UnifiedScanSummary;
+}
+
+export interface UnifiedScanOptions {
+  org: string;
+  only?: string; // Comma-separated domains (default: all)
+  configRepo?: string;
+  githubToken?: string;
+  githubUrl?: string; // GitHub Enterprise Server URL
+  discovery?: string; // Repo discovery backend: rest or graphql
+  json?: boolean;
+  format?: string;
+  dryRun?: boolean;
+  all?: boolean;
+  since?: number; // Hours to look back for commits (default: 24)
+  stateFile?: string;
+  closeResolved?: boolean;
+  cache?: boolean; // false with --no-cache
+  cloneCache?: string; // Persistent clone cache directory
+}
+
+const SCAN_DOMAINS: readonly ScanDomain[] = ["code", "process", "infra"];
+
+interface RepoScanContext {
+  org: string;
+  config: DriftConfig;
+  waivers: Waiver[]; // Config repo waivers
+  token: string;
+  windowHours: number;
+  scanState: ScanState | null;
+  dryRun: boolean;
+  closeResolved: boolean;
+  scanTime: string;
+  json: boolean;
+}
+
+/**
+ * Parse the --only domain list.
+ *
+ * @returns The domains in canonical order, or null if any is unknown
+ */
+export function parseScanDomains(
+  only: string | undefined
+): ScanDomain[] | null {
+  if (only === undefined) {
+    return [...SCAN_DOMAINS];
+  }
+  const requested = only
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => d.length > 0);
+  if (
+    requested.length === 0 ||
+    requested.some((d) => !SCAN_DOMAINS.some((known) => known === d))
+  ) {
+    return null;
+  }
+  return SCAN_DOMAINS.filter((d) => requested.includes(d));
+}
+
+/**
+ * Run async tasks with a concurrency limit.
+ */
+async function parallelLimit<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  concurrency: number
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let currentIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (currentIndex < items.length) {
+      const index = currentIndex++;
+      results[index] = await fn(items[index]);
+    }
+  }
+
+  const workers = Array(Math.min(concurrency, items.length))
+    .fill(null)
+    .map(() => worker());
+
+  await Promise.all(workers);
+  return results;
+}
+
+function createEmptySummary(): UnifiedScanSummary {
+  return {
+    reposScanned: 0,
+    reposWithDrift: 0,
+    reposSkipped: 0,
+    codeReposWithIssues: 0,
+    processReposWithViolations: 0,
+    processViolationsWaived: 0,
+    infraReposWithDrift: 0,
+  };
+}
+
+function codeHasIssues(result: UnifiedRepoScanResult): boolean {
+  return Boolean(
+    result.code && !result.code.error && repoHasIssues(result.code)
+  );
+}
+
+function processHasViolations(result: UnifiedRepoScanResult): boolean {
+  return Boolean(
+    result.process?.detection && result.process.detection.violations.length > 0
+  );
+}
+
+function infraHasDrift(result: UnifiedRepoScanResult): boolean {
+  return Boolean(result.infra?.detection && hasDrift(result.infra.detection));
+}
+
+/**
+ * Check if any domain found drift in a repo
+ */
+export function repoHasDrift(result: UnifiedRepoScanResult): boolean {
+  return (
+    codeHasIssues(result) ||
+    processHasViolations(result) ||
+    infraHasDrift(result)
+  );
+}
+
+/**
+ * Check if a repo's drift fails the scan; process warnings alone do not
+ */
+function repoFailsScan(result: UnifiedRepoScanResult): boolean {
+  return (
+    codeHasIssues(result) ||
+    hasErrorViolations(result.process?.detection) ||
+    infraHasDrift(result)
+  );
+}
+
+/**
+ * Get the issues created or updated for a repo's drift across all domains
+ */
+function getIssueUrls(result: UnifiedRepoScanResult): string[] {
+  return [
+    ...(result.code?.issueUrls ?? []),
+    result.process?.issueUrl,
+    result.infra?.issueUrl,
+  ].filter((url): url is string => url !== undefined);
+}
+
+/**
+ * Run the code checks against a checkout and sync their issues.
+ */
+async function scanCode(
+  candidate: ScanRepoCandidate,
+  checkout: RepoCheckout,
+  ctx: RepoScanContext
+): Promise<RepoScanResult> {
+  const repoName = candidate.repo.name;
+  const previous = ctx.scanState?.repos[repoName];
+  let result: RepoScanResult;
+  try {
+    result = runCodeChecks({
+      org: ctx.org,
+      repoName,
+      repoDir: checkout.dir,
+      config: ctx.config,
+      windowHours: ctx.windowHours,
+      token: ctx.token,
+      previous,
+      cached: checkout.cached,
+    });
+  } catch (error) {
+    return {
+      repo: repoName,
+      results: createEmptyResults(candidate.repo.full_name),
+      error: getErrorMessage(error),
+    };
+  }
+
+  // Issues are already up to date when the findings did not change
+  markUnchangedFindings(result, previous);
+  if (result.findingsUnchanged) {
+    return result;
+  }
+  await syncCodeIssues({
+    org: ctx.org,
+    repoName,
+    result,
+    token: ctx.token,
+    dryRun: ctx.dryRun,
+    closeResolved: ctx.closeResolved,
+    scanTime: ctx.scanTime,
+    json: ctx.json,
+  });
+  return result;
+}
+
+/**
+ * Clone a repo once and run every domain it is configured for against
+ * that checkout.
+ */
+async function scanRepo(
+  candidate: ScanRepoCandidate,
+  ctx: RepoScanContext
+): Promise<UnifiedRepoScanResult> {
+  const repo = candidate.repo.full_name;
+  const result: UnifiedRepoScanResult = { repo, domains: candidate.domains };
+  let checkout: RepoCheckout | null = null;
+
+  try {
+    checkout = await checkoutRepo(ctx.org, candidate.repo.name, ctx.token);
+    const repoDir = checkout.dir;
+
+    if (candidate.domains.includes("code")) {
+      result.code = await scanCode(candidate, checkout, ctx);
+    }
+
+    const issueOptions = {
+      token: ctx.token,
+      dryRun: ctx.dryRun,
+      closeResolved: ctx.closeResolved,
+      scanTime: ctx.scanTime,
+    };
+    if (candidate.domains.includes("process")) {
+      result.process = await scanProcessRepo({
+        repo,
+        config: join(repoDir, FILE_PATTERNS.checkToml),
+        processConfig: ctx.config.process,
+        waivers: ctx.waivers,
+        ...issueOptions,
+      });
+    }
+    if (candidate.domains.includes("infra")) {
+      result.infra = await scanInfraRepo({ repo, repoDir, ...issueOptions });
+    }
+  } catch (error) {
+    result.error = getErrorMessage(error);
+  } finally {
+    checkout?.release();
+  }
+
+  return result;
+}
+
+/**
+ * Print the inline status for a scanned repo
+ */
+function printRepoStatus(result: UnifiedRepoScanResult, dryRun: boolean): void {
+  if (result.error) {
+    console.log(`${COLORS.yellow}⚠ skipped (${result.error})${COLORS.reset}`);
+    return;
+  }
+  if (!repoHasDrift(result)) {
+    console.log(`${COLORS.green}✓ ok${COLORS.reset}`);
+    return;
+  }
+  const domains = [
+    codeHasIssues(result) ? "code" : null,
+    processHasViolations(result) ? "process" : null,
+    infraHasDrift(result) ? "infra" : null,
+  ].filter((d) => d !== null);
+  console.log(
+    `${COLORS.red}✗ drift in ${domains.join(", ")}${dryRun ? " [dry-run]" : ""}${COLORS.reset}`
+  );
+  actionsOutput.warning(`Drift detected in ${result.repo}`);
+}
+
+/**
+ * Print the drift found in each domain of a repo
+ */
+function printRepoDetails(result: UnifiedRepoScanResult): void {
+  const { code, process: proc, infra } = result;
+
+  if (code?.error) {
+    console.log(`  ${COLORS.yellow}⚠ Code: ${code.error}${COLORS.reset}`);
+  } else if (code && repoHasIssues(code)) {
+    for (const p of code.missingProjects ?? []) {
+      console.log(`  ⚠ Code: missing check.toml in ${p.path}`);
+    }
+    if (code.tierValidation?.error) {
+      console.log(`  ⚠ Code: tier mismatch: ${code.tierValidation.error}`);
+    }
+    for (const v of code.metadataViolations ?? []) {
+      console.log(`  ⚠ Code: metadata: ${v.message}`);
+    }
+    for (const c of code.dependencyChanges?.changes ?? []) {
+      console.log(`  ⚠ Code: ${c.file} ${c.status}`);
+    }
+  }
+
+  if (proc?.error) {
+    console.log(`  ${COLORS.yellow}⚠ Process: ${proc.error}${COLORS.reset}`);
+  }
+  for (const v of proc?.detection?.violations ?? []) {
+    const severityIcon = v.severity === "error" ? "✗" : "⚠";
+    console.log(`  ${severityIcon} Process: [${v.category}] ${v.message}`);
+  }
+
+  if (infra?.error) {
+    console.log(`  ${COLORS.yellow}⚠ Infra: ${infra.error}${COLORS.reset}`);
+  }
+  for (const r of infra?.detection?.resources ?? []) {
+    if (r.error) {
+      console.log(`  ⚠ Infra: could not check ${r.arn}: ${r.error}`);
+    } else if (!r.exists) {
+      console.log(`  ✗ Infra: missing ${r.arn}`);
+    }
+  }
+
+  for (const domain of [proc, infra]) {
+    if (domain?.issueAction && domain.issueNumber) {
+      const issue = { number: domain.issueNumber, action: domain.issueAction };
+      console.log(
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue)}${COLORS.reset}`
+      );
+    }
+  }
+}
+
+/**
+ * Print unified scan results
+ */
+function printResults(results: UnifiedScanResults): void {
+  console.log("");
+  console.log(`${COLORS.bold}RESULTS BY REPOSITORY${COLORS.reset}`);
+  console.log("═".repeat(60));
+
+  for (const repoResult of results.repos) {
+    if (!repoResult.error && !repoHasDrift(repoResult)) {
+      continue; // Skip repos with no drift
+    }
+    console.log(`\n${repoResult.repo}`);
+    console.log("─".repeat(60));
+    if (repoResult.error) {
+      console.log(
+        `  ${COLORS.yellow}⚠ Skipped: ${repoResult.error}${COLORS.reset}`
+      );
+      continue;
+    }
+    printRepoDetails(repoResult);
+  }
+
+  const { summary } = results;
+  console.log("");
+  console.log(`${COLORS.bold}SUMMARY${COLORS.reset}`);
+  console.log("═".repeat(60));
+  console.log(`  Organization: ${results.org}`);
+  console.log(`  Config repo: ${results.configRepo}`);
+  console.log(`  Domains: ${results.domains.join(", ")}`);
+  console.log(
+    `  Repos: ${summary.reposScanned} scanned` +
+      (summary.reposSkipped > 0 ? `, ${summary.reposSkipped} skipped` : "") +
+      (summary.reposWithDrift > 0
+        ? `, ${COLORS.red}${summary.reposWithDrift} with drift${COLORS.reset}`
+        : "")
+  );
+  if (summary.apiCache) {
+    console.log(`  API cache: ${formatHttpCacheStats(summary.apiCache)}`);
+  }
+  if (results.domains.includes("code")) {
+    console.log(`  Code: ${summary.codeReposWithIssues} repo(s) with issues`);
+  }
+  if (results.domains.includes("process")) {
+    console.log(
+      `  Process: ${summary.processReposWithViolations} repo(s) with violations` +
+        (summary.processViolationsWaived > 0
+          ? `, ${summary.processViolationsWaived} violation(s) waived`
+          : "")
+    );
+  }
+  if (results.domains.includes("infra")) {
+    console.log(`  Infra: ${summary.infraReposWithDrift} repo(s) with drift`);
+  }
+
+  console.log("");
+
+  if (summary.reposWithDrift > 0) {
+    console.log(
+      `${COLORS.red}✗ DRIFT DETECTED IN ${summary.reposWithDrift} REPO${summary.reposWithDrift > 1 ? "S" : ""}${COLORS.reset}`
+    );
+    actionsOutput.error(
+      `Drift detected in ${summary.reposWithDrift} repository(s)`
+    );
+  } else {
+    console.log(`${COLORS.green}✓ All repos passed${COLORS.reset}`);
+    actionsOutput.notice("All repositories passed drift checks");
+  }
+}
+
+/**
+ * Print unified scan results as JSON or SARIF
+ */
+function printMachineOutput(
+  results: UnifiedScanResults,
+  format: OutputFormat
+): void {
+  if (format === "sarif") {
+    const findings = results.repos.flatMap((r): DriftFinding[] => [
+      ...(r.code && !r.code.error ? getCodeScanFindings(r.repo, r.code) : []),
+      ...(r.process?.detection ? getProcessFindings(r.process.detection) : []),
+      ...(r.infra?.detection ? getInfraFindings(r.infra.detection) : []),
+    ]);
+    console.log(JSON.stringify(formatSarif(findings), null, 2));
+  } else {
+    console.log(JSON.stringify(results, null, 2));
+  }
+}
+
+/**
+ * Add a repo's result to the summary
+ */
+function addToSummary(
+  summary: UnifiedScanSummary,
+  result: UnifiedRepoScanResult
+): void {
+  if (result.error) {
+    summary.reposSkipped++;
+    return;
+  }
+  summary.reposScanned++;
+  if (repoHasDrift(result)) {
+    summary.reposWithDrift++;
+  }
+  if (codeHasIssues(result)) {
+    summary.codeReposWithIssues++;
+  }
+  if (processHasViolations(result)) {
+    summary.processReposWithViolations++;
+  }
+  summary.processViolationsWaived +=
+    result.process?.detection?.waived?.length ?? 0;
+  if (infraHasDrift(result)) {
+    summary.infraReposWithDrift++;
+  }
+}
+
+/**
+ * Discover the repos to scan, printing progress in text mode
+ */
+async function discoverRepos(
+  options: UnifiedScanOptions,
+  ctx: RepoScanContext & {
+    domains: ScanDomain[];
+    configRepoName: string;
+    discovery: DiscoveryBackend;
+  }
+): Promise<ScanRepoCandidate[]> {
+  const { org, json, domains } = ctx;
+  const includeAll = options.all ?? false;
+  if (!json) {
+    console.log(
+      includeAll
+        ? `Discovering repos in ${org}...`
+        : `Discovering repos in ${org} (commits in last ${ctx.windowHours}h)...`
+    );
+  }
+
+  const discovery = await discoverScanRepos({
+    org,
+    domains,
+    discovery: ctx.discovery,
+    token: ctx.token,
+    includeAll,
+    sinceHours: ctx.windowHours,
+    exclude: (name) =>
+      name === ctx.configRepoName ||
+      matchesExcludePattern(name, ctx.config.exclude ?? []),
+    activityHours: (name) =>
+      getActivityWindowHours(ctx.windowHours, ctx.scanState?.repos[name]),
+    onListed: (listing) => evictUnlistedRepos(org, listing),
+    onProgress: (checked, total) => {
+      if (!json) {
+        process.stdout.write(
+          `\rChecking repo configuration: ${checked}/${total}`
+        );
+      }
+    },
+    onActivityProgress: (checked, total) => {
+      if (!json) {
+        process.stdout.write(
+          `\rFiltering by recent activity: ${checked}/${total}`
+        );
+      }
+    },
+  });
+
+  if (!json) {
+    process.stdout.write("\r" + " ".repeat(50) + "\r");
+    console.log(
+      `Found ${discovery.reposConfigured}/${discovery.totalRepos} repos configured for ${domains.join(", ")}`
+    );
+    if (discovery.filteredByActivity) {
+      console.log(
+        `Active in last ${discovery.activityWindowHours}h: ${discovery.repos.length} repos`
+      );
+    }
+  }
+  return discovery.repos;
+}
+
+/**
+ * Scan every repo in an organization for code, process and infra drift in
+ * one pass: repos are discovered once and each is cloned once.
+ */
+export async function scan(options: UnifiedScanOptions): Promise<void> {
+  const format = resolveOutputFormat(options);
+  if (!format) {
+    const errorMsg = getInvalidFormatMessage(options.format);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+  const json = format !== "text";
+
+  const domains = parseScanDomains(options.only);
+  if (!domains) {
+    const errorMsg = `Unknown domain in --only "${options.only}". Use a comma-separated list of: ${SCAN_DOMAINS.join(", ")}`;
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+
+  const discovery = parseDiscoveryBackend(options.discovery);
+  if (!discovery) {
+    const errorMsg = getInvalidDiscoveryMessage(options.discovery);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+
+  // Process checks fetch repo data from the API, so a token is required
+  configureGitHubUrl(options.githubUrl);
+  configureApiCache(options.cache !== false);
+  configureCloneCache(options.cloneCache);
+  const token =
+    getGitHubToken(options.githubToken) ??
+    (await getGitHubAppToken(options.org));
+  if (!token) {
+    const errorMsg =
+      "GitHub token required. Set GITHUB_TOKEN environment variable or use --github-token";
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return;
+  }
+
+  if (!json) {
+    console.log(`Drift v${version}`);
+  }
+
+  const { org } = options;
+  const configRepoName = options.configRepo ?? DEFAULTS.configRepo;
+  const results: UnifiedScanResults = {
+    org,
+    configRepo: configRepoName,
+    timestamp: new Date().toISOString(),
+    domains,
+    repos: [],
+    summary: createEmptySummary(),
+  };
+  const dryRun = options.dryRun ?? false;
+  const configDir = createTempDir("config");
+
+  try {
+    const config = await loadConfigRepo({
+      org,
+      configRepoName,
+      configDir,
+      token,
+      json,
+    });
+
+    // Scan state only tracks code checks
+    const openedState = domains.includes("code")
+      ? openScanState(options, config, configDir)
+      : null;
+
+    const ctx: RepoScanContext = {
+      org,
+      config,
+      waivers: loadWaivers(configDir),
+      token,
+      windowHours: options.since ?? DEFAULTS.commitWindowHours,
+      scanState: openedState?.state ?? null,
+      dryRun,
+      closeResolved: options.closeResolved ?? false,
+      scanTime: results.timestamp,
+      json,
+    };
+
+    const candidates = await discoverRepos(options, {
+      ...ctx,
+      domains,
+      configRepoName,
+      discovery,
+    });
+
+    if (!json && candidates.length > 0) {
+      console.log(
+        `\nScanning ${candidates.length} repos with concurrency: ${Math.min(CONCURRENCY.maxRepoScans, candidates.length)}\n`
+      );
+    }
+
+    results.repos = await parallelLimit(
+      candidates,
+      async (candidate) => {
+        const result = await scanRepo(candidate, ctx);
+        if (!json) {
+          process.stdout.write(`Scanned ${result.repo}... `);
+          printRepoStatus(result, dryRun);
+        }
+        return result;
+      },
+      CONCURRENCY.maxRepoScans
+    );
+
+    for (const repoResult of results.repos) {
+      addToSummary(results.summary, repoResult);
+      if (ctx.scanState && repoResult.code) {
+        recordRepoScanState(ctx.scanState, repoResult.code, results.timestamp);
+      }
+    }
+
+    if (openedState && !dryRun) {
+      await persistScanState({
+        org,
+        configRepoName,
+        configDir,
+        location: openedState.location,
+        state: openedState.state,
+        token,
+        json,
+      });
+    }
+
+    if (config.notifications && !dryRun) {
+      await sendScanNotifications({
+        notifiers: config.notifications,
+        notification: {
+          scan: "drift scan",
+          org,
+          timestamp: results.timestamp,
+          summary: results.summary,
+          repos: results.repos.filter(repoHasDrift).map((r) => ({
+            repo: r.repo,
+            issueUrls: getIssueUrls(r),
+          })),
+        },
+        token,
+      });
+    }
+
+    const apiCache = getHttpCacheStats();
+    if (apiCache) {
+      results.summary.apiCache = apiCache;
+    }
+
+    if (json) {
+      printMachineOutput(results, format);
+    } else {
+      printResults(results);
+    }
+  } catch (error) {
+    const errorMsg = getErrorMessage(error);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+  } finally {
+    removeTempDir(configDir);
+  }
+
+  // Exit with error code if any repo has drift that fails the scan
+  if (results.repos.some(repoFailsScan)) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  filterIssueViolations,
+  getIssueSeverity,
+  hasErrorViolations,
+  meetsIssueSeverity,
+  type ProcessIssueSeverityConfig,
+} from "./issue-severity.js";
+import type { ProcessViolationsDetection } from "../types.js";
+
+const CONFIG: ProcessIssueSeverityConfig = {
+  default: "error",
+  categories: { branches: "warning" },
+  tiers: {
+    production: { default: "warning", categories: { docs: "error" } },
+    internal: { categories: { branches: "error" } },
+  },
+};
+
+function createDetection(
+  violations: Array<{ category: string; severity: "error" | "warning" }>
+): ProcessViolationsDetection {
+  return {
+    repository: "org/repo",
+    scanTime: "2026-01-01T00:00:00Z",
+    summary: [],
+    violations: violations.map((v, i) => ({
+      ...v,
+      check: `${v.category}.check`,
+      rule: `rule-${i}`,
+      message: `Violation ${i}`,
+    })),
+  };
+}
+
+describe("issue-severity", () => {
+  describe("getIssueSeverity", () => {
+    it("opens issues for every violation without a config", () => {
+      expect(getIssueSeverity(undefined, "production", "branches")).toBe(
+        "warning"
+      );
+    });
+
+    it("prefers the most specific setting", () => {
+      expect(getIssueSeverity(CONFIG, "production", "docs")).toBe("error");
+      expect(getIssueSeverity(CONFIG, "production", "ci")).toBe("warning");
+      expect(getIssueSeverity(CONFIG, "internal", "branches")).toBe("error");
+      expect(getIssueSeverity(CONFIG, "internal", "ci")).toBe("error");
+      expect(getIssueSeverity(CONFIG, undefined, "branches")).toBe("warning");
+      expect(getIssueSeverity(CONFIG, undefined, "ci")).toBe("error");
+    });
+  });
+
+  describe("meetsIssueSeverity", () => {
+    it("always reports errors", () => {
+      expect(
+        meetsIssueSeverity(CONFIG, "internal", {
+          category: "ci",
+          severity: "error",
+        })
+      ).toBe(true);
+    });
+
+    it("reports warnings only where the threshold allows them", () => {
+      expect(
+        meetsIssueSeverity(CONFIG, undefined, {
+          category: "branches",
+          severity: "warning",
+        })
+      ).toBe(true);
+      expect(
+        meetsIssueSeverity(CONFIG, undefined, {
+          category: "ci",
+          severity: "warning",
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("filterIssueViolations", () => {
+    it("keeps the violations that meet the threshold", () => {
+      const detection = createDetection([
+        { category: "branches", severity: "warning" },
+        { category: "ci", severity: "warning" },
+        { category: "ci", severity: "error" },
+      ]);
+
+      const reported = filterIssueViolations(detection, CONFIG, undefined);
+
+      expect(reported.violations.map((v) => v.rule)).toEqual([
+        "rule-0",
+        "rule-2",
+      ]);
+      expect(detection.violations).toHaveLength(3);
+    });
+  });
+
+  describe("hasErrorViolations", () => {
+    it("ignores warnings", () => {
+      expect(
+        hasErrorViolations(
+          createDetection([{ category: "ci", severity: "warning" }])
+        )
+      ).toBe(false);
+      expect(
+        hasErrorViolations(
+          createDetection([
+            { category: "ci", severity: "warning" },
+            { category: "docs", severity: "error" },
+          ])
+        )
+      ).toBe(true);
+      expect(hasErrorViolations(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Severity thresholds for process violation issues.
+ *
+ * drift.config.yaml can raise the minimum severity that opens an issue,
+ * per tier and per category, so warnings alone do not open issues where
+ * they are noise. Violations below the threshold are still scanned and
+ * reported in JSON output and summaries.
+ */
+
+import type {
+  ProcessSeverity,
+  ProcessViolation,
+  ProcessViolationsDetection,
+} from "../types.js";
+
+/** Minimum severity of a process violation that opens an issue */
+export interface ProcessSeverityThreshold {
+  default?: ProcessSeverity;
+  categories?: Record<string, ProcessSeverity>; // e.g. { branches: "error" }
+}
+
+export interface ProcessIssueSeverityConfig extends ProcessSeverityThreshold {
+  tiers?: Record<string, ProcessSeverityThreshold>; // Override per tier
+}
+
+const SEVERITY_RANK: Record<ProcessSeverity, number> = {
+  warning: 0,
+  error: 1,
+};
+
+/**
+ * Get the minimum severity that opens an issue for a category. The most
+ * specific setting wins: tier and category, tier, category, then the
+ * default. Without any setting every violation opens an issue.
+ */
+export function getIssueSeverity(
+  config: ProcessIssueSeverityConfig | undefined,
+  tier: string | undefined,
+  category: string
+): ProcessSeverity {
+  const tierConfig = tier ? config?.tiers?.[tier] : undefined;
+  return (
+    tierConfig?.categories?.[category] ??
+    tierConfig?.default ??
+    config?.categories?.[category] ??
+    config?.default ??
+    "warning"
+  );
+}
+
+/** Whether a violation is severe enough to open an issue. */
+export function meetsIssueSeverity(
+  config: ProcessIssueSeverityConfig | undefined,
+  tier: string | undefined,
+  violation: Pick<ProcessViolation, "category" | "severity">
+): boolean {
+  const threshold = getIssueSeverity(config, tier, violation.category);
+  return SEVERITY_RANK[violation.severity] >= SEVERITY_RANK[threshold];
+}
+
+/**
+ * Keep only the violations that meet the issue severity threshold, for the
+ * issue body. The category summary is left as scanned.
+ */
+export function filterIssueViolations(
+  detection: ProcessViolationsDetection,
+  config: ProcessIssueSeverityConfig | undefined,
+  tier: string | undefined
+): ProcessViolationsDetection {
+  return {
+    ...detection,
+    violations: detection.violations.filter((v) =>
+      meetsIssueSeverity(config, tier, v)
+    ),
+  };
+}
+
+/** Whether a detection has error-level violations, which fail the scan. */
+export function hasErrorViolations(
+  detection: ProcessViolationsDetection | undefined
+): boolean {
+  return Boolean(detection?.violations.some((v) => v.severity === "error"));
+}
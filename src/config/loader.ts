@@ -15,17 +15,92 @@ const METADATA_SCHEMA_SCHEMA = z
   })
   .optional();
 
+const SCAN_STATE_CONFIG_SCHEMA = z
+  .object({
+    path: z.string(),
+  })
+  .optional();
+
+const NOTIFIER_CONFIG_SCHEMA = z
+  .object({
+    type: z.enum(["webhook", "slack", "teams"]),
+    url: z.url().optional(),
+    urlEnv: z.string().optional(),
+    teams: z.array(z.string()).optional(),
+  })
+  .refine((n) => n.url !== undefined || n.urlEnv !== undefined, {
+    message: "Either url or urlEnv is required",
+  });
+
+const GITHUB_SERVER_CONFIG_SCHEMA = z
+  .object({
+    url: z.url().optional(),
+  })
+  .optional();
+
+const DEPENDENCY_CHANGES_CONFIG_SCHEMA = z
+  .object({
+    onlyWeakening: z.boolean().optional(),
+    tiers: z.array(z.string()).optional(),
+  })
+  .optional();
+
+const PROCESS_SEVERITY_SCHEMA = z.enum(["error", "warning"]);
+
+const PROCESS_SEVERITY_THRESHOLD_SCHEMA = z.object({
+  default: PROCESS_SEVERITY_SCHEMA.optional(),
+  categories: z.record(z.string(), PROCESS_SEVERITY_SCHEMA).optional(),
+});
+
+const REPO_SETTINGS_SCHEMA = z.object({
+  mergeMethods: z.array(z.enum(["merge", "squash", "rebase"])).optional(),
+  deleteBranchOnMerge: z.boolean().optional(),
+  defaultBranch: z.string().optional(),
+  visibility: z.enum(["public", "private", "internal"]).optional(),
+  vulnerabilityAlerts: z.boolean().optional(),
+  secretScanning: z.boolean().optional(),
+  pushProtection: z.boolean().optional(),
+  dependabotSecurityUpdates: z.boolean().optional(),
+});
+
+const PROCESS_CONFIG_SCHEMA = z
+  .object({
+    baseline: z
+      .record(
+        z.string(),
+        z.record(z.string(), z.record(z.string(), z.unknown()))
+      )
+      .optional(),
+    issueSeverity: PROCESS_SEVERITY_THRESHOLD_SCHEMA.extend({
+      tiers: z.record(z.string(), PROCESS_SEVERITY_THRESHOLD_SCHEMA).optional(),
+    }).optional(),
+    repoSettings: REPO_SETTINGS_SCHEMA.extend({
+      tiers: z.record(z.string(), REPO_SETTINGS_SCHEMA).optional(),
+    }).optional(),
+  })
+  .optional();
+
 const DRIFT_CONFIG_SCHEMA = z.object({
   schema: METADATA_SCHEMA_SCHEMA,
   exclude: z.array(z.string()).optional(),
+  state: SCAN_STATE_CONFIG_SCHEMA,
+  notifications: z.array(NOTIFIER_CONFIG_SCHEMA).optional(),
+  github: GITHUB_SERVER_CONFIG_SCHEMA,
+  dependencyChanges: DEPENDENCY_CHANGES_CONFIG_SCHEMA,
+  process: PROCESS_CONFIG_SCHEMA,
 });
 
 /**
- * Load and parse a config file, returning the validated config or null on error.
+ * Parse and validate config file content, returning null on error.
+ *
+ * @param content - YAML content of the config file
+ * @param source - Where the content came from, for error messages
  */
-function loadConfigFile(configPath: string): DriftConfig | null {
+export function parseConfig(
+  content: string,
+  source: string
+): DriftConfig | null {
   try {
-    const content = readFileSync(configPath, "utf-8");
     const parsed: unknown = parse(content);
 
     const result = DRIFT_CONFIG_SCHEMA.safeParse(parsed);
@@ -33,11 +108,24 @@ function loadConfigFile(configPath: string): DriftConfig | null {
       const errors = result.error.issues
         .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
         .join("\n");
-      console.error(`Invalid config in ${configPath}:\n${errors}`);
+      console.error(`Invalid config in ${source}:\n${errors}`);
       return null;
     }
 
     return result.data as DriftConfig;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Error parsing ${source}: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * Load and parse a config file, returning the validated config or null on error.
+ */
+function loadConfigFile(configPath: string): DriftConfig | null {
+  try {
+    return parseConfig(readFileSync(configPath, "utf-8"), configPath);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error(`Error parsing ${configPath}: ${message}`);
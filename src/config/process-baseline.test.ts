@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { parse as parseToml } from "smol-toml";
+import { getViolationLayer, mergeProcessBaseline } from "./process-baseline.js";
+
+const BASELINE = {
+  branches: { enabled: true, require_reviews: true, required_approvals: 2 },
+  codeowners: { enabled: true },
+};
+
+describe("process-baseline", () => {
+  describe("mergeProcessBaseline", () => {
+    it("merges the baseline under the repo's own process sections", () => {
+      const merged = mergeProcessBaseline(
+        `[code.linting.eslint]
+enabled = true
+
+[process.branches]
+required_approvals = 1
+
+[process.commits]
+enabled = true
+`,
+        BASELINE
+      );
+
+      expect(parseToml(merged?.content ?? "")).toEqual({
+        code: { linting: { eslint: { enabled: true } } },
+        process: {
+          branches: {
+            enabled: true,
+            require_reviews: true,
+            required_approvals: 1,
+          },
+          codeowners: { enabled: true },
+          commits: { enabled: true },
+        },
+      });
+      expect(merged?.layers).toEqual({
+        branches: {
+          enabled: "org",
+          require_reviews: "org",
+          required_approvals: "repo",
+        },
+        codeowners: { enabled: "org" },
+        commits: { enabled: "repo" },
+      });
+    });
+
+    it("applies the whole baseline to repos without a check.toml", () => {
+      const merged = mergeProcessBaseline(null, BASELINE);
+
+      expect(parseToml(merged?.content ?? "")).toEqual({ process: BASELINE });
+    });
+
+    it("returns null for invalid TOML", () => {
+      expect(mergeProcessBaseline("[process", BASELINE)).toBeNull();
+    });
+  });
+
+  describe("getViolationLayer", () => {
+    const layers = {
+      branches: {
+        enabled: "org" as const,
+        require_reviews: "org" as const,
+        required_approvals: "repo" as const,
+      },
+      codeowners: { enabled: "org" as const },
+    };
+
+    it("uses the layer of the key the rule is named after", () => {
+      expect(
+        getViolationLayer(layers, {
+          category: "branches",
+          check: "branches.protection",
+          rule: "required_approvals",
+        })
+      ).toBe("repo");
+      expect(
+        getViolationLayer(layers, {
+          category: "branches",
+          check: "branches.protection",
+          rule: "process.branches.require_reviews",
+        })
+      ).toBe("org");
+    });
+
+    it("falls back to the section's layer when it has only one", () => {
+      expect(
+        getViolationLayer(layers, {
+          category: "codeowners",
+          check: "codeowners.file",
+          rule: "missing",
+        })
+      ).toBe("org");
+      expect(
+        getViolationLayer(layers, {
+          category: "branches",
+          check: "branches.protection",
+          rule: "missing",
+        })
+      ).toBeUndefined();
+      expect(
+        getViolationLayer(layers, {
+          category: "ci",
+          check: "ci.workflows",
+          rule: "missing",
+        })
+      ).toBeUndefined();
+    });
+  });
+});
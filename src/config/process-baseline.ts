@@ -0,0 +1,119 @@
+/**
+ * Org-wide process baseline.
+ *
+ * drift.config.yaml in the config repo can define default `[process.*]`
+ * sections per tier. A repo is validated against the baseline for its tier
+ * merged with its own check.toml, where the repo's values win, and each
+ * merged key remembers which layer it came from.
+ */
+
+import { parse as parseToml, stringify as stringifyToml } from "smol-toml";
+import type {
+  ProcessRuleLayer,
+  ProcessRuleLayers,
+  ProcessSections,
+  ProcessViolation,
+} from "../types.js";
+
+type Table = Record<string, unknown>;
+
+export interface MergedProcessConfig {
+  content: string; // check.toml with the baseline merged into [process]
+  layers: ProcessRuleLayers;
+}
+
+function isTable(value: unknown): value is Table {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Merge two tables; own values win, and sub-tables merge recursively. */
+function mergeTables(defaults: Table, own: Table): Table {
+  const merged: Table = { ...defaults };
+  for (const [key, value] of Object.entries(own)) {
+    merged[key] =
+      isTable(value) && isTable(defaults[key])
+        ? mergeTables(defaults[key], value)
+        : value;
+  }
+  return merged;
+}
+
+function tagKeys(
+  table: Table,
+  layer: ProcessRuleLayer
+): Record<string, ProcessRuleLayer> {
+  return Object.fromEntries(Object.keys(table).map((key) => [key, layer]));
+}
+
+/**
+ * Merge a tier's baseline `[process.*]` sections into a repo's check.toml.
+ * Keys the repo sets itself override the baseline's.
+ *
+ * @param checkToml - The repo's check.toml, or null if it has none
+ * @returns The merged check.toml and the layer of each process key, or
+ *   null if the repo's check.toml is not valid TOML
+ */
+export function mergeProcessBaseline(
+  checkToml: string | null,
+  baseline: ProcessSections
+): MergedProcessConfig | null {
+  let config: Table;
+  try {
+    config = checkToml ? parseToml(checkToml) : {};
+  } catch {
+    return null;
+  }
+  const own = isTable(config.process) ? config.process : {};
+  const processConfig: Table = { ...own };
+  const layers: ProcessRuleLayers = {};
+
+  for (const [section, values] of Object.entries(own)) {
+    if (isTable(values)) {
+      layers[section] = tagKeys(values, "repo");
+    }
+  }
+  for (const [section, defaults] of Object.entries(baseline)) {
+    const ownSection = own[section] ?? {};
+    if (!isTable(ownSection)) {
+      continue; // A scalar set by the repo replaces the whole section
+    }
+    processConfig[section] = mergeTables(defaults, ownSection);
+    layers[section] = {
+      ...tagKeys(defaults, "org"),
+      ...tagKeys(ownSection, "repo"),
+    };
+  }
+
+  return {
+    content: stringifyToml({ ...config, process: processConfig }),
+    layers,
+  };
+}
+
+/**
+ * Find the layer that defined the rule a violation breaks: the layer of
+ * the key the rule is named after, or the section's layer when all its
+ * keys come from one layer.
+ *
+ * @returns The layer, or undefined if it cannot be told apart
+ */
+export function getViolationLayer(
+  layers: ProcessRuleLayers,
+  violation: Pick<ProcessViolation, "category" | "check" | "rule">
+): ProcessRuleLayer | undefined {
+  const keys = layers[violation.category];
+  if (!keys) {
+    return undefined;
+  }
+  const matched = Object.entries(keys).find(
+    ([key]) =>
+      violation.rule === key ||
+      violation.rule.endsWith(`.${key}`) ||
+      violation.check === `${violation.category}.${key}`
+  );
+  if (matched) {
+    return matched[1];
+  }
+  const sectionLayers = new Set(Object.values(keys));
+  return sectionLayers.size === 1 ? [...sectionLayers][0] : undefined;
+}
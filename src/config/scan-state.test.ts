@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createEmptyScanState,
+  parseScanState,
+  loadScanState,
+  saveScanState,
+  serializeScanState,
+  type ScanState,
+} from "./scan-state.js";
+
+describe("scan state", () => {
+  let testDir: string;
+
+  const sampleState: ScanState = {
+    version: 1,
+    repos: {
+      "repo-b": {
+        lastScannedSha: "b".repeat(40),
+        lastScanTime: "2024-01-15T02:00:00.000Z",
+        findingsFingerprint: "0123456789abcdef",
+      },
+      "repo-a": {
+        lastScannedSha: "a".repeat(40),
+        lastScanTime: "2024-01-14T02:00:00.000Z",
+        findingsFingerprint: "fedcba9876543210",
+      },
+    },
+  };
+
+  beforeEach(() => {
+    testDir = join(
+      tmpdir(),
+      `drift-state-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("parseScanState", () => {
+    it("parses valid state", () => {
+      expect(parseScanState(JSON.stringify(sampleState))).toEqual(sampleState);
+    });
+
+    it("returns null for invalid JSON", () => {
+      expect(parseScanState("{not json")).toBeNull();
+    });
+
+    it("returns null for an unknown version", () => {
+      expect(parseScanState(JSON.stringify({ version: 2, repos: {} }))).toBe(
+        null
+      );
+    });
+
+    it("returns null when a repo entry is incomplete", () => {
+      const content = JSON.stringify({
+        version: 1,
+        repos: { "repo-a": { lastScannedSha: "abc" } },
+      });
+      expect(parseScanState(content)).toBeNull();
+    });
+  });
+
+  describe("loadScanState", () => {
+    it("returns empty state when the file does not exist", () => {
+      expect(loadScanState(join(testDir, "missing.json"))).toEqual(
+        createEmptyScanState()
+      );
+    });
+
+    it("returns empty state and reports an invalid file", () => {
+      const statePath = join(testDir, "state.json");
+      writeFileSync(statePath, "[]");
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(loadScanState(statePath)).toEqual(createEmptyScanState());
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Invalid scan state")
+      );
+
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("saveScanState", () => {
+    it("round-trips through loadScanState", () => {
+      const statePath = join(testDir, "nested", "dir", "state.json");
+
+      saveScanState(statePath, sampleState);
+
+      expect(loadScanState(statePath)).toEqual(sampleState);
+    });
+
+    it("writes repos sorted by name", () => {
+      const statePath = join(testDir, "state.json");
+
+      saveScanState(statePath, sampleState);
+
+      const content = readFileSync(statePath, "utf-8");
+      expect(content.indexOf("repo-a")).toBeLessThan(content.indexOf("repo-b"));
+      expect(content).toBe(serializeScanState(sampleState));
+    });
+  });
+});
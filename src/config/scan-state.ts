@@ -0,0 +1,98 @@
+/**
+ * Persistent scan state for org code scans.
+ *
+ * Records the last scanned commit for each repository, so a scan can diff
+ * from that commit to HEAD instead of relying on a fixed time window.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { z } from "zod";
+
+const SCAN_STATE_VERSION = 1;
+
+const REPO_SCAN_STATE_SCHEMA = z.object({
+  lastScannedSha: z.string(),
+  lastScanTime: z.string(),
+  findingsFingerprint: z.string(),
+});
+
+const SCAN_STATE_SCHEMA = z.object({
+  version: z.literal(SCAN_STATE_VERSION),
+  repos: z.record(z.string(), REPO_SCAN_STATE_SCHEMA),
+});
+
+/**
+ * State recorded for a single repository after a successful scan
+ */
+export type RepoScanState = z.infer<typeof REPO_SCAN_STATE_SCHEMA>;
+
+/**
+ * Scan state for all repositories, keyed by repo name
+ */
+export type ScanState = z.infer<typeof SCAN_STATE_SCHEMA>;
+
+/**
+ * Create an empty scan state.
+ */
+export function createEmptyScanState(): ScanState {
+  return { version: SCAN_STATE_VERSION, repos: {} };
+}
+
+/**
+ * Parse and validate scan state JSON.
+ *
+ * @param content - Raw JSON content of the state file
+ * @returns The parsed state, or null if the content is invalid
+ */
+export function parseScanState(content: string): ScanState | null {
+  try {
+    const result = SCAN_STATE_SCHEMA.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load scan state from a JSON file.
+ * A missing file yields an empty state; an invalid file is reported and
+ * replaced with an empty state, so every repo falls back to the time window.
+ *
+ * @param statePath - Path to the state file
+ * @returns The loaded scan state
+ */
+export function loadScanState(statePath: string): ScanState {
+  if (!existsSync(statePath)) {
+    return createEmptyScanState();
+  }
+
+  const state = parseScanState(readFileSync(statePath, "utf-8"));
+  if (!state) {
+    console.error(`Invalid scan state in ${statePath}, starting fresh`);
+    return createEmptyScanState();
+  }
+  return state;
+}
+
+/**
+ * Serialize scan state with repos sorted by name for readable diffs.
+ */
+export function serializeScanState(state: ScanState): string {
+  const repos: ScanState["repos"] = {};
+  for (const name of Object.keys(state.repos).sort()) {
+    repos[name] = state.repos[name];
+  }
+  return JSON.stringify({ version: state.version, repos }, null, 2) + "\n";
+}
+
+/**
+ * Write scan state to a JSON file, creating parent directories as needed.
+ *
+ * @param statePath - Path to the state file
+ * @param state - The scan state to write
+ */
+export function saveScanState(statePath: string, state: ScanState): void {
+  mkdirSync(dirname(statePath), { recursive: true });
+  writeFileSync(statePath, serializeScanState(state));
+}
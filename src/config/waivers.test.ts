@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  applyWaivers,
+  loadWaivers,
+  parseWaivers,
+  selectRepoWaivers,
+} from "./waivers.js";
+import type { ProcessViolationsDetection, Waiver } from "../types.js";
+
+const WAIVER: Waiver = {
+  domain: "process",
+  category: "ci",
+  check: "ci.workflows",
+  rule: "required_workflows",
+  reason: "Docs-only repo, nothing to build",
+  owner: "@docs-team",
+  expires: "2026-06-30",
+};
+
+function createDetection(
+  violations: Array<{ check: string; rule: string; file?: string }>
+): ProcessViolationsDetection {
+  return {
+    repository: "org/docs",
+    scanTime: "2026-06-30T12:00:00.000Z",
+    summary: [],
+    violations: violations.map((v) => ({
+      ...v,
+      category: v.check.split(".")[0],
+      message: `${v.check} failed`,
+      severity: "error" as const,
+    })),
+  };
+}
+
+describe("waivers", () => {
+  describe("parseWaivers", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+      vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("parses waivers with unquoted expiry dates", () => {
+      const waivers = parseWaivers(
+        `waivers:
+  - domain: process
+    category: ci
+    check: ci.workflows
+    rule: required_workflows
+    reason: Docs-only repo, nothing to build
+    owner: "@docs-team"
+    expires: 2026-06-30
+`,
+        "drift-waivers.yaml"
+      );
+
+      expect(waivers).toEqual([WAIVER]);
+    });
+
+    it("skips waivers without a reason, an owner or an expiry date", () => {
+      const waivers = parseWaivers(
+        `waivers:
+  - domain: process
+    category: ci
+    check: ci.workflows
+    rule: required_workflows
+    expires: next year
+  - domain: process
+    category: ci
+    check: ci.workflows
+    rule: required_workflows
+    reason: Docs-only repo, nothing to build
+    owner: "@docs-team"
+    expires: 2026-06-30
+`,
+        "drift-waivers.yaml"
+      );
+
+      expect(waivers).toEqual([WAIVER]);
+      const message = vi.mocked(console.warn).mock.calls[0][0] as string;
+      expect(message).toContain(
+        "Skipping invalid waivers in drift-waivers.yaml"
+      );
+      expect(message).toContain("waivers.0.reason");
+      expect(message).toContain("waivers.0.owner");
+      expect(message).toContain("waivers.0.expires");
+      expect(message).not.toContain("waivers.1");
+    });
+
+    it("rejects a file without a list of waivers", () => {
+      expect(parseWaivers("waivers: none\n", "drift-waivers.yaml")).toBeNull();
+      const message = vi.mocked(console.error).mock.calls[0][0] as string;
+      expect(message).toContain("Invalid waivers in drift-waivers.yaml");
+      expect(message).toContain("waivers:");
+    });
+  });
+
+  describe("loadWaivers", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "drift-waivers-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("waives nothing without a waivers file", () => {
+      expect(loadWaivers(tempDir)).toEqual([]);
+    });
+
+    it("reads drift-waivers.yaml from the checkout", () => {
+      writeFileSync(
+        join(tempDir, "drift-waivers.yaml"),
+        JSON.stringify({ waivers: [WAIVER] })
+      );
+
+      expect(loadWaivers(tempDir)).toEqual([WAIVER]);
+    });
+  });
+
+  describe("selectRepoWaivers", () => {
+    it("keeps waivers naming the repo and org-wide waivers", () => {
+      const waivers = [
+        { ...WAIVER, repo: "docs" },
+        { ...WAIVER, repo: "api" },
+        WAIVER,
+      ];
+
+      expect(selectRepoWaivers(waivers, "docs")).toEqual([
+        waivers[0],
+        waivers[2],
+      ]);
+    });
+  });
+
+  describe("applyWaivers", () => {
+    it("moves waived violations out of the violations", () => {
+      const detection = createDetection([
+        { check: "ci.workflows", rule: "required_workflows" },
+        { check: "branches.protection", rule: "require_reviews" },
+      ]);
+
+      const result = applyWaivers(detection, [WAIVER]);
+
+      expect(result.violations.map((v) => v.check)).toEqual([
+        "branches.protection",
+      ]);
+      expect(result.waived).toEqual([
+        expect.objectContaining({
+          check: "ci.workflows",
+          waiver: {
+            reason: "Docs-only repo, nothing to build",
+            owner: "@docs-team",
+            expires: "2026-06-30",
+          },
+        }),
+      ]);
+    });
+
+    it("matches the file against a glob when the waiver names one", () => {
+      const detection = createDetection([
+        {
+          check: "ci.workflows",
+          rule: "required_workflows",
+          file: ".github/workflows/ci.yml",
+        },
+        { check: "ci.workflows", rule: "required_workflows" },
+      ]);
+
+      const result = applyWaivers(detection, [
+        { ...WAIVER, file: ".github/workflows/*.yml" },
+      ]);
+
+      expect(result.waived?.map((v) => v.file)).toEqual([
+        ".github/workflows/ci.yml",
+      ]);
+      expect(result.violations).toHaveLength(1);
+    });
+
+    it("reports expired waivers and no longer applies them", () => {
+      const detection = createDetection([
+        { check: "ci.workflows", rule: "required_workflows" },
+      ]);
+
+      const result = applyWaivers(detection, [
+        { ...WAIVER, expires: "2026-06-29" },
+      ]);
+
+      expect(result.waived).toBeUndefined();
+      expect(result.violations).toEqual([
+        expect.objectContaining({ check: "ci.workflows" }),
+        {
+          category: "waivers",
+          check: "waivers.expiry",
+          rule: "expired",
+          message:
+            "Waiver for ci.workflows (required_workflows) expired on 2026-06-29, owner: @docs-team",
+          severity: "warning",
+          file: "drift-waivers.yaml",
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Waivers for process violations.
+ *
+ * A repo that legitimately deviates from a standard (a docs-only repo
+ * without CI, a sandbox without branch protection) can waive the violation
+ * in drift-waivers.yaml, in the repo itself or in the config repo. Each
+ * waiver has a reason, an owner and an expiry date. Waived violations are
+ * left out of issues, and expired waivers are reported as violations.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { minimatch } from "minimatch";
+import { parse } from "yaml";
+import { z } from "zod";
+import { FILE_PATTERNS } from "../constants.js";
+import type {
+  ProcessViolation,
+  ProcessViolationsDetection,
+  WaivedProcessViolation,
+  Waiver,
+} from "../types.js";
+
+const WAIVER_SCHEMA = z.object({
+  domain: z.literal("process"),
+  repo: z.string().optional(),
+  category: z.string(),
+  check: z.string(),
+  rule: z.string(),
+  file: z.string().optional(),
+  reason: z.string().min(1),
+  owner: z.string().min(1),
+  expires: z.iso.date(),
+});
+
+const WAIVERS_FILE_SCHEMA = z.object({
+  waivers: z.array(z.unknown()),
+});
+
+function formatIssues(error: z.ZodError, path: PropertyKey[] = []): string[] {
+  return error.issues.map(
+    (issue) => `  - ${[...path, ...issue.path].join(".")}: ${issue.message}`
+  );
+}
+
+/**
+ * Validate waivers one at a time, warning about and skipping the invalid
+ * ones so they do not disable the valid waivers in the same file.
+ */
+function validateWaivers(entries: unknown[], source: string): Waiver[] {
+  const waivers: Waiver[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const result = WAIVER_SCHEMA.safeParse(entry);
+    if (result.success) {
+      waivers.push(result.data);
+    } else {
+      errors.push(...formatIssues(result.error, ["waivers", index]));
+    }
+  });
+  if (errors.length > 0) {
+    console.warn(
+      `Skipping invalid waivers in ${source}:\n${errors.join("\n")}`
+    );
+  }
+  return waivers;
+}
+
+/**
+ * Parse and validate drift-waivers.yaml content. Invalid waivers are
+ * skipped with a warning; a file that is not a list of waivers returns null.
+ *
+ * @param content - YAML content of the waivers file
+ * @param source - Where the content came from, for error messages
+ */
+export function parseWaivers(content: string, source: string): Waiver[] | null {
+  try {
+    const result = WAIVERS_FILE_SCHEMA.safeParse(parse(content));
+    if (!result.success) {
+      const errors = formatIssues(result.error).join("\n");
+      console.error(`Invalid waivers in ${source}:\n${errors}`);
+      return null;
+    }
+    return validateWaivers(result.data.waivers, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Error parsing ${source}: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * Load drift-waivers.yaml from a checkout. A missing or invalid file
+ * waives nothing.
+ */
+export function loadWaivers(basePath: string): Waiver[] {
+  const waiversPath = join(basePath, FILE_PATTERNS.waivers);
+  if (!existsSync(waiversPath)) {
+    return [];
+  }
+  return parseWaivers(readFileSync(waiversPath, "utf-8"), waiversPath) ?? [];
+}
+
+/**
+ * Get the config repo's waivers for a repo: those naming it, and those
+ * without a repo, which apply to every repo.
+ */
+export function selectRepoWaivers(
+  waivers: Waiver[],
+  repoName: string
+): Waiver[] {
+  return waivers.filter((w) => w.repo === undefined || w.repo === repoName);
+}
+
+function matchesWaiver(violation: ProcessViolation, waiver: Waiver): boolean {
+  return (
+    waiver.category === violation.category &&
+    waiver.check === violation.check &&
+    waiver.rule === violation.rule &&
+    (waiver.file === undefined ||
+      (violation.file !== undefined && minimatch(violation.file, waiver.file)))
+  );
+}
+
+/** Report an expired waiver as a violation of its own. */
+function toExpiredViolation(waiver: Waiver): ProcessViolation {
+  return {
+    category: "waivers",
+    check: "waivers.expiry",
+    rule: "expired",
+    message: `Waiver for ${waiver.check} (${waiver.rule}) expired on ${waiver.expires}, owner: ${waiver.owner}`,
+    severity: "warning",
+    file: FILE_PATTERNS.waivers,
+  };
+}
+
+/**
+ * Move the violations a waiver covers from `violations` to `waived`, and
+ * add a violation for each expired waiver. A waiver applies through its
+ * expiry date, in UTC, relative to the scan time.
+ */
+export function applyWaivers(
+  detection: ProcessViolationsDetection,
+  waivers: Waiver[]
+): ProcessViolationsDetection {
+  if (waivers.length === 0) {
+    return detection;
+  }
+  const today = detection.scanTime.slice(0, 10);
+  const active = waivers.filter((w) => w.expires >= today);
+  const violations: ProcessViolation[] = [];
+  const waived: WaivedProcessViolation[] = [];
+
+  for (const violation of detection.violations) {
+    const waiver = active.find((w) => matchesWaiver(violation, w));
+    if (waiver) {
+      const { reason, owner, expires } = waiver;
+      waived.push({ ...violation, waiver: { reason, owner, expires } });
+    } else {
+      violations.push(violation);
+    }
+  }
+  violations.push(
+    ...waivers.filter((w) => w.expires < today).map(toExpiredViolation)
+  );
+
+  return {
+    ...detection,
+    violations,
+    ...(waived.length > 0 && { waived }),
+  };
+}
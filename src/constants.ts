@@ -11,6 +11,8 @@ export const TIMEOUTS = {
   scanCommand: 60 * 1000,
   /** Git clone operation timeout (60 seconds) */
   gitClone: 60 * 1000,
+  /** Notification webhook request timeout (10 seconds) */
+  notification: 10 * 1000,
 } as const;
 
 /**
@@ -21,6 +23,8 @@ export const DISPLAY_LIMITS = {
   diffLines: 20,
   /** Maximum command length to show in warnings */
   commandPreview: 50,
+  /** Maximum repos to list in a Slack or Teams notification */
+  notificationRepos: 20,
 } as const;
 
 /**
@@ -29,10 +33,48 @@ export const DISPLAY_LIMITS = {
 export const GITHUB_API = {
   /** Base URL for GitHub API */
   baseUrl: "https://api.github.com",
+  /** Web (and clone) URL for github.com */
+  webUrl: "https://github.com",
+  /** API path on GitHub Enterprise Server instances */
+  enterpriseApiPath: "/api/v3",
+  /** GraphQL API path on GitHub Enterprise Server instances */
+  enterpriseGraphqlPath: "/api/graphql",
   /** API version header value */
   version: "2022-11-28",
   /** Number of items per page for pagination */
   perPage: 100,
+  /** Repositories fetched per GraphQL discovery query */
+  graphqlBatchSize: 50,
+} as const;
+
+/**
+ * GitHub App authentication
+ */
+export const GITHUB_APP = {
+  /** App JWT lifetime in seconds (GitHub allows at most 10 minutes) */
+  jwtLifetimeSeconds: 9 * 60,
+  /** Refresh installation tokens this long before they expire (5 minutes) */
+  refreshBeforeExpiryMs: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Clone cache locking
+ */
+export const CLONE_CACHE = {
+  /** Interval between checks while another scan holds a repo (500 ms) */
+  lockPollMs: 500,
+  /** Give up waiting for a repo held by another scan (10 minutes) */
+  lockTimeoutMs: 10 * 60 * 1000,
+  /** Treat locks this old as left behind by a crashed scan (30 minutes) */
+  lockStaleMs: 30 * 60 * 1000,
+} as const;
+
+/**
+ * API response cache
+ */
+export const HTTP_CACHE = {
+  /** Remove entries no scan has used for this long (30 days) */
+  maxEntryAgeMs: 30 * 24 * 60 * 60 * 1000,
 } as const;
 
 /**
@@ -53,6 +95,10 @@ export const DEFAULTS = {
   scanTimeoutSeconds: 60,
   /** Default commit window in hours for smart scanning */
   commitWindowHours: 24,
+  /** Default number of open drift issues before a repo is flagged by audit */
+  auditThreshold: 5,
+  /** Commits to deepen a shallow checkout by, in turn, to find a merge base */
+  mergeBaseDeepenSteps: [50, 500],
 } as const;
 
 /**
@@ -65,6 +111,8 @@ export const FILE_PATTERNS = {
   metadata: ["repo-metadata.yaml", "repo-metadata.yml"] as const,
   /** check-my-toolkit config file name */
   checkToml: "check.toml" as const,
+  /** Waivers for accepted deviations, in a repo or the config repo */
+  waivers: "drift-waivers.yaml" as const,
 } as const;
 
 /**
@@ -89,6 +137,15 @@ export const GITHUB_ISSUES = {
   dependencyChangesTitle: "[drift:code] Dependency file changes detected",
   /** Default label for dependency changes issues */
   dependencyChangesLabel: "drift:code",
+  /** Extra label for dependency changes that weaken standards */
+  weakeningLabel: "drift:weakening",
+  /** Hidden marker identifying drift's comment on a pull request */
+  pullRequestCommentMarker: "<!-- drift-toolkit:pr-comment -->",
+  /** Issue title for repo-metadata.yaml schema violations */
+  metadataViolationsTitle:
+    "[drift:code] Repository metadata violations detected",
+  /** Default label for metadata violations issues */
+  metadataViolationsLabel: "drift:code",
   /** Issue title for process violations */
   processViolationsTitle: "[drift:process] Process violations detected",
   /** Default label for process violations issues */
@@ -97,6 +154,12 @@ export const GITHUB_ISSUES = {
   infraDriftTitle: "[drift:infra] Infrastructure drift detected",
   /** Default label for infrastructure drift issues */
   infraDriftLabel: "drift:infra",
+  /** Prefix shared by all drift issue labels */
+  driftLabelPrefix: "drift:",
+  /** Issue title for the audit summary filed in the config repo */
+  auditTitle: "[drift:audit] Repositories with outstanding drift",
+  /** Default label for audit summary issues */
+  auditLabel: "drift:audit",
 } as const;
 
 /**
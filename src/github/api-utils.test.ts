@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { sanitizeError, fetchWithRetry } from "./api-utils.js";
+import * as appAuth from "./app-auth.js";
 
 describe("api-utils", () => {
   describe("sanitizeError", () => {
@@ -44,6 +45,12 @@ describe("api-utils", () => {
       expect(result).toBe("OAuth token gho_*** expired");
     });
 
+    it("sanitizes ghs_ installation tokens", () => {
+      const input = "Installation token ghs_install456 rejected";
+      const result = sanitizeError(input);
+      expect(result).toBe("Installation token ghs_*** rejected");
+    });
+
     it("sanitizes explicit token parameter when provided", () => {
       const token = "my-custom-secret-token";
       const input = `Error with token my-custom-secret-token in request`;
@@ -251,5 +258,22 @@ describe("api-utils", () => {
       const result = await promise;
       expect(result.status).toBe(200);
     });
+
+    it("sends the refreshed token for GitHub App installation tokens", async () => {
+      vi.spyOn(appAuth, "refreshAppToken").mockResolvedValueOnce(
+        "ghs_refreshed"
+      );
+      fetchMock.mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      await fetchWithRetry(
+        "https://api.github.com/test",
+        { headers: { Authorization: "Bearer ghs_original" } },
+        "ghs_original"
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith("https://api.github.com/test", {
+        headers: { Authorization: "Bearer ghs_refreshed" },
+      });
+    });
   });
 });
@@ -1,3 +1,7 @@
+import { GITHUB_API } from "../constants.js";
+import { getCurrentAppToken, refreshAppToken } from "./app-auth.js";
+import { prepareCachedRequest, resolveCachedResponse } from "./http-cache.js";
+
 /**
  * Configuration for API retry behavior
  */
@@ -41,6 +45,20 @@ function getRateLimitResetDelay(
   return null;
 }
 
+/**
+ * Build GitHub REST API request headers
+ */
+export function buildApiHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+    "X-GitHub-Api-Version": GITHUB_API.version,
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
 /**
  * Sanitize sensitive data (tokens) from error messages
  */
@@ -57,9 +75,11 @@ export function sanitizeError(message: string, token?: string): string {
     "Authorization: ***"
   );
 
-  if (token && token.length > 8) {
+  // Mask the token, and the refreshed installation token for app tokens
+  const tokens = token ? [token, getCurrentAppToken(token)] : [];
+  for (const t of tokens.filter((t) => t.length > 8)) {
     sanitized = sanitized.replace(
-      new RegExp(token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g"),
+      new RegExp(t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g"),
       "***"
     );
   }
@@ -67,12 +87,39 @@ export function sanitizeError(message: string, token?: string): string {
   sanitized = sanitized.replace(/github_pat_[a-zA-Z0-9_]+/g, "github_pat_***");
   sanitized = sanitized.replace(/ghp_[a-zA-Z0-9]+/g, "ghp_***");
   sanitized = sanitized.replace(/gho_[a-zA-Z0-9]+/g, "gho_***");
+  sanitized = sanitized.replace(/ghs_[a-zA-Z0-9]+/g, "ghs_***");
 
   return sanitized;
 }
 
+/**
+ * Swap a GitHub App installation token in the Authorization header for its
+ * latest value, refreshing it first if it is about to expire.
+ */
+async function withCurrentToken(
+  options: Parameters<typeof fetch>[1],
+  token?: string
+): Promise<Parameters<typeof fetch>[1]> {
+  if (!token) {
+    return options;
+  }
+  const current = await refreshAppToken(token);
+  const headers = options?.headers as Record<string, string> | undefined;
+  if (current === token || !headers?.Authorization) {
+    return options;
+  }
+  return {
+    ...options,
+    headers: {
+      ...headers,
+      Authorization: headers.Authorization.replace(token, current),
+    },
+  };
+}
+
 /**
  * Fetch with automatic retry on rate limit and transient errors.
+ * GET requests are revalidated against the HTTP cache when it is enabled.
  */
 export async function fetchWithRetry(
   url: string,
@@ -80,10 +127,14 @@ export async function fetchWithRetry(
   token?: string
 ): Promise<Awaited<ReturnType<typeof fetch>>> {
   let lastError: Error | null = null;
+  const { options: requestOptions, cached } = prepareCachedRequest(
+    url,
+    await withCurrentToken(options, token)
+  );
 
   for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
     try {
-      const response = await fetch(url, options);
+      const response = await fetch(url, requestOptions);
 
       const shouldRetry =
         RETRY_CONFIG.retryableStatusCodes.includes(response.status) &&
@@ -99,7 +150,7 @@ export async function fetchWithRetry(
         continue;
       }
 
-      return response;
+      return await resolveCachedResponse(url, options, response, cached);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
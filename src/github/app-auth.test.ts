@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Buffer } from "buffer";
+import { createVerify, generateKeyPairSync } from "crypto";
+import {
+  createAppJwt,
+  createAppTokenSession,
+  getCurrentAppToken,
+  getGitHubAppCredentials,
+  getTokenIdentity,
+  refreshAppToken,
+} from "./app-auth.js";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const credentials = { appId: "12345", privateKey };
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, "base64url").toString()) as Record<
+    string,
+    unknown
+  >;
+}
+
+function tokenResponse(token: string, expiresInMs: number): Response {
+  return new Response(
+    JSON.stringify({
+      token,
+      expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+    }),
+    { status: 201 }
+  );
+}
+
+describe("app-auth", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe("getGitHubAppCredentials", () => {
+    it("returns null when no app is configured", () => {
+      vi.stubEnv("GITHUB_APP_ID", "");
+      expect(getGitHubAppCredentials()).toBeNull();
+    });
+
+    it("reads the app ID and private key, unescaping newlines", () => {
+      vi.stubEnv("GITHUB_APP_ID", "12345");
+      vi.stubEnv(
+        "GITHUB_APP_PRIVATE_KEY",
+        "-----BEGIN-----\\nkey\\n-----END-----"
+      );
+      expect(getGitHubAppCredentials()).toEqual({
+        appId: "12345",
+        privateKey: "-----BEGIN-----\nkey\n-----END-----",
+      });
+    });
+
+    it("throws when the private key is missing", () => {
+      vi.stubEnv("GITHUB_APP_ID", "12345");
+      vi.stubEnv("GITHUB_APP_PRIVATE_KEY", undefined);
+      vi.stubEnv("GITHUB_APP_PRIVATE_KEY_PATH", undefined);
+      expect(() => getGitHubAppCredentials()).toThrow(/PRIVATE_KEY/);
+    });
+  });
+
+  describe("createAppJwt", () => {
+    it("signs an RS256 JWT issued by the app", () => {
+      const now = Date.parse("2026-01-01T00:00:00Z");
+      const jwt = createAppJwt(credentials, now);
+      const [header, payload, signature] = jwt.split(".");
+
+      expect(decodeSegment(header)).toEqual({ alg: "RS256", typ: "JWT" });
+      expect(decodeSegment(payload)).toEqual({
+        iat: now / 1000 - 60,
+        exp: now / 1000 - 60 + 540,
+        iss: "12345",
+      });
+      const valid = createVerify("RSA-SHA256")
+        .update(`${header}.${payload}`)
+        .verify(publicKey, Buffer.from(signature, "base64url"));
+      expect(valid).toBe(true);
+    });
+  });
+
+  describe("installation tokens", () => {
+    it("exchanges the JWT for an installation token on the org", async () => {
+      const mockFetch = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ id: 99 }), { status: 200 })
+        )
+        .mockResolvedValueOnce(tokenResponse("ghs_first", 60 * 60 * 1000));
+
+      const token = await createAppTokenSession(credentials, "test-org");
+
+      expect(token).toBe("ghs_first");
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        "https://api.github.com/orgs/test-org/installation"
+      );
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        "https://api.github.com/app/installations/99/access_tokens"
+      );
+      expect(mockFetch.mock.calls[1][1]?.method).toBe("POST");
+      expect(await refreshAppToken(token)).toBe("ghs_first");
+    });
+
+    it("falls back to the user installation", async () => {
+      const mockFetch = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(new Response("Not Found", { status: 404 }))
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ id: 7 }), { status: 200 })
+        )
+        .mockResolvedValueOnce(tokenResponse("ghs_user", 60 * 60 * 1000));
+
+      expect(await createAppTokenSession(credentials, "someone")).toBe(
+        "ghs_user"
+      );
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        "https://api.github.com/users/someone/installation"
+      );
+    });
+
+    it("fails when the app is not installed", async () => {
+      vi.spyOn(globalThis, "fetch").mockImplementation(
+        async () => new Response("Not Found", { status: 404 })
+      );
+
+      await expect(
+        createAppTokenSession(credentials, "other-org")
+      ).rejects.toThrow("GitHub App 12345 is not installed on other-org");
+    });
+
+    it("refreshes tokens that are about to expire", async () => {
+      const mockFetch = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ id: 99 }), { status: 200 })
+        )
+        .mockResolvedValueOnce(tokenResponse("ghs_expiring", 60 * 1000))
+        .mockResolvedValueOnce(tokenResponse("ghs_refreshed", 60 * 60 * 1000));
+
+      const token = await createAppTokenSession(credentials, "test-org");
+      const [a, b] = await Promise.all([
+        refreshAppToken(token),
+        refreshAppToken(token),
+      ]);
+
+      expect(a).toBe("ghs_refreshed");
+      expect(b).toBe("ghs_refreshed");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(getCurrentAppToken(token)).toBe("ghs_refreshed");
+      expect(getTokenIdentity("ghs_refreshed")).toBe(getTokenIdentity(token));
+      expect(getTokenIdentity(token)).toBe("app:12345/installation:99");
+    });
+
+    it("leaves other tokens unchanged", async () => {
+      expect(getCurrentAppToken("ghp_personal")).toBe("ghp_personal");
+      expect(await refreshAppToken("ghp_personal")).toBe("ghp_personal");
+      expect(getTokenIdentity("ghp_personal")).toBe("ghp_personal");
+    });
+  });
+});
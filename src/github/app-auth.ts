@@ -0,0 +1,206 @@
+/**
+ * GitHub App authentication.
+ *
+ * Signs an app JWT from the app ID and private key, exchanges it for an
+ * installation token for the org being scanned, and refreshes that token
+ * before it expires. Callers keep passing around the token they were first
+ * given; `getCurrentAppToken` and `refreshAppToken` map it to the latest one.
+ */
+
+import { Buffer } from "buffer";
+import { createSign } from "crypto";
+import { readFileSync } from "fs";
+import { GITHUB_API, GITHUB_APP } from "../constants.js";
+import { getGitHubApiUrl } from "./github-url.js";
+
+export interface GitHubAppCredentials {
+  appId: string;
+  privateKey: string; // PEM-encoded private key
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+interface AppTokenSession {
+  credentials: GitHubAppCredentials;
+  installationId: number;
+  current: InstallationToken;
+  refreshing?: Promise<InstallationToken>;
+}
+
+/** Sessions keyed by the first installation token handed out for them */
+const sessions = new Map<string, AppTokenSession>();
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/**
+ * Read GitHub App credentials from GITHUB_APP_ID and either
+ * GITHUB_APP_PRIVATE_KEY (PEM content) or GITHUB_APP_PRIVATE_KEY_PATH.
+ *
+ * @returns The credentials, or null if no app is configured
+ */
+export function getGitHubAppCredentials(): GitHubAppCredentials | null {
+  const appId = process.env.GITHUB_APP_ID;
+  if (!appId) {
+    return null;
+  }
+  const keyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+  const privateKey =
+    process.env.GITHUB_APP_PRIVATE_KEY ??
+    (keyPath ? readFileSync(keyPath, "utf-8") : undefined);
+  if (!privateKey) {
+    throw new Error(
+      "GITHUB_APP_ID is set but neither GITHUB_APP_PRIVATE_KEY nor GITHUB_APP_PRIVATE_KEY_PATH is"
+    );
+  }
+  // Keys passed through CI secrets often have escaped newlines
+  return { appId, privateKey: privateKey.replace(/\\n/g, "\n") };
+}
+
+/**
+ * Sign a JWT identifying the app, valid for GITHUB_APP.jwtLifetimeSeconds.
+ * The issued-at time is backdated a minute to allow for clock drift.
+ */
+export function createAppJwt(
+  credentials: GitHubAppCredentials,
+  now: number = Date.now()
+): string {
+  const issuedAt = Math.floor(now / 1000) - 60;
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + GITHUB_APP.jwtLifetimeSeconds,
+      iss: credentials.appId,
+    })
+  );
+  const signature = createSign("RSA-SHA256")
+    .update(`${header}.${payload}`)
+    .sign(credentials.privateKey);
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+async function appRequest(
+  path: string,
+  credentials: GitHubAppCredentials,
+  method: "GET" | "POST" = "GET"
+): Promise<Awaited<ReturnType<typeof fetch>>> {
+  return fetch(`${getGitHubApiUrl()}${path}`, {
+    method,
+    headers: {
+      Accept: "application/vnd.github+json",
+      Authorization: `Bearer ${createAppJwt(credentials)}`,
+      "X-GitHub-Api-Version": GITHUB_API.version,
+    },
+  });
+}
+
+/** Find the app's installation on an organization or user account. */
+async function getInstallationId(
+  credentials: GitHubAppCredentials,
+  owner: string
+): Promise<number> {
+  for (const path of [
+    `/orgs/${owner}/installation`,
+    `/users/${owner}/installation`,
+  ]) {
+    const response = await appRequest(path, credentials);
+    if (response.ok) {
+      const installation = (await response.json()) as { id: number };
+      return installation.id;
+    }
+    if (response.status !== 404) {
+      throw new Error(
+        `Failed to find GitHub App installation for ${owner}: ${response.status}`
+      );
+    }
+  }
+  throw new Error(
+    `GitHub App ${credentials.appId} is not installed on ${owner}`
+  );
+}
+
+async function createInstallationToken(
+  credentials: GitHubAppCredentials,
+  installationId: number
+): Promise<InstallationToken> {
+  const response = await appRequest(
+    `/app/installations/${installationId}/access_tokens`,
+    credentials,
+    "POST"
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to create GitHub App installation token: ${response.status}`
+    );
+  }
+  const data = (await response.json()) as { token: string; expires_at: string };
+  return { token: data.token, expiresAt: Date.parse(data.expires_at) };
+}
+
+/**
+ * Exchange app credentials for an installation token on an org and keep it
+ * refreshed for the rest of the process.
+ *
+ * @returns The installation token to pass to API and git calls
+ */
+export async function createAppTokenSession(
+  credentials: GitHubAppCredentials,
+  owner: string
+): Promise<string> {
+  const installationId = await getInstallationId(credentials, owner);
+  const current = await createInstallationToken(credentials, installationId);
+  sessions.set(current.token, { credentials, installationId, current });
+  return current.token;
+}
+
+/**
+ * Get the latest installation token for a token handed out by
+ * `createAppTokenSession`. Other tokens are returned unchanged.
+ */
+export function getCurrentAppToken(token: string): string {
+  return sessions.get(token)?.current.token ?? token;
+}
+
+/**
+ * Get a stable identity for a token. Installation tokens change on every
+ * refresh, so they are identified by their app installation; other tokens
+ * identify themselves.
+ */
+export function getTokenIdentity(token: string): string {
+  for (const [first, session] of sessions) {
+    if (token === first || token === session.current.token) {
+      return `app:${session.credentials.appId}/installation:${session.installationId}`;
+    }
+  }
+  return token;
+}
+
+/**
+ * Refresh an installation token if it is about to expire. Concurrent callers
+ * share a single refresh. Other tokens are returned unchanged.
+ */
+export async function refreshAppToken(token: string): Promise<string> {
+  const session = sessions.get(token);
+  if (!session) {
+    return token;
+  }
+  if (
+    session.current.expiresAt - Date.now() >
+    GITHUB_APP.refreshBeforeExpiryMs
+  ) {
+    return session.current.token;
+  }
+  session.refreshing ??= createInstallationToken(
+    session.credentials,
+    session.installationId
+  ).finally(() => {
+    session.refreshing = undefined;
+  });
+  session.current = await session.refreshing;
+  return session.current.token;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatAuditIssueBody,
+  getAuditIssueTitle,
+  getAuditIssueLabel,
+  getAuditIssueFingerprint,
+} from "./audit-issue-formatter.js";
+import { parseFingerprintMarker } from "./issue-fingerprint.js";
+import type { AuditResults } from "./audit-issue-formatter.js";
+
+function createResults(): AuditResults {
+  return {
+    org: "test-org",
+    configRepo: "drift-config",
+    timestamp: "2024-01-15T02:00:00.000Z",
+    threshold: 2,
+    teams: [
+      {
+        team: "platform",
+        repos: [
+          {
+            repo: "test-org/api",
+            team: "platform",
+            issues: [
+              {
+                number: 1,
+                title: "Process violations",
+                url: "https://github.com/test-org/api/issues/1",
+                labels: ["drift:process"],
+              },
+              {
+                number: 2,
+                title: "Tier mismatch",
+                url: "https://github.com/test-org/api/issues/2",
+                labels: ["drift:code", "bug"],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    summary: {
+      reposAudited: 4,
+      reposOverThreshold: 1,
+      reposSkipped: 0,
+      openDriftIssues: 3,
+    },
+  };
+}
+
+describe("audit-issue-formatter", () => {
+  describe("formatAuditIssueBody", () => {
+    it("formats repos grouped by team", () => {
+      const body = formatAuditIssueBody(createResults());
+
+      expect(body).toContain("Repositories With Outstanding Drift");
+      expect(body).toContain("`test-org`");
+      expect(body).toContain("Threshold: 2 open drift issues");
+      expect(body).toContain("| 4 | 1 | 3 |");
+      expect(body).toContain("#### platform");
+      expect(body).toContain(
+        "| [test-org/api](https://github.com/test-org/api/issues) | 2 | `drift:code` 1, `drift:process` 1 |"
+      );
+      expect(body).toContain("Created by drift-toolkit");
+    });
+
+    it("embeds the fingerprint in the issue body", () => {
+      const results = createResults();
+
+      expect(parseFingerprintMarker(formatAuditIssueBody(results))).toEqual(
+        getAuditIssueFingerprint(results)
+      );
+    });
+  });
+
+  describe("getAuditIssueFingerprint", () => {
+    it("ignores the audit time but not the flagged issues", () => {
+      const results = createResults();
+      const later = { ...results, timestamp: "2024-01-22T02:00:00.000Z" };
+      const fewer = createResults();
+      fewer.teams[0].repos[0].issues.pop();
+
+      expect(getAuditIssueFingerprint(later)).toEqual(
+        getAuditIssueFingerprint(results)
+      );
+      expect(getAuditIssueFingerprint(fewer).value).not.toBe(
+        getAuditIssueFingerprint(results).value
+      );
+    });
+  });
+
+  describe("getAuditIssueTitle", () => {
+    it("returns the audit title", () => {
+      expect(getAuditIssueTitle()).toBe(
+        "[drift:audit] Repositories with outstanding drift"
+      );
+    });
+  });
+
+  describe("getAuditIssueLabel", () => {
+    it("returns the audit label", () => {
+      expect(getAuditIssueLabel()).toBe("drift:audit");
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Formats audit results into the summary issue filed in the config repo.
+ */
+
+import { GITHUB_ISSUES } from "../constants.js";
+import type { IssueSyncAction } from "../types.js";
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
+import { getGitHubWebUrl } from "./github-url.js";
+
+export interface AuditIssue {
+  number: number;
+  title: string;
+  url: string;
+  labels: string[];
+}
+
+export interface AuditRepoResult {
+  repo: string;
+  team?: string;
+  issues: AuditIssue[];
+}
+
+export interface AuditTeamGroup {
+  team: string; // "unassigned" for repos without a team in repo-metadata.yaml
+  repos: AuditRepoResult[];
+}
+
+export interface AuditSummary {
+  reposAudited: number;
+  reposOverThreshold: number;
+  reposSkipped: number;
+  openDriftIssues: number;
+}
+
+export interface AuditResults {
+  org: string;
+  configRepo: string;
+  timestamp: string;
+  threshold: number;
+  teams: AuditTeamGroup[];
+  summary: AuditSummary;
+  issueNumber?: number;
+  issueUrl?: string;
+  issueAction?: IssueSyncAction;
+}
+
+/** Truncate issue body if it exceeds GitHub's max length. */
+function truncateBody(body: string): string {
+  if (body.length <= GITHUB_ISSUES.maxBodyLength) {
+    return body;
+  }
+  return (
+    body.slice(0, GITHUB_ISSUES.maxBodyLength - 100) +
+    "\n\n... (truncated)\n\n---\n_Created by drift-toolkit_"
+  );
+}
+
+/** Format the header section of the issue. */
+function formatHeader(results: AuditResults): string[] {
+  return [
+    "## Repositories With Outstanding Drift\n",
+    `Organization: \`${results.org}\``,
+    `Audit time: ${results.timestamp}`,
+    `Threshold: ${results.threshold} open drift issues\n`,
+  ];
+}
+
+/** Format the summary table section. */
+function formatSummaryTable(summary: AuditSummary): string[] {
+  return [
+    "### Summary\n",
+    "| Repos Audited | Over Threshold | Open Drift Issues |",
+    "|---------------|----------------|-------------------|",
+    `| ${summary.reposAudited} | ${summary.reposOverThreshold} | ${summary.openDriftIssues} |`,
+    "",
+  ];
+}
+
+/** Count open issues per drift label (e.g., "drift:code: 3"). */
+function formatLabelCounts(repo: AuditRepoResult): string {
+  const counts = new Map<string, number>();
+  for (const issue of repo.issues) {
+    for (const label of issue.labels) {
+      if (label.startsWith(GITHUB_ISSUES.driftLabelPrefix)) {
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+      }
+    }
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, count]) => `\`${label}\` ${count}`)
+    .join(", ");
+}
+
+/** Format one team's repos as a table. */
+function formatTeamSection(team: string, repos: AuditRepoResult[]): string[] {
+  const parts = [
+    `#### ${team}\n`,
+    "| Repository | Open Issues | Labels |",
+    "|------------|-------------|--------|",
+  ];
+  for (const repo of repos) {
+    const link = `[${repo.repo}](${getGitHubWebUrl()}/${repo.repo}/issues)`;
+    parts.push(
+      `| ${link} | ${repo.issues.length} | ${formatLabelCounts(repo)} |`
+    );
+  }
+  parts.push("");
+  return parts;
+}
+
+/** Format the "Next Steps" section. */
+function formatNextSteps(): string[] {
+  return [
+    "### Next Steps\n",
+    "1. Triage the open drift issues in each repository above",
+    "2. Close issues once the drift is resolved, or fix the underlying standards",
+    "3. This issue is updated by each audit while repos remain over the threshold\n",
+    "---\n_Created by drift-toolkit_",
+  ];
+}
+
+/**
+ * Build the complete issue body for an audit summary.
+ */
+export function formatAuditIssueBody(results: AuditResults): string {
+  const parts = [
+    formatFingerprintMarker(getAuditIssueFingerprint(results)),
+    ...formatHeader(results),
+    ...formatSummaryTable(results.summary),
+    "### Repositories by Team\n",
+  ];
+  for (const group of results.teams) {
+    parts.push(...formatTeamSection(group.team, group.repos));
+  }
+  parts.push(...formatNextSteps());
+  return truncateBody(parts.join("\n"));
+}
+
+/**
+ * Build the issue title for audit summaries.
+ */
+export function getAuditIssueTitle(): string {
+  return GITHUB_ISSUES.auditTitle;
+}
+
+/**
+ * Get the label for audit summary issues.
+ */
+export function getAuditIssueLabel(): string {
+  return GITHUB_ISSUES.auditLabel;
+}
+
+/**
+ * Get the fingerprint of the repos flagged in an audit summary issue.
+ */
+export function getAuditIssueFingerprint(
+  results: AuditResults
+): IssueFingerprint {
+  return createIssueFingerprint(
+    "audit-summary",
+    results.teams.flatMap((group) =>
+      group.repos.map((r) => ({
+        repo: r.repo,
+        issues: r.issues.map((i) => i.number),
+      }))
+    )
+  );
+}
@@ -2,11 +2,14 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { mkdirSync, existsSync, rmSync, writeFileSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
+import { execSync } from "child_process";
+import { Buffer } from "buffer";
 import {
   getGitHubToken,
   createTempDir,
   removeTempDir,
   cloneRepo,
+  fetchHistorySince,
 } from "./client.js";
 import * as apiUtils from "./api-utils.js";
 
@@ -177,6 +180,68 @@ describe("github client", () => {
       expect(true).toBe(true);
     });
   });
+
+  describe("fetchHistorySince", () => {
+    function git(cwd: string, args: string, hoursAgo = 0): string {
+      const date = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+      return execSync(`git ${args}`, {
+        cwd,
+        encoding: "utf-8",
+        stdio: ["pipe", "pipe", "pipe"],
+        env: {
+          ...process.env,
+          GIT_AUTHOR_DATE: date.toISOString(),
+          GIT_COMMITTER_DATE: date.toISOString(),
+        },
+      }).trim();
+    }
+
+    function createSourceRepo(commitAges: number[]): string {
+      const sourceDir = join(testDir, "source");
+      mkdirSync(sourceDir);
+      git(sourceDir, "init");
+      git(sourceDir, "config user.email 'test@test.com'");
+      git(sourceDir, "config user.name 'Test User'");
+      commitAges.forEach((hoursAgo, i) => {
+        writeFileSync(join(sourceDir, `file${i}.txt`), String(i));
+        git(sourceDir, "add .");
+        git(sourceDir, `commit -m 'Commit ${i}'`, hoursAgo);
+      });
+      return sourceDir;
+    }
+
+    it("deepens a shallow clone to cover the window plus one parent", () => {
+      const sourceDir = createSourceRepo([72, 48, 20, 10, 2]);
+      const cloneDir = join(testDir, "clone");
+      execSync(`git clone --quiet --depth 2 file://${sourceDir} ${cloneDir}`);
+
+      fetchHistorySince(cloneDir, new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+      const count = git(cloneDir, "rev-list --count HEAD");
+      expect(count).toBe("4");
+    });
+
+    it("leaves the clone as-is when no commits fall inside the window", () => {
+      const sourceDir = createSourceRepo([72, 48]);
+      const cloneDir = join(testDir, "clone");
+      execSync(`git clone --quiet --depth 1 file://${sourceDir} ${cloneDir}`);
+
+      fetchHistorySince(cloneDir, new Date(Date.now() - 60 * 60 * 1000));
+
+      expect(git(cloneDir, "rev-list --count HEAD")).toBe("1");
+    });
+
+    it("throws when the history cannot be fetched", () => {
+      const sourceDir = createSourceRepo([72, 48, 2]);
+      const cloneDir = join(testDir, "clone");
+      execSync(`git clone --quiet --depth 1 file://${sourceDir} ${cloneDir}`);
+      rmSync(sourceDir, { recursive: true, force: true });
+
+      expect(() =>
+        fetchHistorySince(cloneDir, new Date(Date.now() - 24 * 60 * 60 * 1000))
+      ).toThrow(/Failed to fetch history/);
+    });
+  });
 });
 
 describe("github client API functions", () => {
@@ -743,4 +808,60 @@ describe("github client API functions", () => {
       ).rejects.toThrow("Failed to parse issue response");
     });
   });
+
+  describe("updateRepoFile", () => {
+    it("puts base64 content with the existing blob sha", async () => {
+      const { updateRepoFile } = await import("./client.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("{}", { status: 200 })
+      );
+
+      await updateRepoFile(
+        {
+          owner: "org",
+          repo: "drift-config",
+          path: "state/scan-state.json",
+          content: "{}\n",
+          message: "Update state",
+          sha: "abc123",
+        },
+        "token"
+      );
+
+      const call = mockFetchWithRetry.mock.calls[0];
+      expect(call[0]).toContain(
+        "/repos/org/drift-config/contents/state/scan-state.json"
+      );
+      const requestInit = call[1] as { method?: string; body?: string };
+      expect(requestInit.method).toBe("PUT");
+      const body = JSON.parse(requestInit.body ?? "{}");
+      expect(body.message).toBe("Update state");
+      expect(Buffer.from(body.content, "base64").toString("utf-8")).toBe(
+        "{}\n"
+      );
+      expect(body.sha).toBe("abc123");
+    });
+
+    it("throws error on API failure", async () => {
+      const { updateRepoFile } = await import("./client.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Conflict", { status: 409 })
+      );
+
+      await expect(
+        updateRepoFile(
+          {
+            owner: "org",
+            repo: "repo",
+            path: "state.json",
+            content: "{}",
+            message: "msg",
+          },
+          "token"
+        )
+      ).rejects.toThrow("Failed to update state.json: 409");
+    });
+  });
 });
@@ -1,11 +1,29 @@
-import { execFileSync } from "child_process";
-import { mkdtempSync, rmSync, writeFileSync, chmodSync } from "fs";
+import { Buffer } from "buffer";
+import { mkdtempSync, rmSync } from "fs";
 import { tmpdir } from "os";
 import { join } from "path";
 import { z } from "zod";
-import { TIMEOUTS, GITHUB_API } from "../constants.js";
-import { extractExecError } from "../utils/index.js";
-import { fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { GITHUB_API } from "../constants.js";
+import {
+  actionsOutput,
+  extractExecError,
+  getErrorMessage,
+} from "../utils/index.js";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { createAppTokenSession, getGitHubAppCredentials } from "./app-auth.js";
+import {
+  checkoutCachedRepo,
+  evictCachedRepos,
+  isCloneCacheEnabled,
+  type RepoCheckout,
+} from "./clone-cache.js";
+import { execRemoteGit } from "./git-remote.js";
+import {
+  getGitHubApiUrl,
+  getGitHubWebUrl,
+  setGitHubUrl,
+} from "./github-url.js";
+import { configureHttpCache, getDefaultHttpCacheDir } from "./http-cache.js";
 
 export interface GitHubRepo {
   name: string;
@@ -13,6 +31,7 @@ export interface GitHubRepo {
   clone_url: string;
   archived: boolean;
   disabled: boolean;
+  default_branch?: string;
   owner: {
     login: string;
   };
@@ -24,6 +43,7 @@ const GITHUB_REPO_SCHEMA = z.object({
   clone_url: z.string(),
   archived: z.boolean(),
   disabled: z.boolean(),
+  default_branch: z.string().optional(),
   owner: z.object({
     login: z.string(),
   }),
@@ -31,16 +51,59 @@ const GITHUB_REPO_SCHEMA = z.object({
 
 const GITHUB_REPO_ARRAY_SCHEMA = z.array(GITHUB_REPO_SCHEMA);
 
-const GITHUB_ISSUE_SCHEMA = z.object({
-  number: z.number(),
-  html_url: z.string(),
-});
-
 /** Get GitHub token from CLI option or GITHUB_TOKEN environment variable. */
 export function getGitHubToken(cliOption?: string): string | undefined {
   return cliOption || process.env.GITHUB_TOKEN;
 }
 
+/**
+ * Get an installation token for an org when running as a GitHub App
+ * (GITHUB_APP_ID plus a private key). The token is refreshed automatically
+ * by API and git calls that are passed it.
+ * Exits the process if GitHub App authentication fails.
+ *
+ * @returns The installation token, or undefined if no app is configured
+ */
+export async function getGitHubAppToken(
+  owner: string
+): Promise<string | undefined> {
+  try {
+    const credentials = getGitHubAppCredentials();
+    return credentials
+      ? await createAppTokenSession(credentials, owner)
+      : undefined;
+  } catch (error) {
+    const errorMsg = `GitHub App authentication failed: ${sanitizeError(getErrorMessage(error))}`;
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return undefined; // Never reached, but helps TypeScript understand control flow
+  }
+}
+
+/**
+ * Point API calls and clones at the GitHub server from --github-url
+ * (github.com when not given).
+ * Exits the process if the URL is invalid.
+ */
+export function configureGitHubUrl(cliOption?: string): void {
+  try {
+    setGitHubUrl(cliOption || undefined);
+  } catch (error) {
+    const errorMsg = getErrorMessage(error);
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+  }
+}
+
+/**
+ * Enable the on-disk API response cache, unless --no-cache was given.
+ */
+export function configureApiCache(enabled = true): void {
+  configureHttpCache(enabled ? getDefaultHttpCacheDir() : null);
+}
+
 /** List all repositories in a GitHub organization. */
 export function listOrgRepos(
   org: string,
@@ -63,28 +126,30 @@ export async function listRepos(
   token?: string
 ): Promise<{ repos: GitHubRepo[]; isOrg: boolean }> {
   try {
-    const repos = await listOrgRepos(name, token);
-    return { repos, isOrg: true };
+    return { repos: await listOrgRepos(name, token), isOrg: true };
   } catch (error) {
     const message = error instanceof Error ? error.message : "";
-    if (message.includes("404")) {
-      const repos = await listUserRepos(name, token);
-      return { repos, isOrg: false };
+    if (!message.includes("404")) {
+      throw error;
     }
-    throw error;
+    return { repos: await listUserRepos(name, token), isOrg: false };
   }
 }
 
-/** Build GitHub API request headers */
-function buildApiHeaders(token?: string): Record<string, string> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "X-GitHub-Api-Version": GITHUB_API.version,
-  };
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
+/**
+ * Evict clone cache entries for repos missing from a complete listing of
+ * an org. User listings only include public repos, so they evict nothing.
+ */
+export function evictUnlistedRepos(
+  owner: string,
+  listing: { repos: GitHubRepo[]; isOrg: boolean }
+): void {
+  if (listing.isOrg) {
+    evictCachedRepos(
+      owner,
+      listing.repos.map((r) => r.name)
+    );
   }
-  return headers;
 }
 
 async function parseRepoResponse(
@@ -123,7 +188,7 @@ async function listReposFromEndpoint(
   const headers = buildApiHeaders(token);
   let page = 1;
   while (true) {
-    const url = `${GITHUB_API.baseUrl}${endpoint}?per_page=${GITHUB_API.perPage}&page=${page}&type=all`;
+    const url = `${getGitHubApiUrl()}${endpoint}?per_page=${GITHUB_API.perPage}&page=${page}&type=all`;
     const response = await fetchWithRetry(url, { headers }, token);
     const pageRepos = await parseRepoResponse(response, token);
     if (pageRepos.length === 0) {
@@ -147,32 +212,6 @@ async function listReposFromEndpoint(
   return repos;
 }
 
-/** Create GIT_ASKPASS helper for secure token authentication (keeps token out of ps). */
-function createAskPassScript(token: string): {
-  scriptPath: string;
-  cleanup: () => void;
-} {
-  const scriptDir = mkdtempSync(join(tmpdir(), "drift-askpass-"));
-  const scriptPath = join(scriptDir, "askpass.sh");
-  writeFileSync(
-    scriptPath,
-    `#!/bin/sh\necho "${token.replace(/"/g, '\\"')}"\n`,
-    { mode: 0o700 }
-  );
-  chmodSync(scriptPath, 0o700);
-
-  return {
-    scriptPath,
-    cleanup: () => {
-      try {
-        rmSync(scriptDir, { recursive: true, force: true });
-      } catch {
-        // Ignore cleanup errors
-      }
-    },
-  };
-}
-
 /** Clone a repository using shallow clone with secure token handling. */
 export function cloneRepo(
   org: string,
@@ -180,28 +219,11 @@ export function cloneRepo(
   targetDir: string,
   token?: string
 ): void {
-  const cloneUrl = `https://github.com/${org}/${repo}.git`;
-  let askPassHelper: { scriptPath: string; cleanup: () => void } | null = null;
+  const cloneUrl = `${getGitHubWebUrl()}/${org}/${repo}.git`;
   try {
-    const env: Record<string, string> = { ...process.env } as Record<
-      string,
-      string
-    >;
-    if (token) {
-      askPassHelper = createAskPassScript(token);
-      env.GIT_ASKPASS = askPassHelper.scriptPath;
-      env.GIT_USERNAME = "x-access-token";
-      env.GIT_TERMINAL_PROMPT = "0";
-    }
-    execFileSync(
-      "git",
+    execRemoteGit(
       ["clone", "--depth", "2", "--quiet", cloneUrl, targetDir],
-      {
-        encoding: "utf-8",
-        stdio: ["pipe", "pipe", "pipe"],
-        timeout: TIMEOUTS.gitClone,
-        env,
-      }
+      token
     );
   } catch (error) {
     const execError = extractExecError(error);
@@ -209,11 +231,32 @@ export function cloneRepo(
     throw new Error(
       `Failed to clone ${org}/${repo}: ${sanitizeError(rawMsg, token)}`
     );
-  } finally {
-    askPassHelper?.cleanup();
   }
 }
 
+/**
+ * Check out a repo for scanning: from the clone cache with --clone-cache,
+ * otherwise as a shallow clone in a temp directory.
+ * Call `release` once done with the checkout.
+ */
+export async function checkoutRepo(
+  org: string,
+  repo: string,
+  token?: string
+): Promise<RepoCheckout> {
+  if (isCloneCacheEnabled()) {
+    return checkoutCachedRepo(org, repo, token);
+  }
+  const dir = createTempDir(repo);
+  try {
+    cloneRepo(org, repo, dir, token);
+  } catch (error) {
+    removeTempDir(dir);
+    throw error;
+  }
+  return { dir, release: () => removeTempDir(dir) };
+}
+
 /** Create a temporary directory for cloning repositories. */
 export function createTempDir(prefix: string): string {
   return mkdtempSync(join(tmpdir(), `drift-${prefix}-`));
@@ -234,17 +277,11 @@ export async function repoExists(
   repo: string,
   token?: string
 ): Promise<boolean> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "X-GitHub-Api-Version": GITHUB_API.version,
-  };
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
+  const headers = buildApiHeaders(token);
 
   try {
     const response = await fetchWithRetry(
-      `${GITHUB_API.baseUrl}/repos/${org}/${repo}`,
+      `${getGitHubApiUrl()}/repos/${org}/${repo}`,
       { headers },
       token
     );
@@ -256,37 +293,51 @@ export async function repoExists(
   }
 }
 
+// Re-export history fetching functions from git-remote module
+export { fetchCommit, fetchHistorySince } from "./git-remote.js";
+
 // Re-export file checking functions from repo-checks module
 export { fileExists, isRepoScannable } from "./repo-checks.js";
 
-export interface GitHubIssue {
-  number: number;
-  html_url: string;
-}
+// Re-export issue functions from issues module
+export {
+  closeResolvedIssue,
+  createIssue,
+  createOrUpdateIssue,
+  describeSyncedIssue,
+  type CreateIssueOptions,
+  type GitHubIssue,
+  type SyncedIssue,
+} from "./issues.js";
 
-export interface CreateIssueOptions {
+export interface UpdateRepoFileOptions {
   owner: string;
   repo: string;
-  title: string;
-  body: string;
-  labels: string[];
+  path: string;
+  content: string;
+  message: string;
+  sha?: string; // Blob SHA of the file being replaced (omit to create)
 }
 
-/** Create a GitHub issue for drift detection. */
-export async function createIssue(
-  options: CreateIssueOptions,
+/** Create or update a file in a repository via the GitHub Contents API. */
+export async function updateRepoFile(
+  options: UpdateRepoFileOptions,
   token: string
-): Promise<GitHubIssue> {
-  const { owner, repo, title, body, labels } = options;
+): Promise<void> {
+  const { owner, repo, path, content, message, sha } = options;
   const headers = buildApiHeaders(token);
   headers["Content-Type"] = "application/json";
 
   const response = await fetchWithRetry(
-    `${GITHUB_API.baseUrl}/repos/${owner}/${repo}/issues`,
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/contents/${path}`,
     {
-      method: "POST",
+      method: "PUT",
       headers,
-      body: JSON.stringify({ title, body, labels }),
+      body: JSON.stringify({
+        message,
+        content: Buffer.from(content, "utf-8").toString("base64"),
+        sha,
+      }),
     },
     token
   );
@@ -294,23 +345,7 @@ export async function createIssue(
   if (!response.ok) {
     const text = await response.text();
     throw new Error(
-      `Failed to create issue: ${response.status} ${sanitizeError(text, token)}`
+      `Failed to update ${path}: ${response.status} ${sanitizeError(text, token)}`
     );
   }
-
-  let rawData: unknown;
-  try {
-    rawData = await response.json();
-  } catch (parseError) {
-    const msg =
-      parseError instanceof Error ? parseError.message : "Unknown error";
-    throw new Error(`Failed to parse issue response: ${msg}`);
-  }
-
-  const parseResult = GITHUB_ISSUE_SCHEMA.safeParse(rawData);
-  if (!parseResult.success) {
-    throw new Error(`Invalid issue response: ${parseResult.error.message}`);
-  }
-
-  return parseResult.data;
 }
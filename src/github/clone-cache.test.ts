@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execSync } from "child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { hostname, tmpdir } from "os";
+import { join } from "path";
+import {
+  checkoutCachedRepo,
+  configureCloneCache,
+  evictCachedRepos,
+} from "./clone-cache.js";
+import { evictUnlistedRepos } from "./client.js";
+import { runCodeChecks } from "./org-scanner.js";
+
+const GIT_IDENTITY = "-c user.name=Test -c user.email=test@example.com";
+
+describe("clone-cache", () => {
+  // Bare "remote" repos, served in place of github.com via insteadOf
+  let gitRoot: string;
+  let cacheDir: string;
+  let workDir: string;
+
+  function commitToRemote(file: string, content: string): void {
+    writeFileSync(join(workDir, file), content);
+    execSync(
+      `git add . && git ${GIT_IDENTITY} commit --quiet -m "Update ${file}" && git push --quiet origin HEAD:main`,
+      { cwd: workDir, stdio: "pipe" }
+    );
+  }
+
+  beforeEach(() => {
+    gitRoot = mkdtempSync(join(tmpdir(), "drift-clone-remote-"));
+    cacheDir = join(gitRoot, "cache");
+    workDir = join(gitRoot, "work");
+    mkdirSync(join(gitRoot, "test-org"));
+    execSync("git init --quiet --bare -b main test-org/repo-a.git", {
+      cwd: gitRoot,
+      stdio: "pipe",
+    });
+    execSync(`git clone --quiet ${join(gitRoot, "test-org/repo-a.git")} work`, {
+      cwd: gitRoot,
+      stdio: "pipe",
+    });
+    commitToRemote("check.toml", "[infra]\n");
+
+    vi.stubEnv("GIT_CONFIG_COUNT", "1");
+    vi.stubEnv("GIT_CONFIG_KEY_0", `url.${gitRoot}/.insteadOf`);
+    vi.stubEnv("GIT_CONFIG_VALUE_0", "https://github.com/");
+    configureCloneCache(cacheDir);
+  });
+
+  afterEach(() => {
+    configureCloneCache(undefined);
+    vi.unstubAllEnvs();
+    rmSync(gitRoot, { recursive: true, force: true });
+  });
+
+  it("clones once, then fetches into the same worktree", async () => {
+    const first = await checkoutCachedRepo("test-org", "repo-a");
+    expect(readFileSync(join(first.dir, "check.toml"), "utf-8")).toBe(
+      "[infra]\n"
+    );
+    writeFileSync(join(first.dir, "scratch.txt"), "left behind");
+    first.release();
+
+    commitToRemote("check.toml", "[infra]\nenabled = true\n");
+    const second = await checkoutCachedRepo("test-org", "repo-a");
+    second.release();
+
+    expect(second.dir).toBe(first.dir);
+    expect(second.dir).toBe(
+      join(cacheDir, "github.com", "test-org", "repo-a", "worktree")
+    );
+    expect(readFileSync(join(second.dir, "check.toml"), "utf-8")).toBe(
+      "[infra]\nenabled = true\n"
+    );
+    expect(existsSync(join(second.dir, "scratch.txt"))).toBe(false);
+    // Cached clones hold the full history
+    const commits = execSync("git rev-list --count HEAD", {
+      cwd: second.dir,
+      encoding: "utf-8",
+    });
+    expect(commits.trim()).toBe("2");
+  });
+
+  it("keeps the mirror unshallow when code checks scan the worktree", async () => {
+    commitToRemote("package.json", "{}\n");
+    const checkout = await checkoutCachedRepo("test-org", "repo-a");
+
+    runCodeChecks({
+      org: "test-org",
+      repoName: "repo-a",
+      repoDir: checkout.dir,
+      config: {},
+      windowHours: 1,
+      cached: checkout.cached,
+    });
+    checkout.release();
+
+    const mirrorDir = join(cacheDir, "github.com", "test-org", "repo-a");
+    const shallow = execSync("git rev-parse --is-shallow-repository", {
+      cwd: join(mirrorDir, "mirror.git"),
+      encoding: "utf-8",
+    });
+    expect(shallow.trim()).toBe("false");
+    expect(existsSync(join(mirrorDir, "mirror.git", "shallow"))).toBe(false);
+  });
+
+  it("waits while another scan holds the repo", async () => {
+    const first = await checkoutCachedRepo("test-org", "repo-a");
+    let acquired = false;
+    const second = checkoutCachedRepo("test-org", "repo-a").then((c) => {
+      acquired = true;
+      return c;
+    });
+
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 100));
+    expect(acquired).toBe(false);
+
+    first.release();
+    (await second).release();
+    expect(acquired).toBe(true);
+  });
+
+  it("takes over locks left by exited processes", async () => {
+    const lockDir = join(cacheDir, "github.com", "test-org", "repo-a.lock");
+    mkdirSync(lockDir, { recursive: true });
+    writeFileSync(
+      join(lockDir, "owner.json"),
+      JSON.stringify({ pid: 2 ** 22 + 1, host: hostname() })
+    );
+
+    const checkout = await checkoutCachedRepo("test-org", "repo-a");
+    checkout.release();
+
+    expect(existsSync(lockDir)).toBe(false);
+  });
+
+  it("evicts repos that are no longer in the org", async () => {
+    (await checkoutCachedRepo("test-org", "repo-a")).release();
+    const ownerDir = join(cacheDir, "github.com", "test-org");
+
+    expect(evictCachedRepos("test-org", ["repo-a", "repo-b"])).toEqual([]);
+    expect(evictCachedRepos("test-org", ["repo-b"])).toEqual(["repo-a"]);
+    expect(existsSync(join(ownerDir, "repo-a"))).toBe(false);
+  });
+
+  it("only evicts after a complete org listing", async () => {
+    (await checkoutCachedRepo("test-org", "repo-a")).release();
+    const repoDir = join(cacheDir, "github.com", "test-org", "repo-a");
+
+    // User listings only include public repos
+    evictUnlistedRepos("test-org", { repos: [], isOrg: false });
+    expect(existsSync(repoDir)).toBe(true);
+
+    evictUnlistedRepos("test-org", { repos: [], isOrg: true });
+    expect(existsSync(repoDir)).toBe(false);
+  });
+
+  it("leaves repos in use alone", async () => {
+    const checkout = await checkoutCachedRepo("test-org", "repo-a");
+
+    expect(evictCachedRepos("test-org", [])).toEqual([]);
+    expect(existsSync(checkout.dir)).toBe(true);
+    checkout.release();
+  });
+
+  it("reports clone failures without leaving the repo locked", async () => {
+    await expect(checkoutCachedRepo("test-org", "missing")).rejects.toThrow(
+      "Failed to update cached clone of test-org/missing"
+    );
+    expect(
+      existsSync(join(cacheDir, "github.com", "test-org", "missing.lock"))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Persistent clone cache for scans (--clone-cache).
+ *
+ * Keeps a bare mirror and a worktree per repo. The first scan of a repo
+ * clones the mirror; later scans only fetch and reset the worktree. A lock
+ * directory per repo stops concurrent scans, in this process or another,
+ * from using the same worktree at once.
+ *
+ * Layout: <cache>/<host>/<owner>/<repo>/{mirror.git,worktree}, with the lock
+ * at <cache>/<host>/<owner>/<repo>.lock.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { hostname } from "os";
+import { join, resolve } from "path";
+import { CLONE_CACHE } from "../constants.js";
+import { extractExecError } from "../utils/index.js";
+import { sanitizeError } from "./api-utils.js";
+import { execRemoteGit } from "./git-remote.js";
+import { getGitHubWebUrl } from "./github-url.js";
+
+/** A checked out repo, ready to scan. */
+export interface RepoCheckout {
+  dir: string;
+  release: () => void; // Remove the checkout, or unlock the cached one
+  cached?: boolean; // Worktree of a cached mirror, which has the full history
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+}
+
+/** Ref holding the remote's default branch head in each mirror */
+const HEAD_REF = "refs/drift/head";
+
+const LOCK_SUFFIX = ".lock";
+const LOCK_OWNER_FILE = "owner.json";
+
+let cacheDir: string | null = null;
+
+/** Enable the clone cache in the given directory, or disable it. */
+export function configureCloneCache(dir?: string): void {
+  cacheDir = dir ? resolve(dir) : null;
+}
+
+export function isCloneCacheEnabled(): boolean {
+  return cacheDir !== null;
+}
+
+/** Cache directory for an owner's repos on the current GitHub server. */
+function getOwnerDir(dir: string, owner: string): string {
+  const host = new URL(getGitHubWebUrl()).host.replace(/[^\w.-]/g, "_");
+  return join(dir, host, owner);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => globalThis.setTimeout(resolve, ms));
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // Signal 0 only checks that the process exists
+    return true;
+  } catch (error) {
+    return (error as { code?: string }).code === "EPERM";
+  }
+}
+
+/**
+ * A lock is stale when it is older than CLONE_CACHE.lockStaleMs or its
+ * owner was a process on this host that has exited.
+ */
+function isLockStale(lockDir: string): boolean {
+  try {
+    if (Date.now() - statSync(lockDir).mtimeMs > CLONE_CACHE.lockStaleMs) {
+      return true;
+    }
+    const owner = JSON.parse(
+      readFileSync(join(lockDir, LOCK_OWNER_FILE), "utf-8")
+    ) as LockOwner;
+    return owner.host === hostname() && !isProcessRunning(owner.pid);
+  } catch {
+    return false; // The lock is being created or released
+  }
+}
+
+/** Take the lock if it is free; mkdir is atomic, so only one caller wins. */
+function tryLock(lockDir: string): boolean {
+  try {
+    mkdirSync(lockDir);
+  } catch (error) {
+    if ((error as { code?: string }).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+  const owner: LockOwner = { pid: process.pid, host: hostname() };
+  writeFileSync(join(lockDir, LOCK_OWNER_FILE), JSON.stringify(owner));
+  return true;
+}
+
+function unlock(lockDir: string): void {
+  rmSync(lockDir, { recursive: true, force: true });
+}
+
+/**
+ * Wait for the lock, taking over stale ones.
+ *
+ * @throws Error if the lock is still held after CLONE_CACHE.lockTimeoutMs
+ */
+async function acquireLock(lockDir: string, name: string): Promise<void> {
+  const deadline = Date.now() + CLONE_CACHE.lockTimeoutMs;
+  while (!tryLock(lockDir)) {
+    if (isLockStale(lockDir)) {
+      unlock(lockDir);
+    } else if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the clone cache lock on ${name}`);
+    } else {
+      await sleep(CLONE_CACHE.lockPollMs);
+    }
+  }
+}
+
+/**
+ * Clone or fetch the mirror, then point the worktree at the default
+ * branch head.
+ *
+ * @returns The worktree directory
+ */
+function updateCachedRepo(
+  repoDir: string,
+  cloneUrl: string,
+  token?: string
+): string {
+  const mirrorDir = join(repoDir, "mirror.git");
+  const worktreeDir = join(repoDir, "worktree");
+
+  if (existsSync(mirrorDir)) {
+    execRemoteGit(
+      [
+        "fetch",
+        "--quiet",
+        "--prune",
+        "origin",
+        "+refs/heads/*:refs/heads/*",
+        `+HEAD:${HEAD_REF}`,
+      ],
+      token,
+      mirrorDir
+    );
+  } else {
+    execRemoteGit(["clone", "--bare", "--quiet", cloneUrl, mirrorDir], token);
+    execRemoteGit(["update-ref", HEAD_REF, "HEAD"], undefined, mirrorDir);
+  }
+
+  if (existsSync(worktreeDir)) {
+    execRemoteGit(
+      ["checkout", "--quiet", "--force", "--detach", HEAD_REF],
+      undefined,
+      worktreeDir
+    );
+    execRemoteGit(["clean", "--quiet", "-ffdx"], undefined, worktreeDir);
+  } else {
+    execRemoteGit(["worktree", "prune"], undefined, mirrorDir);
+    execRemoteGit(
+      ["worktree", "add", "--quiet", "--detach", worktreeDir, HEAD_REF],
+      undefined,
+      mirrorDir
+    );
+  }
+  return worktreeDir;
+}
+
+/**
+ * Check out a repo from the clone cache, waiting while another scan uses
+ * it. The repo stays locked until the checkout is released.
+ *
+ * @throws Error if the cache is not enabled, the lock times out or git fails
+ */
+export async function checkoutCachedRepo(
+  owner: string,
+  repo: string,
+  token?: string
+): Promise<RepoCheckout> {
+  if (!cacheDir) {
+    throw new Error("Clone cache is not enabled");
+  }
+  const ownerDir = getOwnerDir(cacheDir, owner);
+  mkdirSync(ownerDir, { recursive: true, mode: 0o700 });
+  const lockDir = join(ownerDir, `${repo}${LOCK_SUFFIX}`);
+  await acquireLock(lockDir, `${owner}/${repo}`);
+
+  try {
+    const dir = updateCachedRepo(
+      join(ownerDir, repo),
+      `${getGitHubWebUrl()}/${owner}/${repo}.git`,
+      token
+    );
+    return { dir, release: () => unlock(lockDir), cached: true };
+  } catch (error) {
+    unlock(lockDir);
+    const execError = extractExecError(error);
+    const rawMsg = execError.stderr ?? execError.message ?? "Clone failed";
+    throw new Error(
+      `Failed to update cached clone of ${owner}/${repo}: ${sanitizeError(rawMsg, token)}`
+    );
+  }
+}
+
+/**
+ * Remove cached clones of an owner's repos that are not in the given list
+ * (deleted, renamed or transferred repos). Clones in use are left alone.
+ *
+ * @returns Names of the evicted repos
+ */
+export function evictCachedRepos(owner: string, repoNames: string[]): string[] {
+  if (!cacheDir) {
+    return [];
+  }
+  const ownerDir = getOwnerDir(cacheDir, owner);
+  if (!existsSync(ownerDir)) {
+    return [];
+  }
+
+  const keep = new Set(repoNames);
+  const evicted: string[] = [];
+  for (const entry of readdirSync(ownerDir)) {
+    if (entry.endsWith(LOCK_SUFFIX) || keep.has(entry)) {
+      continue;
+    }
+    const lockDir = join(ownerDir, `${entry}${LOCK_SUFFIX}`);
+    if (!tryLock(lockDir)) {
+      continue;
+    }
+    try {
+      rmSync(join(ownerDir, entry), { recursive: true, force: true });
+      evicted.push(entry);
+    } finally {
+      unlock(lockDir);
+    }
+  }
+  return evicted;
+}
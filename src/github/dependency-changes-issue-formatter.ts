@@ -0,0 +1,282 @@
+/**
+ * Formats dependency file changes into GitHub issue bodies, issue comments
+ * and pull request comments.
+ */
+
+import { DISPLAY_LIMITS, GITHUB_ISSUES } from "../constants.js";
+import type {
+  CheckTomlChange,
+  DependencyChangesDetection,
+  DependencyFileChange,
+} from "../types.js";
+import type { WorkflowFinding } from "../repo/workflow-analysis.js";
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
+
+/** Truncate diff if it exceeds max lines. */
+function truncateDiff(
+  diff: string,
+  maxLines = DISPLAY_LIMITS.diffLines
+): string {
+  const lines = diff.split("\n");
+  if (lines.length <= maxLines) {
+    return diff;
+  }
+  return lines.slice(0, maxLines).join("\n") + "\n... (truncated)";
+}
+
+/** Truncate issue body if it exceeds GitHub's max length. */
+function truncateBody(body: string): string {
+  if (body.length <= GITHUB_ISSUES.maxBodyLength) {
+    return body;
+  }
+  return (
+    body.slice(0, GITHUB_ISSUES.maxBodyLength - 100) +
+    "\n\n... (truncated)\n\n---\n_Created by drift-toolkit_"
+  );
+}
+
+/** Format a check.toml change as a list item, flagging its impact. */
+function formatCheckTomlChange(change: CheckTomlChange): string {
+  return change.impact === "neutral"
+    ? `- ${change.description}`
+    : `- ${change.description} (**${change.impact}**)`;
+}
+
+/** Format a single file change as markdown. */
+function formatFileChange(
+  change: Pick<
+    DependencyFileChange,
+    | "file"
+    | "status"
+    | "diff"
+    | "checkTomlChanges"
+    | "configChanges"
+    | "introducedBy"
+  >,
+  checkType?: string | null
+): string {
+  const statusLabel =
+    change.status === "deleted"
+      ? " (deleted)"
+      : change.status === "added"
+        ? " (new)"
+        : "";
+  const checkLabel = checkType ? ` [${checkType}]` : "";
+  let section = `#### ${change.file}${statusLabel}${checkLabel}\n\n`;
+  if (change.introducedBy) {
+    const { commit, commitUrl, author } = change.introducedBy;
+    section += `Changed in [${commit.slice(0, 7)}](${commitUrl}) by ${author}\n\n`;
+  }
+  if (change.checkTomlChanges?.length) {
+    section +=
+      change.checkTomlChanges.map(formatCheckTomlChange).join("\n") + "\n\n";
+  }
+  if (change.configChanges?.length) {
+    section +=
+      change.configChanges.map((c) => `- ${c.description}`).join("\n") + "\n\n";
+  }
+  if (change.diff) {
+    section += "```diff\n" + truncateDiff(change.diff) + "\n```\n";
+  } else if (change.status === "deleted") {
+    section += "_File was deleted_\n";
+  }
+  return section;
+}
+
+/** Format grouped changes by check type */
+function formatGroupedChanges(
+  byCheck: Record<string, DependencyFileChange[]>
+): string[] {
+  const parts: string[] = [];
+  const checkTypes = Object.keys(byCheck).sort();
+  if (checkTypes.length === 0) {
+    return parts;
+  }
+  parts.push("### Changes by Check Type\n");
+  for (const checkType of checkTypes) {
+    parts.push(`#### ${checkType}\n`);
+    for (const change of byCheck[checkType]) {
+      parts.push(formatFileChange(change, change.checkType));
+    }
+  }
+  return parts;
+}
+
+const WORKFLOW_SEVERITY_ORDER = ["high", "medium", "low"];
+
+/** Format workflow security findings, most severe first */
+function formatWorkflowFindings(findings: WorkflowFinding[] = []): string[] {
+  if (findings.length === 0) {
+    return [];
+  }
+  const sorted = [...findings].sort(
+    (a, b) =>
+      WORKFLOW_SEVERITY_ORDER.indexOf(a.severity) -
+      WORKFLOW_SEVERITY_ORDER.indexOf(b.severity)
+  );
+  return [
+    "### Workflow Security Findings\n",
+    "| Severity | Workflow | Finding |",
+    "|----------|----------|---------|",
+    ...sorted.map((f) => `| ${f.severity} | \`${f.file}\` | ${f.message} |`),
+    "",
+  ];
+}
+
+/** Format ungrouped changes (workflows, check.toml, etc.) */
+function formatUngroupedChanges(changes: DependencyFileChange[]): string[] {
+  const ungrouped = changes.filter((c) => !c.checkType);
+  if (ungrouped.length === 0) {
+    return [];
+  }
+  const parts = ["### Other Changed Files\n"];
+  for (const change of ungrouped) {
+    parts.push(formatFileChange(change));
+  }
+  return parts;
+}
+
+/** Format the commits scanned and the changes found in them. */
+function formatChangesSection(detection: DependencyChangesDetection): string[] {
+  const commitLink = `[${detection.commit.slice(0, 7)}](${detection.commitUrl})`;
+  const rangeLine =
+    detection.baseCommit && detection.compareUrl
+      ? [
+          `Commits: [${detection.baseCommit.slice(0, 7)}...${detection.commit.slice(0, 7)}](${detection.compareUrl})`,
+        ]
+      : [];
+  return [
+    ...rangeLine,
+    `Commit: ${commitLink}\n`,
+    ...formatWorkflowFindings(detection.workflowFindings),
+    ...formatGroupedChanges(detection.byCheck),
+    ...formatUngroupedChanges(detection.changes),
+  ];
+}
+
+/** Build the complete issue body for dependency changes detection. */
+export function formatDependencyChangesIssueBody(
+  detection: DependencyChangesDetection
+): string {
+  const parts = [
+    formatFingerprintMarker(getDependencyChangesIssueFingerprint(detection)),
+    "## Dependency File Changes Detected\n",
+    `Repository: \`${detection.repository}\``,
+    `Scan time: ${detection.scanTime}`,
+    ...formatChangesSection(detection),
+    "### Action Required\n",
+    "Review these dependency file changes and close this issue once investigated.",
+    "These files affect how code standards are enforced in this repository.\n",
+    "---\n_Created by drift-toolkit_",
+  ];
+  return truncateBody(parts.join("\n"));
+}
+
+/**
+ * Build the comment added to an open dependency changes issue when a later
+ * scan finds more changes. The issue keeps its body, so the changes of
+ * every scan stay listed until it is closed.
+ */
+export function formatDependencyChangesComment(
+  detection: DependencyChangesDetection
+): string {
+  const parts = [
+    "## More Dependency File Changes Detected\n",
+    `Scan time: ${detection.scanTime}`,
+    ...formatChangesSection(detection),
+    "Review these changes as well before closing this issue.\n",
+    "---\n_Updated by drift-toolkit_",
+  ];
+  return truncateBody(parts.join("\n"));
+}
+
+/**
+ * Build the pull request comment for the dependency changes a pull request
+ * introduces. A null detection means the pull request (no longer) changes
+ * any dependency file.
+ */
+export function formatPullRequestComment(
+  detection: DependencyChangesDetection | null
+): string {
+  const marker = GITHUB_ISSUES.pullRequestCommentMarker;
+  const footer =
+    "---\n_Posted by drift-toolkit. This comment is informational and does not block the merge._";
+  if (!detection) {
+    return [
+      marker,
+      "## Drift Check: Dependency File Changes\n",
+      "This pull request does not change any dependency files.\n",
+      footer,
+    ].join("\n");
+  }
+  const count = detection.changes.length;
+  const rangeLine = detection.compareUrl
+    ? [
+        `Commits: [${detection.baseCommit?.slice(0, 7)}...${detection.commit.slice(0, 7)}](${detection.compareUrl})\n`,
+      ]
+    : [];
+  const weakening =
+    detection.impact === "weakening"
+      ? ["> [!WARNING]\n> This pull request weakens code standards.\n"]
+      : [];
+  const parts = [
+    marker,
+    "## Drift Check: Dependency File Changes\n",
+    `This pull request changes ${count} dependency file${count === 1 ? "" : "s"} that affect how code standards are enforced.\n`,
+    ...weakening,
+    ...rangeLine,
+    ...formatWorkflowFindings(detection.workflowFindings),
+    ...formatGroupedChanges(detection.byCheck),
+    ...formatUngroupedChanges(detection.changes),
+    footer,
+  ];
+  return truncateBody(parts.join("\n"));
+}
+
+/**
+ * Build the issue title for dependency changes detection.
+ */
+export function getDependencyChangesIssueTitle(): string {
+  return GITHUB_ISSUES.dependencyChangesTitle;
+}
+
+/**
+ * Get the label for dependency changes issues.
+ */
+export function getDependencyChangesIssueLabel(): string {
+  return GITHUB_ISSUES.dependencyChangesLabel;
+}
+
+/**
+ * Get the labels for a dependency changes issue: the dependency changes
+ * label, plus the weakening label when a change weakens standards.
+ */
+export function getDependencyChangesIssueLabels(
+  detection: DependencyChangesDetection
+): string[] {
+  const label = getDependencyChangesIssueLabel();
+  return detection.impact === "weakening"
+    ? [label, GITHUB_ISSUES.weakeningLabel]
+    : [label];
+}
+
+/**
+ * Get the fingerprint of the file changes reported in a dependency changes
+ * issue. Changes introduced by new commits produce a new fingerprint.
+ */
+export function getDependencyChangesIssueFingerprint(
+  detection: DependencyChangesDetection
+): IssueFingerprint {
+  return createIssueFingerprint(
+    "dependency-changes",
+    detection.changes.map((c) => ({
+      file: c.file,
+      status: c.status,
+      commit: c.introducedBy?.commit,
+    }))
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Git commands against GitHub remotes.
+ *
+ * Authenticates with a GIT_ASKPASS helper script so the token never appears
+ * in the process list or in the remote URL.
+ */
+
+import { execFileSync } from "child_process";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TIMEOUTS } from "../constants.js";
+import { execGit, extractExecError } from "../utils/index.js";
+import { sanitizeError } from "./api-utils.js";
+import { getCurrentAppToken } from "./app-auth.js";
+
+/** Create GIT_ASKPASS helper for secure token authentication (keeps token out of ps). */
+function createAskPassScript(token: string): {
+  scriptPath: string;
+  cleanup: () => void;
+} {
+  const scriptDir = mkdtempSync(join(tmpdir(), "drift-askpass-"));
+  const scriptPath = join(scriptDir, "askpass.sh");
+  writeFileSync(
+    scriptPath,
+    `#!/bin/sh\necho "${token.replace(/"/g, '\\"')}"\n`,
+    { mode: 0o700 }
+  );
+  chmodSync(scriptPath, 0o700);
+
+  return {
+    scriptPath,
+    cleanup: () => {
+      try {
+        rmSync(scriptDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    },
+  };
+}
+
+/** Run a git command against a remote, authenticating via GIT_ASKPASS when a token is given. */
+export function execRemoteGit(
+  args: string[],
+  token?: string,
+  cwd?: string
+): void {
+  let askPassHelper: { scriptPath: string; cleanup: () => void } | null = null;
+  try {
+    const env: Record<string, string> = { ...process.env } as Record<
+      string,
+      string
+    >;
+    if (token) {
+      askPassHelper = createAskPassScript(getCurrentAppToken(token));
+      env.GIT_ASKPASS = askPassHelper.scriptPath;
+      env.GIT_USERNAME = "x-access-token";
+      env.GIT_TERMINAL_PROMPT = "0";
+    }
+    execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+      timeout: TIMEOUTS.gitClone,
+      env,
+    });
+  } finally {
+    askPassHelper?.cleanup();
+  }
+}
+
+/** git's error when no commit on the branch is newer than --shallow-since */
+const NO_COMMITS_SINCE_PATTERN =
+  /no commits selected for shallow requests|error processing shallow info/;
+
+/**
+ * Deepen a shallow clone so it holds every commit since the given date,
+ * plus the parent of the oldest one so the whole window can be diffed.
+ * A window without commits leaves the clone as-is; other failures throw.
+ */
+export function fetchHistorySince(
+  repoDir: string,
+  since: Date,
+  token?: string
+): void {
+  // Full clones already hold the whole history
+  if (execGit(repoDir, "rev-parse --is-shallow-repository") !== "true") {
+    return;
+  }
+  try {
+    execRemoteGit(
+      ["fetch", "--quiet", `--shallow-since=${since.toISOString()}`, "origin"],
+      token,
+      repoDir
+    );
+    execRemoteGit(["fetch", "--quiet", "--deepen=1", "origin"], token, repoDir);
+  } catch (error) {
+    const execError = extractExecError(error);
+    const rawMsg = execError.stderr ?? execError.message ?? "Fetch failed";
+    if (NO_COMMITS_SINCE_PATTERN.test(rawMsg)) {
+      return;
+    }
+    throw new Error(`Failed to fetch history: ${sanitizeError(rawMsg, token)}`);
+  }
+}
+
+/**
+ * Make sure a commit is in a checkout, fetching it from origin when it is
+ * not. Shallow clones fetch the commit alone, so they stay shallow.
+ *
+ * @returns Whether the commit is now in the checkout
+ */
+export function fetchCommit(
+  repoDir: string,
+  sha: string,
+  token: string | undefined,
+  shallow: boolean
+): boolean {
+  const hasCommit = () =>
+    execGit(repoDir, `rev-parse --verify --quiet ${sha}^{commit}`) !== "";
+  if (hasCommit()) {
+    return true;
+  }
+  try {
+    execRemoteGit(
+      ["fetch", "--quiet", ...(shallow ? ["--depth=1"] : []), "origin", sha],
+      token,
+      repoDir
+    );
+  } catch {
+    return false; // e.g. the commit was force-pushed away and collected
+  }
+  return hasCommit();
+}
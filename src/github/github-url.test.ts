@@ -0,0 +1,180 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { execSync } from "child_process";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getGitHubApiUrl,
+  getGitHubWebUrl,
+  resolveGitHubUrls,
+  setConfigGitHubUrl,
+  setGitHubUrl,
+} from "./github-url.js";
+import { cloneRepo } from "./client.js";
+import { hasRemoteInfraConfig } from "./repo-checks.js";
+import { discoverProcessRepos } from "./process-repo-discovery.js";
+
+function repoJson(name: string): object {
+  return {
+    name,
+    full_name: `test-org/${name}`,
+    clone_url: `https://ghes.example.com/test-org/${name}.git`,
+    archived: false,
+    disabled: false,
+    owner: { login: "test-org" },
+  };
+}
+
+describe("github-url", () => {
+  afterEach(() => {
+    setGitHubUrl(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  describe("resolveGitHubUrls", () => {
+    it("uses api.github.com for github.com", () => {
+      expect(resolveGitHubUrls("https://github.com/")).toEqual({
+        webUrl: "https://github.com",
+        apiUrl: "https://api.github.com",
+        graphqlUrl: "https://api.github.com/graphql",
+      });
+      expect(resolveGitHubUrls("https://api.github.com").apiUrl).toBe(
+        "https://api.github.com"
+      );
+    });
+
+    it("uses /api/v3 on GitHub Enterprise Server", () => {
+      expect(resolveGitHubUrls("https://ghes.example.com")).toEqual({
+        webUrl: "https://ghes.example.com",
+        apiUrl: "https://ghes.example.com/api/v3",
+        graphqlUrl: "https://ghes.example.com/api/graphql",
+      });
+    });
+
+    it("accepts the GitHub Enterprise Server API URL", () => {
+      expect(resolveGitHubUrls("https://ghes.example.com/api/v3/")).toEqual({
+        webUrl: "https://ghes.example.com",
+        apiUrl: "https://ghes.example.com/api/v3",
+        graphqlUrl: "https://ghes.example.com/api/graphql",
+      });
+    });
+
+    it("rejects invalid URLs", () => {
+      expect(() => resolveGitHubUrls("ghes.example.com")).toThrow(
+        "Invalid GitHub URL: ghes.example.com"
+      );
+      expect(() => resolveGitHubUrls("ftp://ghes.example.com")).toThrow(
+        "Invalid GitHub URL"
+      );
+    });
+  });
+
+  describe("setGitHubUrl", () => {
+    it("defaults to github.com", () => {
+      expect(getGitHubApiUrl()).toBe("https://api.github.com");
+      expect(getGitHubWebUrl()).toBe("https://github.com");
+    });
+
+    it("takes precedence over the config setting", () => {
+      setGitHubUrl("https://cli.example.com");
+      setConfigGitHubUrl("https://config.example.com");
+      expect(getGitHubWebUrl()).toBe("https://cli.example.com");
+    });
+
+    it("falls back to the config setting", () => {
+      setConfigGitHubUrl("https://config.example.com");
+      expect(getGitHubApiUrl()).toBe("https://config.example.com/api/v3");
+    });
+  });
+
+  describe("against a GitHub Enterprise Server", () => {
+    // Local HTTP stub serving the GHES REST API under /api/v3
+    let server: Server;
+    let serverUrl: string;
+    const requests: string[] = [];
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const path = req.url ?? "";
+        requests.push(path);
+        res.setHeader("Content-Type", "application/json");
+        if (path.startsWith("/api/v3/orgs/test-org/repos")) {
+          res.end(JSON.stringify([repoJson("repo-a"), repoJson("repo-b")]));
+        } else if (
+          path === "/api/v3/repos/test-org/repo-a/contents/check.toml"
+        ) {
+          res.end("[infra]\nenabled = true\n");
+        } else {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ message: "Not Found" }));
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    afterEach(() => {
+      requests.length = 0;
+    });
+
+    it("discovers repos through the enterprise API", async () => {
+      setGitHubUrl(serverUrl);
+
+      const result = await discoverProcessRepos({
+        org: "test-org",
+        token: "test-token",
+        includeAll: true,
+      });
+
+      expect(result.repos.map((r) => r.name)).toEqual(["repo-a"]);
+      expect(result.totalRepos).toBe(2);
+      expect(requests.length).toBeGreaterThan(0);
+      expect(requests.every((p) => p.startsWith("/api/v3/"))).toBe(true);
+    });
+
+    it("reads repo files through the enterprise API", async () => {
+      setGitHubUrl(serverUrl);
+
+      expect(await hasRemoteInfraConfig("test-org", "repo-a")).toBe(true);
+      expect(requests).toEqual([
+        "/api/v3/repos/test-org/repo-a/contents/check.toml",
+      ]);
+    });
+
+    it("clones from the enterprise server", () => {
+      const gitRoot = mkdtempSync(join(tmpdir(), "drift-ghes-"));
+      try {
+        execSync("git init --quiet --bare test-org/repo-a.git", {
+          cwd: gitRoot,
+          stdio: "pipe",
+        });
+        // Redirect clones from the server to the local bare repo
+        vi.stubEnv("GIT_CONFIG_COUNT", "1");
+        vi.stubEnv("GIT_CONFIG_KEY_0", `url.${gitRoot}/.insteadOf`);
+        vi.stubEnv("GIT_CONFIG_VALUE_0", "https://ghes.example.com/");
+        setGitHubUrl("https://ghes.example.com");
+
+        const targetDir = join(gitRoot, "clone");
+        cloneRepo("test-org", "repo-a", targetDir);
+
+        expect(existsSync(join(targetDir, ".git"))).toBe(true);
+      } finally {
+        rmSync(gitRoot, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * GitHub server URLs used for API calls, clones and links.
+ *
+ * Defaults to github.com. `--github-url` or `github.url` in drift.config.yaml
+ * point drift-toolkit at a GitHub Enterprise Server instance instead, whose
+ * REST API lives under /api/v3 and GraphQL API under /api/graphql on the
+ * same host.
+ */
+
+import { GITHUB_API } from "../constants.js";
+
+export interface GitHubUrls {
+  webUrl: string; // e.g. https://github.example.com
+  apiUrl: string; // e.g. https://github.example.com/api/v3
+  graphqlUrl: string; // e.g. https://github.example.com/api/graphql
+}
+
+const GITHUB_COM_URLS: GitHubUrls = {
+  webUrl: GITHUB_API.webUrl,
+  apiUrl: GITHUB_API.baseUrl,
+  graphqlUrl: `${GITHUB_API.baseUrl}/graphql`,
+};
+
+let current: GitHubUrls = GITHUB_COM_URLS;
+let setFromCli = false;
+
+/**
+ * Resolve the web and API URLs for a GitHub server. Accepts the server's web
+ * URL or its API URL.
+ *
+ * @throws Error if the URL is not an http(s) URL
+ */
+export function resolveGitHubUrls(serverUrl: string): GitHubUrls {
+  let parsed: URL;
+  try {
+    parsed = new URL(serverUrl);
+  } catch {
+    throw new Error(`Invalid GitHub URL: ${serverUrl}`);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error(`Invalid GitHub URL: ${serverUrl}`);
+  }
+
+  const url = `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, "");
+  if (url === GITHUB_API.webUrl || url === GITHUB_API.baseUrl) {
+    return GITHUB_COM_URLS;
+  }
+  const webUrl = url.endsWith(GITHUB_API.enterpriseApiPath)
+    ? url.slice(0, -GITHUB_API.enterpriseApiPath.length)
+    : url;
+  return {
+    webUrl,
+    apiUrl: `${webUrl}${GITHUB_API.enterpriseApiPath}`,
+    graphqlUrl: `${webUrl}${GITHUB_API.enterpriseGraphqlPath}`,
+  };
+}
+
+/**
+ * Use the GitHub server given on the command line. Overrides `github.url`
+ * from drift.config.yaml. Passing undefined restores github.com.
+ *
+ * @throws Error if the URL is invalid
+ */
+export function setGitHubUrl(serverUrl?: string): void {
+  current = serverUrl ? resolveGitHubUrls(serverUrl) : GITHUB_COM_URLS;
+  setFromCli = serverUrl !== undefined;
+}
+
+/**
+ * Use the GitHub server from drift.config.yaml, unless one was given on the
+ * command line.
+ */
+export function setConfigGitHubUrl(serverUrl?: string): void {
+  if (serverUrl && !setFromCli) {
+    current = resolveGitHubUrls(serverUrl);
+  }
+}
+
+/** Base URL for REST API calls, without a trailing slash. */
+export function getGitHubApiUrl(): string {
+  return current.apiUrl;
+}
+
+/** Endpoint for GraphQL API calls. */
+export function getGitHubGraphqlUrl(): string {
+  return current.graphqlUrl;
+}
+
+/** Base URL for clones and links to repos, without a trailing slash. */
+export function getGitHubWebUrl(): string {
+  return current.webUrl;
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { GitHubRepo } from "./client.js";
+import {
+  fetchRepoSnapshots,
+  parseDiscoveryBackend,
+  snapshotHasCheckToml,
+  snapshotHasInfraConfig,
+  snapshotHasRecentCommits,
+  snapshotIsScannable,
+  type RepoSnapshot,
+} from "./graphql-discovery.js";
+
+function makeRepo(name: string): GitHubRepo {
+  return {
+    name,
+    full_name: `test-org/${name}`,
+    clone_url: `https://github.com/test-org/${name}.git`,
+    archived: false,
+    disabled: false,
+    owner: { login: "test-org" },
+  };
+}
+
+function repositoryNode(checkToml: string | null): object {
+  return {
+    defaultBranchRef: {
+      name: "main",
+      target: { committedDate: "2026-01-01T00:00:00Z" },
+    },
+    checkToml: checkToml === null ? null : { text: checkToml },
+    metadata0: { __typename: "Blob" },
+    metadata1: null,
+  };
+}
+
+function graphqlResponse(body: object): Response {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+function snapshot(overrides: Partial<RepoSnapshot> = {}): RepoSnapshot {
+  return {
+    defaultBranch: "main",
+    lastCommitDate: new Date(),
+    checkToml: "",
+    hasMetadata: true,
+    ...overrides,
+  };
+}
+
+describe("graphql-discovery", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("parseDiscoveryBackend", () => {
+    it("defaults to rest", () => {
+      expect(parseDiscoveryBackend(undefined)).toBe("rest");
+    });
+
+    it("accepts graphql and rejects unknown backends", () => {
+      expect(parseDiscoveryBackend("graphql")).toBe("graphql");
+      expect(parseDiscoveryBackend("soap")).toBeNull();
+    });
+  });
+
+  describe("fetchRepoSnapshots", () => {
+    it("fetches many repos per GraphQL request", async () => {
+      const mockFetch = vi
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async (_url, init) => {
+          const { variables } = JSON.parse(init?.body as string) as {
+            variables: Record<string, string>;
+          };
+          const data: Record<string, object> = {};
+          for (let i = 0; variables[`name${i}`]; i++) {
+            data[`repo${i}`] = repositoryNode("[infra]\nenabled = true\n");
+          }
+          return graphqlResponse({ data });
+        });
+      const repos = Array.from({ length: 60 }, (_, i) => makeRepo(`r${i}`));
+
+      const snapshots = await fetchRepoSnapshots(repos, "test-token");
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.github.com/graphql");
+      expect(snapshots.size).toBe(60);
+      expect(snapshots.get("test-org/r59")).toEqual({
+        defaultBranch: "main",
+        lastCommitDate: new Date("2026-01-01T00:00:00Z"),
+        checkToml: "[infra]\nenabled = true\n",
+        hasMetadata: true,
+      });
+    });
+
+    it("treats repos that are not found as unconfigured", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        graphqlResponse({
+          data: { repo0: repositoryNode(null), repo1: null },
+          errors: [{ type: "NOT_FOUND", message: "Could not resolve" }],
+        })
+      );
+
+      const snapshots = await fetchRepoSnapshots(
+        [makeRepo("repo-a"), makeRepo("gone")],
+        "test-token"
+      );
+
+      expect(snapshots.get("test-org/repo-a")?.checkToml).toBeNull();
+      expect(snapshots.get("test-org/gone")).toEqual({
+        defaultBranch: null,
+        lastCommitDate: null,
+        checkToml: null,
+        hasMetadata: false,
+      });
+    });
+
+    it("throws on other GraphQL errors", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        graphqlResponse({
+          data: null,
+          errors: [
+            { type: "RATE_LIMITED", message: "API rate limit exceeded" },
+          ],
+        })
+      );
+
+      await expect(
+        fetchRepoSnapshots([makeRepo("repo-a")], "test-token")
+      ).rejects.toThrow("GitHub GraphQL API error: API rate limit exceeded");
+    });
+
+    it("requires a token", async () => {
+      await expect(fetchRepoSnapshots([makeRepo("repo-a")])).rejects.toThrow(
+        "GraphQL discovery requires a GitHub token"
+      );
+    });
+  });
+
+  describe("snapshot checks", () => {
+    it("detects check.toml, [infra] config and required files", () => {
+      expect(snapshotHasCheckToml(snapshot())).toBe(true);
+      expect(snapshotHasCheckToml(snapshot({ checkToml: null }))).toBe(false);
+      expect(
+        snapshotHasInfraConfig(
+          snapshot({ checkToml: "[infra]\nenabled = true" })
+        )
+      ).toBe(true);
+      expect(snapshotHasInfraConfig(snapshot({ checkToml: "[infra" }))).toBe(
+        false
+      );
+      expect(snapshotIsScannable(snapshot({ hasMetadata: false }))).toBe(false);
+      expect(snapshotIsScannable(undefined)).toBe(false);
+    });
+
+    it("checks the last commit against the activity window", () => {
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      expect(
+        snapshotHasRecentCommits(snapshot({ lastCommitDate: twoHoursAgo }), 24)
+      ).toBe(true);
+      expect(
+        snapshotHasRecentCommits(snapshot({ lastCommitDate: twoHoursAgo }), 1)
+      ).toBe(false);
+      expect(
+        snapshotHasRecentCommits(snapshot({ lastCommitDate: null }), 24)
+      ).toBe(false);
+    });
+  });
+});
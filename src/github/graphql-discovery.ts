@@ -0,0 +1,209 @@
+/**
+ * GraphQL repository discovery backend.
+ *
+ * Fetches what discovery needs to know about each repo (default branch,
+ * last commit date, check.toml content and whether repo-metadata.yaml
+ * exists) for a batch of repos per GraphQL request, instead of one REST
+ * request per repo and check.
+ */
+
+import { FILE_PATTERNS, GITHUB_API } from "../constants.js";
+import type { DiscoveryBackend } from "../types.js";
+import { fetchWithRetry, sanitizeError } from "./api-utils.js";
+import type { GitHubRepo } from "./client.js";
+import { getGitHubGraphqlUrl } from "./github-url.js";
+import { isInfraEnabled } from "./repo-checks.js";
+
+/** What discovery knows about a repo's default branch. */
+export interface RepoSnapshot {
+  defaultBranch: string | null; // null for empty or inaccessible repos
+  lastCommitDate: Date | null;
+  checkToml: string | null; // check.toml content, or null if missing
+  hasMetadata: boolean; // repo-metadata.yaml (or .yml) exists
+}
+
+interface RepositoryNode {
+  defaultBranchRef: {
+    name: string;
+    target: { committedDate?: string } | null;
+  } | null;
+  checkToml: { text: string | null } | null;
+  [metadataAlias: string]: unknown;
+}
+
+interface GraphqlResponse {
+  data?: Record<string, RepositoryNode | null> | null;
+  errors?: { type?: string; message: string }[];
+}
+
+const DISCOVERY_BACKENDS: readonly DiscoveryBackend[] = ["rest", "graphql"];
+
+const EMPTY_SNAPSHOT: RepoSnapshot = {
+  defaultBranch: null,
+  lastCommitDate: null,
+  checkToml: null,
+  hasMetadata: false,
+};
+
+/**
+ * Parse the `--discovery` option.
+ *
+ * @returns The backend (rest when not given), or null if unknown
+ */
+export function parseDiscoveryBackend(
+  value: string | undefined
+): DiscoveryBackend | null {
+  if (value === undefined) {
+    return "rest";
+  }
+  return DISCOVERY_BACKENDS.find((b) => b === value) ?? null;
+}
+
+/** Error message for an unknown `--discovery` value. */
+export function getInvalidDiscoveryMessage(value: string | undefined): string {
+  return `Unknown discovery backend "${value}". Use one of: ${DISCOVERY_BACKENDS.join(", ")}`;
+}
+
+/** Build a query fetching one aliased repository per owner/name pair. */
+function buildSnapshotQuery(count: number): string {
+  const variables: string[] = [];
+  const fields: string[] = [];
+  for (let i = 0; i < count; i++) {
+    variables.push(`$owner${i}: String!, $name${i}: String!`);
+    fields.push(
+      `repo${i}: repository(owner: $owner${i}, name: $name${i}) { ...RepoSnapshot }`
+    );
+  }
+  const metadataFields = FILE_PATTERNS.metadata.map(
+    (file, i) =>
+      `metadata${i}: object(expression: "HEAD:${file}") { __typename }`
+  );
+  return [
+    `query(${variables.join(", ")}) {`,
+    ...fields,
+    "}",
+    "fragment RepoSnapshot on Repository {",
+    "defaultBranchRef { name target { ... on Commit { committedDate } } }",
+    `checkToml: object(expression: "HEAD:${FILE_PATTERNS.checkToml}") { ... on Blob { text } }`,
+    ...metadataFields,
+    "}",
+  ].join("\n");
+}
+
+function toSnapshot(node: RepositoryNode | null): RepoSnapshot {
+  if (!node) {
+    return EMPTY_SNAPSHOT;
+  }
+  const committedDate = node.defaultBranchRef?.target?.committedDate;
+  return {
+    defaultBranch: node.defaultBranchRef?.name ?? null,
+    lastCommitDate: committedDate ? new Date(committedDate) : null,
+    checkToml: node.checkToml?.text ?? null,
+    hasMetadata: FILE_PATTERNS.metadata.some((_, i) =>
+      Boolean(node[`metadata${i}`])
+    ),
+  };
+}
+
+async function fetchSnapshotBatch(
+  repos: GitHubRepo[],
+  token: string
+): Promise<RepoSnapshot[]> {
+  const variables: Record<string, string> = {};
+  repos.forEach((r, i) => {
+    const [owner, name] = r.full_name.split("/");
+    variables[`owner${i}`] = owner;
+    variables[`name${i}`] = name;
+  });
+
+  const response = await fetchWithRetry(
+    getGitHubGraphqlUrl(),
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query: buildSnapshotQuery(repos.length),
+        variables,
+      }),
+    },
+    token
+  );
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `GitHub GraphQL API error: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+
+  const result = (await response.json()) as GraphqlResponse;
+  // Repos that are gone or inaccessible come back null with NOT_FOUND
+  const errors = (result.errors ?? []).filter((e) => e.type !== "NOT_FOUND");
+  if (errors.length > 0 || !result.data) {
+    const messages = errors.map((e) => e.message).join("; ");
+    throw new Error(
+      `GitHub GraphQL API error: ${sanitizeError(messages || "No data returned", token)}`
+    );
+  }
+  const data = result.data;
+  return repos.map((_, i) => toSnapshot(data[`repo${i}`] ?? null));
+}
+
+/**
+ * Fetch a snapshot of each repo's default branch, batching
+ * GITHUB_API.graphqlBatchSize repos per GraphQL request.
+ *
+ * @returns Snapshots keyed by the repo's full name
+ * @throws Error if no token is given (the GraphQL API requires one) or a
+ * request fails
+ */
+export async function fetchRepoSnapshots(
+  repos: GitHubRepo[],
+  token?: string
+): Promise<Map<string, RepoSnapshot>> {
+  if (!token) {
+    throw new Error("GraphQL discovery requires a GitHub token");
+  }
+  const snapshots = new Map<string, RepoSnapshot>();
+  for (let i = 0; i < repos.length; i += GITHUB_API.graphqlBatchSize) {
+    const batch = repos.slice(i, i + GITHUB_API.graphqlBatchSize);
+    const batchSnapshots = await fetchSnapshotBatch(batch, token);
+    batch.forEach((r, j) => snapshots.set(r.full_name, batchSnapshots[j]));
+  }
+  return snapshots;
+}
+
+/** Snapshot equivalent of `hasRemoteCheckToml`. */
+export function snapshotHasCheckToml(snapshot?: RepoSnapshot): boolean {
+  return typeof snapshot?.checkToml === "string";
+}
+
+/** Snapshot equivalent of `hasRemoteInfraConfig`. */
+export function snapshotHasInfraConfig(snapshot?: RepoSnapshot): boolean {
+  return (
+    typeof snapshot?.checkToml === "string" &&
+    isInfraEnabled(snapshot.checkToml)
+  );
+}
+
+/** Snapshot equivalent of `isRepoScannable`. */
+export function snapshotIsScannable(snapshot?: RepoSnapshot): boolean {
+  return snapshotHasCheckToml(snapshot) && snapshot?.hasMetadata === true;
+}
+
+/**
+ * Snapshot equivalent of `hasRecentCommits`: whether the default branch's
+ * last commit falls within the window.
+ */
+export function snapshotHasRecentCommits(
+  snapshot: RepoSnapshot | undefined,
+  hours: number
+): boolean {
+  const lastCommitDate = snapshot?.lastCommitDate;
+  if (!lastCommitDate) {
+    return false;
+  }
+  return lastCommitDate.getTime() >= Date.now() - hours * 60 * 60 * 1000;
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, statSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fetchWithRetry } from "./api-utils.js";
+import {
+  configureHttpCache,
+  formatHttpCacheStats,
+  getDefaultHttpCacheDir,
+  getHttpCacheStats,
+} from "./http-cache.js";
+
+const URL_A =
+  "https://api.github.com/repos/test-org/repo-a/contents/check.toml";
+
+function requestHeaders(
+  mockFetch: ReturnType<typeof vi.spyOn>,
+  call: number
+): Record<string, string> {
+  const init = mockFetch.mock.calls[call][1] as Parameters<typeof fetch>[1];
+  return init?.headers as Record<string, string>;
+}
+
+describe("http-cache", () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), "drift-http-cache-"));
+    configureHttpCache(cacheDir);
+  });
+
+  afterEach(() => {
+    configureHttpCache(null);
+    rmSync(cacheDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("revalidates cached responses and serves 304s from the cache", async () => {
+    const mockFetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        new Response("[infra]\nenabled = true\n", {
+          status: 200,
+          headers: { ETag: '"abc"', "Content-Type": "text/plain" },
+        })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const options = { headers: { Accept: "application/vnd.github.raw" } };
+
+    const first = await fetchWithRetry(URL_A, options, "test-token");
+    expect(await first.text()).toBe("[infra]\nenabled = true\n");
+    expect(requestHeaders(mockFetch, 0)["If-None-Match"]).toBeUndefined();
+
+    const second = await fetchWithRetry(URL_A, options, "test-token");
+    expect(requestHeaders(mockFetch, 1)["If-None-Match"]).toBe('"abc"');
+    expect(second.status).toBe(200);
+    expect(second.headers.get("content-type")).toBe("text/plain");
+    expect(await second.text()).toBe("[infra]\nenabled = true\n");
+    expect(getHttpCacheStats()).toEqual({ requests: 2, hits: 1 });
+  });
+
+  it("keys entries by Accept header and keeps them private", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () =>
+        new Response("{}", {
+          status: 200,
+          headers: { "Last-Modified": "Thu, 01 Jan 2026 00:00:00 GMT" },
+        })
+    );
+
+    await fetchWithRetry(URL_A, { headers: { Accept: "application/json" } });
+    await fetchWithRetry(URL_A, {
+      headers: { Accept: "application/vnd.github.raw" },
+    });
+
+    const entries = readdirSync(cacheDir);
+    expect(entries).toHaveLength(2);
+    expect(statSync(join(cacheDir, entries[0])).mode & 0o777).toBe(0o600);
+  });
+
+  it("keeps the entries of different tokens apart", async () => {
+    const mockFetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(
+        async () =>
+          new Response("{}", { status: 200, headers: { ETag: '"abc"' } })
+      );
+
+    await fetchWithRetry(
+      URL_A,
+      { headers: { Authorization: "Bearer token-a" } },
+      "token-a"
+    );
+    await fetchWithRetry(
+      URL_A,
+      { headers: { Authorization: "Bearer token-b" } },
+      "token-b"
+    );
+
+    expect(requestHeaders(mockFetch, 1)["If-None-Match"]).toBeUndefined();
+    expect(readdirSync(cacheDir)).toHaveLength(2);
+  });
+
+  it("does not cache non-GET requests or responses without validators", async () => {
+    const mockFetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(
+        async () =>
+          new Response("{}", { status: 200, headers: { ETag: '"abc"' } })
+      );
+
+    await fetchWithRetry(URL_A, { method: "POST", body: "{}" });
+    expect(readdirSync(cacheDir)).toHaveLength(0);
+
+    mockFetch.mockResolvedValueOnce(new Response("{}", { status: 200 }));
+    await fetchWithRetry(URL_A, {});
+    expect(readdirSync(cacheDir)).toHaveLength(0);
+    expect(getHttpCacheStats()).toEqual({ requests: 1, hits: 0 });
+  });
+
+  it("passes requests through when disabled", async () => {
+    configureHttpCache(null);
+    const mockFetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(
+        async () =>
+          new Response("{}", { status: 200, headers: { ETag: '"abc"' } })
+      );
+
+    await fetchWithRetry(URL_A, { headers: {} });
+    await fetchWithRetry(URL_A, { headers: {} });
+
+    expect(requestHeaders(mockFetch, 1)["If-None-Match"]).toBeUndefined();
+    expect(readdirSync(cacheDir)).toHaveLength(0);
+    expect(getHttpCacheStats()).toBeNull();
+  });
+
+  it("removes entries unused for 30 days when enabled", async () => {
+    const urlB = URL_A.replace("repo-a", "repo-b");
+    vi.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        new Response("a", { status: 200, headers: { ETag: '"a"' } })
+      )
+      .mockResolvedValueOnce(
+        new Response("b", { status: 200, headers: { ETag: '"b"' } })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    await fetchWithRetry(URL_A, { headers: {} });
+    await fetchWithRetry(urlB, { headers: {} });
+    const longAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    for (const name of readdirSync(cacheDir)) {
+      utimesSync(join(cacheDir, name), longAgo, longAgo);
+    }
+
+    // Served from the cache since, so kept
+    await fetchWithRetry(URL_A, { headers: {} });
+    configureHttpCache(cacheDir);
+
+    expect(readdirSync(cacheDir)).toHaveLength(1);
+    expect(
+      statSync(join(cacheDir, readdirSync(cacheDir)[0])).mtimeMs
+    ).toBeGreaterThan(longAgo.getTime());
+  });
+
+  it("defaults to the XDG cache directory", () => {
+    vi.stubEnv("DRIFT_CACHE_DIR", "");
+    vi.stubEnv("XDG_CACHE_HOME", "/tmp/xdg");
+    expect(getDefaultHttpCacheDir()).toBe("/tmp/xdg/drift-toolkit/http");
+
+    vi.stubEnv("DRIFT_CACHE_DIR", "/tmp/drift-cache");
+    expect(getDefaultHttpCacheDir()).toBe("/tmp/drift-cache");
+  });
+
+  it("formats hit stats", () => {
+    expect(formatHttpCacheStats({ requests: 40, hits: 12 })).toBe(
+      "12/40 requests served from cache (30%)"
+    );
+    expect(formatHttpCacheStats({ requests: 0, hits: 0 })).toBe(
+      "0/0 requests served from cache (0%)"
+    );
+  });
+});
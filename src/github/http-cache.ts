@@ -0,0 +1,252 @@
+/**
+ * On-disk HTTP cache for GitHub API GET requests.
+ *
+ * Stores each response's ETag and Last-Modified and revalidates with
+ * If-None-Match / If-Modified-Since, so unchanged data comes back as a 304,
+ * which does not count against GitHub's rate limit. Disabled until a command
+ * enables it (scan commands do unless run with --no-cache). Entries unused
+ * for HTTP_CACHE.maxEntryAgeMs are removed when the cache is enabled.
+ */
+
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { z } from "zod";
+import { HTTP_CACHE } from "../constants.js";
+import { getTokenIdentity } from "./app-auth.js";
+import type { HttpCacheStats } from "../types.js";
+
+type RequestOptions = Parameters<typeof fetch>[1];
+type FetchResponse = Awaited<ReturnType<typeof fetch>>;
+
+/** Response headers kept with cached bodies */
+const CACHED_HEADERS = ["content-type", "link"];
+
+const CACHE_ENTRY_SCHEMA = z.object({
+  url: z.string(),
+  etag: z.string().optional(),
+  lastModified: z.string().optional(),
+  headers: z.record(z.string(), z.string()),
+  body: z.string(),
+});
+
+type CacheEntry = z.infer<typeof CACHE_ENTRY_SCHEMA>;
+
+let cacheDir: string | null = null;
+let stats: HttpCacheStats = { requests: 0, hits: 0 };
+
+/**
+ * Default cache directory: DRIFT_CACHE_DIR, or drift-toolkit/http under
+ * XDG_CACHE_HOME (~/.cache when unset).
+ */
+export function getDefaultHttpCacheDir(): string {
+  if (process.env.DRIFT_CACHE_DIR) {
+    return process.env.DRIFT_CACHE_DIR;
+  }
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "drift-toolkit", "http");
+}
+
+/**
+ * Remove entries last used before the cutoff. An entry's modification time
+ * is its last use: it is rewritten on a 200 and touched on a 304.
+ */
+function pruneEntries(dir: string, cutoffMs: number): void {
+  if (!existsSync(dir)) {
+    return;
+  }
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    try {
+      if (name.endsWith(".json") && statSync(path).mtimeMs < cutoffMs) {
+        unlinkSync(path);
+      }
+    } catch {
+      // Removed by a concurrent scan, or not ours to remove
+    }
+  }
+}
+
+/**
+ * Enable the cache in the given directory, or disable it with null.
+ * Resets the hit stats, and removes entries unused for too long.
+ */
+export function configureHttpCache(dir: string | null): void {
+  cacheDir = dir;
+  stats = { requests: 0, hits: 0 };
+  if (dir) {
+    pruneEntries(dir, Date.now() - HTTP_CACHE.maxEntryAgeMs);
+  }
+}
+
+/** Cache hit stats since the cache was configured, or null if disabled. */
+export function getHttpCacheStats(): HttpCacheStats | null {
+  return cacheDir ? { ...stats } : null;
+}
+
+/** Format cache stats for scan summaries, e.g. "12/40 requests (30%)". */
+export function formatHttpCacheStats(cacheStats: HttpCacheStats): string {
+  const percent =
+    cacheStats.requests > 0
+      ? Math.round((cacheStats.hits / cacheStats.requests) * 100)
+      : 0;
+  return `${cacheStats.hits}/${cacheStats.requests} requests served from cache (${percent}%)`;
+}
+
+function isGetRequest(options: RequestOptions): boolean {
+  return (options?.method ?? "GET").toUpperCase() === "GET";
+}
+
+function getHeader(options: RequestOptions, name: string): string | undefined {
+  const headers = options?.headers as Record<string, string> | undefined;
+  const key = Object.keys(headers ?? {}).find(
+    (k) => k.toLowerCase() === name.toLowerCase()
+  );
+  return key ? headers?.[key] : undefined;
+}
+
+/** The identity a request is made as, from its Authorization header. */
+function getRequestIdentity(options: RequestOptions): string {
+  const authorization = getHeader(options, "Authorization");
+  return authorization
+    ? getTokenIdentity(authorization.replace(/^(Bearer|token) /i, ""))
+    : "";
+}
+
+/**
+ * Cache file for a request. The Accept header is part of the key because
+ * raw and JSON representations of the same URL differ, and the identity
+ * because a 304 must not serve one token's private data to another.
+ */
+function getEntryPath(
+  dir: string,
+  url: string,
+  options: RequestOptions
+): string {
+  const key = createHash("sha256")
+    .update(
+      `${getRequestIdentity(options)} ${getHeader(options, "Accept") ?? ""} ${url}`
+    )
+    .digest("hex");
+  return join(dir, `${key}.json`);
+}
+
+function readEntry(path: string): CacheEntry | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const result = CACHE_ENTRY_SCHEMA.safeParse(
+      JSON.parse(readFileSync(path, "utf-8"))
+    );
+    return result.success ? result.data : null;
+  } catch {
+    return null; // Unreadable entries are refetched and overwritten
+  }
+}
+
+/** Mark an entry as used, so it is not pruned. */
+function touchEntry(path: string): void {
+  const now = new Date();
+  try {
+    utimesSync(path, now, now);
+  } catch {
+    // Removed since it was read: it is refetched next time
+  }
+}
+
+/**
+ * Add conditional request headers for a cached response, if there is one.
+ *
+ * @returns The request options to send, and the cached entry to serve on 304
+ */
+export function prepareCachedRequest(
+  url: string,
+  options: RequestOptions
+): { options: RequestOptions; cached: CacheEntry | null } {
+  if (!cacheDir || !isGetRequest(options)) {
+    return { options, cached: null };
+  }
+  const cached = readEntry(getEntryPath(cacheDir, url, options));
+  if (!cached) {
+    return { options, cached: null };
+  }
+  const validators: Record<string, string> = {};
+  if (cached.etag) {
+    validators["If-None-Match"] = cached.etag;
+  }
+  if (cached.lastModified) {
+    validators["If-Modified-Since"] = cached.lastModified;
+  }
+  return {
+    options: {
+      ...options,
+      headers: {
+        ...(options?.headers as Record<string, string> | undefined),
+        ...validators,
+      },
+    },
+    cached,
+  };
+}
+
+/**
+ * Serve a 304 from the cache, or store a cacheable 200 response.
+ * Other responses are returned unchanged.
+ */
+export async function resolveCachedResponse(
+  url: string,
+  options: RequestOptions,
+  response: FetchResponse,
+  cached: CacheEntry | null
+): Promise<FetchResponse> {
+  if (!cacheDir || !isGetRequest(options)) {
+    return response;
+  }
+  stats.requests++;
+
+  if (response.status === 304 && cached) {
+    stats.hits++;
+    touchEntry(getEntryPath(cacheDir, url, options));
+    return new Response(cached.body, { status: 200, headers: cached.headers });
+  }
+
+  const etag = response.headers.get("etag") ?? undefined;
+  const lastModified = response.headers.get("last-modified") ?? undefined;
+  if (response.status !== 200 || (!etag && !lastModified)) {
+    return response;
+  }
+
+  const body = await response.text();
+  const headers: Record<string, string> = {};
+  for (const name of CACHED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  }
+  try {
+    mkdirSync(cacheDir, { recursive: true, mode: 0o700 });
+    const entry: CacheEntry = { url, etag, lastModified, headers, body };
+    writeFileSync(getEntryPath(cacheDir, url, options), JSON.stringify(entry), {
+      mode: 0o600,
+    });
+  } catch {
+    // A cache that cannot be written only costs rate limit
+  }
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
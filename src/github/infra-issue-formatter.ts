@@ -8,6 +8,11 @@ import type {
   InfraResourceResult,
   InfraScanSummary,
 } from "../types.js";
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
 
 /** Truncate issue body if it exceeds GitHub's max length. */
 function truncateBody(body: string): string {
@@ -104,6 +109,7 @@ export function formatInfraDriftIssueBody(
   detection: InfraDriftDetection
 ): string {
   const parts = [
+    formatFingerprintMarker(getInfraDriftIssueFingerprint(detection)),
     ...formatHeader(detection.repository, detection.scanTime),
     ...formatSummaryTable(detection.summary),
     ...formatMissingResourcesTable(detection.resources),
@@ -126,3 +132,19 @@ export function getInfraDriftIssueTitle(): string {
 export function getInfraDriftIssueLabel(): string {
   return GITHUB_ISSUES.infraDriftLabel;
 }
+
+/**
+ * Get the fingerprint of the missing and failing resources reported in an
+ * infrastructure drift issue.
+ */
+export function getInfraDriftIssueFingerprint(
+  detection: InfraDriftDetection
+): IssueFingerprint {
+  return createIssueFingerprint("infra-drift", {
+    manifest: detection.manifest,
+    missing: detection.resources
+      .filter((r) => !r.exists && !r.error)
+      .map((r) => r.arn),
+    errors: detection.resources.filter((r) => r.error).map((r) => r.arn),
+  });
+}
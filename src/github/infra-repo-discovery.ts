@@ -4,7 +4,14 @@
  */
 
 import { CONCURRENCY, DEFAULTS } from "../constants.js";
+import type { DiscoveryBackend } from "../types.js";
 import { listRepos, type GitHubRepo } from "./client.js";
+import {
+  fetchRepoSnapshots,
+  snapshotHasInfraConfig,
+  snapshotHasRecentCommits,
+  type RepoSnapshot,
+} from "./graphql-discovery.js";
 import { hasRemoteInfraConfig, hasRecentCommits } from "./repo-checks.js";
 
 export interface InfraRepoDiscoveryResult {
@@ -20,15 +27,18 @@ export interface DiscoverInfraReposOptions {
   org: string;
   token?: string;
   concurrency?: number;
+  onListed?: (listing: { repos: GitHubRepo[]; isOrg: boolean }) => void;
   onProgress?: (checked: number, total: number) => void;
   onActivityProgress?: (checked: number, total: number) => void;
   sinceHours?: number;
   includeAll?: boolean;
+  discovery?: DiscoveryBackend; // Default: rest
 }
 
 interface FilterContext {
   token?: string;
   concurrency: number;
+  snapshots?: Map<string, RepoSnapshot>; // Prefetched by GraphQL discovery
 }
 
 interface ResultOpts {
@@ -70,7 +80,9 @@ async function filterByInfraConfig(
     repos,
     async (r) => {
       const [o, name] = r.full_name.split("/");
-      const has = await hasRemoteInfraConfig(o, name, ctx.token);
+      const has = ctx.snapshots
+        ? snapshotHasInfraConfig(ctx.snapshots.get(r.full_name))
+        : await hasRemoteInfraConfig(o, name, ctx.token);
       onProgress?.(++n, repos.length);
       return has;
     },
@@ -89,7 +101,9 @@ async function filterByActivity(
     repos,
     async (r) => {
       const [o, name] = r.full_name.split("/");
-      const has = await hasRecentCommits(o, name, hours, ctx.token);
+      const has = ctx.snapshots
+        ? snapshotHasRecentCommits(ctx.snapshots.get(r.full_name), hours)
+        : await hasRecentCommits(o, name, hours, ctx.token);
       onProgress?.(++n, repos.length);
       return has;
     },
@@ -116,12 +130,16 @@ export async function discoverInfraRepos(
     org,
     token,
     concurrency = CONCURRENCY.maxRepoScans,
+    onListed,
     onProgress,
     onActivityProgress,
     sinceHours = DEFAULTS.commitWindowHours,
     includeAll = false,
+    discovery = "rest",
   } = opts;
-  const { repos: all, isOrg } = await listRepos(org, token);
+  const listing = await listRepos(org, token);
+  onListed?.(listing);
+  const { repos: all, isOrg } = listing;
   const ctx: FilterContext = { token, concurrency };
   const base = { isOrg, totalRepos: all.length };
 
@@ -135,6 +153,9 @@ export async function discoverInfraRepos(
     });
   }
 
+  if (discovery === "graphql") {
+    ctx.snapshots = await fetchRepoSnapshots(all, token);
+  }
   const withInfra = await filterByInfraConfig(all, ctx, onProgress);
 
   if (includeAll) {
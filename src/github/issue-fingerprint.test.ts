@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  parseFingerprintMarker,
+} from "./issue-fingerprint.js";
+
+describe("issue-fingerprint", () => {
+  describe("createIssueFingerprint", () => {
+    it("fingerprints findings regardless of key order", () => {
+      const a = createIssueFingerprint("tier-mismatch", { tier: "prod", x: 1 });
+      const b = createIssueFingerprint("tier-mismatch", { x: 1, tier: "prod" });
+      expect(a).toEqual(b);
+      expect(a.kind).toBe("tier-mismatch");
+    });
+  });
+
+  describe("formatFingerprintMarker", () => {
+    it("formats a hidden HTML comment", () => {
+      expect(
+        formatFingerprintMarker({ kind: "infra-drift", value: "abc123" })
+      ).toBe(
+        "<!-- drift-toolkit:fingerprint kind=infra-drift value=abc123 -->"
+      );
+    });
+  });
+
+  describe("parseFingerprintMarker", () => {
+    it("round-trips a formatted marker", () => {
+      const fingerprint = createIssueFingerprint("process-violations", [1]);
+      const body = `${formatFingerprintMarker(fingerprint)}\n## Heading`;
+      expect(parseFingerprintMarker(body)).toEqual(fingerprint);
+    });
+
+    it("returns null for bodies without a marker", () => {
+      expect(parseFingerprintMarker("## Created by hand")).toBeNull();
+      expect(parseFingerprintMarker(null)).toBeNull();
+      expect(parseFingerprintMarker(undefined)).toBeNull();
+    });
+
+    it("returns null for unknown kinds", () => {
+      expect(
+        parseFingerprintMarker(
+          "<!-- drift-toolkit:fingerprint kind=unknown value=abc123 -->"
+        )
+      ).toBeNull();
+    });
+  });
+});
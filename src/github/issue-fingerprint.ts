@@ -0,0 +1,70 @@
+/**
+ * Hidden fingerprints embedded in drift issue bodies.
+ *
+ * Each issue body starts with an HTML comment naming the kind of drift and a
+ * fingerprint of its findings, so later scans can find the open issue that
+ * tracks the same drift instead of opening a duplicate.
+ */
+
+import { createFingerprint } from "../utils/index.js";
+import type { DriftIssueKind } from "../types.js";
+
+export interface IssueFingerprint {
+  kind: DriftIssueKind;
+  value: string;
+}
+
+const DRIFT_ISSUE_KINDS: readonly DriftIssueKind[] = [
+  "missing-projects",
+  "tier-mismatch",
+  "dependency-changes",
+  "metadata-violations",
+  "process-violations",
+  "infra-drift",
+  "audit-summary",
+];
+
+const MARKER_PATTERN =
+  /<!-- drift-toolkit:fingerprint kind=([a-z-]+) value=([0-9a-f]+) -->/;
+
+/**
+ * Fingerprint the findings behind a drift issue.
+ * Leave out volatile details such as scan times so unchanged drift keeps
+ * the same fingerprint.
+ */
+export function createIssueFingerprint(
+  kind: DriftIssueKind,
+  findings: unknown
+): IssueFingerprint {
+  return { kind, value: createFingerprint(findings) };
+}
+
+/** Format a fingerprint as a hidden HTML comment for an issue body. */
+export function formatFingerprintMarker(fingerprint: IssueFingerprint): string {
+  return `<!-- drift-toolkit:fingerprint kind=${fingerprint.kind} value=${fingerprint.value} -->`;
+}
+
+/** Replace the fingerprint in an issue body, keeping the rest of it. */
+export function replaceFingerprintMarker(
+  body: string,
+  fingerprint: IssueFingerprint
+): string {
+  return body.replace(MARKER_PATTERN, formatFingerprintMarker(fingerprint));
+}
+
+/**
+ * Read the fingerprint from an issue body.
+ *
+ * @returns The fingerprint, or null if the body has none (e.g. issues
+ * created by hand or by older versions of drift-toolkit)
+ */
+export function parseFingerprintMarker(
+  body: string | null | undefined
+): IssueFingerprint | null {
+  const match = body?.match(MARKER_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const kind = DRIFT_ISSUE_KINDS.find((k) => k === match[1]);
+  return kind ? { kind, value: match[2] } : null;
+}
@@ -7,9 +7,15 @@ import {
   getTierMismatchIssueTitle,
   getTierMismatchIssueLabel,
   formatDependencyChangesIssueBody,
+  formatDependencyChangesComment,
   getDependencyChangesIssueTitle,
   getDependencyChangesIssueLabel,
+  getDependencyChangesIssueLabels,
+  formatPullRequestComment,
+  getMissingProjectsIssueFingerprint,
+  getTierMismatchIssueFingerprint,
 } from "./issue-formatter.js";
+import { parseFingerprintMarker } from "./issue-fingerprint.js";
 import type {
   MissingProjectsDetection,
   TierMismatchDetection,
@@ -319,6 +325,114 @@ describe("issue-formatter", () => {
       expect(body).not.toContain("[null]");
     });
 
+    it("lists parsed check.toml changes above the diff", () => {
+      const detection: DependencyChangesDetection = {
+        repository: "org/repo",
+        scanTime: "2024-01-15 02:00 UTC",
+        commit: "abc1234",
+        commitUrl: "https://github.com/org/repo/commit/abc1234",
+        changes: [
+          {
+            file: "check.toml",
+            status: "modified",
+            checkType: null,
+            diff: "-require_reviews = 2\n+require_reviews = 1",
+            checkTomlChanges: [
+              {
+                path: "[process.branches].require_reviews",
+                kind: "lowered",
+                before: 2,
+                after: 1,
+                description:
+                  "`[process.branches].require_reviews` lowered 2 → 1",
+                impact: "weakening",
+              },
+            ],
+          },
+        ],
+        byCheck: {},
+      };
+
+      const body = formatDependencyChangesIssueBody(detection);
+
+      expect(body).toContain(
+        "- `[process.branches].require_reviews` lowered 2 → 1 (**weakening**)\n\n```diff"
+      );
+    });
+
+    it("lists parsed config file changes above the diff", () => {
+      const detection: DependencyChangesDetection = {
+        repository: "org/repo",
+        scanTime: "2024-01-15 02:00 UTC",
+        commit: "abc1234",
+        commitUrl: "https://github.com/org/repo/commit/abc1234",
+        changes: [
+          {
+            file: ".eslintrc.json",
+            status: "modified",
+            checkType: null,
+            diff: '-"no-console": "error"\n+"no-console": "off"',
+            configChanges: [
+              {
+                path: "rules.no-console",
+                kind: "disabled",
+                before: "error",
+                after: "off",
+                description: "rule `no-console` turned off",
+              },
+            ],
+          },
+        ],
+        byCheck: {},
+      };
+
+      const body = formatDependencyChangesIssueBody(detection);
+
+      expect(body).toContain("- rule `no-console` turned off\n\n```diff");
+    });
+
+    it("lists workflow security findings, most severe first", () => {
+      const detection: DependencyChangesDetection = {
+        repository: "org/repo",
+        scanTime: "2024-01-15 02:00 UTC",
+        commit: "abc1234",
+        commitUrl: "https://github.com/org/repo/commit/abc1234",
+        changes: [
+          {
+            file: ".github/workflows/ci.yml",
+            status: "modified",
+            checkType: null,
+          },
+        ],
+        byCheck: {},
+        workflowFindings: [
+          {
+            file: ".github/workflows/ci.yml",
+            rule: "secrets-added",
+            severity: "medium",
+            message: "Uses secret `NPM_TOKEN`",
+          },
+          {
+            file: ".github/workflows/ci.yml",
+            rule: "pull-request-target",
+            severity: "high",
+            message: "New `pull_request_target` trigger",
+          },
+        ],
+      };
+
+      const body = formatDependencyChangesIssueBody(detection);
+
+      expect(body).toContain("### Workflow Security Findings");
+      expect(body).toContain(
+        "| high | `.github/workflows/ci.yml` | New `pull_request_target` trigger |\n" +
+          "| medium | `.github/workflows/ci.yml` | Uses secret `NPM_TOKEN` |"
+      );
+      expect(body.indexOf("Workflow Security Findings")).toBeLessThan(
+        body.indexOf("Other Changed Files")
+      );
+    });
+
     it("handles deleted files", () => {
       const detection: DependencyChangesDetection = {
         repository: "org/repo",
@@ -397,6 +511,71 @@ describe("issue-formatter", () => {
 
       expect(body).toContain("(truncated)");
     });
+
+    it("includes the commit range and per-file attribution", () => {
+      const detection: DependencyChangesDetection = {
+        repository: "org/repo",
+        scanTime: "2024-01-15 02:00 UTC",
+        commit: "def5678901234",
+        commitUrl: "https://github.com/org/repo/commit/def5678901234",
+        baseCommit: "abc1234567890",
+        compareUrl:
+          "https://github.com/org/repo/compare/abc1234567890...def5678901234",
+        changes: [
+          {
+            file: "check.toml",
+            status: "modified",
+            checkType: null,
+            diff: "-enabled = true\n+enabled = false",
+            introducedBy: {
+              commit: "bcd2345678901",
+              commitUrl: "https://github.com/org/repo/commit/bcd2345678901",
+              author: "dev@example.com",
+            },
+          },
+        ],
+        byCheck: {},
+      };
+
+      const body = formatDependencyChangesIssueBody(detection);
+
+      expect(body).toContain(
+        "Commits: [abc1234...def5678](https://github.com/org/repo/compare/abc1234567890...def5678901234)"
+      );
+      expect(body).toContain(
+        "Changed in [bcd2345](https://github.com/org/repo/commit/bcd2345678901) by dev@example.com"
+      );
+    });
+  });
+
+  describe("formatDependencyChangesComment", () => {
+    it("lists the new changes without a fingerprint", () => {
+      const comment = formatDependencyChangesComment({
+        repository: "org/repo",
+        scanTime: "2024-01-16 02:00 UTC",
+        commit: "def5678901234",
+        commitUrl: "https://github.com/org/repo/commit/def5678901234",
+        baseCommit: "abc1234567890",
+        compareUrl:
+          "https://github.com/org/repo/compare/abc1234567890...def5678901234",
+        changes: [
+          {
+            file: "eslint.config.js",
+            status: "modified",
+            checkType: null,
+            diff: "-a\n+b",
+          },
+        ],
+        byCheck: {},
+      });
+
+      expect(comment).toContain("## More Dependency File Changes Detected");
+      expect(comment).toContain("Scan time: 2024-01-16 02:00 UTC");
+      expect(comment).toContain("Commits: [abc1234...def5678](");
+      expect(comment).toContain("eslint.config.js");
+      expect(comment).toContain("_Updated by drift-toolkit_");
+      expect(parseFingerprintMarker(comment)).toBeNull();
+    });
   });
 
   describe("getDependencyChangesIssueTitle", () => {
@@ -412,4 +591,143 @@ describe("issue-formatter", () => {
       expect(getDependencyChangesIssueLabel()).toBe("drift:code");
     });
   });
+
+  describe("getDependencyChangesIssueLabels", () => {
+    const detection: DependencyChangesDetection = {
+      repository: "org/repo",
+      scanTime: "2024-01-15 02:00 UTC",
+      commit: "abc1234",
+      commitUrl: "https://github.com/org/repo/commit/abc1234",
+      changes: [],
+      byCheck: {},
+    };
+
+    it("adds the weakening label when a change weakens standards", () => {
+      expect(
+        getDependencyChangesIssueLabels({ ...detection, impact: "weakening" })
+      ).toEqual(["drift:code", "drift:weakening"]);
+    });
+
+    it("uses only the dependency changes label otherwise", () => {
+      expect(getDependencyChangesIssueLabels(detection)).toEqual([
+        "drift:code",
+      ]);
+      expect(
+        getDependencyChangesIssueLabels({
+          ...detection,
+          impact: "strengthening",
+        })
+      ).toEqual(["drift:code"]);
+    });
+  });
+
+  describe("formatPullRequestComment", () => {
+    it("summarises the changes and flags weakened standards", () => {
+      const body = formatPullRequestComment({
+        repository: "org/repo",
+        scanTime: "2024-01-15 02:00 UTC",
+        commit: "def5678901234",
+        commitUrl: "https://github.com/org/repo/commit/def5678901234",
+        baseCommit: "abc1234567890",
+        compareUrl:
+          "https://github.com/org/repo/compare/abc1234567890...def5678901234",
+        changes: [
+          {
+            file: "check.toml",
+            status: "modified",
+            checkType: null,
+            checkTomlChanges: [
+              {
+                path: "[code.linting.eslint]",
+                kind: "disabled",
+                before: true,
+                after: false,
+                impact: "weakening",
+                description: "`[code.linting.eslint]` disabled",
+              },
+            ],
+          },
+        ],
+        byCheck: {},
+        impact: "weakening",
+      });
+
+      expect(body.startsWith("<!-- drift-toolkit:pr-comment -->\n")).toBe(true);
+      expect(body).toContain(
+        "This pull request changes 1 dependency file that affect"
+      );
+      expect(body).toContain("> This pull request weakens code standards.");
+      expect(body).toContain("Commits: [abc1234...def5678](");
+      expect(body).toContain(
+        "- `[code.linting.eslint]` disabled (**weakening**)"
+      );
+      expect(body).toContain("does not block the merge");
+      expect(body).not.toContain("Action Required");
+    });
+
+    it("notes when the pull request changes no dependency files", () => {
+      const body = formatPullRequestComment(null);
+
+      expect(body).toContain("<!-- drift-toolkit:pr-comment -->");
+      expect(body).toContain(
+        "This pull request does not change any dependency files."
+      );
+    });
+  });
+
+  describe("issue fingerprints", () => {
+    const detection: MissingProjectsDetection = {
+      repository: "org/repo",
+      scanTime: "2024-01-15 02:00 UTC",
+      projects: [{ path: "packages/api", type: "typescript" }],
+    };
+
+    it("embeds the fingerprint in the issue body", () => {
+      const body = formatMissingProjectsIssueBody(detection);
+
+      expect(parseFingerprintMarker(body)).toEqual(
+        getMissingProjectsIssueFingerprint(detection)
+      );
+    });
+
+    it("ignores the scan time", () => {
+      const later = { ...detection, scanTime: "2024-01-16 02:00 UTC" };
+
+      expect(getMissingProjectsIssueFingerprint(later)).toEqual(
+        getMissingProjectsIssueFingerprint(detection)
+      );
+    });
+
+    it("changes when the findings change", () => {
+      const more = {
+        ...detection,
+        projects: [
+          ...detection.projects,
+          { path: "packages/web", type: "typescript" },
+        ],
+      };
+
+      expect(getMissingProjectsIssueFingerprint(more).value).not.toBe(
+        getMissingProjectsIssueFingerprint(detection).value
+      );
+    });
+
+    it("uses a distinct kind per issue type", () => {
+      const tierDetection: TierMismatchDetection = {
+        repository: "org/repo",
+        scanTime: "2024-01-15 02:00 UTC",
+        tier: "production",
+        rulesets: ["typescript-internal"],
+        expectedPattern: "*-production",
+        error: "mismatch",
+      };
+
+      expect(getTierMismatchIssueFingerprint(tierDetection).kind).toBe(
+        "tier-mismatch"
+      );
+      expect(getMissingProjectsIssueFingerprint(detection).kind).toBe(
+        "missing-projects"
+      );
+    });
+  });
 });
@@ -1,26 +1,29 @@
 /**
- * Formats drift detection results into GitHub issue body.
+ * Formats drift detection results into GitHub issue bodies and pull
+ * request comments.
  */
 
-import { DISPLAY_LIMITS, GITHUB_ISSUES } from "../constants.js";
+import { GITHUB_ISSUES } from "../constants.js";
 import type {
   MissingProjectsDetection,
   TierMismatchDetection,
-  DependencyChangesDetection,
-  DependencyFileChange,
 } from "../types.js";
-
-/** Truncate diff if it exceeds max lines. */
-function truncateDiff(
-  diff: string,
-  maxLines = DISPLAY_LIMITS.diffLines
-): string {
-  const lines = diff.split("\n");
-  if (lines.length <= maxLines) {
-    return diff;
-  }
-  return lines.slice(0, maxLines).join("\n") + "\n... (truncated)";
-}
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
+
+// Re-export dependency changes formatting from its own module
+export {
+  formatDependencyChangesComment,
+  formatDependencyChangesIssueBody,
+  formatPullRequestComment,
+  getDependencyChangesIssueFingerprint,
+  getDependencyChangesIssueLabel,
+  getDependencyChangesIssueLabels,
+  getDependencyChangesIssueTitle,
+} from "./dependency-changes-issue-formatter.js";
 
 /** Truncate issue body if it exceeds GitHub's max length. */
 function truncateBody(body: string): string {
@@ -33,27 +36,6 @@ function truncateBody(body: string): string {
   );
 }
 
-/** Format a single file change as markdown. */
-function formatFileChange(
-  change: Pick<DependencyFileChange, "file" | "status" | "diff">,
-  checkType?: string | null
-): string {
-  const statusLabel =
-    change.status === "deleted"
-      ? " (deleted)"
-      : change.status === "added"
-        ? " (new)"
-        : "";
-  const checkLabel = checkType ? ` [${checkType}]` : "";
-  let section = `#### ${change.file}${statusLabel}${checkLabel}\n\n`;
-  if (change.diff) {
-    section += "```diff\n" + truncateDiff(change.diff) + "\n```\n";
-  } else if (change.status === "deleted") {
-    section += "_File was deleted_\n";
-  }
-  return section;
-}
-
 /**
  * Build the complete issue body for missing projects detection.
  */
@@ -63,6 +45,9 @@ export function formatMissingProjectsIssueBody(
   const parts: string[] = [];
 
   // Header
+  parts.push(
+    formatFingerprintMarker(getMissingProjectsIssueFingerprint(detection))
+  );
   parts.push("## New Project Detected Without Standards\n");
   parts.push(`Repository: \`${detection.repository}\``);
   parts.push(`Scan time: ${detection.scanTime}\n`);
@@ -116,6 +101,15 @@ export function getMissingProjectsIssueLabel(): string {
   return GITHUB_ISSUES.missingProjectsLabel;
 }
 
+/**
+ * Get the fingerprint of the projects reported in a missing projects issue.
+ */
+export function getMissingProjectsIssueFingerprint(
+  detection: MissingProjectsDetection
+): IssueFingerprint {
+  return createIssueFingerprint("missing-projects", detection.projects);
+}
+
 /** Build the complete issue body for tier-ruleset mismatch detection. */
 export function formatTierMismatchIssueBody(
   detection: TierMismatchDetection
@@ -123,6 +117,7 @@ export function formatTierMismatchIssueBody(
   const rulesets =
     detection.rulesets.map((r) => `\`${r}\``).join(", ") || "_none_";
   const parts = [
+    formatFingerprintMarker(getTierMismatchIssueFingerprint(detection)),
     "## Tier-Ruleset Mismatch Detected\n",
     `Repository: \`${detection.repository}\``,
     `Scan time: ${detection.scanTime}\n`,
@@ -162,68 +157,15 @@ export function getTierMismatchIssueLabel(): string {
   return GITHUB_ISSUES.tierMismatchLabel;
 }
 
-/** Format grouped changes by check type */
-function formatGroupedChanges(
-  byCheck: Record<string, DependencyFileChange[]>
-): string[] {
-  const parts: string[] = [];
-  const checkTypes = Object.keys(byCheck).sort();
-  if (checkTypes.length === 0) {
-    return parts;
-  }
-  parts.push("### Changes by Check Type\n");
-  for (const checkType of checkTypes) {
-    parts.push(`#### ${checkType}\n`);
-    for (const change of byCheck[checkType]) {
-      parts.push(formatFileChange(change, change.checkType));
-    }
-  }
-  return parts;
-}
-
-/** Format ungrouped changes (workflows, check.toml, etc.) */
-function formatUngroupedChanges(changes: DependencyFileChange[]): string[] {
-  const ungrouped = changes.filter((c) => !c.checkType);
-  if (ungrouped.length === 0) {
-    return [];
-  }
-  const parts = ["### Other Changed Files\n"];
-  for (const change of ungrouped) {
-    parts.push(formatFileChange(change));
-  }
-  return parts;
-}
-
-/** Build the complete issue body for dependency changes detection. */
-export function formatDependencyChangesIssueBody(
-  detection: DependencyChangesDetection
-): string {
-  const commitLink = `[${detection.commit.slice(0, 7)}](${detection.commitUrl})`;
-  const parts = [
-    "## Dependency File Changes Detected\n",
-    `Repository: \`${detection.repository}\``,
-    `Scan time: ${detection.scanTime}`,
-    `Commit: ${commitLink}\n`,
-    ...formatGroupedChanges(detection.byCheck),
-    ...formatUngroupedChanges(detection.changes),
-    "### Action Required\n",
-    "Review these dependency file changes and close this issue once investigated.",
-    "These files affect how code standards are enforced in this repository.\n",
-    "---\n_Created by drift-toolkit_",
-  ];
-  return truncateBody(parts.join("\n"));
-}
-
 /**
- * Build the issue title for dependency changes detection.
+ * Get the fingerprint of the mismatch reported in a tier mismatch issue.
  */
-export function getDependencyChangesIssueTitle(): string {
-  return GITHUB_ISSUES.dependencyChangesTitle;
-}
-
-/**
- * Get the label for dependency changes issues.
- */
-export function getDependencyChangesIssueLabel(): string {
-  return GITHUB_ISSUES.dependencyChangesLabel;
+export function getTierMismatchIssueFingerprint(
+  detection: TierMismatchDetection
+): IssueFingerprint {
+  return createIssueFingerprint("tier-mismatch", {
+    tier: detection.tier,
+    rulesets: detection.rulesets,
+    expectedPattern: detection.expectedPattern,
+  });
 }
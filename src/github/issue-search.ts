@@ -0,0 +1,130 @@
+/**
+ * GitHub issue lookup for drift detection.
+ *
+ * Finds the open issue tracking a kind of drift by its label and the
+ * fingerprint in its body (see issue-fingerprint.ts).
+ */
+
+import { z } from "zod";
+import { GITHUB_API, GITHUB_ISSUES } from "../constants.js";
+import type { DriftIssueKind } from "../types.js";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { getGitHubApiUrl } from "./github-url.js";
+import { parseFingerprintMarker } from "./issue-fingerprint.js";
+
+export interface OpenIssue {
+  number: number;
+  html_url: string;
+  title: string;
+  body: string | null;
+  labels: string[];
+}
+
+export interface FindDriftIssueOptions {
+  owner: string;
+  repo: string;
+  label: string;
+  kind: DriftIssueKind;
+}
+
+const OPEN_ISSUE_ARRAY_SCHEMA = z.array(
+  z.object({
+    number: z.number(),
+    html_url: z.string(),
+    title: z.string(),
+    body: z.string().nullable().optional(),
+    labels: z.array(z.union([z.string(), z.object({ name: z.string() })])),
+    pull_request: z.unknown().optional(),
+  })
+);
+
+/** List open issues matching a query, following pagination. */
+async function listIssuePages(
+  owner: string,
+  repo: string,
+  query: string,
+  token: string
+): Promise<OpenIssue[]> {
+  const headers = buildApiHeaders(token);
+  const issues: OpenIssue[] = [];
+  let page = 1;
+  while (true) {
+    const url = `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues?state=open${query}&per_page=${GITHUB_API.perPage}&page=${page}`;
+    const response = await fetchWithRetry(url, { headers }, token);
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `Failed to list issues: ${response.status} ${sanitizeError(text, token)}`
+      );
+    }
+    const parseResult = OPEN_ISSUE_ARRAY_SCHEMA.safeParse(
+      await response.json()
+    );
+    if (!parseResult.success) {
+      throw new Error(`Invalid issues response: ${parseResult.error.message}`);
+    }
+    const pageIssues = parseResult.data;
+    issues.push(
+      ...pageIssues
+        .filter((i) => i.pull_request === undefined)
+        .map((i) => ({
+          number: i.number,
+          html_url: i.html_url,
+          title: i.title,
+          body: i.body ?? null,
+          labels: i.labels.map((l) => (typeof l === "string" ? l : l.name)),
+        }))
+    );
+    if (pageIssues.length < GITHUB_API.perPage) {
+      break;
+    }
+    page++;
+  }
+  return issues;
+}
+
+/** List open issues with a label (pull requests excluded). */
+export function listOpenIssues(
+  owner: string,
+  repo: string,
+  label: string,
+  token: string
+): Promise<OpenIssue[]> {
+  return listIssuePages(
+    owner,
+    repo,
+    `&labels=${encodeURIComponent(label)}`,
+    token
+  );
+}
+
+/**
+ * List open issues with any `drift:*` label (pull requests excluded).
+ * The issues API only filters by exact label, so all open issues are
+ * fetched and filtered by label prefix.
+ */
+export async function listOpenDriftIssues(
+  owner: string,
+  repo: string,
+  token: string
+): Promise<OpenIssue[]> {
+  const issues = await listIssuePages(owner, repo, "", token);
+  return issues.filter((i) =>
+    i.labels.some((l) => l.startsWith(GITHUB_ISSUES.driftLabelPrefix))
+  );
+}
+
+/**
+ * Find the open issue tracking a kind of drift, identified by the
+ * fingerprint in its body.
+ */
+export async function findOpenDriftIssue(
+  options: FindDriftIssueOptions,
+  token: string
+): Promise<OpenIssue | null> {
+  const { owner, repo, label, kind } = options;
+  const issues = await listOpenIssues(owner, repo, label, token);
+  return (
+    issues.find((i) => parseFingerprintMarker(i.body)?.kind === kind) ?? null
+  );
+}
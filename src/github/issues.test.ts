@@ -0,0 +1,362 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  describeSyncedIssue,
+  formatResolvedComment,
+  listOpenDriftIssues,
+  listOpenIssues,
+} from "./issues.js";
+import { formatFingerprintMarker } from "./issue-fingerprint.js";
+import * as apiUtils from "./api-utils.js";
+
+describe("issues", () => {
+  const mockFetchWithRetry = vi.spyOn(apiUtils, "fetchWithRetry");
+
+  afterEach(() => {
+    mockFetchWithRetry.mockReset();
+  });
+
+  const marker = (value: string) =>
+    formatFingerprintMarker({ kind: "process-violations", value });
+
+  const openIssue = (
+    number: number,
+    body: string | null,
+    labels = ["drift:process"]
+  ) => ({
+    number,
+    html_url: `https://github.com/org/repo/issues/${number}`,
+    title: `Issue ${number}`,
+    body,
+    labels: labels.map((name) => ({ name })),
+  });
+
+  const issueOptions = (body: string) => ({
+    owner: "org",
+    repo: "repo",
+    title: "[drift:process] Process violations detected",
+    body,
+    labels: ["drift:process"],
+  });
+
+  describe("listOpenIssues", () => {
+    it("lists open issues with the label and skips pull requests", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response(
+          JSON.stringify([
+            openIssue(1, "body"),
+            { ...openIssue(2, null), pull_request: {} },
+          ]),
+          { status: 200 }
+        )
+      );
+
+      const issues = await listOpenIssues("org", "repo", "drift:code", "token");
+
+      expect(mockFetchWithRetry).toHaveBeenCalledWith(
+        expect.stringContaining("state=open&labels=drift%3Acode"),
+        expect.anything(),
+        "token"
+      );
+      expect(issues).toEqual([
+        {
+          number: 1,
+          html_url: "https://github.com/org/repo/issues/1",
+          title: "Issue 1",
+          body: "body",
+          labels: ["drift:process"],
+        },
+      ]);
+    });
+
+    it("throws error on API failure", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Not Found", { status: 404 })
+      );
+
+      await expect(
+        listOpenIssues("org", "repo", "drift:code", "token")
+      ).rejects.toThrow("Failed to list issues: 404");
+    });
+  });
+
+  describe("listOpenDriftIssues", () => {
+    it("keeps only issues with a drift label", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response(
+          JSON.stringify([
+            openIssue(1, null, ["drift:code"]),
+            openIssue(2, null, ["bug"]),
+            openIssue(3, null, ["bug", "drift:infra"]),
+          ]),
+          { status: 200 }
+        )
+      );
+
+      const issues = await listOpenDriftIssues("org", "repo", "token");
+
+      expect(issues.map((i) => i.number)).toEqual([1, 3]);
+      expect(mockFetchWithRetry.mock.calls[0][0]).not.toContain("labels=");
+    });
+  });
+
+  describe("createOrUpdateIssue", () => {
+    it("creates an issue when none tracks the drift", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify([openIssue(3, "Created by hand")]), {
+            status: 200,
+          })
+        )
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify(openIssue(4, null)), { status: 201 })
+        );
+
+      const issue = await createOrUpdateIssue(
+        issueOptions(marker("aaaa")),
+        "token"
+      );
+
+      expect(issue.action).toBe("created");
+      expect(issue.number).toBe(4);
+      expect(mockFetchWithRetry.mock.calls[1][1]).toMatchObject({
+        method: "POST",
+      });
+    });
+
+    it("leaves an issue with the same fingerprint untouched", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response(JSON.stringify([openIssue(5, marker("aaaa"))]), {
+          status: 200,
+        })
+      );
+
+      const issue = await createOrUpdateIssue(
+        issueOptions(`${marker("aaaa")}\nnew scan time`),
+        "token"
+      );
+
+      expect(issue).toEqual({
+        number: 5,
+        html_url: "https://github.com/org/repo/issues/5",
+        action: "unchanged",
+      });
+      expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it("updates the body and comments when the drift changed", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify([openIssue(6, marker("aaaa"))]), {
+            status: 200,
+          })
+        )
+        .mockResolvedValueOnce(new Response("{}", { status: 200 }))
+        .mockResolvedValueOnce(new Response("{}", { status: 201 }));
+
+      const body = `${marker("bbbb")}\nnew findings`;
+      const issue = await createOrUpdateIssue(issueOptions(body), "token");
+
+      expect(issue.action).toBe("updated");
+      const [, [updateUrl, updateInit], [commentUrl]] =
+        mockFetchWithRetry.mock.calls;
+      expect(updateUrl).toContain("/repos/org/repo/issues/6");
+      expect(updateInit).toMatchObject({ method: "PATCH" });
+      expect(JSON.parse(String(updateInit?.body)).body).toBe(body);
+      expect(commentUrl).toContain("/repos/org/repo/issues/6/comments");
+    });
+
+    it("adds labels the open issue is missing when updating it", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify([
+              openIssue(8, marker("aaaa"), ["drift:process", "triaged"]),
+            ]),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(new Response("{}", { status: 200 }))
+        .mockResolvedValueOnce(new Response("{}", { status: 201 }));
+
+      await createOrUpdateIssue(
+        {
+          ...issueOptions(marker("bbbb")),
+          labels: ["drift:process", "drift:weakening"],
+        },
+        "token"
+      );
+
+      const updateInit = mockFetchWithRetry.mock.calls[1][1];
+      expect(JSON.parse(String(updateInit?.body)).labels).toEqual([
+        "drift:process",
+        "triaged",
+        "drift:weakening",
+      ]);
+    });
+
+    it("removes the weakening label once the findings no longer weaken standards", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify([
+              openIssue(9, marker("aaaa"), [
+                "drift:code",
+                "drift:weakening",
+                "triaged",
+              ]),
+            ]),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(new Response("{}", { status: 200 }))
+        .mockResolvedValueOnce(new Response("{}", { status: 201 }));
+
+      await createOrUpdateIssue(
+        { ...issueOptions(marker("bbbb")), labels: ["drift:code"] },
+        "token"
+      );
+
+      const updateInit = mockFetchWithRetry.mock.calls[1][1];
+      expect(JSON.parse(String(updateInit?.body)).labels).toEqual([
+        "drift:code",
+        "triaged",
+      ]);
+    });
+
+    it("keeps the body and labels and comments the new findings given an update comment", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify([
+              openIssue(10, `${marker("aaaa")}\nearlier findings`, [
+                "drift:process",
+                "drift:weakening",
+              ]),
+            ]),
+            { status: 200 }
+          )
+        )
+        .mockResolvedValueOnce(new Response("{}", { status: 200 }))
+        .mockResolvedValueOnce(new Response("{}", { status: 201 }));
+
+      const issue = await createOrUpdateIssue(
+        {
+          ...issueOptions(`${marker("bbbb")}\nnew findings`),
+          updateComment: "new findings",
+        },
+        "token"
+      );
+
+      expect(issue.action).toBe("updated");
+      const [, [, updateInit], [, commentInit]] = mockFetchWithRetry.mock.calls;
+      const update = JSON.parse(String(updateInit?.body));
+      expect(update.body).toBe(`${marker("bbbb")}\nearlier findings`);
+      expect(update.labels).toBeUndefined();
+      expect(JSON.parse(String(commentInit?.body)).body).toBe("new findings");
+    });
+
+    it("always creates an issue for bodies without a fingerprint", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response(JSON.stringify(openIssue(7, null)), { status: 201 })
+      );
+
+      const issue = await createOrUpdateIssue(issueOptions("body"), "token");
+
+      expect(issue.action).toBe("created");
+      expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("closeResolvedIssue", () => {
+    const closeOptions = {
+      owner: "org",
+      repo: "repo",
+      label: "drift:process",
+      kind: "process-violations" as const,
+      scan: "drift process scan",
+      scanTime: "2024-01-15T02:00:00.000Z",
+    };
+
+    it("comments on and closes the issue tracking the drift", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify([openIssue(8, marker("aaaa"))]), {
+            status: 200,
+          })
+        )
+        .mockResolvedValueOnce(new Response("{}", { status: 201 }))
+        .mockResolvedValueOnce(new Response("{}", { status: 200 }));
+
+      const issue = await closeResolvedIssue(closeOptions, "token");
+
+      expect(issue).toEqual({
+        number: 8,
+        html_url: "https://github.com/org/repo/issues/8",
+        action: "closed",
+      });
+      const [, [commentUrl, commentInit], [closeUrl, closeInit]] =
+        mockFetchWithRetry.mock.calls;
+      expect(commentUrl).toContain("/repos/org/repo/issues/8/comments");
+      expect(String(commentInit?.body)).toContain("drift process scan");
+      expect(closeUrl).toContain("/repos/org/repo/issues/8");
+      expect(JSON.parse(String(closeInit?.body))).toEqual({ state: "closed" });
+    });
+
+    it("returns null when no open issue tracks the drift", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response(JSON.stringify([openIssue(9, "Created by hand")]), {
+          status: 200,
+        })
+      );
+
+      expect(await closeResolvedIssue(closeOptions, "token")).toBeNull();
+      expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("formatResolvedComment", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("names the scan and scan time", () => {
+      vi.stubEnv("GITHUB_RUN_ID", "");
+      const comment = formatResolvedComment(
+        "drift infra scan",
+        "2024-01-15T02:00:00.000Z"
+      );
+      expect(comment).toContain(
+        "`drift infra scan` at 2024-01-15T02:00:00.000Z"
+      );
+      expect(comment).not.toContain("workflow run");
+    });
+
+    it("links the workflow run in GitHub Actions", () => {
+      vi.stubEnv("GITHUB_SERVER_URL", "https://github.com");
+      vi.stubEnv("GITHUB_REPOSITORY", "org/drift-config");
+      vi.stubEnv("GITHUB_RUN_ID", "123");
+      expect(formatResolvedComment("drift code scan", "now")).toContain(
+        "https://github.com/org/drift-config/actions/runs/123"
+      );
+    });
+  });
+
+  describe("describeSyncedIssue", () => {
+    it("describes each action", () => {
+      expect(describeSyncedIssue({ number: 1, action: "created" })).toBe(
+        "Created issue #1"
+      );
+      expect(
+        describeSyncedIssue({ number: 2, action: "updated" }, "tier issue")
+      ).toBe("Updated tier issue #2");
+      expect(describeSyncedIssue({ number: 4, action: "closed" })).toBe(
+        "Closed resolved issue #4"
+      );
+      expect(describeSyncedIssue({ number: 3, action: "unchanged" })).toBe(
+        "Drift already tracked in issue #3"
+      );
+    });
+  });
+});
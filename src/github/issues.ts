@@ -0,0 +1,330 @@
+/**
+ * GitHub issue operations for drift detection.
+ *
+ * Drift issues carry a hidden fingerprint (see issue-fingerprint.ts), so a
+ * repo with unresolved drift keeps a single open issue that is updated as
+ * the drift changes, rather than a new issue every scan.
+ */
+
+import { z } from "zod";
+import { GITHUB_ISSUES } from "../constants.js";
+import type { IssueSyncAction } from "../types.js";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { getGitHubApiUrl } from "./github-url.js";
+import {
+  parseFingerprintMarker,
+  replaceFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
+import {
+  findOpenDriftIssue,
+  type FindDriftIssueOptions,
+  type OpenIssue,
+} from "./issue-search.js";
+
+// Re-export issue lookup functions from issue-search module
+export {
+  findOpenDriftIssue,
+  listOpenDriftIssues,
+  listOpenIssues,
+  type FindDriftIssueOptions,
+  type OpenIssue,
+} from "./issue-search.js";
+
+/** Labels drift only adds to issues whose current findings call for them */
+const CONDITIONAL_LABELS: string[] = [GITHUB_ISSUES.weakeningLabel];
+
+export interface GitHubIssue {
+  number: number;
+  html_url: string;
+}
+
+export interface SyncedIssue extends GitHubIssue {
+  action: IssueSyncAction;
+}
+
+export interface CreateIssueOptions {
+  owner: string;
+  repo: string;
+  title: string;
+  body: string;
+  labels: string[];
+  updateComment?: string; // Posted on an open issue, which keeps its body
+}
+
+export interface UpdateIssueOptions {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  body?: string;
+  state?: "open" | "closed";
+  labels?: string[]; // Replaces the issue's labels
+}
+
+export interface CreateIssueCommentOptions {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  body: string;
+}
+
+export interface CloseResolvedIssueOptions extends FindDriftIssueOptions {
+  scan: string; // Scan that confirmed the fix, e.g. "drift process scan"
+  scanTime: string;
+}
+
+const GITHUB_ISSUE_SCHEMA = z.object({
+  number: z.number(),
+  html_url: z.string(),
+});
+
+const DRIFT_UPDATED_COMMENT =
+  "The drift detected in the latest scan has changed. The issue description has been updated.\n\n---\n_Updated by drift-toolkit_";
+
+/** Send a JSON request to the issues API, throwing on a non-OK response. */
+async function sendIssueRequest(
+  url: string,
+  init: { method: string; payload: unknown; action: string },
+  token: string
+): Promise<Response> {
+  const headers = buildApiHeaders(token);
+  headers["Content-Type"] = "application/json";
+
+  const response = await fetchWithRetry(
+    url,
+    { method: init.method, headers, body: JSON.stringify(init.payload) },
+    token
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Failed to ${init.action}: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+  return response;
+}
+
+/** Create a GitHub issue for drift detection. */
+export async function createIssue(
+  options: CreateIssueOptions,
+  token: string
+): Promise<GitHubIssue> {
+  const { owner, repo, title, body, labels } = options;
+  const response = await sendIssueRequest(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues`,
+    {
+      method: "POST",
+      payload: { title, body, labels },
+      action: "create issue",
+    },
+    token
+  );
+
+  let rawData: unknown;
+  try {
+    rawData = await response.json();
+  } catch (parseError) {
+    const msg =
+      parseError instanceof Error ? parseError.message : "Unknown error";
+    throw new Error(`Failed to parse issue response: ${msg}`);
+  }
+
+  const parseResult = GITHUB_ISSUE_SCHEMA.safeParse(rawData);
+  if (!parseResult.success) {
+    throw new Error(`Invalid issue response: ${parseResult.error.message}`);
+  }
+
+  return parseResult.data;
+}
+
+/** Update the body, state and/or labels of an existing issue. */
+export async function updateIssue(
+  options: UpdateIssueOptions,
+  token: string
+): Promise<void> {
+  const { owner, repo, issueNumber, body, state, labels } = options;
+  await sendIssueRequest(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues/${issueNumber}`,
+    {
+      method: "PATCH",
+      payload: { body, state, labels },
+      action: `update issue #${issueNumber}`,
+    },
+    token
+  );
+}
+
+/** Add a comment to an existing issue. */
+export async function createIssueComment(
+  options: CreateIssueCommentOptions,
+  token: string
+): Promise<void> {
+  const { owner, repo, issueNumber, body } = options;
+  await sendIssueRequest(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
+    {
+      method: "POST",
+      payload: { body },
+      action: `comment on issue #${issueNumber}`,
+    },
+    token
+  );
+}
+
+/**
+ * Add the new labels to an updated issue's labels, and remove conditional
+ * labels that no longer apply. Returns null if the labels are unchanged.
+ */
+function reconcileLabels(current: string[], labels: string[]): string[] | null {
+  const kept = current.filter(
+    (l) => labels.includes(l) || !CONDITIONAL_LABELS.includes(l)
+  );
+  const missing = labels.filter((l) => !current.includes(l));
+  return kept.length < current.length || missing.length > 0
+    ? [...kept, ...missing]
+    : null;
+}
+
+/**
+ * Update an open issue whose findings changed, with the new body or, given
+ * an `updateComment`, its own body under the new fingerprint.
+ */
+async function updateDriftIssue(
+  existing: OpenIssue,
+  options: CreateIssueOptions,
+  fingerprint: IssueFingerprint,
+  token: string
+): Promise<void> {
+  const { owner, repo, body, labels, updateComment } = options;
+  const issueNumber = existing.number;
+  const update = {
+    owner,
+    repo,
+    issueNumber,
+    body: updateComment
+      ? replaceFingerprintMarker(existing.body ?? "", fingerprint)
+      : body,
+  };
+  // A kept body still lists the earlier findings, so keep their labels
+  const reconciled = reconcileLabels(
+    existing.labels,
+    updateComment ? [...existing.labels, ...labels] : labels
+  );
+  await updateIssue(
+    reconciled ? { ...update, labels: reconciled } : update,
+    token
+  );
+  await createIssueComment(
+    { owner, repo, issueNumber, body: updateComment ?? DRIFT_UPDATED_COMMENT },
+    token
+  );
+}
+
+/**
+ * Create a drift issue, or update the open issue already tracking the same
+ * kind of drift. An issue whose fingerprint matches is left untouched; one
+ * whose findings changed gets the new body, reconciled labels and a comment.
+ * With an `updateComment`, the issue instead keeps its body and labels,
+ * under the new fingerprint, and the comment carries the new findings.
+ * Bodies without a fingerprint always create a new issue.
+ */
+export async function createOrUpdateIssue(
+  options: CreateIssueOptions,
+  token: string
+): Promise<SyncedIssue> {
+  const { owner, repo, body, labels } = options;
+  const fingerprint = parseFingerprintMarker(body);
+  const existing =
+    fingerprint && labels.length > 0
+      ? await findOpenDriftIssue(
+          { owner, repo, label: labels[0], kind: fingerprint.kind },
+          token
+        )
+      : null;
+
+  if (!existing || !fingerprint) {
+    const issue = await createIssue(options, token);
+    return { ...issue, action: "created" };
+  }
+
+  const issue = { number: existing.number, html_url: existing.html_url };
+  if (parseFingerprintMarker(existing.body)?.value === fingerprint.value) {
+    return { ...issue, action: "unchanged" };
+  }
+
+  await updateDriftIssue(existing, options, fingerprint, token);
+  return { ...issue, action: "updated" };
+}
+
+/**
+ * Format the comment left on an issue closed because its drift is resolved.
+ * Links the workflow run when the scan ran in GitHub Actions.
+ */
+export function formatResolvedComment(scan: string, scanTime: string): string {
+  const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env;
+  const run =
+    GITHUB_SERVER_URL && GITHUB_REPOSITORY && GITHUB_RUN_ID
+      ? ` ([workflow run](${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}))`
+      : "";
+  return [
+    `Resolved: \`${scan}\` at ${scanTime}${run} no longer detects this drift. Closing this issue.\n`,
+    "---\n_Closed by drift-toolkit_",
+  ].join("\n");
+}
+
+/**
+ * Close the open issue tracking a kind of drift that a scan no longer
+ * detects, with a comment naming the scan that confirmed the fix.
+ *
+ * @returns The closed issue, or null if no open issue tracked the drift
+ */
+export async function closeResolvedIssue(
+  options: CloseResolvedIssueOptions,
+  token: string
+): Promise<SyncedIssue | null> {
+  const { owner, repo, scan, scanTime } = options;
+  const existing = await findOpenDriftIssue(options, token);
+  if (!existing) {
+    return null;
+  }
+
+  await createIssueComment(
+    {
+      owner,
+      repo,
+      issueNumber: existing.number,
+      body: formatResolvedComment(scan, scanTime),
+    },
+    token
+  );
+  await updateIssue(
+    { owner, repo, issueNumber: existing.number, state: "closed" },
+    token
+  );
+  return {
+    number: existing.number,
+    html_url: existing.html_url,
+    action: "closed",
+  };
+}
+
+/**
+ * Describe what happened to a synced drift issue for console output,
+ * e.g. "Created issue #42" or "Updated tier mismatch issue #7".
+ */
+export function describeSyncedIssue(
+  issue: Pick<SyncedIssue, "number" | "action">,
+  noun = "issue"
+): string {
+  if (issue.action === "created") {
+    return `Created ${noun} #${issue.number}`;
+  }
+  if (issue.action === "updated") {
+    return `Updated ${noun} #${issue.number}`;
+  }
+  if (issue.action === "closed") {
+    return `Closed resolved ${noun} #${issue.number}`;
+  }
+  return `Drift already tracked in ${noun} #${issue.number}`;
+}
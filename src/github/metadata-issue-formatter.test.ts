@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatMetadataViolationsIssueBody,
+  getMetadataViolationsIssueTitle,
+  getMetadataViolationsIssueLabel,
+  getMetadataViolationsIssueFingerprint,
+} from "./metadata-issue-formatter.js";
+import { parseFingerprintMarker } from "./issue-fingerprint.js";
+import type { MetadataViolationsDetection } from "../types.js";
+
+function createDetection(): MetadataViolationsDetection {
+  return {
+    repository: "test-org/api",
+    scanTime: "2024-01-15 02:00:00 UTC",
+    violations: [
+      {
+        field: "tier",
+        type: "not-allowed",
+        value: "prototype",
+        allowed: ["production", "internal"],
+        message:
+          'Tier "prototype" is not allowed (allowed: production, internal)',
+      },
+      {
+        field: "team",
+        type: "missing",
+        allowed: ["platform"],
+        message: 'Missing required field "team" (allowed: platform)',
+      },
+    ],
+  };
+}
+
+describe("metadata-issue-formatter", () => {
+  describe("formatMetadataViolationsIssueBody", () => {
+    it("formats the violations table and details", () => {
+      const body = formatMetadataViolationsIssueBody(createDetection());
+
+      expect(body).toContain("Repository Metadata Violations Detected");
+      expect(body).toContain("`test-org/api`");
+      expect(body).toContain(
+        "| tier | `prototype` | `production`, `internal` |"
+      );
+      expect(body).toContain("| team | _missing_ | `platform` |");
+      expect(body).toContain(
+        '- Missing required field "team" (allowed: platform)'
+      );
+      expect(body).toContain("_Created by drift-toolkit_");
+    });
+
+    it("starts with the fingerprint marker", () => {
+      const detection = createDetection();
+      const body = formatMetadataViolationsIssueBody(detection);
+
+      expect(parseFingerprintMarker(body)).toEqual(
+        getMetadataViolationsIssueFingerprint(detection)
+      );
+    });
+  });
+
+  describe("getMetadataViolationsIssueFingerprint", () => {
+    it("ignores the scan time", () => {
+      const a = createDetection();
+      const b = { ...createDetection(), scanTime: "2024-01-16 02:00:00 UTC" };
+      expect(getMetadataViolationsIssueFingerprint(a)).toEqual(
+        getMetadataViolationsIssueFingerprint(b)
+      );
+    });
+
+    it("changes when the violations change", () => {
+      const a = createDetection();
+      const b = createDetection();
+      b.violations[0].value = "experimental";
+      expect(getMetadataViolationsIssueFingerprint(a).value).not.toBe(
+        getMetadataViolationsIssueFingerprint(b).value
+      );
+    });
+  });
+
+  it("uses the code drift title and label", () => {
+    expect(getMetadataViolationsIssueTitle()).toBe(
+      "[drift:code] Repository metadata violations detected"
+    );
+    expect(getMetadataViolationsIssueLabel()).toBe("drift:code");
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Formats repo-metadata.yaml schema violations into GitHub issue body.
+ */
+
+import { GITHUB_ISSUES } from "../constants.js";
+import type {
+  MetadataViolation,
+  MetadataViolationsDetection,
+} from "../types.js";
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
+
+/** Truncate issue body if it exceeds GitHub's max length. */
+function truncateBody(body: string): string {
+  if (body.length <= GITHUB_ISSUES.maxBodyLength) {
+    return body;
+  }
+  return (
+    body.slice(0, GITHUB_ISSUES.maxBodyLength - 100) +
+    "\n\n... (truncated)\n\n---\n_Created by drift-toolkit_"
+  );
+}
+
+/** Format the violations table. */
+function formatViolationsTable(violations: MetadataViolation[]): string[] {
+  const parts = [
+    "### Violations\n",
+    "| Field | Current Value | Allowed Values |",
+    "|-------|---------------|----------------|",
+  ];
+  for (const v of violations) {
+    const value = v.value !== undefined ? `\`${v.value}\`` : "_missing_";
+    const allowed = v.allowed.map((a) => `\`${a}\``).join(", ") || "_none_";
+    parts.push(`| ${v.field} | ${value} | ${allowed} |`);
+  }
+  parts.push("");
+  return parts;
+}
+
+/**
+ * Build the complete issue body for metadata violations detection.
+ */
+export function formatMetadataViolationsIssueBody(
+  detection: MetadataViolationsDetection
+): string {
+  const parts = [
+    formatFingerprintMarker(getMetadataViolationsIssueFingerprint(detection)),
+    "## Repository Metadata Violations Detected\n",
+    `Repository: \`${detection.repository}\``,
+    `Scan time: ${detection.scanTime}\n`,
+    ...formatViolationsTable(detection.violations),
+    "### Details\n",
+    ...detection.violations.map((v) => `- ${v.message}`),
+    "",
+    "### Action Required\n",
+    "`repo-metadata.yaml` does not match the schema in the organization's `drift.config.yaml`.\n",
+    "1. Update `repo-metadata.yaml` to use an allowed value for each field above",
+    "2. Or add the value to `schema` in `drift.config.yaml` if it should be allowed",
+    "3. Close this issue once the metadata is fixed\n",
+    "---\n_Created by drift-toolkit_",
+  ];
+  return truncateBody(parts.join("\n"));
+}
+
+/**
+ * Build the issue title for metadata violations detection.
+ */
+export function getMetadataViolationsIssueTitle(): string {
+  return GITHUB_ISSUES.metadataViolationsTitle;
+}
+
+/**
+ * Get the label for metadata violations issues.
+ */
+export function getMetadataViolationsIssueLabel(): string {
+  return GITHUB_ISSUES.metadataViolationsLabel;
+}
+
+/**
+ * Get the fingerprint of the violations reported in a metadata violations
+ * issue.
+ */
+export function getMetadataViolationsIssueFingerprint(
+  detection: MetadataViolationsDetection
+): IssueFingerprint {
+  return createIssueFingerprint(
+    "metadata-violations",
+    detection.violations.map((v) => ({
+      field: v.field,
+      type: v.type,
+      value: v.value,
+    }))
+  );
+}
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+// Mock the cm-backed dependency lookup before imports
+vi.mock("../repo/dependencies.js", () => ({
+  getDependencies: vi.fn(() => ({
+    files: [],
+    byCheck: {},
+    alwaysTracked: ["check.toml"],
+  })),
+}));
+
+// Import after mocking
+import {
+  createEmptyScanState,
+  type RepoScanState,
+} from "../config/scan-state.js";
+import { createEmptyResults } from "../utils/index.js";
+import type { RepoScanResult } from "../types.js";
+import { cloneRepo } from "./client.js";
+import {
+  markUnchangedFindings,
+  recordRepoScanState,
+  runCodeChecks,
+} from "./org-scanner.js";
+
+const SCAN_TIME = "2026-01-15T02:00:00.000Z";
+
+function createResult(overrides: Partial<RepoScanResult>): RepoScanResult {
+  return {
+    repo: "repo-a",
+    results: createEmptyResults("test-org/repo-a"),
+    scannedCommit: "a".repeat(40),
+    ...overrides,
+  };
+}
+
+describe("org-scanner", () => {
+  describe("recordRepoScanState", () => {
+    it("records the scanned commit and a fingerprint of the findings", () => {
+      const state = createEmptyScanState();
+
+      recordRepoScanState(
+        state,
+        createResult({
+          missingProjects: [
+            { path: "packages/b", type: "typescript" },
+            { path: "packages/a", type: "python" },
+          ],
+        }),
+        SCAN_TIME
+      );
+
+      expect(state.repos["repo-a"]).toEqual({
+        lastScannedSha: "a".repeat(40),
+        lastScanTime: SCAN_TIME,
+        findingsFingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+      });
+    });
+
+    it("fingerprints the same findings the same in any order", () => {
+      const state = createEmptyScanState();
+      const a = { path: "packages/a", type: "python" };
+      const b = { path: "packages/b", type: "typescript" };
+
+      recordRepoScanState(
+        state,
+        createResult({ missingProjects: [a, b] }),
+        SCAN_TIME
+      );
+      const first = state.repos["repo-a"].findingsFingerprint;
+      recordRepoScanState(
+        state,
+        createResult({ missingProjects: [b, a] }),
+        SCAN_TIME
+      );
+      expect(state.repos["repo-a"].findingsFingerprint).toBe(first);
+
+      recordRepoScanState(
+        state,
+        createResult({ missingProjects: [a] }),
+        SCAN_TIME
+      );
+      expect(state.repos["repo-a"].findingsFingerprint).not.toBe(first);
+    });
+
+    it("does not record failed scans", () => {
+      const state = createEmptyScanState();
+      recordRepoScanState(
+        state,
+        createResult({ error: "clone failed" }),
+        SCAN_TIME
+      );
+      expect(state.repos).toEqual({});
+    });
+  });
+
+  describe("markUnchangedFindings", () => {
+    it("flags repos whose findings match their last scan", () => {
+      const state = createEmptyScanState();
+      const findings = {
+        missingProjects: [{ path: "packages/a", type: "python" }],
+      };
+      recordRepoScanState(state, createResult(findings), SCAN_TIME);
+      const previous = state.repos["repo-a"];
+
+      const unchanged = createResult(findings);
+      markUnchangedFindings(unchanged, previous);
+      expect(unchanged.findingsUnchanged).toBe(true);
+
+      const changed = createResult({});
+      markUnchangedFindings(changed, previous);
+      expect(changed.findingsUnchanged).toBeUndefined();
+
+      const unscanned = createResult(findings);
+      markUnchangedFindings(unscanned, undefined);
+      expect(unscanned.findingsUnchanged).toBeUndefined();
+    });
+  });
+
+  describe("runCodeChecks", () => {
+    // Bare "remote" repo, served in place of github.com via insteadOf
+    let gitRoot: string;
+    let workDir: string;
+    let cloneDir: string;
+
+    function commitToRemote(file: string, hoursAgo: number): string {
+      const date = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+      writeFileSync(join(workDir, file), `${hoursAgo}\n`);
+      execSync(
+        `git add . && git -c user.name=Test -c user.email=test@example.com commit --quiet -m "Update ${file}" && git push --quiet origin HEAD:main`,
+        {
+          cwd: workDir,
+          stdio: "pipe",
+          env: {
+            ...process.env,
+            GIT_AUTHOR_DATE: date.toISOString(),
+            GIT_COMMITTER_DATE: date.toISOString(),
+          },
+        }
+      );
+      return execSync("git rev-parse HEAD", {
+        cwd: workDir,
+        encoding: "utf-8",
+      }).trim();
+    }
+
+    function checkCode(hours: number, previous?: RepoScanState) {
+      return runCodeChecks({
+        org: "test-org",
+        repoName: "repo-a",
+        repoDir: cloneDir,
+        config: {},
+        windowHours: hours,
+        previous,
+      });
+    }
+
+    function scannedAt(sha: string, hoursAgo: number): RepoScanState {
+      return {
+        lastScannedSha: sha,
+        lastScanTime: new Date(
+          Date.now() - hoursAgo * 60 * 60 * 1000
+        ).toISOString(),
+        findingsFingerprint: "0".repeat(16),
+      };
+    }
+
+    beforeEach(() => {
+      gitRoot = mkdtempSync(join(tmpdir(), "drift-org-scanner-"));
+      workDir = join(gitRoot, "work");
+      cloneDir = join(gitRoot, "clone");
+      mkdirSync(join(gitRoot, "test-org"));
+      execSync("git init --quiet --bare -b main test-org/repo-a.git", {
+        cwd: gitRoot,
+        stdio: "pipe",
+      });
+      execSync(
+        `git clone --quiet ${join(gitRoot, "test-org/repo-a.git")} work`,
+        { cwd: gitRoot, stdio: "pipe" }
+      );
+      vi.stubEnv("GIT_CONFIG_COUNT", "1");
+      vi.stubEnv("GIT_CONFIG_KEY_0", `url.file://${gitRoot}/.insteadOf`);
+      vi.stubEnv("GIT_CONFIG_VALUE_0", "https://github.com/");
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(gitRoot, { recursive: true, force: true });
+    });
+
+    it("fetches the last scanned commit when the clone does not hold it", () => {
+      // Back-dated commits: none is newer than the last scan
+      const scannedSha = commitToRemote("README.md", 200);
+      commitToRemote("check.toml", 150);
+      commitToRemote("README.md", 100);
+      commitToRemote("README.md", 90);
+      cloneRepo("test-org", "repo-a", cloneDir);
+
+      const result = checkCode(24, scannedAt(scannedSha, 1));
+
+      expect(result.dependencyChanges?.baseCommit).toBe(scannedSha);
+      expect(result.dependencyChanges?.changes.map((c) => c.file)).toEqual([
+        "check.toml",
+      ]);
+    });
+
+    it("covers the time since the last scan when its commit is gone", () => {
+      const baseSha = commitToRemote("README.md", 300);
+      commitToRemote("check.toml", 100);
+      commitToRemote("README.md", 50);
+      commitToRemote("README.md", 2);
+      cloneRepo("test-org", "repo-a", cloneDir);
+
+      // Last scanned a week ago, at a commit force-pushed away since
+      const result = checkCode(24, scannedAt("f".repeat(40), 168));
+
+      expect(result.dependencyChanges?.baseCommit).toBe(baseSha);
+      expect(result.dependencyChanges?.changes.map((c) => c.file)).toEqual([
+        "check.toml",
+      ]);
+    });
+
+    it("fails the scan when the history cannot be fetched", () => {
+      commitToRemote("README.md", 72);
+      commitToRemote("package.json", 60);
+      commitToRemote("README.md", 2);
+      cloneRepo("test-org", "repo-a", cloneDir);
+      rmSync(join(gitRoot, "test-org"), { recursive: true, force: true });
+
+      expect(() => checkCode(24)).toThrow("Failed to fetch history");
+    });
+  });
+});
@@ -1,15 +1,27 @@
+import { resolve } from "path";
 import { minimatch } from "minimatch";
 import {
+  evictUnlistedRepos,
   listRepos,
+  checkoutRepo,
   cloneRepo,
   createTempDir,
   removeTempDir,
+  fetchCommit,
+  fetchHistorySince,
+  getGitHubAppToken,
   getGitHubToken,
   repoExists,
-  createIssue,
+  closeResolvedIssue,
+  createOrUpdateIssue,
+  describeSyncedIssue,
   isRepoScannable,
+  updateRepoFile,
 } from "./client.js";
+import type { RepoCheckout } from "./clone-cache.js";
 import { hasRecentCommits } from "./repo-checks.js";
+import { getGitHubWebUrl, setConfigGitHubUrl } from "./github-url.js";
+import { formatHttpCacheStats, getHttpCacheStats } from "./http-cache.js";
 import {
   formatMissingProjectsIssueBody,
   getMissingProjectsIssueTitle,
@@ -17,11 +29,19 @@ import {
   formatTierMismatchIssueBody,
   getTierMismatchIssueTitle,
   getTierMismatchIssueLabel,
+  formatDependencyChangesComment,
   formatDependencyChangesIssueBody,
   getDependencyChangesIssueTitle,
-  getDependencyChangesIssueLabel,
+  getDependencyChangesIssueLabels,
 } from "./issue-formatter.js";
+import {
+  formatMetadataViolationsIssueBody,
+  getMetadataViolationsIssueTitle,
+  getMetadataViolationsIssueLabel,
+} from "./metadata-issue-formatter.js";
 import { detectMissingProjects } from "../repo/project-detection.js";
+import { getRepoMetadata } from "../repo/detection.js";
+import { validateRepoMetadata } from "../repo/metadata-validation.js";
 import {
   validateTierRuleset,
   hasTierMismatch,
@@ -31,9 +51,31 @@ import {
   type DependencyChanges,
 } from "../repo/dependency-changes.js";
 import { generateFileDiff } from "../repo/diff.js";
+import { diffCheckTomlBetweenCommits } from "../repo/check-toml.js";
+import { diffConfigFileBetweenCommits } from "../repo/config-diff.js";
+import {
+  analyzeWorkflowBetweenCommits,
+  isWorkflowFile,
+} from "../repo/workflow-analysis.js";
+import { summarizeImpact } from "../repo/check-toml-impact.js";
 import { getHeadCommit } from "../repo/changes.js";
+import {
+  getCommitWindow,
+  getLastCommitForFile,
+  EMPTY_TREE_SHA,
+} from "../repo/recent-changes.js";
 import { loadConfig } from "../config/loader.js";
+import {
+  loadScanState,
+  saveScanState,
+  serializeScanState,
+  type RepoScanState,
+  type ScanState,
+} from "../config/scan-state.js";
 import { version } from "../version.js";
+import type { OutputFormat } from "../output/format.js";
+import { formatSarif, getCodeScanFindings } from "../output/sarif.js";
+import { sendScanNotifications } from "../notifications/notify.js";
 import type {
   DriftConfig,
   OrgScanResults,
@@ -43,16 +85,23 @@ import type {
   MissingProjectsDetection,
   TierValidationResult,
   TierMismatchDetection,
+  DependencyChangesConfig,
   DependencyChangesDetection,
   DependencyFileChange,
+  DriftIssueKind,
+  MetadataViolation,
+  MetadataViolationsDetection,
 } from "../types.js";
-import { CONCURRENCY, DEFAULTS } from "../constants.js";
+import { CONCURRENCY, DEFAULTS, FILE_PATTERNS } from "../constants.js";
 import {
   COLORS,
   createEmptyResults,
   createEmptyOrgSummary,
   getErrorMessage,
   actionsOutput,
+  execGit,
+  createFingerprint,
+  safeJoinPath,
 } from "../utils/index.js";
 
 export interface OrgScanOptions {
@@ -61,9 +110,12 @@ export interface OrgScanOptions {
   configRepo?: string; // Default: drift-config
   token?: string;
   json?: boolean;
+  format?: OutputFormat; // Machine-readable output format (implies json)
   dryRun?: boolean; // Log but don't create issues
   all?: boolean; // Skip commit window filter (scan all repos)
   since?: number; // Hours to look back for commits (default: 24)
+  stateFile?: string; // Local scan state file (overrides config repo state)
+  closeResolved?: boolean; // Close issues for drift no longer detected
 }
 
 /**
@@ -107,7 +159,10 @@ async function parallelLimit<T, R>(
  * @param patterns - Array of glob patterns to match against
  * @returns True if the repo should be excluded
  */
-function matchesExcludePattern(repoName: string, patterns: string[]): boolean {
+export function matchesExcludePattern(
+  repoName: string,
+  patterns: string[]
+): boolean {
   return patterns.some((pattern) => minimatch(repoName, pattern));
 }
 
@@ -174,7 +229,7 @@ async function createMissingProjectsIssue(
 
   try {
     const body = formatMissingProjectsIssueBody(detection);
-    const issue = await createIssue(
+    const issue = await createOrUpdateIssue(
       {
         owner: org,
         repo: repoName,
@@ -187,12 +242,13 @@ async function createMissingProjectsIssue(
 
     if (!json) {
       console.log(
-        `  ${COLORS.green}✓ Created issue #${issue.number}: ${issue.html_url}${COLORS.reset}`
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue)}: ${issue.html_url}${COLORS.reset}`
       );
     }
 
     return {
-      created: true,
+      created: issue.action === "created",
+      action: issue.action,
       issueNumber: issue.number,
       issueUrl: issue.html_url,
     };
@@ -260,7 +316,7 @@ async function createTierMismatchIssue(
 
   try {
     const body = formatTierMismatchIssueBody(detection);
-    const issue = await createIssue(
+    const issue = await createOrUpdateIssue(
       {
         owner: org,
         repo: repoName,
@@ -273,12 +329,13 @@ async function createTierMismatchIssue(
 
     if (!json) {
       console.log(
-        `  ${COLORS.green}✓ Created tier mismatch issue #${issue.number}: ${issue.html_url}${COLORS.reset}`
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue, "tier mismatch issue")}: ${issue.html_url}${COLORS.reset}`
       );
     }
 
     return {
-      created: true,
+      created: issue.action === "created",
+      action: issue.action,
       issueNumber: issue.number,
       issueUrl: issue.html_url,
     };
@@ -296,10 +353,62 @@ async function createTierMismatchIssue(
   }
 }
 
+interface ResolveBaseCommitOptions {
+  repoDir: string;
+  hours: number;
+  token?: string;
+  previous?: RepoScanState;
+  cached?: boolean;
+}
+
+/**
+ * Fetch enough history to cover the commits since the last scan (or the
+ * commit window for repos never scanned) and return the commit to diff
+ * against, so every new commit is checked - not just HEAD.
+ * Falls back to HEAD~1 when the window has no commits (e.g. with --all).
+ * Fetch failures throw, so the repo is reported as a scan error.
+ */
+function resolveBaseCommit(options: ResolveBaseCommitOptions): string {
+  const { repoDir, token, previous, cached } = options;
+  // At least the commit window, and back to the last scan
+  const hours = getActivityWindowHours(options.hours, previous);
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+  // Cached checkouts have the full history; a shallow fetch would
+  // truncate the mirror they share for good
+  if (!cached) {
+    fetchHistorySince(repoDir, since, token);
+  }
+
+  // Diff from the last scanned commit, which the date-based fetch misses
+  // when history was rewritten or commits were back-dated
+  if (
+    previous &&
+    fetchCommit(repoDir, previous.lastScannedSha, token, !cached)
+  ) {
+    return previous.lastScannedSha;
+  }
+
+  // Without it, cover everything since the last scan
+  const window = getCommitWindow(repoDir, { hours });
+  if (window) {
+    return window.baseCommit;
+  }
+  return execGit(repoDir, "rev-parse --verify HEAD~1") || "HEAD~1";
+}
+
+function isCheckTomlFile(file: string): boolean {
+  return (
+    file === FILE_PATTERNS.checkToml ||
+    file.endsWith(`/${FILE_PATTERNS.checkToml}`)
+  );
+}
+
 interface BuildDependencyChangesDetectionOptions {
   org: string;
   repoName: string;
   repoDir: string;
+  baseCommit: string;
+  headCommit?: string; // Default: HEAD
   changes: DependencyChanges;
 }
 
@@ -309,31 +418,74 @@ interface BuildDependencyChangesDetectionOptions {
 function buildDependencyChangesDetection(
   options: BuildDependencyChangesDetectionOptions
 ): DependencyChangesDetection | null {
-  const { org, repoName, repoDir, changes } = options;
+  const { org, repoName, repoDir, baseCommit, changes } = options;
+  const headCommit = options.headCommit ?? "HEAD";
 
   if (!changes.hasChanges) {
     return null;
   }
 
-  const commit = getHeadCommit(repoDir) || "HEAD";
-  const repoUrl = `https://github.com/${org}/${repoName}`;
+  const commit =
+    (headCommit === "HEAD"
+      ? getHeadCommit(repoDir)
+      : execGit(repoDir, `rev-parse ${headCommit}`)) || headCommit;
+  const repoUrl = `${getGitHubWebUrl()}/${org}/${repoName}`;
 
-  // Convert DependencyChange to DependencyFileChange with diffs
+  // Convert DependencyChange to DependencyFileChange with diffs and attribution
   const fileChanges: DependencyFileChange[] = changes.changes.map((change) => {
     const diff = generateFileDiff(repoDir, change.file, {
-      fromCommit: "HEAD~1",
-      toCommit: "HEAD",
+      fromCommit: baseCommit,
+      toCommit: headCommit,
       repoUrl,
     });
+    const lastCommit = getLastCommitForFile(
+      repoDir,
+      change.file,
+      baseCommit,
+      headCommit
+    );
+    const isCheckToml = isCheckTomlFile(change.file);
+    const checkTomlChanges = isCheckToml
+      ? diffCheckTomlBetweenCommits(
+          repoDir,
+          change.file,
+          baseCommit,
+          headCommit
+        )
+      : null;
+    const configChanges = isCheckToml
+      ? null
+      : diffConfigFileBetweenCommits(
+          repoDir,
+          change.file,
+          baseCommit,
+          headCommit
+        );
 
     return {
       file: change.file,
       status: change.status,
       checkType: change.checkType,
       diff: diff.diff || undefined,
+      checkTomlChanges: checkTomlChanges?.length ? checkTomlChanges : undefined,
+      configChanges: configChanges?.length ? configChanges : undefined,
+      introducedBy: lastCommit
+        ? {
+            commit: lastCommit.sha,
+            commitUrl: `${repoUrl}/commit/${lastCommit.sha}`,
+            author: lastCommit.author,
+          }
+        : undefined,
     };
   });
 
+  const checkTomlChanges = fileChanges.flatMap((c) => c.checkTomlChanges ?? []);
+  const workflowFindings = changes.changes
+    .filter((c) => isWorkflowFile(c.file))
+    .flatMap((c) =>
+      analyzeWorkflowBetweenCommits(repoDir, c.file, baseCommit, headCommit)
+    );
+
   // Group by check type with diffs
   const byCheck: Record<string, DependencyFileChange[]> = {};
   for (const [checkType, checkChanges] of Object.entries(changes.byCheck)) {
@@ -354,11 +506,60 @@ function buildDependencyChangesDetection(
     scanTime: new Date().toISOString().replace("T", " ").slice(0, 19) + " UTC",
     commit,
     commitUrl: `${repoUrl}/commit/${commit}`,
+    baseCommit,
+    compareUrl:
+      baseCommit === EMPTY_TREE_SHA
+        ? undefined
+        : `${repoUrl}/compare/${baseCommit}...${commit}`,
     changes: fileChanges,
     byCheck,
+    impact: checkTomlChanges.length
+      ? summarizeImpact(checkTomlChanges)
+      : undefined,
+    workflowFindings: workflowFindings.length ? workflowFindings : undefined,
   };
 }
 
+export interface DependencyChangeRangeOptions {
+  org: string;
+  repoName: string;
+  repoDir: string;
+  baseCommit: string;
+  headCommit: string;
+}
+
+/**
+ * Detect dependency file and check.toml changes between two commits, e.g.
+ * a pull request's base and head. Unlike runCodeChecks, the config repo's
+ * dependencyChanges filter is not applied.
+ *
+ * @returns The detection, or null if no dependency file changed
+ */
+export function detectDependencyChangesBetween(
+  options: DependencyChangeRangeOptions
+): DependencyChangesDetection | null {
+  const changes = detectDependencyChanges(options.repoDir, {
+    baseCommit: options.baseCommit,
+    targetCommit: options.headCommit,
+  });
+  return buildDependencyChangesDetection({ ...options, changes });
+}
+
+/**
+ * Whether dependency changes pass the config repo's dependencyChanges
+ * filter (e.g. only weakening changes in production-tier repos).
+ */
+function shouldReportDependencyChanges(
+  detection: DependencyChangesDetection,
+  tier: string | undefined,
+  filter: DependencyChangesConfig | undefined
+): boolean {
+  if (filter?.tiers && !(tier && filter.tiers.includes(tier))) {
+    return false;
+  }
+  return !filter?.onlyWeakening || detection.impact === "weakening";
+}
+
 interface CreateDependencyChangesIssueOptions {
   org: string;
   repoName: string;
@@ -389,7 +590,7 @@ async function createDependencyChangesIssue(
         `  ${COLORS.cyan}[DRY-RUN] Repository: ${org}/${repoName}${COLORS.reset}`
       );
       console.log(
-        `  ${COLORS.cyan}[DRY-RUN] Labels: ${getDependencyChangesIssueLabel()}${COLORS.reset}`
+        `  ${COLORS.cyan}[DRY-RUN] Labels: ${getDependencyChangesIssueLabels(detection).join(", ")}${COLORS.reset}`
       );
       console.log(
         `  ${COLORS.cyan}[DRY-RUN] Changed files: ${detection.changes.map((c) => c.file).join(", ")}${COLORS.reset}`
@@ -400,25 +601,27 @@ async function createDependencyChangesIssue(
 
   try {
     const body = formatDependencyChangesIssueBody(detection);
-    const issue = await createIssue(
+    const issue = await createOrUpdateIssue(
       {
         owner: org,
         repo: repoName,
         title: getDependencyChangesIssueTitle(),
         body,
-        labels: [getDependencyChangesIssueLabel()],
+        labels: getDependencyChangesIssueLabels(detection),
+        updateComment: formatDependencyChangesComment(detection),
       },
       token
     );
 
     if (!json) {
       console.log(
-        `  ${COLORS.green}✓ Created dependency changes issue #${issue.number}: ${issue.html_url}${COLORS.reset}`
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue, "dependency changes issue")}: ${issue.html_url}${COLORS.reset}`
       );
     }
 
     return {
-      created: true,
+      created: issue.action === "created",
+      action: issue.action,
       issueNumber: issue.number,
       issueUrl: issue.html_url,
     };
@@ -436,35 +639,353 @@ async function createDependencyChangesIssue(
   }
 }
 
+interface CreateMetadataViolationsIssueOptions {
+  org: string;
+  repoName: string;
+  violations: MetadataViolation[];
+  token: string;
+  dryRun: boolean;
+  json: boolean;
+}
+
+/**
+ * Create a GitHub issue for repo metadata schema violations with error handling
+ */
+async function createMetadataViolationsIssue(
+  options: CreateMetadataViolationsIssueOptions
+): Promise<DriftIssueResult> {
+  const { org, repoName, violations, token, dryRun, json } = options;
+
+  if (violations.length === 0) {
+    return { created: false };
+  }
+
+  const detection: MetadataViolationsDetection = {
+    repository: `${org}/${repoName}`,
+    scanTime: new Date().toISOString().replace("T", " ").slice(0, 19) + " UTC",
+    violations,
+  };
+
+  if (dryRun) {
+    if (!json) {
+      console.log(
+        `  ${COLORS.cyan}[DRY-RUN] Would create issue: ${getMetadataViolationsIssueTitle()}${COLORS.reset}`
+      );
+      console.log(
+        `  ${COLORS.cyan}[DRY-RUN] Repository: ${org}/${repoName}${COLORS.reset}`
+      );
+      console.log(
+        `  ${COLORS.cyan}[DRY-RUN] Labels: ${getMetadataViolationsIssueLabel()}${COLORS.reset}`
+      );
+      console.log(
+        `  ${COLORS.cyan}[DRY-RUN] Violations: ${violations.map((v) => v.message).join("; ")}${COLORS.reset}`
+      );
+    }
+    return { created: false };
+  }
+
+  try {
+    const body = formatMetadataViolationsIssueBody(detection);
+    const issue = await createOrUpdateIssue(
+      {
+        owner: org,
+        repo: repoName,
+        title: getMetadataViolationsIssueTitle(),
+        body,
+        labels: [getMetadataViolationsIssueLabel()],
+      },
+      token
+    );
+
+    if (!json) {
+      console.log(
+        `  ${COLORS.green}✓ ${describeSyncedIssue(issue, "metadata violations issue")}: ${issue.html_url}${COLORS.reset}`
+      );
+    }
+
+    return {
+      created: issue.action === "created",
+      action: issue.action,
+      issueNumber: issue.number,
+      issueUrl: issue.html_url,
+    };
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    if (!json) {
+      console.log(
+        `  ${COLORS.yellow}⚠ Failed to create metadata violations issue: ${errorMessage}${COLORS.reset}`
+      );
+    }
+    return {
+      created: false,
+      error: errorMessage,
+    };
+  }
+}
+
+interface CloseResolvedCodeIssuesOptions {
+  org: string;
+  repoName: string;
+  result: RepoScanResult;
+  token: string;
+  scanTime: string;
+  json: boolean;
+}
+
+/**
+ * Close missing projects, tier mismatch and metadata violations issues for
+ * drift that a scan no longer detects. Dependency changes are not closed, as they report past
+ * commits rather than an ongoing violation.
+ *
+ * @returns Numbers of the issues that were closed
+ */
+async function closeResolvedCodeIssues(
+  options: CloseResolvedCodeIssuesOptions
+): Promise<number[]> {
+  const { org, repoName, result, token, scanTime, json } = options;
+
+  const resolved: { kind: DriftIssueKind; label: string; noun: string }[] = [];
+  if (!result.missingProjects || result.missingProjects.length === 0) {
+    resolved.push({
+      kind: "missing-projects",
+      label: getMissingProjectsIssueLabel(),
+      noun: "missing projects issue",
+    });
+  }
+  if (!result.tierValidation || !hasTierMismatch(result.tierValidation)) {
+    resolved.push({
+      kind: "tier-mismatch",
+      label: getTierMismatchIssueLabel(),
+      noun: "tier mismatch issue",
+    });
+  }
+  if (!result.metadataViolations || result.metadataViolations.length === 0) {
+    resolved.push({
+      kind: "metadata-violations",
+      label: getMetadataViolationsIssueLabel(),
+      noun: "metadata violations issue",
+    });
+  }
+
+  const closedIssues: number[] = [];
+  for (const { kind, label, noun } of resolved) {
+    try {
+      const closed = await closeResolvedIssue(
+        {
+          owner: org,
+          repo: repoName,
+          label,
+          kind,
+          scan: "drift code scan",
+          scanTime,
+        },
+        token
+      );
+      if (closed) {
+        closedIssues.push(closed.number);
+        if (!json) {
+          console.log(
+            `  ${COLORS.green}✓ ${describeSyncedIssue(closed, noun)}: ${closed.html_url}${COLORS.reset}`
+          );
+        }
+      }
+    } catch (error) {
+      if (!json) {
+        console.log(
+          `  ${COLORS.yellow}⚠ Failed to close resolved ${noun}: ${getErrorMessage(error)}${COLORS.reset}`
+        );
+      }
+    }
+  }
+  return closedIssues;
+}
+
+/**
+ * Hours of commit activity to look for before scanning a repo. Repos scanned
+ * before look back to their last scan, so a missed run never hides activity.
+ */
+export function getActivityWindowHours(
+  defaultHours: number,
+  previous?: RepoScanState
+): number {
+  if (!previous) {
+    return defaultHours;
+  }
+  const hoursSinceLastScan =
+    (Date.now() - Date.parse(previous.lastScanTime)) / (60 * 60 * 1000);
+  return Math.max(defaultHours, Math.ceil(hoursSinceLastScan));
+}
+
+function sortBy<T>(items: T[], getKey: (item: T) => string): T[] {
+  return [...items].sort((a, b) => getKey(a).localeCompare(getKey(b)));
+}
+
+/**
+ * Fingerprint a repo's findings so the next scan can tell whether they
+ * changed. Findings are sorted, so the order they were found in does not
+ * matter. Dependency changes include the scanned commit, as each scan
+ * reports the changes of new commits.
+ */
+function fingerprintFindings(result: RepoScanResult): string {
+  const tierMismatch =
+    result.tierValidation && hasTierMismatch(result.tierValidation)
+      ? {
+          tier: result.tierValidation.tier,
+          rulesets: [...result.tierValidation.rulesets].sort(),
+          expectedPattern: result.tierValidation.expectedPattern,
+        }
+      : null;
+  const dependencyChanges = result.dependencyChanges;
+  return createFingerprint({
+    missingProjects: sortBy(result.missingProjects ?? [], (p) => p.path),
+    tierMismatch,
+    metadataViolations: sortBy(
+      (result.metadataViolations ?? []).map((v) => ({
+        field: v.field,
+        type: v.type,
+        value: v.value,
+      })),
+      (v) => `${v.field} ${v.type} ${v.value ?? ""}`
+    ),
+    dependencyChanges: dependencyChanges
+      ? {
+          commit: dependencyChanges.commit,
+          changes: sortBy(
+            dependencyChanges.changes.map((c) => ({
+              file: c.file,
+              status: c.status,
+            })),
+            (c) => c.file
+          ),
+        }
+      : null,
+  });
+}
+
+/**
+ * Flag a scanned repo whose findings match those of its last scan, so its
+ * issues and notifications are skipped
+ */
+export function markUnchangedFindings(
+  result: RepoScanResult,
+  previous?: RepoScanState
+): void {
+  if (
+    !result.error &&
+    previous?.findingsFingerprint === fingerprintFindings(result)
+  ) {
+    result.findingsUnchanged = true;
+  }
+}
+
+export interface ScanStateLocation {
+  path: string; // Local file the state is read from and written to
+  configRepoPath?: string; // Path in the config repo to push the state back to
+}
+
+/**
+ * Resolve where scan state is kept. A local --state-file takes precedence
+ * over the `state.path` file in the config repo; without either, scans use
+ * the commit window only.
+ */
+function resolveScanStateLocation(
+  options: Pick<OrgScanOptions, "stateFile">,
+  config: DriftConfig,
+  configDir: string
+): ScanStateLocation | null {
+  if (options.stateFile) {
+    return { path: resolve(options.stateFile) };
+  }
+  if (config.state) {
+    return {
+      path: safeJoinPath(configDir, config.state.path),
+      configRepoPath: config.state.path,
+    };
+  }
+  return null;
+}
+
+export interface PersistScanStateOptions {
+  org: string;
+  configRepoName: string;
+  configDir: string;
+  location: ScanStateLocation;
+  state: ScanState;
+  token?: string;
+  json: boolean;
+}
+
+/**
+ * Save scan state locally and, when it lives in the config repo, commit it
+ * back via the Contents API so the next scan picks it up.
+ */
+export async function persistScanState(
+  options: PersistScanStateOptions
+): Promise<void> {
+  const { org, configRepoName, configDir, location, state, token, json } =
+    options;
+
+  saveScanState(location.path, state);
+  if (!location.configRepoPath) {
+    return;
+  }
+
+  try {
+    if (!token) {
+      throw new Error("a GitHub token is required to update the config repo");
+    }
+    await updateRepoFile(
+      {
+        owner: org,
+        repo: configRepoName,
+        path: location.configRepoPath,
+        content: serializeScanState(state),
+        message: "chore: update drift scan state",
+        sha:
+          execGit(configDir, `rev-parse HEAD:${location.configRepoPath}`) ||
+          undefined,
+      },
+      token
+    );
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    if (!json) {
+      console.log(
+        `${COLORS.yellow}⚠ Failed to save scan state: ${errorMessage}${COLORS.reset}`
+      );
+    }
+    actionsOutput.warning(`Failed to save scan state: ${errorMessage}`);
+  }
+}
+
 /**
  * Check if a repo has any issues (missing projects, tier mismatch, dependency changes)
  */
-function repoHasIssues(result: RepoScanResult): boolean {
+export function repoHasIssues(result: RepoScanResult): boolean {
   return Boolean(
     (result.missingProjects && result.missingProjects.length > 0) ||
     (result.tierValidation && hasTierMismatch(result.tierValidation)) ||
-    (result.dependencyChanges && result.dependencyChanges.changes.length > 0)
+    (result.dependencyChanges && result.dependencyChanges.changes.length > 0) ||
+    (result.metadataViolations && result.metadataViolations.length > 0)
   );
 }
 
+export interface LoadConfigRepoOptions {
+  org: string;
+  configRepoName: string;
+  configDir: string; // Empty directory to clone the config repo into
+  token?: string;
+  json: boolean;
+}
+
 /**
- * Scan all repositories in an organization
+ * Clone the config repo and load its drift.config.yaml.
+ * Exits the process if the repo or its config is missing.
  */
-export async function scanOrg(
-  options: OrgScanOptions
-): Promise<OrgScanResults> {
-  const token = getGitHubToken(options.token);
-  const configRepoName = options.configRepo ?? DEFAULTS.configRepo;
-  const org = options.org;
-
-  // Initialize results
-  const orgResults: OrgScanResults = {
-    org,
-    configRepo: configRepoName,
-    timestamp: new Date().toISOString(),
-    repos: [],
-    summary: createEmptyOrgSummary(),
-  };
+export async function loadConfigRepo(
+  options: LoadConfigRepoOptions
+): Promise<DriftConfig> {
+  const { org, configRepoName, configDir, token, json } = options;
 
   // Check if config repo exists
   const configRepoExists = await repoExists(org, configRepoName, token);
@@ -481,34 +1002,279 @@ export async function scanOrg(
     process.exit(1);
   }
 
-  // Clone config repo - use try-finally for guaranteed cleanup
-  const configDir = createTempDir("config");
+  // Clone the config repo
+  try {
+    if (!json) {
+      console.log(`Cloning config repo ${org}/${configRepoName}...`);
+    }
+    cloneRepo(org, configRepoName, configDir, token);
+  } catch (error) {
+    const errorMsg = `Failed to clone config repo: ${getErrorMessage(error)}`;
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+  }
+
+  const config = loadConfig(configDir);
+  if (!config) {
+    const errorMsg = `No drift.config.yaml found in ${org}/${configRepoName}`;
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return {}; // Never reached, but helps TypeScript understand control flow
+  }
+  setConfigGitHubUrl(config.github?.url);
+  return config;
+}
 
+/**
+ * Load scan state from the --state-file or the config repo's `state.path`.
+ * Exits the process if the state path escapes the config repo.
+ *
+ * @returns The state and where it is kept, or null if scan state is not configured
+ */
+export function openScanState(
+  options: Pick<OrgScanOptions, "stateFile">,
+  config: DriftConfig,
+  configDir: string
+): { location: ScanStateLocation; state: ScanState } | null {
+  let location: ScanStateLocation | null;
   try {
-    // Clone the config repo
-    try {
-      if (!options.json) {
-        console.log(`Cloning config repo ${org}/${configRepoName}...`);
-      }
-      cloneRepo(org, configRepoName, configDir, token);
-    } catch (error) {
-      const errorMsg = `Failed to clone config repo: ${getErrorMessage(error)}`;
-      console.error(`Error: ${errorMsg}`);
-      actionsOutput.error(errorMsg);
-      process.exit(1);
+    location = resolveScanStateLocation(options, config, configDir);
+  } catch (error) {
+    const errorMsg = `Invalid scan state path: ${getErrorMessage(error)}`;
+    console.error(`Error: ${errorMsg}`);
+    actionsOutput.error(errorMsg);
+    process.exit(1);
+    return null; // Never reached, but helps TypeScript understand control flow
+  }
+  return location ? { location, state: loadScanState(location.path) } : null;
+}
+
+export interface CodeCheckContext {
+  org: string;
+  repoName: string;
+  repoDir: string; // Checkout of the repo
+  config: DriftConfig;
+  windowHours?: number; // Commit window for repos without scan state (default: 24)
+  baseCommit?: string; // Diff from this commit instead of the scan window
+  token?: string;
+  previous?: RepoScanState;
+  cached?: boolean; // Checkout from the clone cache
+}
+
+/**
+ * Run the code checks against a checkout of a repo: missing projects,
+ * tier-ruleset alignment, metadata schema and dependency file changes.
+ */
+export function runCodeChecks(ctx: CodeCheckContext): RepoScanResult {
+  const { org, repoName, repoDir, config, token, previous } = ctx;
+  const repoResult: RepoScanResult = {
+    repo: repoName,
+    results: createEmptyResults(`${org}/${repoName}`),
+    scannedCommit: execGit(repoDir, "rev-parse HEAD"),
+  };
+
+  // Detect projects missing check.toml
+  repoResult.missingProjects = detectMissingProjects(repoDir);
+
+  // Validate tier-ruleset alignment
+  repoResult.tierValidation = validateTierRuleset(repoDir) ?? undefined;
+
+  // Validate repo-metadata.yaml against the config repo schema
+  const { metadata } = getRepoMetadata(repoDir, config.schema?.tiers);
+  const metadataViolations = validateRepoMetadata(metadata, config.schema);
+  if (metadataViolations.length > 0) {
+    repoResult.metadataViolations = metadataViolations;
+  }
+
+  // Detect dependency file changes since the last scan (or across the
+  // whole commit window for repos without scan state)
+  const baseCommit =
+    ctx.baseCommit ??
+    resolveBaseCommit({
+      repoDir,
+      hours: ctx.windowHours ?? DEFAULTS.commitWindowHours,
+      token,
+      previous,
+      cached: ctx.cached,
+    });
+  const dependencyChanges = detectDependencyChanges(repoDir, {
+    baseCommit,
+  });
+  if (dependencyChanges.hasChanges) {
+    const detection = buildDependencyChangesDetection({
+      org,
+      repoName,
+      repoDir,
+      baseCommit,
+      changes: dependencyChanges,
+    });
+    if (
+      detection &&
+      shouldReportDependencyChanges(
+        detection,
+        metadata?.tier,
+        config.dependencyChanges
+      )
+    ) {
+      repoResult.dependencyChanges = detection;
     }
+  }
 
-    // Load config - will exit if not found, so config is guaranteed non-null after this
-    const loadedConfig = loadConfig(configDir);
-    if (!loadedConfig) {
-      const errorMsg = `No drift.config.yaml found in ${org}/${configRepoName}`;
-      console.error(`Error: ${errorMsg}`);
-      actionsOutput.error(errorMsg);
-      process.exit(1);
-      return orgResults; // Never reached, but helps TypeScript understand control flow
+  return repoResult;
+}
+
+export interface SyncCodeIssuesOptions {
+  org: string;
+  repoName: string;
+  result: RepoScanResult;
+  token: string;
+  dryRun: boolean;
+  closeResolved: boolean;
+  scanTime: string;
+  json: boolean;
+}
+
+/**
+ * Create or update issues for the code drift found in a repo, and close
+ * issues for resolved drift when closeResolved is set.
+ */
+export async function syncCodeIssues(
+  options: SyncCodeIssuesOptions
+): Promise<void> {
+  const { org, repoName, result, token, dryRun, closeResolved, json } = options;
+  const issues: DriftIssueResult[] = [];
+
+  if (result.missingProjects && result.missingProjects.length > 0) {
+    issues.push(
+      await createMissingProjectsIssue({
+        org,
+        repoName,
+        missingProjects: result.missingProjects,
+        token,
+        dryRun,
+        json,
+      })
+    );
+  }
+
+  if (result.tierValidation && hasTierMismatch(result.tierValidation)) {
+    issues.push(
+      await createTierMismatchIssue({
+        org,
+        repoName,
+        tierValidation: result.tierValidation,
+        token,
+        dryRun,
+        json,
+      })
+    );
+  }
+
+  if (result.metadataViolations && result.metadataViolations.length > 0) {
+    issues.push(
+      await createMetadataViolationsIssue({
+        org,
+        repoName,
+        violations: result.metadataViolations,
+        token,
+        dryRun,
+        json,
+      })
+    );
+  }
+
+  if (result.dependencyChanges && result.dependencyChanges.changes.length > 0) {
+    issues.push(
+      await createDependencyChangesIssue({
+        org,
+        repoName,
+        detection: result.dependencyChanges,
+        token,
+        dryRun,
+        json,
+      })
+    );
+  }
+
+  const issueUrls = issues
+    .map((issue) => issue.issueUrl)
+    .filter((url): url is string => url !== undefined);
+  if (issueUrls.length > 0) {
+    result.issueUrls = issueUrls;
+  }
+
+  // Close issues for drift that is no longer detected
+  if (closeResolved && !dryRun) {
+    const closedIssues = await closeResolvedCodeIssues({
+      org,
+      repoName,
+      result,
+      token,
+      scanTime: options.scanTime,
+      json,
+    });
+    if (closedIssues.length > 0) {
+      result.closedIssues = closedIssues;
     }
-    // Create a const that TypeScript knows is non-null
-    const config: DriftConfig = loadedConfig;
+  }
+}
+
+/**
+ * Record a repo's scanned commit so the next scan diffs from it
+ */
+export function recordRepoScanState(
+  state: ScanState,
+  result: RepoScanResult,
+  scanTime: string
+): void {
+  if (result.error || !result.scannedCommit) {
+    return;
+  }
+  state.repos[result.repo] = {
+    lastScannedSha: result.scannedCommit,
+    lastScanTime: scanTime,
+    findingsFingerprint: fingerprintFindings(result),
+  };
+}
+
+/**
+ * Scan all repositories in an organization
+ */
+export async function scanOrg(
+  options: OrgScanOptions
+): Promise<OrgScanResults> {
+  const token =
+    getGitHubToken(options.token) ?? (await getGitHubAppToken(options.org));
+  const configRepoName = options.configRepo ?? DEFAULTS.configRepo;
+  const org = options.org;
+
+  // Initialize results
+  const orgResults: OrgScanResults = {
+    org,
+    configRepo: configRepoName,
+    timestamp: new Date().toISOString(),
+    repos: [],
+    summary: createEmptyOrgSummary(),
+  };
+
+  // Clone config repo - use try-finally for guaranteed cleanup
+  const configDir = createTempDir("config");
+
+  try {
+    const config = await loadConfigRepo({
+      org,
+      configRepoName,
+      configDir,
+      token,
+      json: options.json ?? false,
+    });
+
+    // Load scan state recording the last scanned commit per repo
+    const openedState = openScanState(options, config, configDir);
+    const stateLocation = openedState?.location ?? null;
+    const scanState = openedState?.state ?? null;
 
     // Get list of repos to scan
     let reposToScan: string[];
@@ -524,6 +1290,7 @@ export async function scanOrg(
       }
       const result = await listRepos(org, token);
       isOrg = result.isOrg;
+      evictUnlistedRepos(org, result);
       // Exclude the config repo and any repos matching exclude patterns
       reposToScan = result.repos
         .map((r) => r.name)
@@ -541,53 +1308,44 @@ export async function scanOrg(
       );
     }
 
+    const windowHours = options.since ?? DEFAULTS.commitWindowHours;
+
     /**
      * Scan a single repository and return the result.
      * Handles cloning, scanning, and cleanup.
      */
-    function scanSingleRepo(repoName: string): RepoScanResult {
-      const repoResult: RepoScanResult = {
-        repo: repoName,
-        results: createEmptyResults(`${org}/${repoName}`),
-      };
-
-      const repoDir = createTempDir(repoName);
+    async function scanSingleRepo(
+      repoName: string,
+      previous?: RepoScanState
+    ): Promise<RepoScanResult> {
+      let checkout: RepoCheckout | null = null;
 
       try {
-        // Clone the repo
-        cloneRepo(org, repoName, repoDir, token);
-        repoResult.results.path = `${org}/${repoName}`;
-
-        // Detect projects missing check.toml
-        repoResult.missingProjects = detectMissingProjects(repoDir);
-
-        // Validate tier-ruleset alignment
-        repoResult.tierValidation = validateTierRuleset(repoDir) ?? undefined;
-
-        // Detect dependency file changes
-        const dependencyChanges = detectDependencyChanges(repoDir);
-        if (dependencyChanges.hasChanges) {
-          const detection = buildDependencyChangesDetection({
-            org,
-            repoName,
-            repoDir,
-            changes: dependencyChanges,
-          });
-          if (detection) {
-            repoResult.dependencyChanges = detection;
-          }
-        }
+        checkout = await checkoutRepo(org, repoName, token);
+        return runCodeChecks({
+          org,
+          repoName,
+          repoDir: checkout.dir,
+          config,
+          windowHours,
+          token,
+          previous,
+          cached: checkout.cached,
+        });
       } catch (error) {
-        repoResult.error = getErrorMessage(error);
+        return {
+          repo: repoName,
+          results: createEmptyResults(`${org}/${repoName}`),
+          error: getErrorMessage(error),
+        };
       } finally {
-        removeTempDir(repoDir);
+        checkout?.release();
       }
-
-      return repoResult;
     }
 
     // Scan repos in parallel with concurrency limit
     const repoResults = await parallelLimit(reposToScan, async (repoName) => {
+      const previous = scanState?.repos[repoName];
       if (!options.json) {
         process.stdout.write(`Scanning ${org}/${repoName}... `);
       }
@@ -624,8 +1382,12 @@ export async function scanOrg(
 
       // Check for recent commits (unless --all flag is set)
       if (!options.all) {
-        const hours = options.since ?? DEFAULTS.commitWindowHours;
-        const hasActivity = await hasRecentCommits(org, repoName, hours, token);
+        const hasActivity = await hasRecentCommits(
+          org,
+          repoName,
+          getActivityWindowHours(windowHours, previous),
+          token
+        );
         if (!hasActivity) {
           if (!options.json) {
             console.log(
@@ -640,8 +1402,8 @@ export async function scanOrg(
         }
       }
 
-      // scanSingleRepo is sync but we wrap in promise for parallelLimit
-      const result = await Promise.resolve(scanSingleRepo(repoName));
+      const result = await scanSingleRepo(repoName, previous);
+      markUnchangedFindings(result, previous);
 
       // Print status immediately after each scan completes
       if (!options.json) {
@@ -658,53 +1420,16 @@ export async function scanOrg(
         }
       }
 
-      // Create GitHub issue for repos with missing projects
-      if (
-        !result.error &&
-        result.missingProjects &&
-        result.missingProjects.length > 0 &&
-        token
-      ) {
-        await createMissingProjectsIssue({
-          org,
-          repoName,
-          missingProjects: result.missingProjects,
-          token,
-          dryRun: options.dryRun ?? false,
-          json: options.json ?? false,
-        });
-      }
-
-      // Create GitHub issue for repos with tier-ruleset mismatch
-      if (
-        !result.error &&
-        result.tierValidation &&
-        hasTierMismatch(result.tierValidation) &&
-        token
-      ) {
-        await createTierMismatchIssue({
-          org,
-          repoName,
-          tierValidation: result.tierValidation,
-          token,
-          dryRun: options.dryRun ?? false,
-          json: options.json ?? false,
-        });
-      }
-
-      // Create GitHub issue for repos with dependency file changes
-      if (
-        !result.error &&
-        result.dependencyChanges &&
-        result.dependencyChanges.changes.length > 0 &&
-        token
-      ) {
-        await createDependencyChangesIssue({
+      // Issues are already up to date when the findings did not change
+      if (!result.error && !result.findingsUnchanged && token) {
+        await syncCodeIssues({
           org,
           repoName,
-          detection: result.dependencyChanges,
+          result,
           token,
           dryRun: options.dryRun ?? false,
+          closeResolved: options.closeResolved ?? false,
+          scanTime: orgResults.timestamp,
           json: options.json ?? false,
         });
       }
@@ -723,10 +1448,63 @@ export async function scanOrg(
         }
       }
       orgResults.repos.push(repoResult);
+
+      if (scanState) {
+        recordRepoScanState(scanState, repoResult, orgResults.timestamp);
+      }
+    }
+
+    if (stateLocation && scanState && !options.dryRun) {
+      await persistScanState({
+        org,
+        configRepoName,
+        configDir,
+        location: stateLocation,
+        state: scanState,
+        token,
+        json: options.json ?? false,
+      });
+    }
+
+    // With scan state, only notify when some repo's findings changed
+    const hasChangedRepos = orgResults.repos.some(
+      (r) => !r.error && !r.findingsUnchanged
+    );
+    if (
+      config.notifications &&
+      !options.dryRun &&
+      (!scanState || hasChangedRepos)
+    ) {
+      await sendScanNotifications({
+        notifiers: config.notifications,
+        notification: {
+          scan: "drift code scan",
+          org,
+          timestamp: orgResults.timestamp,
+          summary: orgResults.summary,
+          repos: orgResults.repos
+            .filter((r) => !r.error && !r.findingsUnchanged && repoHasIssues(r))
+            .map((r) => ({
+              repo: `${org}/${r.repo}`,
+              issueUrls: r.issueUrls ?? [],
+            })),
+        },
+        token,
+      });
+    }
+
+    const apiCache = getHttpCacheStats();
+    if (apiCache) {
+      orgResults.summary.apiCache = apiCache;
     }
 
     // Output results
-    if (options.json) {
+    if (options.format === "sarif") {
+      const findings = orgResults.repos.flatMap((r) =>
+        getCodeScanFindings(`${org}/${r.repo}`, r)
+      );
+      console.log(JSON.stringify(formatSarif(findings), null, 2));
+    } else if (options.json) {
       console.log(JSON.stringify(orgResults, null, 2));
     } else {
       printOrgResults(orgResults);
@@ -744,6 +1522,43 @@ export async function scanOrg(
   }
 }
 
+/**
+ * Print the code drift found in a repo, one line per finding
+ */
+export function printRepoFindings(repoResult: RepoScanResult): void {
+  // Missing projects
+  if (repoResult.missingProjects && repoResult.missingProjects.length > 0) {
+    console.log(
+      `  ⚠ Missing projects: ${repoResult.missingProjects.map((p) => p.path).join(", ")}`
+    );
+  }
+
+  // Tier mismatch
+  if (repoResult.tierValidation && hasTierMismatch(repoResult.tierValidation)) {
+    console.log(`  ⚠ Tier mismatch: ${repoResult.tierValidation.error}`);
+  }
+
+  // Metadata violations
+  if (
+    repoResult.metadataViolations &&
+    repoResult.metadataViolations.length > 0
+  ) {
+    for (const violation of repoResult.metadataViolations) {
+      console.log(`  ⚠ Metadata: ${violation.message}`);
+    }
+  }
+
+  // Dependency changes
+  if (
+    repoResult.dependencyChanges &&
+    repoResult.dependencyChanges.changes.length > 0
+  ) {
+    console.log(
+      `  ⚠ Dependency changes: ${repoResult.dependencyChanges.changes.map((c) => c.file).join(", ")}`
+    );
+  }
+}
+
 /**
  * Print organization scan results
  */
@@ -771,31 +1586,7 @@ function printOrgResults(results: OrgScanResults): void {
 
     console.log(`\n${repoResult.repo}`);
     console.log("─".repeat(60));
-
-    // Missing projects
-    if (repoResult.missingProjects && repoResult.missingProjects.length > 0) {
-      console.log(
-        `  ⚠ Missing projects: ${repoResult.missingProjects.map((p) => p.path).join(", ")}`
-      );
-    }
-
-    // Tier mismatch
-    if (
-      repoResult.tierValidation &&
-      hasTierMismatch(repoResult.tierValidation)
-    ) {
-      console.log(`  ⚠ Tier mismatch: ${repoResult.tierValidation.error}`);
-    }
-
-    // Dependency changes
-    if (
-      repoResult.dependencyChanges &&
-      repoResult.dependencyChanges.changes.length > 0
-    ) {
-      console.log(
-        `  ⚠ Dependency changes: ${repoResult.dependencyChanges.changes.map((c) => c.file).join(", ")}`
-      );
-    }
+    printRepoFindings(repoResult);
   }
 
   // Summary
@@ -813,6 +1604,11 @@ function printOrgResults(results: OrgScanResults): void {
         ? `, ${COLORS.red}${results.summary.reposWithIssues} with issues${COLORS.reset}`
         : "")
   );
+  if (results.summary.apiCache) {
+    console.log(
+      `  API cache: ${formatHttpCacheStats(results.summary.apiCache)}`
+    );
+  }
 
   console.log("");
 
@@ -7,7 +7,13 @@ import type {
   ProcessViolationsDetection,
   ProcessViolation,
   ProcessCheckSummary,
+  ProcessRuleLayer,
 } from "../types.js";
+import {
+  createIssueFingerprint,
+  formatFingerprintMarker,
+  type IssueFingerprint,
+} from "./issue-fingerprint.js";
 
 /** Truncate issue body if it exceeds GitHub's max length. */
 function truncateBody(body: string): string {
@@ -21,14 +27,25 @@ function truncateBody(body: string): string {
 }
 
 /** Format the header section of the issue. */
-function formatHeader(repository: string, scanTime: string): string[] {
+function formatHeader(detection: ProcessViolationsDetection): string[] {
+  const baseline = detection.baselineTier
+    ? [
+        `Rules: org baseline for the \`${detection.baselineTier}\` tier, merged with the repo's check.toml\n`,
+      ]
+    : [];
   return [
     "## Process Violations Detected\n",
-    `Repository: \`${repository}\``,
-    `Scan time: ${scanTime}\n`,
+    `Repository: \`${detection.repository}\``,
+    `Scan time: ${detection.scanTime}${baseline.length ? "" : "\n"}`,
+    ...baseline,
   ];
 }
 
+const LAYER_NAMES: Record<ProcessRuleLayer, string> = {
+  org: "org baseline",
+  repo: "repo",
+};
+
 /** Format the summary table section. */
 function formatSummaryTable(summary: ProcessCheckSummary[]): string[] {
   const parts = [
@@ -65,17 +82,25 @@ function formatCategoryName(category: string): string {
 /** Format a single category's violations as a table. */
 function formatCategoryViolations(
   category: string,
-  violations: ProcessViolation[]
+  violations: ProcessViolation[],
+  showLayers: boolean
 ): string[] {
   const parts = [
     `#### ${formatCategoryName(category)}\n`,
-    "| Check | Message | Severity |",
-    "|-------|---------|----------|",
+    showLayers
+      ? "| Check | Message | Severity | Source |"
+      : "| Check | Message | Severity |",
+    showLayers
+      ? "|-------|---------|----------|--------|"
+      : "|-------|---------|----------|",
   ];
   for (const v of violations) {
     const severity = v.severity === "error" ? ":x:" : ":warning:";
     const message = v.file ? `${v.message} (${v.file})` : v.message;
-    parts.push(`| ${v.check} | ${message} | ${severity} |`);
+    const source = showLayers
+      ? ` ${v.layer ? LAYER_NAMES[v.layer] : "-"} |`
+      : "";
+    parts.push(`| ${v.check} | ${message} | ${severity} |${source}`);
   }
   parts.push("");
   return parts;
@@ -96,8 +121,12 @@ function formatViolationsSection(violations: ProcessViolation[]): string[] {
     byCategory.set(v.category, existing);
   }
 
+  // Rules come from an org baseline as well as the repo: show which is which
+  const showLayers = violations.some((v) => v.layer !== undefined);
   for (const [category, catViolations] of byCategory) {
-    parts.push(...formatCategoryViolations(category, catViolations));
+    parts.push(
+      ...formatCategoryViolations(category, catViolations, showLayers)
+    );
   }
 
   return parts;
@@ -124,7 +153,8 @@ export function formatProcessViolationsIssueBody(
   detection: ProcessViolationsDetection
 ): string {
   const parts = [
-    ...formatHeader(detection.repository, detection.scanTime),
+    formatFingerprintMarker(getProcessViolationsIssueFingerprint(detection)),
+    ...formatHeader(detection),
     ...formatSummaryTable(detection.summary),
     ...formatViolationsSection(detection.violations),
     ...formatHowToFix(),
@@ -145,3 +175,22 @@ export function getProcessViolationsIssueTitle(): string {
 export function getProcessViolationsIssueLabel(): string {
   return GITHUB_ISSUES.processViolationsLabel;
 }
+
+/**
+ * Get the fingerprint of the violations reported in a process violations issue.
+ */
+export function getProcessViolationsIssueFingerprint(
+  detection: ProcessViolationsDetection
+): IssueFingerprint {
+  return createIssueFingerprint(
+    "process-violations",
+    detection.violations.map((v) => ({
+      category: v.category,
+      check: v.check,
+      rule: v.rule,
+      message: v.message,
+      severity: v.severity,
+      file: v.file,
+    }))
+  );
+}
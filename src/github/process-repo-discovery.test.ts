@@ -1,6 +1,7 @@
 import { describe, it, expect, afterEach, vi, beforeEach } from "vitest";
 import * as client from "./client.js";
 import * as repoChecks from "./repo-checks.js";
+import * as graphqlDiscovery from "./graphql-discovery.js";
 
 describe("process-repo-discovery", () => {
   const mockListRepos = vi.spyOn(client, "listRepos");
@@ -368,5 +369,70 @@ describe("process-repo-discovery", () => {
       expect(activityProgressCalls[0]).toEqual({ checked: 1, total: 2 });
       expect(activityProgressCalls[1]).toEqual({ checked: 2, total: 2 });
     });
+
+    it("uses GraphQL snapshots instead of per-repo requests", async () => {
+      const { discoverProcessRepos } =
+        await import("./process-repo-discovery.js");
+
+      mockListRepos.mockResolvedValueOnce({
+        repos: [
+          {
+            name: "repo-a",
+            full_name: "test-org/repo-a",
+            clone_url: "https://github.com/test-org/repo-a.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+          {
+            name: "repo-b",
+            full_name: "test-org/repo-b",
+            clone_url: "https://github.com/test-org/repo-b.git",
+            archived: false,
+            disabled: false,
+            owner: { login: "test-org" },
+          },
+        ],
+        isOrg: true,
+      });
+      const mockFetchRepoSnapshots = vi
+        .spyOn(graphqlDiscovery, "fetchRepoSnapshots")
+        .mockResolvedValueOnce(
+          new Map([
+            [
+              "test-org/repo-a",
+              {
+                defaultBranch: "main",
+                lastCommitDate: new Date(),
+                checkToml: "",
+                hasMetadata: false,
+              },
+            ],
+            [
+              "test-org/repo-b",
+              {
+                defaultBranch: "main",
+                lastCommitDate: new Date(),
+                checkToml: null,
+                hasMetadata: false,
+              },
+            ],
+          ])
+        );
+
+      const result = await discoverProcessRepos({
+        org: "test-org",
+        token: "test-token",
+        discovery: "graphql",
+      });
+
+      expect(mockFetchRepoSnapshots).toHaveBeenCalledTimes(1);
+      expect(mockHasRemoteCheckToml).not.toHaveBeenCalled();
+      expect(mockHasRecentCommits).not.toHaveBeenCalled();
+      expect(result.repos.map((r) => r.name)).toEqual(["repo-a"]);
+      expect(result.reposWithCheckToml).toBe(1);
+      expect(result.filteredByActivity).toBe(true);
+      mockFetchRepoSnapshots.mockRestore();
+    });
   });
 });
@@ -4,7 +4,14 @@
  */
 
 import { CONCURRENCY, DEFAULTS } from "../constants.js";
+import type { DiscoveryBackend } from "../types.js";
 import { listRepos, type GitHubRepo } from "./client.js";
+import {
+  fetchRepoSnapshots,
+  snapshotHasCheckToml,
+  snapshotHasRecentCommits,
+  type RepoSnapshot,
+} from "./graphql-discovery.js";
 import { hasRemoteCheckToml, hasRecentCommits } from "./repo-checks.js";
 
 export interface ProcessRepoDiscoveryResult {
@@ -24,11 +31,13 @@ export interface DiscoverProcessReposOptions {
   onActivityProgress?: (checked: number, total: number) => void;
   sinceHours?: number;
   includeAll?: boolean;
+  discovery?: DiscoveryBackend; // Default: rest
 }
 
 interface FilterContext {
   token?: string;
   concurrency: number;
+  snapshots?: Map<string, RepoSnapshot>; // Prefetched by GraphQL discovery
 }
 
 interface ResultOpts {
@@ -70,7 +79,9 @@ async function filterByCheckToml(
     repos,
     async (r) => {
       const [o, name] = r.full_name.split("/");
-      const has = await hasRemoteCheckToml(o, name, ctx.token);
+      const has = ctx.snapshots
+        ? snapshotHasCheckToml(ctx.snapshots.get(r.full_name))
+        : await hasRemoteCheckToml(o, name, ctx.token);
       onProgress?.(++n, repos.length);
       return has;
     },
@@ -89,7 +100,9 @@ async function filterByActivity(
     repos,
     async (r) => {
       const [o, name] = r.full_name.split("/");
-      const has = await hasRecentCommits(o, name, hours, ctx.token);
+      const has = ctx.snapshots
+        ? snapshotHasRecentCommits(ctx.snapshots.get(r.full_name), hours)
+        : await hasRecentCommits(o, name, hours, ctx.token);
       onProgress?.(++n, repos.length);
       return has;
     },
@@ -120,6 +133,7 @@ export async function discoverProcessRepos(
     onActivityProgress,
     sinceHours = DEFAULTS.commitWindowHours,
     includeAll = false,
+    discovery = "rest",
   } = opts;
   const { repos: all, isOrg } = await listRepos(org, token);
   const ctx: FilterContext = { token, concurrency };
@@ -135,6 +149,9 @@ export async function discoverProcessRepos(
     });
   }
 
+  if (discovery === "graphql") {
+    ctx.snapshots = await fetchRepoSnapshots(all, token);
+  }
   const withConfig = await filterByCheckToml(all, ctx, onProgress);
 
   if (includeAll) {
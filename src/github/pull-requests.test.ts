@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { getPullRequest, upsertPullRequestComment } from "./pull-requests.js";
+import * as apiUtils from "./api-utils.js";
+
+describe("pull-requests", () => {
+  const mockFetchWithRetry = vi.spyOn(apiUtils, "fetchWithRetry");
+
+  afterEach(() => {
+    mockFetchWithRetry.mockReset();
+  });
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status });
+
+  const comment = (id: number, body: string) => ({
+    id,
+    html_url: `https://github.com/org/repo/pull/7#issuecomment-${id}`,
+    body,
+  });
+
+  const commentOptions = (create?: boolean) => ({
+    owner: "org",
+    repo: "repo",
+    prNumber: 7,
+    body: "<!-- drift-toolkit:pr-comment -->\nNew body",
+    create,
+  });
+
+  describe("getPullRequest", () => {
+    it("returns the base and head commits", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        jsonResponse({
+          number: 7,
+          html_url: "https://github.com/org/repo/pull/7",
+          base: { sha: "a".repeat(40), ref: "main" },
+          head: { sha: "b".repeat(40), ref: "feature" },
+        })
+      );
+
+      const pr = await getPullRequest("org", "repo", 7, "token");
+
+      expect(pr).toEqual({
+        number: 7,
+        html_url: "https://github.com/org/repo/pull/7",
+        baseSha: "a".repeat(40),
+        headSha: "b".repeat(40),
+      });
+      expect(mockFetchWithRetry).toHaveBeenCalledWith(
+        expect.stringContaining("/repos/org/repo/pulls/7"),
+        expect.anything(),
+        "token"
+      );
+    });
+
+    it("throws on API errors", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Not Found", { status: 404 })
+      );
+
+      await expect(getPullRequest("org", "repo", 7, "token")).rejects.toThrow(
+        "Failed to get pull request #7: 404"
+      );
+    });
+  });
+
+  describe("upsertPullRequestComment", () => {
+    it("updates the comment drift posted earlier", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          jsonResponse([
+            comment(1, "LGTM"),
+            comment(2, "<!-- drift-toolkit:pr-comment -->\nOld body"),
+          ])
+        )
+        .mockResolvedValueOnce(jsonResponse(comment(2, "updated")));
+
+      const result = await upsertPullRequestComment(commentOptions(), "token");
+
+      expect(result).toEqual({
+        id: 2,
+        html_url: "https://github.com/org/repo/pull/7#issuecomment-2",
+        action: "updated",
+      });
+      const [url, init] = mockFetchWithRetry.mock.calls[1];
+      expect(url).toContain("/repos/org/repo/issues/comments/2");
+      expect(init?.method).toBe("PATCH");
+      expect(JSON.parse(init?.body as string)).toEqual({
+        body: "<!-- drift-toolkit:pr-comment -->\nNew body",
+      });
+    });
+
+    it("creates a comment when there is none", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(jsonResponse([comment(1, "LGTM")]))
+        .mockResolvedValueOnce(jsonResponse(comment(3, "created"), 201));
+
+      const result = await upsertPullRequestComment(commentOptions(), "token");
+
+      expect(result?.action).toBe("created");
+      const [url, init] = mockFetchWithRetry.mock.calls[1];
+      expect(url).toContain("/repos/org/repo/issues/7/comments");
+      expect(init?.method).toBe("POST");
+    });
+
+    it("only updates when create is false", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(jsonResponse([]));
+
+      const result = await upsertPullRequestComment(
+        commentOptions(false),
+        "token"
+      );
+
+      expect(result).toBeNull();
+      expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+});
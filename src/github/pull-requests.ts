@@ -0,0 +1,163 @@
+/**
+ * GitHub pull request operations for pre-merge drift checks.
+ *
+ * Drift keeps a single comment per pull request, identified by a hidden
+ * marker, and updates it on every push rather than adding a new one.
+ */
+
+import { z } from "zod";
+import { GITHUB_API, GITHUB_ISSUES } from "../constants.js";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { getGitHubApiUrl } from "./github-url.js";
+
+export interface PullRequest {
+  number: number;
+  html_url: string;
+  baseSha: string;
+  headSha: string;
+}
+
+export interface UpsertPullRequestCommentOptions {
+  owner: string;
+  repo: string;
+  prNumber: number;
+  body: string; // Must contain GITHUB_ISSUES.pullRequestCommentMarker
+  create?: boolean; // false: only update an existing comment (default: true)
+}
+
+export interface PullRequestComment {
+  id: number;
+  html_url: string;
+  action: "created" | "updated";
+}
+
+const PULL_REQUEST_SCHEMA = z.object({
+  number: z.number(),
+  html_url: z.string(),
+  base: z.object({ sha: z.string() }),
+  head: z.object({ sha: z.string() }),
+});
+
+const COMMENT_SCHEMA = z.object({
+  id: z.number(),
+  html_url: z.string(),
+  body: z.string().nullable().optional(),
+});
+
+const COMMENT_ARRAY_SCHEMA = z.array(COMMENT_SCHEMA);
+
+/** Send a request, parsing the JSON response and throwing on failure. */
+async function requestJson<T>(
+  url: string,
+  init: { method: string; payload?: unknown; action: string },
+  schema: z.ZodType<T>,
+  token: string
+): Promise<T> {
+  const headers = buildApiHeaders(token);
+  if (init.payload !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+  const response = await fetchWithRetry(
+    url,
+    {
+      method: init.method,
+      headers,
+      body:
+        init.payload === undefined ? undefined : JSON.stringify(init.payload),
+    },
+    token
+  );
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Failed to ${init.action}: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+  const parseResult = schema.safeParse(await response.json());
+  if (!parseResult.success) {
+    throw new Error(
+      `Invalid response to ${init.action}: ${parseResult.error.message}`
+    );
+  }
+  return parseResult.data;
+}
+
+/** Get a pull request's base and head commits. */
+export async function getPullRequest(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  token: string
+): Promise<PullRequest> {
+  const pr = await requestJson(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/pulls/${prNumber}`,
+    { method: "GET", action: `get pull request #${prNumber}` },
+    PULL_REQUEST_SCHEMA,
+    token
+  );
+  return {
+    number: pr.number,
+    html_url: pr.html_url,
+    baseSha: pr.base.sha,
+    headSha: pr.head.sha,
+  };
+}
+
+/** Find drift's comment on a pull request, following pagination. */
+async function findDriftComment(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  token: string
+): Promise<z.infer<typeof COMMENT_SCHEMA> | null> {
+  for (let page = 1; ; page++) {
+    const comments = await requestJson(
+      `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues/${prNumber}/comments?per_page=${GITHUB_API.perPage}&page=${page}`,
+      { method: "GET", action: `list comments on #${prNumber}` },
+      COMMENT_ARRAY_SCHEMA,
+      token
+    );
+    const found = comments.find((c) =>
+      c.body?.includes(GITHUB_ISSUES.pullRequestCommentMarker)
+    );
+    if (found) {
+      return found;
+    }
+    if (comments.length < GITHUB_API.perPage) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Post drift's comment on a pull request, or update it if an earlier scan
+ * already posted one.
+ *
+ * @returns The comment, or null if there was none and create is false
+ */
+export async function upsertPullRequestComment(
+  options: UpsertPullRequestCommentOptions,
+  token: string
+): Promise<PullRequestComment | null> {
+  const { owner, repo, prNumber, body, create = true } = options;
+  const existing = await findDriftComment(owner, repo, prNumber, token);
+  if (existing) {
+    const updated = await requestJson(
+      `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues/comments/${existing.id}`,
+      { method: "PATCH", payload: { body }, action: "update comment" },
+      COMMENT_SCHEMA,
+      token
+    );
+    return { id: updated.id, html_url: updated.html_url, action: "updated" };
+  }
+  if (!create) {
+    return null;
+  }
+  const created = await requestJson(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/issues/${prNumber}/comments`,
+    { method: "POST", payload: { body }, action: `comment on #${prNumber}` },
+    COMMENT_SCHEMA,
+    token
+  );
+  return { id: created.id, html_url: created.html_url, action: "created" };
+}
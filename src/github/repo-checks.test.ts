@@ -250,4 +250,144 @@ describe("repo-checks", () => {
       );
     });
   });
+
+  describe("getRemoteRepoMetadata", () => {
+    it("parses the first metadata file found", async () => {
+      const { getRemoteRepoMetadata } = await import("./repo-checks.js");
+
+      mockFetchWithRetry
+        .mockResolvedValueOnce(new Response("Not Found", { status: 404 }))
+        .mockResolvedValueOnce(
+          new Response("tier: production\nteam: platform\n", { status: 200 })
+        );
+
+      const metadata = await getRemoteRepoMetadata("test-org", "test-repo");
+
+      expect(metadata?.tier).toBe("production");
+      expect(metadata?.team).toBe("platform");
+      expect(mockFetchWithRetry).toHaveBeenLastCalledWith(
+        expect.stringContaining("/contents/repo-metadata.yml"),
+        expect.any(Object),
+        undefined
+      );
+    });
+
+    it("returns null when no metadata file exists", async () => {
+      const { getRemoteRepoMetadata } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValue(
+        new Response("Not Found", { status: 404 })
+      );
+
+      expect(await getRemoteRepoMetadata("test-org", "test-repo")).toBeNull();
+    });
+  });
+
+  describe("getRemoteCheckToml", () => {
+    it("returns the raw check.toml content", async () => {
+      const { getRemoteCheckToml } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("[process.ci]\nenabled = true\n", { status: 200 })
+      );
+
+      expect(await getRemoteCheckToml("test-org", "test-repo")).toBe(
+        "[process.ci]\nenabled = true\n"
+      );
+    });
+
+    it("returns null when the repo has no check.toml", async () => {
+      const { getRemoteCheckToml } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Not Found", { status: 404 })
+      );
+
+      expect(await getRemoteCheckToml("test-org", "test-repo")).toBeNull();
+    });
+
+    it("throws on other API errors", async () => {
+      const { getRemoteCheckToml } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Forbidden", { status: 403 })
+      );
+
+      await expect(getRemoteCheckToml("test-org", "test-repo")).rejects.toThrow(
+        "Failed to fetch check.toml: 403"
+      );
+    });
+  });
+
+  describe("getRemoteDriftConfig", () => {
+    it("parses drift.config.yaml from the config repo", async () => {
+      const { getRemoteDriftConfig } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response(
+          "notifications:\n  - type: slack\n    urlEnv: SLACK_WEBHOOK_URL\n",
+          { status: 200 }
+        )
+      );
+
+      const config = await getRemoteDriftConfig("test-org", "drift-config");
+
+      expect(config?.notifications).toEqual([
+        { type: "slack", urlEnv: "SLACK_WEBHOOK_URL" },
+      ]);
+      expect(mockFetchWithRetry).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "/repos/test-org/drift-config/contents/drift.config.yaml"
+        ),
+        expect.any(Object),
+        undefined
+      );
+    });
+
+    it("returns null when the config repo has no config", async () => {
+      const { getRemoteDriftConfig } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValue(
+        new Response("Not Found", { status: 404 })
+      );
+
+      expect(await getRemoteDriftConfig("test-org", "drift-config")).toBeNull();
+    });
+
+    it("throws on API errors other than 404", async () => {
+      const { getRemoteDriftConfig } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Server Error", { status: 502 })
+      );
+
+      await expect(
+        getRemoteDriftConfig("test-org", "drift-config")
+      ).rejects.toThrow("Failed to fetch drift.config.yaml: 502");
+    });
+  });
+
+  describe("getRemoteWaivers", () => {
+    it("returns no waivers when the repo has no waivers file", async () => {
+      const { getRemoteWaivers } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Not Found", { status: 404 })
+      );
+
+      expect(await getRemoteWaivers("test-org", "test-repo")).toEqual([]);
+    });
+
+    it("throws on other API errors", async () => {
+      const { getRemoteWaivers } = await import("./repo-checks.js");
+
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Forbidden", { status: 403 })
+      );
+
+      await expect(getRemoteWaivers("test-org", "test-repo")).rejects.toThrow(
+        "Failed to fetch drift-waivers.yaml: 403"
+      );
+    });
+  });
 });
@@ -4,20 +4,13 @@
  */
 
 import { parse as parseToml } from "smol-toml";
-import { GITHUB_API, FILE_PATTERNS } from "../constants.js";
-import { fetchWithRetry } from "./api-utils.js";
-
-/** Build GitHub API request headers */
-function buildApiHeaders(token?: string): Record<string, string> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "X-GitHub-Api-Version": GITHUB_API.version,
-  };
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  return headers;
-}
+import { FILE_PATTERNS } from "../constants.js";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { getGitHubApiUrl } from "./github-url.js";
+import { parseRepoMetadata, type RepoMetadata } from "../repo/detection.js";
+import { parseConfig } from "../config/loader.js";
+import { parseWaivers } from "../config/waivers.js";
+import type { DriftConfig, Waiver } from "../types.js";
 
 /** Check if a file exists in a repository via GitHub Content API. */
 export async function fileExists(
@@ -30,7 +23,7 @@ export async function fileExists(
 
   try {
     const response = await fetchWithRetry(
-      `${GITHUB_API.baseUrl}/repos/${org}/${repo}/contents/${path}`,
+      `${getGitHubApiUrl()}/repos/${org}/${repo}/contents/${path}`,
       { headers },
       token
     );
@@ -100,7 +93,7 @@ export async function hasRecentCommits(
   const headers = buildApiHeaders(token);
 
   // Try main branch first
-  const mainUrl = `${GITHUB_API.baseUrl}/repos/${org}/${repo}/commits?sha=main&since=${since}&per_page=1`;
+  const mainUrl = `${getGitHubApiUrl()}/repos/${org}/${repo}/commits?sha=main&since=${since}&per_page=1`;
   const mainResponse = await fetchWithRetry(mainUrl, { headers }, token);
 
   if (mainResponse.ok) {
@@ -110,7 +103,7 @@ export async function hasRecentCommits(
 
   // Fall back to master branch if main doesn't exist (404)
   if (mainResponse.status === 404) {
-    const masterUrl = `${GITHUB_API.baseUrl}/repos/${org}/${repo}/commits?sha=master&since=${since}&per_page=1`;
+    const masterUrl = `${getGitHubApiUrl()}/repos/${org}/${repo}/commits?sha=master&since=${since}&per_page=1`;
     const masterResponse = await fetchWithRetry(masterUrl, { headers }, token);
 
     if (masterResponse.ok) {
@@ -123,6 +116,20 @@ export async function hasRecentCommits(
   return false;
 }
 
+/**
+ * Check if check.toml content has an [infra] section with enabled = true.
+ * Invalid TOML counts as not configured.
+ */
+export function isInfraEnabled(checkTomlContent: string): boolean {
+  try {
+    const config = parseToml(checkTomlContent) as Record<string, unknown>;
+    const infraConfig = config.infra as Record<string, unknown> | undefined;
+    return infraConfig?.enabled === true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Check if a repository has an [infra] section enabled in check.toml.
  * Fetches the check.toml file and parses it to check for infra configuration.
@@ -143,7 +150,7 @@ export async function hasRemoteInfraConfig(
 
   try {
     const response = await fetchWithRetry(
-      `${GITHUB_API.baseUrl}/repos/${org}/${repo}/contents/${FILE_PATTERNS.checkToml}`,
+      `${getGitHubApiUrl()}/repos/${org}/${repo}/contents/${FILE_PATTERNS.checkToml}`,
       { headers },
       token
     );
@@ -152,15 +159,139 @@ export async function hasRemoteInfraConfig(
       return false;
     }
 
-    const content = await response.text();
-
-    // Parse TOML and check for [infra] section with enabled = true
-    const config = parseToml(content) as Record<string, unknown>;
-    const infraConfig = config.infra as Record<string, unknown> | undefined;
-
-    return infraConfig?.enabled === true;
+    return isInfraEnabled(await response.text());
   } catch {
-    // Parse errors or network errors - treat as not configured
+    // Network errors or retry exhaustion - treat as not configured
     return false;
   }
 }
+
+/**
+ * Fetch a file's raw content via the GitHub Content API.
+ *
+ * @returns The file content, or null if the file does not exist
+ * @throws Error on any other response
+ */
+async function getRawFile(
+  org: string,
+  repo: string,
+  path: string,
+  token?: string
+): Promise<string | null> {
+  const headers = buildApiHeaders(token);
+  // Request raw content
+  headers.Accept = "application/vnd.github.raw+json";
+
+  const response = await fetchWithRetry(
+    `${getGitHubApiUrl()}/repos/${org}/${repo}/contents/${path}`,
+    { headers },
+    token
+  );
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Failed to fetch ${path}: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+  return response.text();
+}
+
+/**
+ * Fetch a repository's root check.toml via the GitHub Content API.
+ *
+ * @param org - GitHub organization or user
+ * @param repo - Repository name
+ * @param token - GitHub token (optional)
+ * @returns The file content, or null if the repo has no check.toml
+ * @throws Error on any other response
+ */
+export function getRemoteCheckToml(
+  org: string,
+  repo: string,
+  token?: string
+): Promise<string | null> {
+  return getRawFile(org, repo, FILE_PATTERNS.checkToml, token);
+}
+
+/**
+ * Fetch and parse a repository's repo-metadata.yaml via the GitHub Content API.
+ *
+ * @param org - GitHub organization or user
+ * @param repo - Repository name
+ * @param token - GitHub token (optional)
+ * @returns The parsed metadata, or null if the repo has no metadata file
+ */
+export async function getRemoteRepoMetadata(
+  org: string,
+  repo: string,
+  token?: string
+): Promise<RepoMetadata | null> {
+  const headers = buildApiHeaders(token);
+  // Request raw content
+  headers.Accept = "application/vnd.github.raw+json";
+
+  for (const file of FILE_PATTERNS.metadata) {
+    try {
+      const response = await fetchWithRetry(
+        `${getGitHubApiUrl()}/repos/${org}/${repo}/contents/${file}`,
+        { headers },
+        token
+      );
+      if (response.ok) {
+        return parseRepoMetadata(await response.text()).metadata;
+      }
+    } catch {
+      // Network errors or retry exhaustion - try the next variant
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch and parse drift.config.yaml from a config repo via the GitHub
+ * Content API, for scans that do not clone the config repo.
+ *
+ * @param org - GitHub organization or user
+ * @param repo - Config repository name
+ * @param token - GitHub token (optional)
+ * @returns The validated config, or null if the repo has no valid config
+ * @throws Error on responses other than 404
+ */
+export async function getRemoteDriftConfig(
+  org: string,
+  repo: string,
+  token?: string
+): Promise<DriftConfig | null> {
+  for (const file of FILE_PATTERNS.config) {
+    const content = await getRawFile(org, repo, file, token);
+    if (content !== null) {
+      return parseConfig(content, `${org}/${repo}/${file}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch and parse a repository's drift-waivers.yaml via the GitHub Content API.
+ *
+ * @param org - GitHub organization or user
+ * @param repo - Repository name (a repo or the config repo)
+ * @param token - GitHub token (optional)
+ * @returns The waivers, or an empty list if the repo has no valid waivers file
+ * @throws Error on responses other than 404
+ */
+export async function getRemoteWaivers(
+  org: string,
+  repo: string,
+  token?: string
+): Promise<Waiver[]> {
+  const content = await getRawFile(org, repo, FILE_PATTERNS.waivers, token);
+  if (content === null) {
+    return [];
+  }
+  const source = `${org}/${repo}/${FILE_PATTERNS.waivers}`;
+  return parseWaivers(content, source) ?? [];
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { getRepoSettings, getVulnerabilityAlerts } from "./repo-settings.js";
+import * as apiUtils from "./api-utils.js";
+
+describe("repo-settings", () => {
+  const mockFetchWithRetry = vi.spyOn(apiUtils, "fetchWithRetry");
+
+  afterEach(() => {
+    mockFetchWithRetry.mockReset();
+  });
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status });
+
+  const repoResponse = {
+    allow_merge_commit: false,
+    allow_squash_merge: true,
+    allow_rebase_merge: true,
+    delete_branch_on_merge: true,
+    default_branch: "main",
+    visibility: "private",
+  };
+
+  describe("getRepoSettings", () => {
+    it("reads merge methods, branch and security settings", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        jsonResponse({
+          ...repoResponse,
+          security_and_analysis: {
+            secret_scanning: { status: "enabled" },
+            secret_scanning_push_protection: { status: "disabled" },
+          },
+        })
+      );
+
+      const settings = await getRepoSettings("org", "repo", "token");
+
+      expect(settings).toEqual({
+        mergeMethods: ["squash", "rebase"],
+        deleteBranchOnMerge: true,
+        defaultBranch: "main",
+        visibility: "private",
+        secretScanning: true,
+        pushProtection: false,
+        dependabotSecurityUpdates: undefined,
+      });
+      expect(mockFetchWithRetry).toHaveBeenCalledWith(
+        expect.stringContaining("/repos/org/repo"),
+        expect.anything(),
+        "token"
+      );
+    });
+
+    it("leaves security settings undefined without admin access", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(jsonResponse(repoResponse));
+
+      const settings = await getRepoSettings("org", "repo", "token");
+
+      expect(settings?.secretScanning).toBeUndefined();
+      expect(settings?.pushProtection).toBeUndefined();
+    });
+
+    it("returns null when the token cannot read the repository", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(new Response("Forbidden", { status: 403 }))
+        .mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+
+      expect(await getRepoSettings("org", "repo", "token")).toBeNull();
+      expect(await getRepoSettings("org", "repo", "token")).toBeNull();
+    });
+
+    it("throws on other API errors", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Server Error", { status: 500 })
+      );
+
+      await expect(getRepoSettings("org", "repo", "token")).rejects.toThrow(
+        "Failed to get repository settings: 500"
+      );
+    });
+  });
+
+  describe("getVulnerabilityAlerts", () => {
+    it("reads the status from the response code", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(new Response(null, { status: 204 }))
+        .mockResolvedValueOnce(new Response("", { status: 404 }));
+
+      await expect(
+        getVulnerabilityAlerts("org", "repo", "token")
+      ).resolves.toBe(true);
+      await expect(
+        getVulnerabilityAlerts("org", "repo", "token")
+      ).resolves.toBe(false);
+    });
+
+    it("throws on other responses", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Forbidden", { status: 403 })
+      );
+
+      await expect(
+        getVulnerabilityAlerts("org", "repo", "token")
+      ).rejects.toThrow("Failed to get vulnerability alerts: 403");
+    });
+  });
+});
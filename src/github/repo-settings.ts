@@ -0,0 +1,137 @@
+/**
+ * GitHub repository settings for drift's own process checks: merge
+ * methods, branch cleanup, default branch, visibility and the security
+ * features GitHub reports on the repository.
+ */
+
+import { z } from "zod";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { getGitHubApiUrl } from "./github-url.js";
+
+export type MergeMethod = "merge" | "squash" | "rebase";
+
+export type RepoVisibility = "public" | "private" | "internal";
+
+/** A repository's settings as read from the GitHub API */
+export interface RepoSettings {
+  mergeMethods: MergeMethod[]; // Enabled merge methods
+  deleteBranchOnMerge: boolean;
+  defaultBranch: string;
+  visibility: RepoVisibility;
+  vulnerabilityAlerts?: boolean; // Only read when expected
+  secretScanning?: boolean; // Security settings are absent without admin access
+  pushProtection?: boolean;
+  dependabotSecurityUpdates?: boolean;
+}
+
+const FEATURE_STATUS_SCHEMA = z
+  .object({ status: z.enum(["enabled", "disabled"]) })
+  .optional();
+
+const REPO_SCHEMA = z.object({
+  allow_merge_commit: z.boolean().optional(),
+  allow_squash_merge: z.boolean().optional(),
+  allow_rebase_merge: z.boolean().optional(),
+  delete_branch_on_merge: z.boolean().optional(),
+  default_branch: z.string(),
+  visibility: z.enum(["public", "private", "internal"]),
+  // Only returned to tokens with admin access
+  security_and_analysis: z
+    .object({
+      secret_scanning: FEATURE_STATUS_SCHEMA,
+      secret_scanning_push_protection: FEATURE_STATUS_SCHEMA,
+      dependabot_security_updates: FEATURE_STATUS_SCHEMA,
+    })
+    .nullable()
+    .optional(),
+});
+
+function isEnabled(
+  feature: z.infer<typeof FEATURE_STATUS_SCHEMA>
+): boolean | undefined {
+  return feature ? feature.status === "enabled" : undefined;
+}
+
+/**
+ * Get a repository's settings. Security features the token cannot see
+ * are left undefined, and vulnerability alerts are read separately.
+ *
+ * @returns The settings, or null if the token cannot read them (403/404)
+ * @throws Error on any other failed response
+ */
+export async function getRepoSettings(
+  owner: string,
+  repo: string,
+  token: string
+): Promise<RepoSettings | null> {
+  const response = await fetchWithRetry(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}`,
+    { headers: buildApiHeaders(token) },
+    token
+  );
+  if (response.status === 403 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Failed to get repository settings: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+  const parseResult = REPO_SCHEMA.safeParse(await response.json());
+  if (!parseResult.success) {
+    throw new Error(
+      `Invalid response to get repository settings: ${parseResult.error.message}`
+    );
+  }
+  const data = parseResult.data;
+  const security = data.security_and_analysis ?? undefined;
+  const mergeMethods: MergeMethod[] = [];
+  if (data.allow_merge_commit) {
+    mergeMethods.push("merge");
+  }
+  if (data.allow_squash_merge) {
+    mergeMethods.push("squash");
+  }
+  if (data.allow_rebase_merge) {
+    mergeMethods.push("rebase");
+  }
+
+  return {
+    mergeMethods,
+    deleteBranchOnMerge: data.delete_branch_on_merge ?? false,
+    defaultBranch: data.default_branch,
+    visibility: data.visibility,
+    secretScanning: isEnabled(security?.secret_scanning),
+    pushProtection: isEnabled(security?.secret_scanning_push_protection),
+    dependabotSecurityUpdates: isEnabled(security?.dependabot_security_updates),
+  };
+}
+
+/**
+ * Check whether Dependabot vulnerability alerts are enabled. GitHub answers
+ * 204 when they are and 404 when they are not.
+ *
+ * @throws Error on any other response
+ */
+export async function getVulnerabilityAlerts(
+  owner: string,
+  repo: string,
+  token: string
+): Promise<boolean> {
+  const response = await fetchWithRetry(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/vulnerability-alerts`,
+    { headers: buildApiHeaders(token) },
+    token
+  );
+  if (response.status === 204) {
+    return true;
+  }
+  if (response.status === 404) {
+    return false;
+  }
+  const text = await response.text();
+  throw new Error(
+    `Failed to get vulnerability alerts: ${response.status} ${sanitizeError(text, token)}`
+  );
+}
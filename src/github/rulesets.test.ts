@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { getBranchRules, getRuleset, resolveBypassActors } from "./rulesets.js";
+import * as apiUtils from "./api-utils.js";
+
+describe("rulesets", () => {
+  const mockFetchWithRetry = vi.spyOn(apiUtils, "fetchWithRetry");
+
+  afterEach(() => {
+    mockFetchWithRetry.mockReset();
+  });
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status });
+
+  const rule = (rulesetId: number) => ({
+    type: "pull_request",
+    parameters: { required_approving_review_count: 2 },
+    ruleset_source_type: "Organization",
+    ruleset_source: "org",
+    ruleset_id: rulesetId,
+  });
+
+  describe("getBranchRules", () => {
+    it("returns the rules on the branch, following pagination", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(
+          jsonResponse(Array.from({ length: 100 }, (_, i) => rule(i)))
+        )
+        .mockResolvedValueOnce(jsonResponse([rule(100)]));
+
+      const rules = await getBranchRules("org", "repo", "main", "token");
+
+      expect(rules).toHaveLength(101);
+      expect(rules?.[0]).toEqual({
+        type: "pull_request",
+        parameters: { required_approving_review_count: 2 },
+        rulesetId: 0,
+        rulesetSourceType: "Organization",
+      });
+      expect(mockFetchWithRetry.mock.calls[1][0]).toContain(
+        "/repos/org/repo/rules/branches/main?per_page=100&page=2"
+      );
+    });
+
+    it("returns no rules when rulesets are not available", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Not Found", { status: 404 })
+      );
+
+      expect(await getBranchRules("org", "repo", "main", "token")).toEqual([]);
+    });
+
+    it("returns undefined when the token cannot see the rules", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Forbidden", { status: 403 })
+      );
+
+      expect(
+        await getBranchRules("org", "repo", "main", "token")
+      ).toBeUndefined();
+    });
+
+    it("throws on other API errors", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Server Error", { status: 500 })
+      );
+
+      await expect(
+        getBranchRules("org", "repo", "main", "token")
+      ).rejects.toThrow("Failed to get rules for branch main: 500");
+    });
+  });
+
+  describe("getRuleset", () => {
+    it("returns the ruleset with its bypass actors", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        jsonResponse({
+          id: 7,
+          name: "org-default",
+          source_type: "Organization",
+          source: "org",
+          enforcement: "active",
+          bypass_actors: [
+            {
+              actor_id: null,
+              actor_type: "OrganizationAdmin",
+              bypass_mode: "always",
+            },
+          ],
+        })
+      );
+
+      const ruleset = await getRuleset("org", "repo", 7, "token");
+
+      expect(ruleset).toEqual({
+        id: 7,
+        name: "org-default",
+        sourceType: "Organization",
+        bypassActors: [
+          {
+            actorId: null,
+            actorType: "OrganizationAdmin",
+            bypassMode: "always",
+          },
+        ],
+      });
+      expect(mockFetchWithRetry.mock.calls[0][0]).toContain(
+        "/repos/org/repo/rulesets/7?includes_parents=true"
+      );
+    });
+
+    it("leaves bypass actors undefined when they are not returned", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        jsonResponse({
+          id: 7,
+          name: "org-default",
+          source_type: "Organization",
+        })
+      );
+
+      const ruleset = await getRuleset("org", "repo", 7, "token");
+
+      expect(ruleset.bypassActors).toBeUndefined();
+    });
+  });
+
+  describe("resolveBypassActors", () => {
+    it("looks up the ids of teams and apps named by slug", async () => {
+      mockFetchWithRetry
+        .mockResolvedValueOnce(jsonResponse({ id: 42, slug: "platform" }))
+        .mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+
+      const actors = await resolveBypassActors(
+        "org",
+        [
+          { type: "OrganizationAdmin" },
+          { type: "Team", name: "platform" },
+          { type: "Integration", name: "missing-app" },
+          { type: "Team", id: 7 },
+        ],
+        "token"
+      );
+
+      expect(actors).toEqual([
+        { type: "OrganizationAdmin" },
+        { type: "Team", name: "platform", id: 42 },
+        { type: "Integration", name: "missing-app" },
+        { type: "Team", id: 7 },
+      ]);
+      expect(mockFetchWithRetry.mock.calls.map((c) => c[0])).toEqual([
+        expect.stringContaining("/orgs/org/teams/platform"),
+        expect.stringContaining("/apps/missing-app"),
+      ]);
+    });
+
+    it("throws on API errors other than 404", async () => {
+      mockFetchWithRetry.mockResolvedValueOnce(
+        new Response("Forbidden", { status: 403 })
+      );
+
+      await expect(
+        resolveBypassActors(
+          "org",
+          [{ type: "Team", name: "platform" }],
+          "token"
+        )
+      ).rejects.toThrow("Failed to look up Team platform: 403");
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * GitHub Rulesets API: the rules in effect on a branch, from repository
+ * and organization rulesets, and the rulesets they come from.
+ */
+
+import { z } from "zod";
+import { GITHUB_API } from "../constants.js";
+import { buildApiHeaders, fetchWithRetry, sanitizeError } from "./api-utils.js";
+import { getGitHubApiUrl } from "./github-url.js";
+
+/** A rule that applies to a branch, from a repo or org ruleset */
+export interface BranchRule {
+  type: string; // e.g. "pull_request", "required_status_checks"
+  parameters?: Record<string, unknown>;
+  rulesetId: number;
+  rulesetSourceType: string; // "Repository", "Organization" or "Enterprise"
+}
+
+export interface RulesetBypassActor {
+  actorId: number | null;
+  actorType: string; // e.g. "OrganizationAdmin", "Team", "Integration"
+  bypassMode?: string; // "always", "pull_request" or "exempt"
+}
+
+export interface Ruleset {
+  id: number;
+  name: string;
+  sourceType: string;
+  bypassActors?: RulesetBypassActor[]; // Absent without permission to see them
+}
+
+/** A `bypass_actors` entry: any actor of a type, or one by id or name */
+export interface BypassActorMatcher {
+  type: string; // e.g. "OrganizationAdmin", "Team", "Integration"
+  id?: number;
+  name?: string; // Team or app slug, resolved to an id before matching
+}
+
+const BRANCH_RULE_ARRAY_SCHEMA = z.array(
+  z.object({
+    type: z.string(),
+    parameters: z.record(z.string(), z.unknown()).optional(),
+    ruleset_id: z.number(),
+    ruleset_source_type: z.string(),
+  })
+);
+
+const RULESET_SCHEMA = z.object({
+  id: z.number(),
+  name: z.string(),
+  source_type: z.string().optional(),
+  bypass_actors: z
+    .array(
+      z.object({
+        actor_id: z.number().nullable().optional(),
+        actor_type: z.string(),
+        bypass_mode: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const ID_SCHEMA = z.object({ id: z.number() });
+
+/** Endpoints that look up the actor types `bypass_actors` can name */
+const ACTOR_SLUG_PATHS: Record<
+  string,
+  (owner: string, slug: string) => string
+> = {
+  Team: (owner, slug) => `/orgs/${owner}/teams/${slug}`,
+  Integration: (_owner, slug) => `/apps/${slug}`,
+};
+
+/** Parse a JSON response, throwing on failure. */
+async function parseJson<T>(
+  response: Response,
+  action: string,
+  schema: z.ZodType<T>,
+  token: string
+): Promise<T> {
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Failed to ${action}: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+  const parseResult = schema.safeParse(await response.json());
+  if (!parseResult.success) {
+    throw new Error(
+      `Invalid response to ${action}: ${parseResult.error.message}`
+    );
+  }
+  return parseResult.data;
+}
+
+/** Send a GET request, parsing the JSON response and throwing on failure. */
+async function getJson<T>(
+  url: string,
+  action: string,
+  schema: z.ZodType<T>,
+  token: string
+): Promise<T> {
+  const response = await fetchWithRetry(
+    url,
+    { headers: buildApiHeaders(token) },
+    token
+  );
+  return parseJson(response, action, schema, token);
+}
+
+/**
+ * Get the active rules that apply to a branch, from every ruleset that
+ * targets it, following pagination. A 404 (rulesets unavailable, e.g. on
+ * older GitHub Enterprise Server) means no rules.
+ *
+ * @returns The rules, or undefined if the token cannot see them (403)
+ * @throws Error on any other failed response
+ */
+export async function getBranchRules(
+  owner: string,
+  repo: string,
+  branch: string,
+  token: string
+): Promise<BranchRule[] | undefined> {
+  const rules: BranchRule[] = [];
+  for (let page = 1; ; page++) {
+    const response = await fetchWithRetry(
+      `${getGitHubApiUrl()}/repos/${owner}/${repo}/rules/branches/${encodeURIComponent(branch)}?per_page=${GITHUB_API.perPage}&page=${page}`,
+      { headers: buildApiHeaders(token) },
+      token
+    );
+    if (response.status === 404) {
+      return rules;
+    }
+    if (response.status === 403) {
+      return undefined;
+    }
+    const pageRules = await parseJson(
+      response,
+      `get rules for branch ${branch}`,
+      BRANCH_RULE_ARRAY_SCHEMA,
+      token
+    );
+    rules.push(
+      ...pageRules.map((r) => ({
+        type: r.type,
+        parameters: r.parameters,
+        rulesetId: r.ruleset_id,
+        rulesetSourceType: r.ruleset_source_type,
+      }))
+    );
+    if (pageRules.length < GITHUB_API.perPage) {
+      return rules;
+    }
+  }
+}
+
+/**
+ * Get a ruleset that applies to a repository, including org rulesets.
+ * Bypass actors are only returned to tokens that can edit the ruleset.
+ */
+export async function getRuleset(
+  owner: string,
+  repo: string,
+  rulesetId: number,
+  token: string
+): Promise<Ruleset> {
+  const ruleset = await getJson(
+    `${getGitHubApiUrl()}/repos/${owner}/${repo}/rulesets/${rulesetId}?includes_parents=true`,
+    `get ruleset ${rulesetId}`,
+    RULESET_SCHEMA,
+    token
+  );
+  return {
+    id: ruleset.id,
+    name: ruleset.name,
+    sourceType: ruleset.source_type ?? "Repository",
+    bypassActors: ruleset.bypass_actors?.map((a) => ({
+      actorId: a.actor_id ?? null,
+      actorType: a.actor_type,
+      bypassMode: a.bypass_mode,
+    })),
+  };
+}
+
+/**
+ * Look up the id of a bypass actor named by its team or app slug.
+ *
+ * @returns The id, or undefined if the slug does not exist
+ */
+async function getActorId(
+  owner: string,
+  actor: BypassActorMatcher,
+  token: string
+): Promise<number | undefined> {
+  const getPath = ACTOR_SLUG_PATHS[actor.type];
+  if (!actor.name || !getPath) {
+    return undefined;
+  }
+  const url = `${getGitHubApiUrl()}${getPath(owner, encodeURIComponent(actor.name))}`;
+  const response = await fetchWithRetry(
+    url,
+    { headers: buildApiHeaders(token) },
+    token
+  );
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Failed to look up ${actor.type} ${actor.name}: ${response.status} ${sanitizeError(text, token)}`
+    );
+  }
+  return ID_SCHEMA.safeParse(await response.json()).data?.id;
+}
+
+/**
+ * Resolve `bypass_actors` entries that name a team or app to their ids.
+ * Names that do not resolve keep no id, so they match no actor.
+ */
+export function resolveBypassActors(
+  owner: string,
+  actors: BypassActorMatcher[],
+  token: string
+): Promise<BypassActorMatcher[]> {
+  return Promise.all(
+    actors.map(async (actor) => {
+      const id = await getActorId(owner, actor, token);
+      return id === undefined ? actor : { ...actor, id };
+    })
+  );
+}
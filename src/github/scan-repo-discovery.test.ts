@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach, vi, beforeEach } from "vitest";
+import * as client from "./client.js";
+import * as repoChecks from "./repo-checks.js";
+import * as graphqlDiscovery from "./graphql-discovery.js";
+
+function makeRepo(name: string): client.GitHubRepo {
+  return {
+    name,
+    full_name: `test-org/${name}`,
+    clone_url: `https://github.com/test-org/${name}.git`,
+    archived: false,
+    disabled: false,
+    owner: { login: "test-org" },
+  };
+}
+
+describe("scan-repo-discovery", () => {
+  const mockListRepos = vi.spyOn(client, "listRepos");
+  const mockIsRepoScannable = vi.spyOn(repoChecks, "isRepoScannable");
+  const mockHasRemoteCheckToml = vi.spyOn(repoChecks, "hasRemoteCheckToml");
+  const mockHasRemoteInfraConfig = vi.spyOn(repoChecks, "hasRemoteInfraConfig");
+  const mockHasRecentCommits = vi.spyOn(repoChecks, "hasRecentCommits");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListRepos.mockResolvedValue({
+      repos: [makeRepo("repo-a"), makeRepo("repo-b"), makeRepo("repo-c")],
+      isOrg: true,
+    });
+    // repo-a: code + process, repo-b: infra only, repo-c: nothing
+    mockIsRepoScannable.mockImplementation(
+      async (_o, repo) => repo === "repo-a"
+    );
+    mockHasRemoteCheckToml.mockImplementation(
+      async (_o, repo) => repo === "repo-a"
+    );
+    mockHasRemoteInfraConfig.mockImplementation(
+      async (_o, repo) => repo === "repo-b"
+    );
+  });
+
+  afterEach(() => {
+    mockListRepos.mockReset();
+    mockIsRepoScannable.mockReset();
+    mockHasRemoteCheckToml.mockReset();
+    mockHasRemoteInfraConfig.mockReset();
+    mockHasRecentCommits.mockReset();
+  });
+
+  describe("discoverScanRepos", () => {
+    it("lists repos once and detects the domains each is configured for", async () => {
+      const { discoverScanRepos } = await import("./scan-repo-discovery.js");
+
+      const result = await discoverScanRepos({
+        org: "test-org",
+        domains: ["code", "process", "infra"],
+        token: "test-token",
+        includeAll: true,
+      });
+
+      expect(mockListRepos).toHaveBeenCalledTimes(1);
+      expect(result.repos.map((r) => [r.repo.name, r.domains])).toEqual([
+        ["repo-a", ["code", "process"]],
+        ["repo-b", ["infra"]],
+      ]);
+      expect(result.totalRepos).toBe(3);
+      expect(result.reposConfigured).toBe(2);
+      expect(result.filteredByActivity).toBe(false);
+      expect(mockHasRecentCommits).not.toHaveBeenCalled();
+    });
+
+    it("only checks the requested domains", async () => {
+      const { discoverScanRepos } = await import("./scan-repo-discovery.js");
+
+      const result = await discoverScanRepos({
+        org: "test-org",
+        domains: ["infra"],
+        includeAll: true,
+      });
+
+      expect(result.repos.map((r) => r.repo.name)).toEqual(["repo-b"]);
+      expect(mockIsRepoScannable).not.toHaveBeenCalled();
+      expect(mockHasRemoteCheckToml).not.toHaveBeenCalled();
+    });
+
+    it("leaves out excluded repos", async () => {
+      const { discoverScanRepos } = await import("./scan-repo-discovery.js");
+
+      const result = await discoverScanRepos({
+        org: "test-org",
+        domains: ["code", "process", "infra"],
+        exclude: (name) => name === "repo-a",
+        includeAll: true,
+      });
+
+      expect(result.repos.map((r) => r.repo.name)).toEqual(["repo-b"]);
+      expect(result.totalRepos).toBe(2);
+    });
+
+    it("filters by recent activity using the per-repo window", async () => {
+      const { discoverScanRepos } = await import("./scan-repo-discovery.js");
+      mockHasRecentCommits.mockImplementation(
+        async (_o, repo) => repo === "repo-b"
+      );
+
+      const result = await discoverScanRepos({
+        org: "test-org",
+        domains: ["code", "process", "infra"],
+        sinceHours: 24,
+        activityHours: (name) => (name === "repo-a" ? 72 : 24),
+      });
+
+      expect(result.repos.map((r) => r.repo.name)).toEqual(["repo-b"]);
+      expect(result.filteredByActivity).toBe(true);
+      expect(result.activityWindowHours).toBe(24);
+      expect(mockHasRecentCommits).toHaveBeenCalledWith(
+        "test-org",
+        "repo-a",
+        72,
+        undefined
+      );
+    });
+
+    it("detects domains and activity from GraphQL snapshots", async () => {
+      const { discoverScanRepos } = await import("./scan-repo-discovery.js");
+      const threeDaysAgo = new Date(Date.now() - 72 * 60 * 60 * 1000);
+      const mockFetchRepoSnapshots = vi
+        .spyOn(graphqlDiscovery, "fetchRepoSnapshots")
+        .mockResolvedValueOnce(
+          new Map([
+            [
+              "test-org/repo-a",
+              {
+                defaultBranch: "main",
+                lastCommitDate: threeDaysAgo,
+                checkToml: "",
+                hasMetadata: true,
+              },
+            ],
+            [
+              "test-org/repo-b",
+              {
+                defaultBranch: "main",
+                lastCommitDate: threeDaysAgo,
+                checkToml: "[infra]\nenabled = true\n",
+                hasMetadata: false,
+              },
+            ],
+          ])
+        );
+
+      const result = await discoverScanRepos({
+        org: "test-org",
+        domains: ["code", "process", "infra"],
+        token: "test-token",
+        discovery: "graphql",
+        sinceHours: 24,
+        activityHours: (name) => (name === "repo-a" ? 96 : 24),
+      });
+
+      expect(result.repos).toEqual([
+        { repo: makeRepo("repo-a"), domains: ["code", "process"] },
+      ]);
+      expect(result.reposConfigured).toBe(2);
+      expect(mockIsRepoScannable).not.toHaveBeenCalled();
+      expect(mockHasRemoteCheckToml).not.toHaveBeenCalled();
+      expect(mockHasRemoteInfraConfig).not.toHaveBeenCalled();
+      expect(mockHasRecentCommits).not.toHaveBeenCalled();
+      mockFetchRepoSnapshots.mockRestore();
+    });
+  });
+});
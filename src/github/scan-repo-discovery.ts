@@ -0,0 +1,182 @@
+/**
+ * Repository discovery for unified scans.
+ * Lists an organization's repos once and works out which scan domains
+ * (code, process, infra) each repo is configured for.
+ */
+
+import { CONCURRENCY, DEFAULTS } from "../constants.js";
+import type { DiscoveryBackend, ScanDomain } from "../types.js";
+import { listRepos, type GitHubRepo } from "./client.js";
+import {
+  fetchRepoSnapshots,
+  snapshotHasCheckToml,
+  snapshotHasInfraConfig,
+  snapshotHasRecentCommits,
+  snapshotIsScannable,
+  type RepoSnapshot,
+} from "./graphql-discovery.js";
+import {
+  hasRemoteCheckToml,
+  hasRemoteInfraConfig,
+  hasRecentCommits,
+  isRepoScannable,
+} from "./repo-checks.js";
+
+export interface ScanRepoCandidate {
+  repo: GitHubRepo;
+  domains: ScanDomain[]; // Enabled domains the repo is configured for
+}
+
+export interface ScanRepoDiscoveryResult {
+  repos: ScanRepoCandidate[];
+  totalRepos: number;
+  reposConfigured: number; // Repos configured for at least one domain
+  isOrg: boolean;
+  filteredByActivity: boolean;
+  activityWindowHours?: number;
+}
+
+export interface DiscoverScanReposOptions {
+  org: string;
+  domains: ScanDomain[];
+  token?: string;
+  concurrency?: number;
+  exclude?: (repoName: string) => boolean; // Repos to leave out entirely
+  onListed?: (listing: { repos: GitHubRepo[]; isOrg: boolean }) => void;
+  onProgress?: (checked: number, total: number) => void;
+  onActivityProgress?: (checked: number, total: number) => void;
+  sinceHours?: number;
+  activityHours?: (repoName: string) => number; // Per-repo window override
+  includeAll?: boolean;
+  discovery?: DiscoveryBackend; // Default: rest
+}
+
+async function parallelMap<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  concurrency: number
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let index = 0;
+  async function worker(): Promise<void> {
+    while (index < items.length) {
+      const i = index++;
+      results[i] = await fn(items[i]);
+    }
+  }
+  await Promise.all(
+    Array(Math.min(concurrency, items.length))
+      .fill(null)
+      .map(() => worker())
+  );
+  return results;
+}
+
+/**
+ * Work out which of the enabled domains a repo is configured for, from
+ * GraphQL snapshots when given.
+ */
+async function detectDomains(
+  repo: GitHubRepo,
+  domains: ScanDomain[],
+  token?: string,
+  snapshots?: Map<string, RepoSnapshot>
+): Promise<ScanDomain[]> {
+  if (snapshots) {
+    const snapshot = snapshots.get(repo.full_name);
+    const snapshotChecks: Record<ScanDomain, boolean> = {
+      code: snapshotIsScannable(snapshot),
+      process: snapshotHasCheckToml(snapshot),
+      infra: snapshotHasInfraConfig(snapshot),
+    };
+    return domains.filter((d) => snapshotChecks[d]);
+  }
+  const [owner, name] = repo.full_name.split("/");
+  const checks: Record<ScanDomain, () => Promise<boolean>> = {
+    code: () => isRepoScannable(owner, name, token),
+    process: () => hasRemoteCheckToml(owner, name, token),
+    infra: () => hasRemoteInfraConfig(owner, name, token),
+  };
+  const configured = await Promise.all(domains.map((d) => checks[d]()));
+  return domains.filter((_, i) => configured[i]);
+}
+
+/**
+ * Discover repos to scan: each repo is checked once for every enabled
+ * domain, then filtered by recent activity unless includeAll is set.
+ */
+// eslint-disable-next-line max-lines-per-function
+export async function discoverScanRepos(
+  opts: DiscoverScanReposOptions
+): Promise<ScanRepoDiscoveryResult> {
+  const {
+    org,
+    domains,
+    token,
+    concurrency = CONCURRENCY.maxRepoScans,
+    exclude,
+    onListed,
+    onProgress,
+    onActivityProgress,
+    sinceHours = DEFAULTS.commitWindowHours,
+    activityHours = () => sinceHours,
+    includeAll = false,
+    discovery = "rest",
+  } = opts;
+  const listing = await listRepos(org, token);
+  onListed?.(listing);
+  const { repos: listed, isOrg } = listing;
+  const all = exclude ? listed.filter((r) => !exclude(r.name)) : listed;
+  const snapshots =
+    discovery === "graphql" ? await fetchRepoSnapshots(all, token) : undefined;
+
+  let checked = 0;
+  const candidates = (
+    await parallelMap(
+      all,
+      async (repo): Promise<ScanRepoCandidate> => {
+        const repoDomains = await detectDomains(
+          repo,
+          domains,
+          token,
+          snapshots
+        );
+        onProgress?.(++checked, all.length);
+        return { repo, domains: repoDomains };
+      },
+      concurrency
+    )
+  ).filter((c) => c.domains.length > 0);
+
+  const base = {
+    totalRepos: all.length,
+    reposConfigured: candidates.length,
+    isOrg,
+  };
+  if (includeAll) {
+    return { ...base, repos: candidates, filteredByActivity: false };
+  }
+
+  let activityChecked = 0;
+  const active = await parallelMap(
+    candidates,
+    async (c) => {
+      const [owner, name] = c.repo.full_name.split("/");
+      const has = snapshots
+        ? snapshotHasRecentCommits(
+            snapshots.get(c.repo.full_name),
+            activityHours(name)
+          )
+        : await hasRecentCommits(owner, name, activityHours(name), token);
+      onActivityProgress?.(++activityChecked, candidates.length);
+      return has;
+    },
+    concurrency
+  );
+  return {
+    ...base,
+    repos: candidates.filter((_, i) => active[i]),
+    filteredByActivity: true,
+    activityWindowHours: sinceHours,
+  };
+}
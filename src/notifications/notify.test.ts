@@ -0,0 +1,217 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import * as repoChecks from "../github/repo-checks.js";
+import {
+  resolveNotifierUrl,
+  routeNotification,
+  sendScanNotifications,
+} from "./notify.js";
+import type { ScanNotification } from "./payloads.js";
+
+interface ReceivedRequest {
+  path: string;
+  contentType?: string;
+  body: unknown;
+}
+
+const notification: ScanNotification = {
+  scan: "drift infra scan",
+  org: "test-org",
+  timestamp: "2026-01-01T00:00:00.000Z",
+  summary: {
+    reposScanned: 2,
+    reposWithDrift: 2,
+    reposSkipped: 0,
+    issuesCreated: 2,
+    issuesUpdated: 0,
+    issuesClosed: 0,
+  },
+  repos: [
+    {
+      repo: "test-org/repo-a",
+      issueUrls: ["https://github.com/test-org/repo-a/issues/1"],
+    },
+    {
+      repo: "test-org/repo-b",
+      issueUrls: ["https://github.com/test-org/repo-b/issues/2"],
+    },
+  ],
+};
+
+describe("notify", () => {
+  // Local HTTP stub standing in for Slack, Teams and generic webhooks
+  let server: Server;
+  let baseUrl: string;
+  const received: ReceivedRequest[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = "";
+      req.setEncoding("utf8");
+      req.on("data", (chunk: string) => (data += chunk));
+      req.on("end", () => {
+        received.push({
+          path: req.url ?? "",
+          contentType: req.headers["content-type"],
+          body: JSON.parse(data) as unknown,
+        });
+        res.statusCode = req.url === "/fail" ? 400 : 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe("resolveNotifierUrl", () => {
+    it("prefers url over urlEnv", () => {
+      vi.stubEnv("HOOK_URL", "https://env.example.com");
+      expect(
+        resolveNotifierUrl({
+          type: "webhook",
+          url: "https://config.example.com",
+          urlEnv: "HOOK_URL",
+        })
+      ).toBe("https://config.example.com");
+    });
+
+    it("reads the url from the environment", () => {
+      vi.stubEnv("HOOK_URL", "https://env.example.com");
+      expect(resolveNotifierUrl({ type: "slack", urlEnv: "HOOK_URL" })).toBe(
+        "https://env.example.com"
+      );
+    });
+
+    it("returns null when the environment variable is not set", () => {
+      expect(
+        resolveNotifierUrl({ type: "slack", urlEnv: "UNSET_HOOK_URL" })
+      ).toBeNull();
+    });
+  });
+
+  describe("routeNotification", () => {
+    it("sends everything to notifiers without teams", () => {
+      expect(routeNotification(notification, { type: "webhook" })).toBe(
+        notification
+      );
+    });
+
+    it("keeps only repos owned by the notifier's teams", () => {
+      const routed = routeNotification(
+        {
+          ...notification,
+          repos: [
+            { ...notification.repos[0], team: "platform" },
+            { ...notification.repos[1], team: "payments" },
+          ],
+        },
+        { type: "slack", teams: ["payments"] }
+      );
+      expect(routed?.repos.map((r) => r.repo)).toEqual(["test-org/repo-b"]);
+    });
+
+    it("skips team-routed notifiers with no matching repos", () => {
+      expect(
+        routeNotification(notification, { type: "slack", teams: ["payments"] })
+      ).toBeNull();
+    });
+  });
+
+  describe("sendScanNotifications", () => {
+    it("posts each notifier's payload to its webhook", async () => {
+      const deliveries = await sendScanNotifications({
+        notifiers: [
+          { type: "webhook", url: `${baseUrl}/webhook` },
+          { type: "slack", url: `${baseUrl}/slack` },
+          { type: "teams", url: `${baseUrl}/teams` },
+        ],
+        notification,
+      });
+
+      expect(deliveries).toEqual([
+        { type: "webhook", delivered: true },
+        { type: "slack", delivered: true },
+        { type: "teams", delivered: true },
+      ]);
+      expect(received.map((r) => r.path)).toEqual([
+        "/webhook",
+        "/slack",
+        "/teams",
+      ]);
+      expect(received[0].contentType).toBe("application/json");
+      expect(received[0].body).toEqual(notification);
+      expect(received[1].body).toHaveProperty("blocks");
+      expect(received[2].body).toHaveProperty("attachments");
+    });
+
+    it("routes repos to notifiers by their metadata team", async () => {
+      vi.spyOn(repoChecks, "getRemoteRepoMetadata").mockImplementation(
+        async (_org, repo) => ({
+          tier: "production",
+          status: "active",
+          team: repo === "repo-a" ? "platform" : "payments",
+          raw: {},
+        })
+      );
+
+      await sendScanNotifications({
+        notifiers: [
+          { type: "webhook", url: `${baseUrl}/platform`, teams: ["platform"] },
+          { type: "webhook", url: `${baseUrl}/security`, teams: ["security"] },
+        ],
+        notification,
+        token: "test-token",
+      });
+
+      expect(received).toHaveLength(1);
+      expect(received[0].path).toBe("/platform");
+      expect(received[0].body).toMatchObject({
+        repos: [{ repo: "test-org/repo-a", team: "platform" }],
+      });
+    });
+
+    it("reports failed deliveries without throwing", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const deliveries = await sendScanNotifications({
+        notifiers: [
+          { type: "slack", url: `${baseUrl}/fail` },
+          { type: "teams", urlEnv: "UNSET_HOOK_URL" },
+        ],
+        notification,
+      });
+
+      expect(deliveries).toEqual([
+        {
+          type: "slack",
+          delivered: false,
+          error: "Webhook returned 400 Bad Request",
+        },
+        {
+          type: "teams",
+          delivered: false,
+          error: "UNSET_HOOK_URL is not set",
+        },
+      ]);
+    });
+  });
+});
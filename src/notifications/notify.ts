@@ -0,0 +1,138 @@
+/**
+ * Sends scan summaries to the notifiers configured in drift.config.yaml.
+ *
+ * Notifiers with `teams` only hear about repos owned by those teams, using
+ * the `team` field of each repo's repo-metadata.yaml.
+ */
+
+import { TIMEOUTS } from "../constants.js";
+import { getRemoteRepoMetadata } from "../github/repo-checks.js";
+import { actionsOutput, COLORS, getErrorMessage } from "../utils/index.js";
+import { formatNotificationPayload } from "./payloads.js";
+import type { NotifiedRepo, ScanNotification } from "./payloads.js";
+import type { NotifierConfig, NotifierType } from "../types.js";
+
+export interface NotificationDelivery {
+  type: NotifierType;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface SendScanNotificationsOptions {
+  notifiers: NotifierConfig[];
+  notification: ScanNotification;
+  token?: string; // Used to look up repo teams for routing
+}
+
+/**
+ * Get a notifier's webhook URL, reading it from the environment when
+ * configured with `urlEnv`.
+ *
+ * @returns The URL, or null if its environment variable is not set
+ */
+export function resolveNotifierUrl(notifier: NotifierConfig): string | null {
+  if (notifier.url) {
+    return notifier.url;
+  }
+  const fromEnv = notifier.urlEnv ? process.env[notifier.urlEnv] : undefined;
+  return fromEnv || null;
+}
+
+/**
+ * Limit a notification to the repos a notifier is routed.
+ *
+ * @returns The notification to send, or null if a team-routed notifier has
+ * no repos with drift
+ */
+export function routeNotification(
+  notification: ScanNotification,
+  notifier: NotifierConfig
+): ScanNotification | null {
+  const { teams } = notifier;
+  if (!teams) {
+    return notification;
+  }
+  const repos = notification.repos.filter(
+    (r) => r.team !== undefined && teams.includes(r.team)
+  );
+  return repos.length > 0 ? { ...notification, repos } : null;
+}
+
+/** Fill in each repo's team from its remote repo-metadata.yaml. */
+async function resolveRepoTeams(
+  repos: NotifiedRepo[],
+  token?: string
+): Promise<NotifiedRepo[]> {
+  return Promise.all(
+    repos.map(async (r) => {
+      if (r.team !== undefined) {
+        return r;
+      }
+      const [owner, name] = r.repo.split("/");
+      const metadata = await getRemoteRepoMetadata(owner, name, token);
+      return metadata?.team ? { ...r, team: metadata.team } : r;
+    })
+  );
+}
+
+async function postPayload(url: string, payload: object): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: globalThis.AbortSignal.timeout(TIMEOUTS.notification),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Webhook returned ${response.status} ${response.statusText}`.trim()
+    );
+  }
+}
+
+/**
+ * Send a scan summary to each configured notifier. Failed deliveries are
+ * reported as warnings and never fail the scan.
+ */
+export async function sendScanNotifications(
+  options: SendScanNotificationsOptions
+): Promise<NotificationDelivery[]> {
+  const { notifiers, token } = options;
+  let { notification } = options;
+
+  if (notifiers.some((n) => n.teams)) {
+    notification = {
+      ...notification,
+      repos: await resolveRepoTeams(notification.repos, token),
+    };
+  }
+
+  const deliveries: NotificationDelivery[] = [];
+  for (const notifier of notifiers) {
+    const routed = routeNotification(notification, notifier);
+    if (!routed) {
+      continue;
+    }
+    try {
+      const url = resolveNotifierUrl(notifier);
+      if (!url) {
+        throw new Error(`${notifier.urlEnv} is not set`);
+      }
+      await postPayload(url, formatNotificationPayload(notifier.type, routed));
+      deliveries.push({ type: notifier.type, delivered: true });
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      console.warn(
+        `${COLORS.yellow}⚠ Failed to send ${notifier.type} notification: ${errorMessage}${COLORS.reset}`
+      );
+      actionsOutput.warning(
+        `Failed to send ${notifier.type} notification: ${errorMessage}`
+      );
+      deliveries.push({
+        type: notifier.type,
+        delivered: false,
+        error: errorMessage,
+      });
+    }
+  }
+  return deliveries;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatNotificationPayload,
+  formatSlackPayload,
+  formatTeamsPayload,
+} from "./payloads.js";
+import type { ScanNotification } from "./payloads.js";
+
+function createNotification(
+  overrides: Partial<ScanNotification> = {}
+): ScanNotification {
+  return {
+    scan: "drift process scan",
+    org: "test-org",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    summary: {
+      reposScanned: 3,
+      reposWithViolations: 1,
+      reposWithErrors: 1,
+      violationsWaived: 0,
+      reposSkipped: 0,
+      issuesCreated: 1,
+      issuesUpdated: 0,
+      issuesClosed: 0,
+    },
+    repos: [
+      {
+        repo: "test-org/repo-a",
+        issueUrls: ["https://github.com/test-org/repo-a/issues/7"],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("payloads", () => {
+  describe("formatNotificationPayload", () => {
+    it("sends the notification as-is to generic webhooks", () => {
+      const notification = createNotification();
+      expect(formatNotificationPayload("webhook", notification)).toBe(
+        notification
+      );
+    });
+  });
+
+  describe("formatSlackPayload", () => {
+    it("includes the summary and links to issues", () => {
+      const payload = JSON.stringify(formatSlackPayload(createNotification()));
+
+      expect(payload).toContain("Drift detected in 1 repo in test-org");
+      expect(payload).toContain("*Repos with violations*\\n1");
+      expect(payload).toContain(
+        "• test-org/repo-a (<https://github.com/test-org/repo-a/issues/7|#7>)"
+      );
+    });
+
+    it("omits the repo list when there is no drift", () => {
+      const payload = formatSlackPayload(createNotification({ repos: [] })) as {
+        text: string;
+        blocks: unknown[];
+      };
+
+      expect(payload.text).toBe("No drift detected in test-org");
+      expect(payload.blocks).toHaveLength(3);
+    });
+
+    it("caps the number of repos listed", () => {
+      const repos = Array.from({ length: 25 }, (_, i) => ({
+        repo: `test-org/repo-${i}`,
+        issueUrls: [],
+      }));
+      const payload = JSON.stringify(
+        formatSlackPayload(createNotification({ repos }))
+      );
+
+      expect(payload).toContain("test-org/repo-19");
+      expect(payload).not.toContain("test-org/repo-20");
+      expect(payload).toContain("...and 5 more");
+    });
+  });
+
+  describe("formatTeamsPayload", () => {
+    it("wraps an Adaptive Card with the summary as facts", () => {
+      const payload = formatTeamsPayload(createNotification()) as {
+        type: string;
+        attachments: { contentType: string; content: { body: unknown[] } }[];
+      };
+
+      expect(payload.type).toBe("message");
+      expect(payload.attachments[0].contentType).toBe(
+        "application/vnd.microsoft.card.adaptive"
+      );
+      const body = JSON.stringify(payload.attachments[0].content.body);
+      expect(body).toContain('{"title":"Repos scanned","value":"3"}');
+      expect(body).toContain(
+        "- test-org/repo-a ([#7](https://github.com/test-org/repo-a/issues/7))"
+      );
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Request payloads for each notifier type: the notification as-is for
+ * generic webhooks, Block Kit for Slack incoming webhooks and an Adaptive
+ * Card for Microsoft Teams.
+ */
+
+import { DISPLAY_LIMITS } from "../constants.js";
+import type {
+  InfraOrgScanSummary,
+  NotifierType,
+  OrgScanSummary,
+  ProcessOrgScanSummary,
+  UnifiedScanSummary,
+} from "../types.js";
+
+export interface NotifiedRepo {
+  repo: string; // owner/repo
+  issueUrls: string[];
+  team?: string; // From repo-metadata.yaml, used for routing
+}
+
+export interface ScanNotification {
+  scan: string; // Command that produced the summary, e.g. "drift code scan"
+  org: string;
+  timestamp: string;
+  summary:
+    | OrgScanSummary
+    | ProcessOrgScanSummary
+    | InfraOrgScanSummary
+    | UnifiedScanSummary;
+  repos: NotifiedRepo[]; // Repos with drift
+}
+
+interface SummaryFact {
+  label: string;
+  value: number;
+}
+
+/** Turn a summary key such as `reposWithIssues` into "Repos with issues". */
+function formatSummaryLabel(key: string): string {
+  const words = key.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** List the summary counts in the order they are declared. */
+function getSummaryFacts(notification: ScanNotification): SummaryFact[] {
+  return Object.entries(notification.summary as object)
+    .filter(([, value]) => typeof value === "number")
+    .map(([key, value]) => ({
+      label: formatSummaryLabel(key),
+      value: Number(value),
+    }));
+}
+
+function getHeadline(notification: ScanNotification): string {
+  const count = notification.repos.length;
+  return count > 0
+    ? `Drift detected in ${count} repo${count > 1 ? "s" : ""} in ${notification.org}`
+    : `No drift detected in ${notification.org}`;
+}
+
+/** Format a repo line with links to its issues in Slack mrkdwn. */
+function formatSlackRepo(repo: ScanNotification["repos"][number]): string {
+  const links = repo.issueUrls.map(
+    (url) => `<${url}|#${url.split("/").pop()}>`
+  );
+  return `• ${repo.repo}${links.length > 0 ? ` (${links.join(", ")})` : ""}`;
+}
+
+/** Format a repo line with links to its issues in Markdown. */
+function formatMarkdownRepo(repo: ScanNotification["repos"][number]): string {
+  const links = repo.issueUrls.map(
+    (url) => `[#${url.split("/").pop()}](${url})`
+  );
+  return `- ${repo.repo}${links.length > 0 ? ` (${links.join(", ")})` : ""}`;
+}
+
+/** List the repos with drift, capped to keep messages readable. */
+function formatRepoList(
+  notification: ScanNotification,
+  formatRepo: (repo: ScanNotification["repos"][number]) => string
+): string[] {
+  const shown = notification.repos.slice(0, DISPLAY_LIMITS.notificationRepos);
+  const lines = shown.map(formatRepo);
+  const hidden = notification.repos.length - shown.length;
+  if (hidden > 0) {
+    lines.push(`...and ${hidden} more`);
+  }
+  return lines;
+}
+
+/**
+ * Build a Slack incoming-webhook payload.
+ */
+export function formatSlackPayload(notification: ScanNotification): object {
+  const headline = getHeadline(notification);
+  const blocks: object[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: `${notification.scan}: ${headline}` },
+    },
+    {
+      type: "section",
+      fields: getSummaryFacts(notification).map((f) => ({
+        type: "mrkdwn",
+        text: `*${f.label}*\n${f.value}`,
+      })),
+    },
+  ];
+  if (notification.repos.length > 0) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: formatRepoList(notification, formatSlackRepo).join("\n"),
+      },
+    });
+  }
+  blocks.push({
+    type: "context",
+    elements: [
+      { type: "mrkdwn", text: `Scanned at ${notification.timestamp}` },
+    ],
+  });
+  return { text: headline, blocks };
+}
+
+/**
+ * Build a Microsoft Teams payload wrapping an Adaptive Card.
+ */
+export function formatTeamsPayload(notification: ScanNotification): object {
+  const body: object[] = [
+    {
+      type: "TextBlock",
+      size: "Medium",
+      weight: "Bolder",
+      wrap: true,
+      text: `${notification.scan}: ${getHeadline(notification)}`,
+    },
+    {
+      type: "FactSet",
+      facts: getSummaryFacts(notification).map((f) => ({
+        title: f.label,
+        value: String(f.value),
+      })),
+    },
+  ];
+  if (notification.repos.length > 0) {
+    body.push({
+      type: "TextBlock",
+      wrap: true,
+      text: formatRepoList(notification, formatMarkdownRepo).join("\n"),
+    });
+  }
+  body.push({
+    type: "TextBlock",
+    isSubtle: true,
+    size: "Small",
+    text: `Scanned at ${notification.timestamp}`,
+  });
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Build the request payload for a notifier type.
+ */
+export function formatNotificationPayload(
+  type: NotifierType,
+  notification: ScanNotification
+): object {
+  if (type === "slack") {
+    return formatSlackPayload(notification);
+  }
+  if (type === "teams") {
+    return formatTeamsPayload(notification);
+  }
+  return notification;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { getInvalidFormatMessage, resolveOutputFormat } from "./format.js";
+
+describe("resolveOutputFormat", () => {
+  it("defaults to text", () => {
+    expect(resolveOutputFormat({})).toBe("text");
+  });
+
+  it("treats --json as the json format", () => {
+    expect(resolveOutputFormat({ json: true })).toBe("json");
+  });
+
+  it("prefers --format over --json", () => {
+    expect(resolveOutputFormat({ json: true, format: "sarif" })).toBe("sarif");
+  });
+
+  it("returns null for unknown formats", () => {
+    expect(resolveOutputFormat({ format: "xml" })).toBeNull();
+    expect(getInvalidFormatMessage("xml")).toBe(
+      'Unknown format "xml". Use one of: text, json, sarif'
+    );
+  });
+});
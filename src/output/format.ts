@@ -0,0 +1,28 @@
+/**
+ * Output format selection for scan commands.
+ */
+
+export type OutputFormat = "text" | "json" | "sarif";
+
+const OUTPUT_FORMATS: readonly OutputFormat[] = ["text", "json", "sarif"];
+
+/**
+ * Resolve the output format from `--format` and the `--json` shorthand.
+ * `--format` takes precedence when both are given.
+ *
+ * @returns The format, or null if `--format` names an unknown format
+ */
+export function resolveOutputFormat(options: {
+  format?: string;
+  json?: boolean;
+}): OutputFormat | null {
+  if (options.format === undefined) {
+    return options.json ? "json" : "text";
+  }
+  return OUTPUT_FORMATS.find((f) => f === options.format) ?? null;
+}
+
+/** Error message for an unknown `--format` value. */
+export function getInvalidFormatMessage(format: string | undefined): string {
+  return `Unknown format "${format}". Use one of: ${OUTPUT_FORMATS.join(", ")}`;
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatSarif,
+  getCodeScanFindings,
+  getInfraFindings,
+  getProcessFindings,
+} from "./sarif.js";
+import type {
+  InfraDriftDetection,
+  ProcessViolationsDetection,
+} from "../types.js";
+
+describe("sarif", () => {
+  describe("getCodeScanFindings", () => {
+    it("maps each kind of code drift to a rule", () => {
+      const findings = getCodeScanFindings("test-org/api", {
+        missingProjects: [{ path: "packages/web", type: "typescript" }],
+        tierValidation: {
+          valid: false,
+          tier: "production",
+          rulesets: ["typescript-internal"],
+          expectedPattern: "*-production",
+          matchedRulesets: [],
+          error: "No ruleset matches *-production",
+        },
+        dependencyChanges: {
+          repository: "test-org/api",
+          scanTime: "2024-01-15 02:00:00 UTC",
+          commit: "abc1234",
+          commitUrl: "https://github.com/test-org/api/commit/abc1234",
+          changes: [
+            { file: "eslint.config.js", status: "modified", checkType: null },
+          ],
+          byCheck: {},
+        },
+        metadataViolations: [
+          {
+            field: "team",
+            type: "missing",
+            allowed: ["platform"],
+            message: 'Missing required field "team" (allowed: platform)',
+          },
+        ],
+      });
+
+      expect(findings.map((f) => [f.ruleId, f.level, f.file])).toEqual([
+        ["drift/code/missing-project", "warning", "packages/web/check.toml"],
+        ["drift/code/tier-mismatch", "error", "check.toml"],
+        ["drift/code/dependency-change", "note", "eslint.config.js"],
+        ["drift/code/metadata-violation", "error", "repo-metadata.yaml"],
+      ]);
+      expect(findings[1].message).toBe("No ruleset matches *-production");
+    });
+
+    it("returns no findings for a clean scan", () => {
+      expect(getCodeScanFindings("test-org/api", {})).toEqual([]);
+    });
+  });
+
+  describe("getProcessFindings", () => {
+    it("uses the violation file, falling back to check.toml", () => {
+      const detection: ProcessViolationsDetection = {
+        repository: "test-org/api",
+        scanTime: "2024-01-15T02:00:00.000Z",
+        summary: [],
+        violations: [
+          {
+            category: "required_files",
+            check: "required_files.exists",
+            rule: "codeowners",
+            message: "CODEOWNERS is missing",
+            severity: "warning",
+            file: "CODEOWNERS",
+          },
+          {
+            category: "branches",
+            check: "branches.protection",
+            rule: "require_reviews",
+            message: "Reviews are not required",
+            severity: "error",
+          },
+        ],
+      };
+
+      expect(
+        getProcessFindings(detection).map((f) => [f.ruleId, f.level, f.file])
+      ).toEqual([
+        [
+          "drift/process/required_files.exists/codeowners",
+          "warning",
+          "CODEOWNERS",
+        ],
+        [
+          "drift/process/branches.protection/require_reviews",
+          "error",
+          "check.toml",
+        ],
+      ]);
+    });
+  });
+
+  describe("getInfraFindings", () => {
+    it("reports missing resources and check errors against the manifest", () => {
+      const resource = {
+        service: "s3",
+        resourceType: "bucket",
+        resourceId: "assets",
+      };
+      const detection: InfraDriftDetection = {
+        repository: "test-org/infra",
+        scanTime: "2024-01-15T02:00:00.000Z",
+        manifest: "infra-manifest.json",
+        summary: { total: 3, found: 1, missing: 1, errors: 1 },
+        resources: [
+          { ...resource, arn: "arn:aws:s3:::found", exists: true },
+          { ...resource, arn: "arn:aws:s3:::assets", exists: false },
+          {
+            ...resource,
+            arn: "arn:aws:s3:::denied",
+            exists: false,
+            error: "AccessDenied",
+          },
+        ],
+      };
+
+      const findings = getInfraFindings(detection);
+
+      expect(findings.map((f) => [f.ruleId, f.level])).toEqual([
+        ["drift/infra/missing-resource", "error"],
+        ["drift/infra/resource-error", "warning"],
+      ]);
+      expect(findings.every((f) => f.file === "infra-manifest.json")).toBe(
+        true
+      );
+      expect(findings[0].message).toContain("arn:aws:s3:::assets");
+    });
+  });
+
+  describe("formatSarif", () => {
+    const finding = {
+      ruleId: "drift/code/tier-mismatch",
+      level: "error" as const,
+      message: "No ruleset matches *-production",
+      repository: "test-org/api",
+      file: "check.toml",
+    };
+
+    it("builds a SARIF 2.1.0 log with one run", () => {
+      const log = formatSarif([finding]);
+
+      expect(log.version).toBe("2.1.0");
+      expect(log.runs).toHaveLength(1);
+      expect(log.runs[0].tool.driver.name).toBe("drift-toolkit");
+      expect(log.runs[0].results[0]).toMatchObject({
+        ruleId: "drift/code/tier-mismatch",
+        ruleIndex: 0,
+        level: "error",
+        message: { text: "No ruleset matches *-production" },
+        locations: [
+          { physicalLocation: { artifactLocation: { uri: "check.toml" } } },
+        ],
+        properties: { repository: "test-org/api" },
+      });
+    });
+
+    it("lists each rule once", () => {
+      const other = { ...finding, repository: "test-org/web" };
+      const process = {
+        ...finding,
+        ruleId: "drift/process/branches.protection/require_reviews",
+      };
+      const log = formatSarif([finding, other, process]);
+
+      expect(log.runs[0].tool.driver.rules.map((r) => r.id)).toEqual([
+        "drift/code/tier-mismatch",
+        "drift/process/branches.protection/require_reviews",
+      ]);
+      expect(log.runs[0].tool.driver.rules[1].name).toBe(
+        "branches.protection.require_reviews"
+      );
+      expect(log.runs[0].results.map((r) => r.ruleIndex)).toEqual([0, 0, 1]);
+    });
+
+    it("gives findings stable fingerprints", () => {
+      const [a] = formatSarif([finding]).runs[0].results;
+      const [b] = formatSarif([finding]).runs[0].results;
+      const [c] = formatSarif([{ ...finding, file: "packages/check.toml" }])
+        .runs[0].results;
+
+      expect(a.partialFingerprints).toEqual(b.partialFingerprints);
+      expect(a.partialFingerprints).not.toEqual(c.partialFingerprints);
+    });
+
+    it("builds an empty run when there are no findings", () => {
+      const log = formatSarif([]);
+      expect(log.runs[0].results).toEqual([]);
+      expect(log.runs[0].tool.driver.rules).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * SARIF 2.1.0 output for drift findings, for upload to GitHub code scanning
+ * and other SARIF consumers.
+ *
+ * Each kind of drift maps to a stable rule ID (e.g. `drift/code/tier-mismatch`),
+ * so dashboards can track findings across scans.
+ */
+
+import { posix } from "path";
+import { FILE_PATTERNS } from "../constants.js";
+import { createFingerprint } from "../utils/index.js";
+import { hasTierMismatch } from "../repo/tier-validation.js";
+import { version } from "../version.js";
+import type {
+  InfraDriftDetection,
+  ProcessViolationsDetection,
+  RepoScanResult,
+} from "../types.js";
+
+export type SarifLevel = "error" | "warning" | "note";
+
+/** A single drift finding, before conversion to a SARIF result */
+export interface DriftFinding {
+  ruleId: string;
+  level: SarifLevel;
+  message: string;
+  repository: string;
+  file: string; // Path relative to the repository root
+}
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: {
+    physicalLocation: { artifactLocation: { uri: string } };
+  }[];
+  partialFingerprints: Record<string, string>;
+  properties: { repository: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    results: SarifResult[];
+  }[];
+}
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const INFORMATION_URI = "https://github.com/chrismlittle123/drift-toolkit";
+
+/** Rules with a fixed ID. Process rules are derived from each violation. */
+const RULES: Record<string, { name: string; description: string }> = {
+  "drift/code/missing-project": {
+    name: "MissingProjectStandards",
+    description: "Project has no check.toml",
+  },
+  "drift/code/tier-mismatch": {
+    name: "TierRulesetMismatch",
+    description: "Rulesets do not match the repository tier",
+  },
+  "drift/code/dependency-change": {
+    name: "DependencyFileChange",
+    description: "File that affects standards enforcement changed",
+  },
+  "drift/code/metadata-violation": {
+    name: "MetadataSchemaViolation",
+    description: "repo-metadata.yaml does not match the config schema",
+  },
+  "drift/infra/missing-resource": {
+    name: "MissingInfraResource",
+    description: "Resource declared in the infra manifest does not exist",
+  },
+  "drift/infra/resource-error": {
+    name: "InfraResourceCheckFailed",
+    description: "Resource declared in the infra manifest could not be checked",
+  },
+};
+
+/** Get the finding for a tier-ruleset mismatch, if any. */
+function getTierMismatchFindings(
+  repository: string,
+  tierValidation: RepoScanResult["tierValidation"]
+): DriftFinding[] {
+  if (!tierValidation || !hasTierMismatch(tierValidation)) {
+    return [];
+  }
+  return [
+    {
+      ruleId: "drift/code/tier-mismatch",
+      level: "error",
+      message:
+        tierValidation.error ??
+        `Rulesets do not match tier "${tierValidation.tier}"`,
+      repository,
+      file: FILE_PATTERNS.checkToml,
+    },
+  ];
+}
+
+/**
+ * Get findings from a code scan result (org or local).
+ */
+export function getCodeScanFindings(
+  repository: string,
+  result: Pick<
+    RepoScanResult,
+    | "missingProjects"
+    | "tierValidation"
+    | "dependencyChanges"
+    | "metadataViolations"
+  >
+): DriftFinding[] {
+  return [
+    ...(result.missingProjects ?? []).map(
+      (project): DriftFinding => ({
+        ruleId: "drift/code/missing-project",
+        level: "warning",
+        message: `${project.type} project at ${project.path} has no ${FILE_PATTERNS.checkToml}`,
+        repository,
+        file: posix.join(project.path, FILE_PATTERNS.checkToml),
+      })
+    ),
+    ...getTierMismatchFindings(repository, result.tierValidation),
+    ...(result.dependencyChanges?.changes ?? []).map(
+      (change): DriftFinding => ({
+        ruleId: "drift/code/dependency-change",
+        level: "note",
+        message: `${change.file} was ${change.status}`,
+        repository,
+        file: change.file,
+      })
+    ),
+    ...(result.metadataViolations ?? []).map(
+      (violation): DriftFinding => ({
+        ruleId: "drift/code/metadata-violation",
+        level: "error",
+        message: violation.message,
+        repository,
+        file: FILE_PATTERNS.metadata[0],
+      })
+    ),
+  ];
+}
+
+/**
+ * Get findings from a process scan. Violations without a file are reported
+ * against check.toml, where the process standards are configured.
+ */
+export function getProcessFindings(
+  detection: ProcessViolationsDetection
+): DriftFinding[] {
+  return detection.violations.map((v) => ({
+    ruleId: `drift/process/${v.check}/${v.rule}`,
+    level: v.severity,
+    message: v.message,
+    repository: detection.repository,
+    file: v.file ?? FILE_PATTERNS.checkToml,
+  }));
+}
+
+/**
+ * Get findings from an infra scan: missing resources and resources that
+ * could not be checked, reported against the manifest.
+ */
+export function getInfraFindings(
+  detection: InfraDriftDetection
+): DriftFinding[] {
+  const findings: DriftFinding[] = [];
+  for (const r of detection.resources) {
+    if (r.error) {
+      findings.push({
+        ruleId: "drift/infra/resource-error",
+        level: "warning",
+        message: `Could not check ${r.arn}: ${r.error}`,
+        repository: detection.repository,
+        file: detection.manifest,
+      });
+    } else if (!r.exists) {
+      findings.push({
+        ruleId: "drift/infra/missing-resource",
+        level: "error",
+        message: `${r.service} ${r.resourceType} ${r.resourceId} not found (${r.arn})`,
+        repository: detection.repository,
+        file: detection.manifest,
+      });
+    }
+  }
+  return findings;
+}
+
+/** Describe a rule, deriving process rules from their ID. */
+function createRule(finding: DriftFinding): SarifRule {
+  const known = RULES[finding.ruleId] as
+    | { name: string; description: string }
+    | undefined;
+  const [, , check, rule] = finding.ruleId.split("/");
+  return {
+    id: finding.ruleId,
+    name: known?.name ?? `${check}.${rule}`,
+    shortDescription: {
+      text: known?.description ?? `Process check ${check} failed: ${rule}`,
+    },
+    defaultConfiguration: { level: finding.level },
+  };
+}
+
+/**
+ * Build a SARIF log with a single drift-toolkit run.
+ * Only rules with at least one finding are included.
+ */
+export function formatSarif(findings: DriftFinding[]): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  const results = findings.map((finding): SarifResult => {
+    let ruleIndex = ruleIndexes.get(finding.ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.push(createRule(finding)) - 1;
+      ruleIndexes.set(finding.ruleId, ruleIndex);
+    }
+    return {
+      ruleId: finding.ruleId,
+      ruleIndex,
+      level: finding.level,
+      message: { text: finding.message },
+      locations: [
+        { physicalLocation: { artifactLocation: { uri: finding.file } } },
+      ],
+      partialFingerprints: {
+        "driftFinding/v1": createFingerprint({
+          ruleId: finding.ruleId,
+          repository: finding.repository,
+          file: finding.file,
+          message: finding.message,
+        }),
+      },
+      properties: { repository: finding.repository },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "drift-toolkit",
+            version,
+            informationUri: INFORMATION_URI,
+            rules,
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
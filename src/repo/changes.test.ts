@@ -6,6 +6,7 @@ import { execSync } from "child_process";
 import {
   isGitRepo,
   getHeadCommit,
+  getOriginRepo,
   detectCheckTomlChanges,
   getCheckTomlFilesAtCommit,
   compareCheckTomlFiles,
@@ -14,6 +15,9 @@ import {
   getRecentCommits,
   getChangedFilesInCommits,
   detectRecentChanges,
+  getCommitWindow,
+  getLastCommitForFile,
+  EMPTY_TREE_SHA,
 } from "./recent-changes.js";
 
 describe("change tracking", () => {
@@ -56,6 +60,28 @@ describe("change tracking", () => {
     });
   });
 
+  describe("getOriginRepo", () => {
+    it("returns null without an origin remote", () => {
+      initGitRepo();
+      expect(getOriginRepo(testDir)).toBeNull();
+    });
+
+    it("parses HTTPS and SSH remote URLs", () => {
+      initGitRepo();
+      git("remote add origin https://github.com/my-org/my-repo.git");
+      expect(getOriginRepo(testDir)).toEqual({
+        owner: "my-org",
+        repo: "my-repo",
+      });
+
+      git("remote set-url origin git@github.example.com:my-org/other.repo");
+      expect(getOriginRepo(testDir)).toEqual({
+        owner: "my-org",
+        repo: "other.repo",
+      });
+    });
+  });
+
   describe("getHeadCommit", () => {
     it("returns null for non-git directory", () => {
       expect(getHeadCommit(testDir)).toBeNull();
@@ -517,4 +543,128 @@ describe("change tracking", () => {
       expect(result.files).toEqual([]);
     });
   });
+
+  describe("getCommitWindow", () => {
+    function commitAt(file: string, message: string, hoursAgo: number): void {
+      const date = new Date(
+        Date.now() - hoursAgo * 60 * 60 * 1000
+      ).toISOString();
+      writeFileSync(join(testDir, file), message);
+      git(`add ${file}`);
+      execSync(`git commit -m '${message}'`, {
+        cwd: testDir,
+        encoding: "utf-8",
+        env: {
+          ...process.env,
+          GIT_AUTHOR_DATE: date,
+          GIT_COMMITTER_DATE: date,
+        },
+      });
+    }
+
+    it("returns null when no commits are in the window", () => {
+      initGitRepo();
+      commitAt("README.md", "Old commit", 48);
+
+      expect(getCommitWindow(testDir, { hours: 24 })).toBeNull();
+    });
+
+    it("uses the parent of the oldest commit in the window as base", () => {
+      initGitRepo();
+      commitAt("README.md", "Old commit", 48);
+      const oldSha = git("rev-parse HEAD");
+      commitAt("check.toml", "First in window", 10);
+      commitAt("knip.json", "Second in window", 2);
+
+      const window = getCommitWindow(testDir, { hours: 24 });
+
+      expect(window?.baseCommit).toBe(oldSha);
+      expect(window?.commits).toHaveLength(2);
+    });
+
+    it("uses the empty tree when the window includes the root commit", () => {
+      initGitRepo();
+      commitAt("README.md", "Root commit", 2);
+
+      const window = getCommitWindow(testDir, { hours: 24 });
+
+      expect(window?.baseCommit).toBe(EMPTY_TREE_SHA);
+    });
+
+    it("does not treat a shallow clone's boundary as a root commit", () => {
+      initGitRepo();
+      commitAt("README.md", "First", 6);
+      commitAt("check.toml", "Second", 4);
+      commitAt("knip.json", "Third", 2);
+      const cloneDir = `${testDir}-shallow`;
+      execSync(`git clone --quiet --depth 2 file://${testDir} ${cloneDir}`, {
+        stdio: "pipe",
+      });
+
+      try {
+        const window = getCommitWindow(cloneDir, { hours: 24 });
+
+        expect(window?.commits).toHaveLength(2);
+        expect(window?.baseCommit).toBe(git("rev-parse HEAD~1"));
+      } finally {
+        rmSync(cloneDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("getLastCommitForFile", () => {
+    it("returns the latest commit in the range that touched the file", () => {
+      initGitRepo();
+      writeFileSync(join(testDir, "README.md"), "# Test");
+      git("add README.md");
+      git("commit -m 'Initial commit'");
+      const base = git("rev-parse HEAD");
+
+      git("config user.email 'first@test.com'");
+      writeFileSync(join(testDir, "check.toml"), "[code]");
+      git("add check.toml");
+      git("commit -m 'Add check.toml'");
+      const checkTomlSha = git("rev-parse HEAD");
+
+      git("config user.email 'second@test.com'");
+      writeFileSync(join(testDir, "other.txt"), "other");
+      git("add other.txt");
+      git("commit -m 'Unrelated change'");
+
+      const result = getLastCommitForFile(testDir, "check.toml", base);
+
+      expect(result?.sha).toBe(checkTomlSha);
+      expect(result?.author).toBe("first@test.com");
+      expect(result?.message).toBe("Add check.toml");
+    });
+
+    it("returns null when the file was not touched in the range", () => {
+      initGitRepo();
+      writeFileSync(join(testDir, "check.toml"), "[code]");
+      git("add check.toml");
+      git("commit -m 'Initial commit'");
+      const base = git("rev-parse HEAD");
+
+      writeFileSync(join(testDir, "other.txt"), "other");
+      git("add other.txt");
+      git("commit -m 'Unrelated change'");
+
+      expect(getLastCommitForFile(testDir, "check.toml", base)).toBeNull();
+    });
+
+    it("searches full history from the empty tree", () => {
+      initGitRepo();
+      writeFileSync(join(testDir, "check.toml"), "[code]");
+      git("add check.toml");
+      git("commit -m 'Initial commit'");
+
+      const result = getLastCommitForFile(
+        testDir,
+        "check.toml",
+        EMPTY_TREE_SHA
+      );
+
+      expect(result?.message).toBe("Initial commit");
+    });
+  });
 });
@@ -54,6 +54,18 @@ export function getHeadCommit(repoPath: string): string | null {
   return result || null;
 }
 
+/**
+ * Get the owner and name of the repo the `origin` remote points at.
+ * Handles HTTPS and SSH remote URLs.
+ */
+export function getOriginRepo(
+  repoPath: string
+): { owner: string; repo: string } | null {
+  const url = execGit(repoPath, "remote get-url origin");
+  const match = /[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/.exec(url);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
 /**
  * A file change with status
  */
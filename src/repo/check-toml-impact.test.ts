@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { diffCheckToml } from "./check-toml.js";
+import { summarizeImpact } from "./check-toml-impact.js";
+
+function impacts(before: string | null, after: string | null): string[] {
+  return (diffCheckToml(before, after) ?? []).map(
+    (c) => `${c.path} ${c.impact}`
+  );
+}
+
+describe("check-toml-impact", () => {
+  describe("classifyCheckTomlChange", () => {
+    it("treats disabling a check as weakening", () => {
+      expect(
+        impacts(
+          "[code.linting.eslint]\nenabled = true\n",
+          "[code.linting.eslint]\nenabled = false\n"
+        )
+      ).toEqual(["[code.linting.eslint] weakening"]);
+      expect(
+        impacts(
+          "[code.linting.eslint]\nenabled = false\n",
+          "[code.linting.eslint]\nenabled = true\n"
+        )
+      ).toEqual(["[code.linting.eslint] strengthening"]);
+    });
+
+    it("treats removed tables and rulesets as weakening", () => {
+      expect(impacts("[code.types.tsc]\n[code]\n", "[code]\n")).toEqual([
+        "[code.types] weakening",
+      ]);
+      expect(
+        impacts(
+          '[extends]\nrulesets = ["base", "strict"]\n',
+          '[extends]\nrulesets = ["base"]\n'
+        )
+      ).toEqual(["[extends].rulesets weakening"]);
+    });
+
+    it("treats added exclude patterns as weakening", () => {
+      expect(
+        impacts(
+          '[code.linting.eslint]\nexclude = ["dist"]\n',
+          '[code.linting.eslint]\nexclude = ["dist", "src/legacy"]\n'
+        )
+      ).toEqual(["[code.linting.eslint].exclude weakening"]);
+      expect(
+        impacts(
+          "[code.linting.eslint]\n",
+          '[code.linting.eslint]\nignore = ["src/**"]\n'
+        )
+      ).toEqual(["[code.linting.eslint].ignore weakening"]);
+    });
+
+    it("judges numbers by whether the key is a minimum or a maximum", () => {
+      expect(
+        impacts(
+          "[process.branches]\nrequire_reviews = 1\nmax_warnings = 10\n",
+          "[process.branches]\nrequire_reviews = 2\nmax_warnings = 20\n"
+        )
+      ).toEqual([
+        "[process.branches].require_reviews strengthening",
+        "[process.branches].max_warnings weakening",
+      ]);
+    });
+
+    it("treats changes it cannot judge as neutral", () => {
+      expect(
+        impacts(
+          '[process.branches]\npattern = "main"\nstale_days = 30\n',
+          '[process.branches]\npattern = "release"\nstale_days = 60\n'
+        )
+      ).toEqual([
+        "[process.branches].pattern neutral",
+        "[process.branches].stale_days neutral",
+      ]);
+    });
+  });
+
+  describe("summarizeImpact", () => {
+    it("is weakening if any change weakens standards", () => {
+      expect(
+        summarizeImpact([
+          { impact: "strengthening" },
+          { impact: "weakening" },
+          { impact: "neutral" },
+        ])
+      ).toBe("weakening");
+    });
+
+    it("is strengthening or neutral otherwise", () => {
+      expect(
+        summarizeImpact([{ impact: "neutral" }, { impact: "strengthening" }])
+      ).toBe("strengthening");
+      expect(summarizeImpact([{ impact: "neutral" }])).toBe("neutral");
+      expect(summarizeImpact([])).toBe("neutral");
+    });
+  });
+});
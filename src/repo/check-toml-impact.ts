@@ -0,0 +1,128 @@
+/**
+ * Rule-based classification of check.toml changes.
+ *
+ * Labels each change as weakening (e.g. a check disabled, a ruleset removed,
+ * an exclude pattern added), strengthening (the reverse) or neutral, judged
+ * by the kind of change and the name of the key it touches.
+ */
+
+import type { ChangeImpact, CheckTomlChange } from "../types.js";
+
+type UnclassifiedChange = Omit<CheckTomlChange, "description" | "impact">;
+
+/** Keys listing what standards do not apply to, e.g. `exclude`, `allow_skip` */
+const EXEMPTION_KEY =
+  /(^|_)(exclude[sd]?|ignore[sd]?|skip|skipped|allow|allowed|exempt|exemptions?)(_|$)/;
+
+/** Keys listing what a repo must satisfy, e.g. `rulesets`, `required_checks` */
+const REQUIREMENT_LIST_KEY =
+  /(^|_)(rulesets?|required|require|protected|checks|extends)(_|$)/;
+
+/** Numeric keys where a lower value is stricter, e.g. `max_warnings` */
+const UPPER_BOUND_KEY = /(^|_)(max|maximum|limit)(_|$)/;
+
+/** Numeric keys where a higher value is stricter, e.g. `require_reviews` */
+const LOWER_BOUND_KEY =
+  /(^|_)(min|minimum|require|required|reviews|approvals|coverage|threshold)(_|$)/;
+
+/** Boolean keys where true is stricter, e.g. `require_signed_commits` */
+const STRICT_FLAG_KEY = /^(require|enforce|strict|block|dismiss)(_|$)|_strict$/;
+
+/** Name of the key or table a change path points at. */
+function getKeyName(path: string): string {
+  const match = /^\[(.*)\](?:\.(.+))?$/.exec(path);
+  if (!match) {
+    return path;
+  }
+  return match[2] ?? match[1].split(".").pop() ?? "";
+}
+
+function isTablePath(path: string): boolean {
+  return /^\[.*\]$/.test(path);
+}
+
+/** Impact when `stricter` says whether the change tightens the standard. */
+function impactOf(stricter: boolean): ChangeImpact {
+  return stricter ? "strengthening" : "weakening";
+}
+
+/** Impact of adding (or, inverted, removing) a key or table. */
+function classifyPresence(
+  path: string,
+  value: unknown,
+  added: boolean
+): ChangeImpact {
+  const key = getKeyName(path);
+  if (EXEMPTION_KEY.test(key)) {
+    return impactOf(!added);
+  }
+  const isRequirement =
+    isTablePath(path) ||
+    REQUIREMENT_LIST_KEY.test(key) ||
+    (typeof value === "number" && LOWER_BOUND_KEY.test(key)) ||
+    (value === true && STRICT_FLAG_KEY.test(key));
+  return isRequirement ? impactOf(added) : "neutral";
+}
+
+function classifyItem(key: string, added: boolean): ChangeImpact {
+  if (EXEMPTION_KEY.test(key)) {
+    return impactOf(!added);
+  }
+  return REQUIREMENT_LIST_KEY.test(key) ? impactOf(added) : "neutral";
+}
+
+function classifyNumber(key: string, raised: boolean): ChangeImpact {
+  if (UPPER_BOUND_KEY.test(key)) {
+    return impactOf(!raised);
+  }
+  return LOWER_BOUND_KEY.test(key) ? impactOf(raised) : "neutral";
+}
+
+function classifyChangedValue(key: string, after: unknown): ChangeImpact {
+  if (typeof after !== "boolean") {
+    return "neutral";
+  }
+  if (EXEMPTION_KEY.test(key)) {
+    return impactOf(!after);
+  }
+  return STRICT_FLAG_KEY.test(key) ? impactOf(after) : "neutral";
+}
+
+/** Classify a single check.toml change. */
+export function classifyCheckTomlChange(
+  change: UnclassifiedChange
+): ChangeImpact {
+  const key = getKeyName(change.path);
+  switch (change.kind) {
+    case "enabled":
+    case "disabled":
+      return impactOf(change.kind === "enabled");
+    case "added":
+      return classifyPresence(change.path, change.after, true);
+    case "removed":
+      return classifyPresence(change.path, change.before, false);
+    case "item-added":
+    case "item-removed":
+      return classifyItem(key, change.kind === "item-added");
+    case "raised":
+    case "lowered":
+      return classifyNumber(key, change.kind === "raised");
+    default:
+      return classifyChangedValue(key, change.after);
+  }
+}
+
+/**
+ * Overall impact of a set of changes: weakening if any change weakens
+ * standards, otherwise strengthening if any strengthens them.
+ */
+export function summarizeImpact(
+  changes: Pick<CheckTomlChange, "impact">[]
+): ChangeImpact {
+  if (changes.some((c) => c.impact === "weakening")) {
+    return "weakening";
+  }
+  return changes.some((c) => c.impact === "strengthening")
+    ? "strengthening"
+    : "neutral";
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { execSync } from "child_process";
+import { diffCheckToml, diffCheckTomlBetweenCommits } from "./check-toml.js";
+
+function descriptions(before: string | null, after: string | null): string[] {
+  return (diffCheckToml(before, after) ?? []).map((c) => c.description);
+}
+
+describe("check-toml", () => {
+  describe("diffCheckToml", () => {
+    it("ignores reordered sections and keys", () => {
+      const before = `
+[code.linting.eslint]
+enabled = true
+
+[process.branches]
+require_reviews = 2
+protected = ["main"]
+`;
+      const after = `
+[process.branches]
+protected = ["main"]
+require_reviews = 2
+
+[code.linting.eslint]
+enabled = true
+`;
+      expect(diffCheckToml(before, after)).toEqual([]);
+    });
+
+    it("describes raised and lowered numbers", () => {
+      const before = "[process.branches]\nrequire_reviews = 2\nmax_age = 30\n";
+      const after = "[process.branches]\nrequire_reviews = 1\nmax_age = 60\n";
+
+      expect(diffCheckToml(before, after)).toEqual([
+        {
+          path: "[process.branches].require_reviews",
+          kind: "lowered",
+          before: 2,
+          after: 1,
+          description: "`[process.branches].require_reviews` lowered 2 → 1",
+          impact: "weakening",
+        },
+        {
+          path: "[process.branches].max_age",
+          kind: "raised",
+          before: 30,
+          after: 60,
+          description: "`[process.branches].max_age` raised 30 → 60",
+          impact: "weakening",
+        },
+      ]);
+    });
+
+    it("reports enabled flags against their table", () => {
+      expect(
+        descriptions(
+          "[code.linting.eslint]\nenabled = true\n",
+          "[code.linting.eslint]\nenabled = false\n"
+        )
+      ).toEqual(["`[code.linting.eslint]` disabled"]);
+    });
+
+    it("lists items added to and removed from arrays", () => {
+      expect(
+        descriptions(
+          '[extends]\nrulesets = ["base", "typescript-production"]\n',
+          '[extends]\nrulesets = ["base", "typescript-internal"]\n'
+        )
+      ).toEqual([
+        "`[extends].rulesets` removed typescript-production",
+        "`[extends].rulesets` added typescript-internal",
+      ]);
+    });
+
+    it("describes added and removed keys and tables", () => {
+      expect(
+        descriptions(
+          'version = "1"\n[code.types.tsc]\nenabled = true\n',
+          'version = "2"\n[code.linting.eslint]\nenabled = true\n[process.branches]\nrequire_reviews = 1\n'
+        )
+      ).toEqual([
+        "`version` changed 1 → 2",
+        "`[code.types]` removed",
+        "`[code.linting]` added",
+        "`[process]` added",
+      ]);
+      expect(
+        descriptions(
+          "[process.branches]\n",
+          "[process.branches]\nrequire_reviews = 1\n"
+        )
+      ).toEqual(["`[process.branches].require_reviews` set to 1"]);
+    });
+
+    it("treats a missing version as empty", () => {
+      expect(descriptions(null, "[code]\n")).toEqual(["`[code]` added"]);
+      expect(descriptions("[code]\n", null)).toEqual(["`[code]` removed"]);
+    });
+
+    it("returns null for invalid TOML", () => {
+      expect(diffCheckToml("[code", "[code]\n")).toBeNull();
+    });
+  });
+
+  describe("diffCheckTomlBetweenCommits", () => {
+    let testDir: string;
+
+    function git(args: string): string {
+      return execSync(`git ${args}`, {
+        cwd: testDir,
+        encoding: "utf-8",
+        stdio: ["pipe", "pipe", "pipe"],
+      }).trim();
+    }
+
+    function commit(content: string): string {
+      writeFileSync(join(testDir, "check.toml"), content);
+      git("add check.toml");
+      git("commit -m 'Update check.toml'");
+      return git("rev-parse HEAD");
+    }
+
+    beforeEach(() => {
+      testDir = join(
+        tmpdir(),
+        `drift-check-toml-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      );
+      mkdirSync(testDir, { recursive: true });
+      git("init");
+      git("config user.email 'test@test.com'");
+      git("config user.name 'Test User'");
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("compares the file between two commits", () => {
+      const base = commit("[code.linting.eslint]\nenabled = true\n");
+      commit("[code.linting.eslint]\nenabled = false\n");
+
+      expect(
+        diffCheckTomlBetweenCommits(testDir, "check.toml", base, "HEAD")?.map(
+          (c) => c.description
+        )
+      ).toEqual(["`[code.linting.eslint]` disabled"]);
+    });
+  });
+});
@@ -1,9 +1,12 @@
 /**
- * TOML validation utilities for check.toml files.
+ * TOML validation and semantic diff utilities for check.toml files.
  */
 import { readFileSync } from "fs";
 import { join } from "path";
 import { parse as parseToml } from "smol-toml";
+import type { CheckTomlChange, CheckTomlChangeKind } from "../types.js";
+import { execGit } from "../utils/git.js";
+import { classifyCheckTomlChange } from "./check-toml-impact.js";
 
 export interface CheckTomlValidation {
   path: string;
@@ -55,3 +58,202 @@ export function validateAllCheckToml(
       : undefined,
   };
 }
+
+type TomlTable = Record<string, unknown>;
+
+function isTable(value: unknown): value is TomlTable {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function isScalar(value: unknown): boolean {
+  return !isTable(value) && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** Display path: `[table]` for tables, `[table].key` or `key` for keys. */
+function formatPath(keys: string[], isTablePath: boolean): string {
+  if (isTablePath) {
+    return `[${keys.join(".")}]`;
+  }
+  const key = keys[keys.length - 1];
+  return keys.length > 1 ? `[${keys.slice(0, -1).join(".")}].${key}` : key;
+}
+
+function describeChange(
+  path: string,
+  kind: CheckTomlChangeKind,
+  before: unknown,
+  after: unknown
+): string {
+  switch (kind) {
+    case "added":
+      return isTable(after)
+        ? `\`${path}\` added`
+        : `\`${path}\` set to ${formatValue(after)}`;
+    case "removed":
+      return `\`${path}\` removed`;
+    case "enabled":
+    case "disabled":
+      return `\`${path}\` ${kind}`;
+    case "item-added":
+      return `\`${path}\` added ${formatValue(after)}`;
+    case "item-removed":
+      return `\`${path}\` removed ${formatValue(before)}`;
+    default:
+      return `\`${path}\` ${kind} ${formatValue(before)} → ${formatValue(after)}`;
+  }
+}
+
+function pushChange(
+  changes: CheckTomlChange[],
+  change: Omit<CheckTomlChange, "description" | "impact">
+): void {
+  changes.push({
+    ...change,
+    description: describeChange(
+      change.path,
+      change.kind,
+      change.before,
+      change.after
+    ),
+    impact: classifyCheckTomlChange(change),
+  });
+}
+
+/** List items added to or removed from an array of plain values. */
+function diffItems(
+  path: string,
+  before: unknown[],
+  after: unknown[],
+  changes: CheckTomlChange[]
+): void {
+  const beforeKeys = before.map((v) => JSON.stringify(v));
+  const afterKeys = after.map((v) => JSON.stringify(v));
+  before.forEach((item, i) => {
+    if (!afterKeys.includes(beforeKeys[i])) {
+      pushChange(changes, { path, kind: "item-removed", before: item });
+    }
+  });
+  after.forEach((item, i) => {
+    if (!beforeKeys.includes(afterKeys[i])) {
+      pushChange(changes, { path, kind: "item-added", after: item });
+    }
+  });
+}
+
+/** Compare two values that are not both tables. */
+function diffLeaf(
+  keys: string[],
+  before: unknown,
+  after: unknown,
+  changes: CheckTomlChange[]
+): void {
+  if (before === undefined || after === undefined) {
+    const value = before === undefined ? after : before;
+    pushChange(changes, {
+      path: formatPath(keys, isTable(value)),
+      kind: before === undefined ? "added" : "removed",
+      before,
+      after,
+    });
+    return;
+  }
+  const path = formatPath(keys, false);
+  if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    [...before, ...after].every(isScalar)
+  ) {
+    diffItems(path, before, after, changes);
+    return;
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+  let kind: CheckTomlChangeKind = "changed";
+  if (typeof before === "number" && typeof after === "number") {
+    kind = after > before ? "raised" : "lowered";
+  }
+  pushChange(changes, { path, kind, before, after });
+}
+
+function diffTables(
+  keys: string[],
+  before: TomlTable,
+  after: TomlTable,
+  changes: CheckTomlChange[]
+): void {
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  for (const name of names) {
+    const [from, to] = [before[name], after[name]];
+    // A table's enabled flag switches the whole table on or off
+    if (
+      name === "enabled" &&
+      typeof from === "boolean" &&
+      typeof to === "boolean"
+    ) {
+      if (from !== to) {
+        pushChange(changes, {
+          path: formatPath(keys, true),
+          kind: to ? "enabled" : "disabled",
+          before: from,
+          after: to,
+        });
+      }
+      continue;
+    }
+    if (isTable(from) && isTable(to)) {
+      diffTables([...keys, name], from, to, changes);
+    } else {
+      diffLeaf([...keys, name], from, to, changes);
+    }
+  }
+}
+
+/**
+ * Compare two versions of a check.toml key by key, so reordered sections
+ * do not show up as changes. A missing version (null) counts as empty.
+ * Each change is classified as weakening, strengthening or neutral.
+ *
+ * @returns The changes in file order, or null if either version is invalid TOML
+ */
+export function diffCheckToml(
+  before: string | null,
+  after: string | null
+): CheckTomlChange[] | null {
+  let beforeTable: TomlTable;
+  let afterTable: TomlTable;
+  try {
+    beforeTable = before ? parseToml(before) : {};
+    afterTable = after ? parseToml(after) : {};
+  } catch {
+    return null;
+  }
+  const changes: CheckTomlChange[] = [];
+  diffTables([], beforeTable, afterTable, changes);
+  return changes;
+}
+
+/**
+ * Compare a check.toml file between two commits.
+ *
+ * @returns The changes, or null if either version is invalid TOML
+ */
+export function diffCheckTomlBetweenCommits(
+  repoPath: string,
+  filePath: string,
+  fromCommit: string,
+  toCommit: string
+): CheckTomlChange[] | null {
+  const read = (commit: string): string | null =>
+    execGit(repoPath, `show ${commit}:"${filePath}"`) || null;
+  return diffCheckToml(read(fromCommit), read(toCommit));
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { execSync } from "child_process";
+import { diffConfigFile, diffConfigFileBetweenCommits } from "./config-diff.js";
+
+function descriptions(
+  file: string,
+  before: string | null,
+  after: string | null
+): string[] {
+  return (diffConfigFile(file, before, after) ?? []).map((c) => c.description);
+}
+
+describe("config-diff", () => {
+  describe("diffConfigFile", () => {
+    it("describes changed JSONC values, ignoring comments and formatting", () => {
+      const before = `{
+  // Strict mode for all packages
+  "compilerOptions": { "strict": true, "target": "ES2022", },
+  "include": ["src"]
+}`;
+      const after = `{
+  "include": ["src"],
+  /* Loosened for the migration */
+  "compilerOptions": {
+    "target": "ES2022",
+    "strict": false
+  }
+}`;
+
+      expect(diffConfigFile("tsconfig.json", before, after)).toEqual([
+        {
+          path: "compilerOptions.strict",
+          kind: "changed",
+          before: true,
+          after: false,
+          description: "`compilerOptions.strict` changed true → false",
+        },
+      ]);
+    });
+
+    it("keeps comment markers inside strings", () => {
+      expect(
+        descriptions(
+          "package.json",
+          '{ "homepage": "https://example.com" }',
+          '{ "homepage": "https://example.org" }'
+        )
+      ).toEqual([
+        "`homepage` changed https://example.com → https://example.org",
+      ]);
+    });
+
+    it("describes ESLint rule changes by severity", () => {
+      const before = JSON.stringify({
+        rules: {
+          "no-console": "error",
+          "@typescript-eslint/no-explicit-any": [
+            "error",
+            { fixToUnknown: true },
+          ],
+          eqeqeq: "warn",
+          "no-var": 0,
+        },
+      });
+      const after = JSON.stringify({
+        rules: {
+          "no-console": "off",
+          "@typescript-eslint/no-explicit-any": ["error"],
+          eqeqeq: 2,
+          "no-var": "error",
+          "prefer-const": "warn",
+        },
+      });
+
+      expect(descriptions(".eslintrc.json", before, after)).toEqual([
+        "rule `no-console` turned off",
+        "rule `@typescript-eslint/no-explicit-any` options changed",
+        "rule `eqeqeq` changed warn → error",
+        "rule `no-var` turned on (error)",
+        "rule `prefer-const` added (warn)",
+      ]);
+    });
+
+    it("parses YAML and extensionless rc files", () => {
+      expect(
+        descriptions(
+          ".github/workflows/ci.yml",
+          "on:\n  push:\n    branches: [main]\njobs:\n  test:\n    timeout-minutes: 10\n",
+          "on:\n  push:\n    branches: [main, release]\njobs:\n  test:\n    timeout-minutes: 30\n"
+        )
+      ).toEqual([
+        "`on.push.branches` added release",
+        "`jobs.test.timeout-minutes` raised 10 → 30",
+      ]);
+      expect(
+        descriptions(
+          ".eslintrc",
+          "rules:\n  semi: error\n",
+          "rules:\n  quotes: warn\n"
+        )
+      ).toEqual(["rule `semi` removed", "rule `quotes` added (warn)"]);
+      expect(
+        descriptions(".prettierrc", '{ "semi": true }', '{ "semi": false }')
+      ).toEqual(["`semi` changed true → false"]);
+    });
+
+    it("does not inline nested values", () => {
+      expect(
+        descriptions(
+          "ci.yml",
+          "steps:\n  - run: npm test\n",
+          "steps:\n  - run: npm test -- --bail\n"
+        )
+      ).toEqual(["`steps` changed"]);
+      expect(descriptions("a.json", "{}", '{ "a": { "b": 1 } }')).toEqual([
+        "`a` added",
+      ]);
+    });
+
+    it("quotes keys containing dots", () => {
+      expect(
+        descriptions(
+          "a.json",
+          '{ "files.eol": "lf" }',
+          '{ "files.eol": "auto" }'
+        )
+      ).toEqual(['`["files.eol"]` changed lf → auto']);
+    });
+
+    it("returns null for unsupported or invalid files", () => {
+      expect(
+        diffConfigFile("eslint.config.js", "export default [];", "")
+      ).toBeNull();
+      expect(diffConfigFile("tsconfig.json", "{ invalid", "{}")).toBeNull();
+      expect(diffConfigFile("list.yml", "- a\n", "- b\n")).toBeNull();
+    });
+  });
+
+  describe("diffConfigFileBetweenCommits", () => {
+    let repoDir: string;
+
+    beforeEach(() => {
+      repoDir = join(tmpdir(), `drift-config-diff-${Date.now()}`);
+      mkdirSync(repoDir, { recursive: true });
+      execSync("git init --quiet", { cwd: repoDir });
+      execSync('git config user.email "test@example.com"', { cwd: repoDir });
+      execSync('git config user.name "Test"', { cwd: repoDir });
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it("compares the file at two commits", () => {
+      writeFileSync(
+        join(repoDir, "tsconfig.json"),
+        '{ "compilerOptions": { "strict": true } }\n'
+      );
+      execSync("git add . && git commit --quiet -m first", { cwd: repoDir });
+      writeFileSync(join(repoDir, "tsconfig.json"), "{}\n");
+      execSync("git add . && git commit --quiet -m second", { cwd: repoDir });
+
+      expect(
+        diffConfigFileBetweenCommits(
+          repoDir,
+          "tsconfig.json",
+          "HEAD~1",
+          "HEAD"
+        )?.map((c) => c.description)
+      ).toEqual(["`compilerOptions` removed"]);
+    });
+  });
+});
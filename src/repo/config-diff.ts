@@ -0,0 +1,331 @@
+/**
+ * Structured diffs for JSON, JSONC and YAML config files.
+ *
+ * Compares two versions of a tracked dependency file key by key, e.g.
+ * "`compilerOptions.strict` changed true → false" or "rule `no-console`
+ * turned off". JS and other config formats cannot be parsed safely, so they
+ * only get line diffs.
+ */
+
+import { basename, extname } from "path";
+import { parse as parseYaml } from "yaml";
+import type { CheckTomlChangeKind, ConfigChange } from "../types.js";
+import { execGit } from "../utils/git.js";
+
+type ConfigObject = Record<string, unknown>;
+
+type ConfigFormat = "json" | "yaml" | "json-or-yaml";
+
+/** Extensionless rc files (.eslintrc, .prettierrc) may be JSON or YAML */
+const RC_FILE = /^\.[\w-]+rc$/;
+
+const ESLINT_RC_FILE = /^\.eslintrc(\.(json|jsonc|ya?ml))?$/;
+
+const RULE_SEVERITIES = ["off", "warn", "error"];
+
+function getConfigFormat(filePath: string): ConfigFormat | null {
+  const name = basename(filePath);
+  const ext = extname(name).toLowerCase();
+  if (ext === ".json" || ext === ".jsonc") {
+    return "json";
+  }
+  if (ext === ".yml" || ext === ".yaml") {
+    return "yaml";
+  }
+  return RC_FILE.test(name) ? "json-or-yaml" : null;
+}
+
+/**
+ * Strip comments and trailing commas, so JSONC (tsconfig.json, VS Code
+ * settings) parses as JSON.
+ */
+function stripJsonComments(text: string): string {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      const start = i++;
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === "\\" ? 2 : 1;
+      }
+      result += text.slice(start, ++i);
+    } else if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, "$1");
+}
+
+function isObject(value: unknown): value is ConfigObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return typeof value !== "object" || value === null;
+}
+
+/**
+ * Parse a config file. An empty file counts as an empty object.
+ *
+ * @throws Error if the content does not parse to an object
+ */
+function parseConfig(content: string, format: ConfigFormat): ConfigObject {
+  let parsed: unknown;
+  if (format === "yaml") {
+    parsed = parseYaml(content);
+  } else {
+    try {
+      parsed = JSON.parse(stripJsonComments(content));
+    } catch (error) {
+      if (format === "json" || !content.trim()) {
+        throw error;
+      }
+      parsed = parseYaml(content);
+    }
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isObject(parsed)) {
+    throw new Error("Config is not an object");
+  }
+  return parsed;
+}
+
+/** Dotted key path, quoting keys that contain dots or spaces. */
+function formatPath(keys: string[]): string {
+  return keys
+    .map((key, i) => {
+      if (/^[\w$@/-]+$/.test(key)) {
+        return i === 0 ? key : `.${key}`;
+      }
+      return `[${JSON.stringify(key)}]`;
+    })
+    .join("");
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function describeChange(
+  path: string,
+  kind: CheckTomlChangeKind,
+  before: unknown,
+  after: unknown
+): string {
+  switch (kind) {
+    case "added":
+      return isScalar(after)
+        ? `\`${path}\` set to ${formatValue(after)}`
+        : `\`${path}\` added`;
+    case "removed":
+      return `\`${path}\` removed`;
+    case "item-added":
+      return `\`${path}\` added ${formatValue(after)}`;
+    case "item-removed":
+      return `\`${path}\` removed ${formatValue(before)}`;
+    default:
+      // Nested values are too long to inline; the line diff shows them
+      return isScalar(before) && isScalar(after)
+        ? `\`${path}\` ${kind} ${formatValue(before)} → ${formatValue(after)}`
+        : `\`${path}\` ${kind}`;
+  }
+}
+
+interface DiffContext {
+  isEslintRc: boolean;
+  changes: ConfigChange[];
+}
+
+function pushChange(
+  ctx: DiffContext,
+  change: Omit<ConfigChange, "description">
+): void {
+  ctx.changes.push({
+    ...change,
+    description: describeChange(
+      change.path,
+      change.kind,
+      change.before,
+      change.after
+    ),
+  });
+}
+
+/** Severity of an ESLint rule setting: off, warn or error. */
+function getRuleSeverity(setting: unknown): string | null {
+  const level = Array.isArray(setting) ? setting[0] : setting;
+  if (typeof level === "number") {
+    return RULE_SEVERITIES[level] ?? null;
+  }
+  return typeof level === "string" && RULE_SEVERITIES.includes(level)
+    ? level
+    : null;
+}
+
+/** Describe an ESLint rule change, e.g. "rule `no-console` turned off". */
+function diffRule(
+  ctx: DiffContext,
+  rule: string,
+  before: unknown,
+  after: unknown
+): void {
+  const path = formatPath(["rules", rule]);
+  const name = `rule \`${rule}\``;
+  const [from, to] = [getRuleSeverity(before), getRuleSeverity(after)];
+  const push = (kind: CheckTomlChangeKind, description: string): void => {
+    ctx.changes.push({ path, kind, before, after, description });
+  };
+
+  if (before === undefined) {
+    push("added", `${name} added (${to ?? formatValue(after)})`);
+  } else if (after === undefined) {
+    push("removed", `${name} removed`);
+  } else if (from !== "off" && to === "off") {
+    push("disabled", `${name} turned off`);
+  } else if (from === "off" && to !== "off") {
+    push("enabled", `${name} turned on (${to ?? formatValue(after)})`);
+  } else if (from !== to) {
+    push("changed", `${name} changed ${from} → ${to}`);
+  } else {
+    push("changed", `${name} options changed`);
+  }
+}
+
+/** List items added to or removed from an array of plain values. */
+function diffItems(
+  ctx: DiffContext,
+  path: string,
+  before: unknown[],
+  after: unknown[]
+): void {
+  const beforeKeys = before.map((v) => JSON.stringify(v));
+  const afterKeys = after.map((v) => JSON.stringify(v));
+  before.forEach((item, i) => {
+    if (!afterKeys.includes(beforeKeys[i])) {
+      pushChange(ctx, { path, kind: "item-removed", before: item });
+    }
+  });
+  after.forEach((item, i) => {
+    if (!beforeKeys.includes(afterKeys[i])) {
+      pushChange(ctx, { path, kind: "item-added", after: item });
+    }
+  });
+}
+
+/** Compare two values that are not both objects. */
+function diffLeaf(
+  ctx: DiffContext,
+  keys: string[],
+  before: unknown,
+  after: unknown
+): void {
+  const path = formatPath(keys);
+  if (before === undefined || after === undefined) {
+    pushChange(ctx, {
+      path,
+      kind: before === undefined ? "added" : "removed",
+      before,
+      after,
+    });
+    return;
+  }
+  if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    [...before, ...after].every(isScalar)
+  ) {
+    diffItems(ctx, path, before, after);
+    return;
+  }
+  let kind: CheckTomlChangeKind = "changed";
+  if (typeof before === "number" && typeof after === "number") {
+    kind = after > before ? "raised" : "lowered";
+  }
+  pushChange(ctx, { path, kind, before, after });
+}
+
+function diffObjects(
+  ctx: DiffContext,
+  keys: string[],
+  before: ConfigObject,
+  after: ConfigObject
+): void {
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  for (const name of names) {
+    const [from, to] = [before[name], after[name]];
+    if (JSON.stringify(from) === JSON.stringify(to)) {
+      continue;
+    }
+    if (ctx.isEslintRc && keys.length === 1 && keys[0] === "rules") {
+      diffRule(ctx, name, from, to);
+    } else if (isObject(from) && isObject(to)) {
+      diffObjects(ctx, [...keys, name], from, to);
+    } else {
+      diffLeaf(ctx, [...keys, name], from, to);
+    }
+  }
+}
+
+/**
+ * Compare two versions of a JSON, JSONC or YAML config file key by key, so
+ * reformatting and reordered keys do not show up as changes. A missing
+ * version (null) counts as empty. ESLint rc files describe rule changes by
+ * severity.
+ *
+ * @returns The changes in file order, or null if the file is not a
+ *   supported format or either version does not parse
+ */
+export function diffConfigFile(
+  filePath: string,
+  before: string | null,
+  after: string | null
+): ConfigChange[] | null {
+  const format = getConfigFormat(filePath);
+  if (!format) {
+    return null;
+  }
+  let beforeConfig: ConfigObject;
+  let afterConfig: ConfigObject;
+  try {
+    beforeConfig = before ? parseConfig(before, format) : {};
+    afterConfig = after ? parseConfig(after, format) : {};
+  } catch {
+    return null;
+  }
+  const ctx: DiffContext = {
+    isEslintRc: ESLINT_RC_FILE.test(basename(filePath)),
+    changes: [],
+  };
+  diffObjects(ctx, [], beforeConfig, afterConfig);
+  return ctx.changes;
+}
+
+/**
+ * Compare a config file between two commits.
+ *
+ * @returns The changes, or null if the file is not a supported format or
+ *   either version does not parse
+ */
+export function diffConfigFileBetweenCommits(
+  repoPath: string,
+  filePath: string,
+  fromCommit: string,
+  toCommit: string
+): ConfigChange[] | null {
+  if (!getConfigFormat(filePath)) {
+    return null;
+  }
+  const read = (commit: string): string | null =>
+    execGit(repoPath, `show ${commit}:"${filePath}"`) || null;
+  return diffConfigFile(filePath, read(fromCommit), read(toCommit));
+}
@@ -123,6 +123,15 @@ team: backend
       expect(result?.warnings[0]).toContain("Invalid tier");
     });
 
+    it("accepts tiers from the config schema", () => {
+      const result = parseRepoMetadata("tier: staging", [
+        "production",
+        "staging",
+      ]);
+      expect(result.metadata.tier).toBe("staging");
+      expect(result.warnings).toHaveLength(0);
+    });
+
     it("warns about invalid status", () => {
       const result = parseRepoMetadata("status: invalid-status");
       expect(result).not.toBeNull();
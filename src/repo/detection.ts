@@ -8,7 +8,14 @@ import {
   type CheckTomlValidation,
 } from "./check-toml.js";
 
-export type RepoTier = "production" | "internal" | "prototype";
+/** Tiers accepted when drift.config.yaml does not define `schema.tiers` */
+export const DEFAULT_TIERS: readonly string[] = [
+  "production",
+  "internal",
+  "prototype",
+];
+
+export type RepoTier = string;
 export type RepoStatus = "active" | "pre-release" | "deprecated";
 
 export interface RepoMetadata {
@@ -36,11 +43,11 @@ const DEFAULTS = {
   status: "active" as RepoStatus,
 };
 
-function isValidTier(value: unknown): value is RepoTier {
-  return (
-    typeof value === "string" &&
-    ["production", "internal", "prototype"].includes(value)
-  );
+function isValidTier(
+  value: unknown,
+  allowedTiers: readonly string[]
+): value is RepoTier {
+  return typeof value === "string" && allowedTiers.includes(value);
 }
 
 function isValidStatus(value: unknown): value is RepoStatus {
@@ -52,12 +59,13 @@ function isValidStatus(value: unknown): value is RepoStatus {
 
 function extractTier(
   parsed: Record<string, unknown>,
-  warnings: string[]
+  warnings: string[],
+  allowedTiers: readonly string[]
 ): RepoTier {
   if (parsed.tier === undefined) {
     return DEFAULTS.tier;
   }
-  if (isValidTier(parsed.tier)) {
+  if (isValidTier(parsed.tier, allowedTiers)) {
     return parsed.tier;
   }
   warnings.push(
@@ -107,7 +115,14 @@ export function findMetadataPath(repoPath: string): string | null {
   return null;
 }
 
-export function parseRepoMetadata(content: string): {
+/**
+ * Parse repo-metadata.yaml content.
+ * @param allowedTiers - Tiers from the config schema (defaults to DEFAULT_TIERS)
+ */
+export function parseRepoMetadata(
+  content: string,
+  allowedTiers: readonly string[] = DEFAULT_TIERS
+): {
   metadata: RepoMetadata;
   warnings: string[];
 } {
@@ -124,7 +139,7 @@ export function parseRepoMetadata(content: string): {
       );
     }
     const warnings: string[] = [];
-    const tier = extractTier(parsed, warnings);
+    const tier = extractTier(parsed, warnings, allowedTiers);
     const status = extractStatus(parsed, warnings);
     const team = typeof parsed.team === "string" ? parsed.team : undefined;
     return { metadata: { tier, status, team, raw: parsed }, warnings };
@@ -143,7 +158,10 @@ export function parseRepoMetadata(content: string): {
  * - If file is empty/invalid: { metadata: defaults, warnings: [...] }
  * - If file is valid: { metadata: parsed, warnings: [] }
  */
-export function getRepoMetadata(repoPath: string): {
+export function getRepoMetadata(
+  repoPath: string,
+  allowedTiers?: readonly string[]
+): {
   metadata: RepoMetadata | null;
   warnings: string[];
 } {
@@ -154,7 +172,7 @@ export function getRepoMetadata(repoPath: string): {
 
   try {
     const content = readFileSync(metadataPath, "utf-8");
-    return parseRepoMetadata(content);
+    return parseRepoMetadata(content, allowedTiers);
   } catch (error) {
     const msg = error instanceof Error ? error.message : "Unknown error";
     return {
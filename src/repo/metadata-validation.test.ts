@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { validateRepoMetadata } from "./metadata-validation.js";
+import type { RepoMetadata } from "./detection.js";
+
+function createMetadata(raw: Record<string, unknown>): RepoMetadata {
+  return { tier: "internal", status: "active", raw };
+}
+
+describe("validateRepoMetadata", () => {
+  const schema = {
+    tiers: ["production", "internal"],
+    teams: ["platform", "payments"],
+  };
+
+  it("returns no violations without a schema", () => {
+    expect(validateRepoMetadata(createMetadata({}), undefined)).toEqual([]);
+  });
+
+  it("returns no violations for conforming metadata", () => {
+    const metadata = createMetadata({ tier: "production", team: "platform" });
+    expect(validateRepoMetadata(metadata, schema)).toEqual([]);
+  });
+
+  it("reports a disallowed tier", () => {
+    const metadata = createMetadata({ tier: "prototype", team: "platform" });
+    expect(validateRepoMetadata(metadata, schema)).toEqual([
+      {
+        field: "tier",
+        type: "not-allowed",
+        value: "prototype",
+        allowed: ["production", "internal"],
+        message:
+          'Tier "prototype" is not allowed (allowed: production, internal)',
+      },
+    ]);
+  });
+
+  it("reports an unknown team", () => {
+    const metadata = createMetadata({ tier: "internal", team: "growth" });
+    const violations = validateRepoMetadata(metadata, schema);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      field: "team",
+      type: "not-allowed",
+      value: "growth",
+    });
+    expect(violations[0].message).toContain('Unknown team "growth"');
+  });
+
+  it("reports missing required fields", () => {
+    const violations = validateRepoMetadata(createMetadata({}), schema);
+    expect(violations.map((v) => [v.field, v.type])).toEqual([
+      ["tier", "missing"],
+      ["team", "missing"],
+    ]);
+    expect(violations[0].message).toContain('Missing required field "tier"');
+  });
+
+  it("treats a missing metadata file as missing fields", () => {
+    const violations = validateRepoMetadata(null, { teams: ["platform"] });
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ field: "team", type: "missing" });
+  });
+
+  it("only enforces fields listed in the schema", () => {
+    const metadata = createMetadata({ tier: "anything" });
+    expect(
+      validateRepoMetadata(metadata, { teams: ["platform"] }).map(
+        (v) => v.field
+      )
+    ).toEqual(["team"]);
+  });
+
+  it("reports non-string values as not allowed", () => {
+    const violations = validateRepoMetadata(
+      createMetadata({ tier: 1, team: "platform" }),
+      schema
+    );
+    expect(violations[0]).toMatchObject({ type: "not-allowed", value: "1" });
+  });
+});
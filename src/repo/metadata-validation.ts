@@ -0,0 +1,85 @@
+/**
+ * Validates repo-metadata.yaml against the `schema` section of
+ * drift.config.yaml.
+ *
+ * A field is only enforced when the schema lists its allowed values:
+ * `schema.tiers` makes `tier` required and limits it to those tiers, and
+ * `schema.teams` does the same for `team`.
+ */
+
+import type { MetadataSchema, MetadataViolation } from "../types.js";
+import type { RepoMetadata } from "./detection.js";
+
+interface SchemaField {
+  field: MetadataViolation["field"];
+  allowed?: string[];
+  describe: (value: string) => string;
+}
+
+function validateField(
+  raw: Record<string, unknown>,
+  schemaField: SchemaField
+): MetadataViolation | null {
+  const { field, allowed, describe } = schemaField;
+  if (!allowed) {
+    return null;
+  }
+
+  const value = raw[field];
+  const allowedList = allowed.join(", ") || "none";
+  if (value === undefined || value === null || value === "") {
+    return {
+      field,
+      type: "missing",
+      allowed,
+      message: `Missing required field "${field}" (allowed: ${allowedList})`,
+    };
+  }
+
+  const text = String(value);
+  if (typeof value === "string" && allowed.includes(value)) {
+    return null;
+  }
+  return {
+    field,
+    type: "not-allowed",
+    value: text,
+    allowed,
+    message: `${describe(text)} (allowed: ${allowedList})`,
+  };
+}
+
+/**
+ * Check a repo's metadata against the config schema.
+ *
+ * @param metadata - Parsed repo-metadata.yaml, or null if the repo has none
+ * (every field the schema requires is then reported missing)
+ * @param schema - `schema` section of drift.config.yaml
+ * @returns Violations, empty when the metadata conforms or there is no schema
+ */
+export function validateRepoMetadata(
+  metadata: RepoMetadata | null,
+  schema: MetadataSchema | undefined
+): MetadataViolation[] {
+  if (!schema) {
+    return [];
+  }
+
+  const raw = metadata?.raw ?? {};
+  const fields: SchemaField[] = [
+    {
+      field: "tier",
+      allowed: schema.tiers,
+      describe: (value) => `Tier "${value}" is not allowed`,
+    },
+    {
+      field: "team",
+      allowed: schema.teams,
+      describe: (value) => `Unknown team "${value}"`,
+    },
+  ];
+
+  return fields
+    .map((f) => validateField(raw, f))
+    .filter((v): v is MetadataViolation => v !== null);
+}
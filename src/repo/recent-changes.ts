@@ -4,6 +4,8 @@
  * Detects commits and file changes within a configurable time window (e.g., 24 hours).
  */
 
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
 import { isGitRepo } from "./changes.js";
 import { execGit } from "../utils/git.js";
 
@@ -188,3 +190,100 @@ export function detectRecentChanges(
   const commits = getRecentCommits(repoPath, options);
   return getChangedFilesInCommits(repoPath, commits);
 }
+
+/**
+ * SHA of git's empty tree, used as the diff base when the oldest commit
+ * in a window is the repository's root commit.
+ */
+export const EMPTY_TREE_SHA = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/**
+ * A time window of commits resolved to a diffable range
+ */
+export interface CommitWindow {
+  /** Commit (or empty tree) to diff from: the parent of the oldest commit */
+  baseCommit: string;
+  /** Commits in the time window (newest first) */
+  commits: RecentCommit[];
+}
+
+/** Whether a commit is a boundary of a shallow clone, listed in its shallow file. */
+function isShallowBoundary(repoPath: string, sha: string): boolean {
+  const shallowPath = execGit(repoPath, "rev-parse --git-path shallow");
+  const path = shallowPath && resolve(repoPath, shallowPath);
+  if (!path || !existsSync(path)) {
+    return false;
+  }
+  return readFileSync(path, "utf-8").split("\n").includes(sha);
+}
+
+/**
+ * Resolve the commits in a time window and the base commit to diff against.
+ * The base is the parent of the oldest commit in the window, so a diff from
+ * it to HEAD covers every commit in the window.
+ *
+ * @param repoPath - Path to the repository
+ * @param options - Time window options
+ * @returns CommitWindow, or null if there are no commits in the window
+ */
+export function getCommitWindow(
+  repoPath: string,
+  options: TimeWindowOptions = {}
+): CommitWindow | null {
+  const commits = getRecentCommits(repoPath, options);
+  if (commits.length === 0) {
+    return null;
+  }
+
+  const oldestSha = commits[commits.length - 1].sha;
+  const parent = execGit(repoPath, `rev-parse --verify ${oldestSha}^`);
+  if (parent) {
+    return { baseCommit: parent, commits };
+  }
+  // A shallow clone's boundary has no parent but is not a root commit:
+  // diffing it against the empty tree would report every file as added
+  if (isShallowBoundary(repoPath, oldestSha)) {
+    return {
+      baseCommit: execGit(repoPath, "rev-parse --verify HEAD~1") || oldestSha,
+      commits,
+    };
+  }
+  return { baseCommit: EMPTY_TREE_SHA, commits };
+}
+
+/**
+ * Find the most recent commit in a range that touched a file.
+ * Used to attribute a change to the commit and author that introduced it.
+ *
+ * @param repoPath - Path to the repository
+ * @param filePath - File path relative to the repository root
+ * @param fromCommit - Exclusive start of the range (e.g. a CommitWindow base)
+ * @param toCommit - Inclusive end of the range (default: HEAD)
+ * @returns The commit, or null if no commit in the range touched the file
+ */
+export function getLastCommitForFile(
+  repoPath: string,
+  filePath: string,
+  fromCommit: string,
+  toCommit: string = "HEAD"
+): RecentCommit | null {
+  // The empty tree is not a commit, so the range is the full history
+  const range =
+    fromCommit === EMPTY_TREE_SHA ? toCommit : `${fromCommit}..${toCommit}`;
+  const output = execGit(
+    repoPath,
+    `log -1 --format="%H|%ae|%aI|%s" ${range} -- "${filePath}"`
+  );
+
+  if (!output) {
+    return null;
+  }
+
+  const [sha, author, dateStr, ...messageParts] = output.split("|");
+  return {
+    sha,
+    author,
+    date: new Date(dateStr),
+    message: messageParts.join("|"),
+  };
+}
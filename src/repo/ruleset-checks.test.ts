@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkBranchRulesets,
+  parseBranchExpectations,
+  type BranchRulesetState,
+} from "./ruleset-checks.js";
+
+const STATE: BranchRulesetState = {
+  branch: "main",
+  rules: [
+    {
+      type: "pull_request",
+      parameters: {
+        required_approving_review_count: 2,
+        dismiss_stale_reviews_on_push: true,
+      },
+      rulesetId: 1,
+      rulesetSourceType: "Organization",
+    },
+    {
+      type: "required_status_checks",
+      parameters: { required_status_checks: [{ context: "build" }] },
+      rulesetId: 1,
+      rulesetSourceType: "Organization",
+    },
+    {
+      type: "required_linear_history",
+      rulesetId: 2,
+      rulesetSourceType: "Repository",
+    },
+  ],
+  rulesets: [
+    {
+      id: 1,
+      name: "org-default",
+      sourceType: "Organization",
+      bypassActors: [
+        { actorId: null, actorType: "OrganizationAdmin", bypassMode: "always" },
+      ],
+    },
+    {
+      id: 2,
+      name: "api-main",
+      sourceType: "Repository",
+      bypassActors: [{ actorId: 42, actorType: "Team", bypassMode: "always" }],
+    },
+  ],
+};
+
+describe("ruleset-checks", () => {
+  describe("parseBranchExpectations", () => {
+    it("reads the ruleset expectations from [process.branches]", () => {
+      expect(
+        parseBranchExpectations(`[process.branches]
+enabled = true
+require_reviews = 2
+require_status_checks = ["build", "test"]
+require_signed_commits = true
+require_linear_history = false
+bypass_actors = ["OrganizationAdmin", "Team:42", "Integration:deploy-bot"]
+`)
+      ).toEqual({
+        requiredApprovals: 2,
+        requiredStatusChecks: ["build", "test"],
+        requireSignedCommits: true,
+        requireLinearHistory: false,
+        bypassActors: [
+          { type: "OrganizationAdmin" },
+          { type: "Team", id: 42 },
+          { type: "Integration", name: "deploy-bot" },
+        ],
+      });
+    });
+
+    it("reads required_approvals alongside require_reviews = true", () => {
+      expect(
+        parseBranchExpectations(
+          "[process.branches]\nrequire_reviews = true\nrequired_approvals = 2\n"
+        )
+      ).toEqual({ requiredApprovals: 2 });
+    });
+
+    it("treats require_reviews and require_status_checks = true as any", () => {
+      expect(
+        parseBranchExpectations(
+          "[process.branches]\nrequire_reviews = true\nrequire_status_checks = true\n"
+        )
+      ).toEqual({ requiredApprovals: 1, requiredStatusChecks: [] });
+    });
+
+    it("expects nothing without [process.branches] or valid TOML", () => {
+      expect(parseBranchExpectations("[code.linting.eslint]\n")).toEqual({});
+      expect(parseBranchExpectations("[process")).toEqual({});
+      expect(parseBranchExpectations(null)).toEqual({});
+    });
+  });
+
+  describe("checkBranchRulesets", () => {
+    it("passes when the rules meet the expectations", () => {
+      expect(
+        checkBranchRulesets(STATE, {
+          requiredApprovals: 2,
+          requiredStatusChecks: ["build"],
+          requireLinearHistory: true,
+          bypassActors: [
+            { type: "OrganizationAdmin" },
+            { type: "Team", id: 42 },
+          ],
+        })
+      ).toEqual([]);
+    });
+
+    it("reports expectations the rules do not meet", () => {
+      const violations = checkBranchRulesets(STATE, {
+        requiredApprovals: 3,
+        requiredStatusChecks: ["build", "test"],
+        requireSignedCommits: true,
+        bypassActors: [{ type: "OrganizationAdmin" }, { type: "Team", id: 7 }],
+      });
+
+      expect(violations.map((v) => [v.rule, v.message])).toEqual([
+        [
+          "require_reviews",
+          "Rulesets require 2 approving review(s) on main, expected 3",
+        ],
+        [
+          "require_status_checks",
+          "Rulesets do not require status check(s) test on main",
+        ],
+        [
+          "require_signed_commits",
+          "Rulesets do not require signed commits on main",
+        ],
+        ["bypass_actors", 'Ruleset "api-main" can be bypassed by Team 42'],
+      ]);
+      expect(violations.every((v) => v.check === "branches.rulesets")).toBe(
+        true
+      );
+      expect(violations.every((v) => v.severity === "error")).toBe(true);
+    });
+
+    it("requires any status check when require_status_checks = true", () => {
+      const violations = checkBranchRulesets(
+        { ...STATE, rules: STATE.rules.slice(0, 1) },
+        { requiredStatusChecks: [] }
+      );
+
+      expect(violations.map((v) => v.message)).toEqual([
+        "Rulesets do not require any status checks on main",
+      ]);
+      expect(checkBranchRulesets(STATE, { requiredStatusChecks: [] })).toEqual(
+        []
+      );
+    });
+
+    it("does not allow bypass actors by a name that did not resolve", () => {
+      const violations = checkBranchRulesets(STATE, {
+        bypassActors: [
+          { type: "OrganizationAdmin" },
+          { type: "Team", name: "platform" },
+        ],
+      });
+
+      expect(violations.map((v) => v.message)).toEqual([
+        'Ruleset "api-main" can be bypassed by Team 42',
+      ]);
+    });
+
+    it("warns when bypass actors are not visible", () => {
+      const violations = checkBranchRulesets(
+        {
+          ...STATE,
+          rulesets: [
+            { id: 1, name: "org-default", sourceType: "Organization" },
+          ],
+        },
+        { bypassActors: [] }
+      );
+
+      expect(violations).toEqual([
+        expect.objectContaining({
+          rule: "bypass_actors",
+          severity: "warning",
+          message:
+            'Bypass actors of ruleset "org-default" are not visible to the token',
+        }),
+      ]);
+    });
+
+    it("warns about repo rulesets that weaken an org ruleset", () => {
+      const violations = checkBranchRulesets(
+        {
+          ...STATE,
+          rules: [
+            ...STATE.rules,
+            {
+              type: "pull_request",
+              parameters: {
+                required_approving_review_count: 1,
+                dismiss_stale_reviews_on_push: false,
+              },
+              rulesetId: 2,
+              rulesetSourceType: "Repository",
+            },
+          ],
+        },
+        {}
+      );
+
+      expect(violations).toEqual([
+        {
+          category: "branches",
+          check: "branches.rulesets",
+          rule: "org_ruleset_override",
+          message:
+            'Repository ruleset "api-main" weakens org ruleset "org-default" (pull_request: required_approving_review_count 2 → 1, dismiss_stale_reviews_on_push turned off)',
+          severity: "warning",
+        },
+      ]);
+    });
+  });
+});
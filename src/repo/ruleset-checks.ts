@@ -0,0 +1,332 @@
+/**
+ * Repository ruleset checks.
+ *
+ * Compares the rules in effect on a repo's default branch, from repository
+ * and organization rulesets, with the repo's `[process.branches]`
+ * expectations, and flags repo rulesets that weaken an org ruleset.
+ */
+
+import { parse as parseToml } from "smol-toml";
+import type {
+  BranchRule,
+  BypassActorMatcher,
+  Ruleset,
+} from "../github/rulesets.js";
+import type { ProcessViolation } from "../types.js";
+
+/** `[process.branches]` expectations checked against the rulesets */
+export interface BranchRulesetExpectations {
+  requiredApprovals?: number;
+  requiredStatusChecks?: string[]; // Empty to require any status check
+  requireSignedCommits?: boolean;
+  requireLinearHistory?: boolean;
+  bypassActors?: BypassActorMatcher[]; // Actors allowed to bypass
+}
+
+type Table = Record<string, unknown>;
+
+/** The rules on a branch and the rulesets they come from */
+export interface BranchRulesetState {
+  branch: string;
+  rules: BranchRule[];
+  rulesets: Ruleset[];
+}
+
+function isTable(value: unknown): value is Table {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function getRequiredApprovals(branches: Table): number | undefined {
+  const reviews = branches.require_reviews;
+  if (typeof reviews === "number") {
+    return reviews;
+  }
+  if (reviews !== true) {
+    return undefined;
+  }
+  const approvals = branches.required_approvals;
+  return typeof approvals === "number" ? approvals : 1;
+}
+
+function getRequiredStatusChecks(branches: Table): string[] | undefined {
+  const checks = branches.require_status_checks;
+  if (isStringArray(checks)) {
+    return checks;
+  }
+  return checks === true ? [] : undefined;
+}
+
+/** Parse a `bypass_actors` entry: `<type>`, `<type>:<id>` or `<type>:<name>` */
+function parseBypassActor(entry: string): BypassActorMatcher {
+  const separator = entry.indexOf(":");
+  if (separator === -1) {
+    return { type: entry };
+  }
+  const type = entry.slice(0, separator);
+  const ref = entry.slice(separator + 1);
+  return /^\d+$/.test(ref) ? { type, id: Number(ref) } : { type, name: ref };
+}
+
+/**
+ * Read the ruleset expectations from check.toml's `[process.branches]`.
+ * `require_reviews` may be true, with `required_approvals` approvals (one
+ * by default), or the count itself, and `require_status_checks` a list of
+ * check names or true for any check.
+ *
+ * @returns The expectations; empty for a missing or invalid check.toml
+ */
+export function parseBranchExpectations(
+  checkToml: string | null | undefined
+): BranchRulesetExpectations {
+  let config: Table;
+  try {
+    config = checkToml ? parseToml(checkToml) : {};
+  } catch {
+    return {};
+  }
+  const processConfig = isTable(config.process) ? config.process : {};
+  const branches = isTable(processConfig.branches)
+    ? processConfig.branches
+    : {};
+  const expected: BranchRulesetExpectations = {};
+
+  const approvals = getRequiredApprovals(branches);
+  if (approvals !== undefined) {
+    expected.requiredApprovals = approvals;
+  }
+  const statusChecks = getRequiredStatusChecks(branches);
+  if (statusChecks !== undefined) {
+    expected.requiredStatusChecks = statusChecks;
+  }
+  if (typeof branches.require_signed_commits === "boolean") {
+    expected.requireSignedCommits = branches.require_signed_commits;
+  }
+  if (typeof branches.require_linear_history === "boolean") {
+    expected.requireLinearHistory = branches.require_linear_history;
+  }
+  if (isStringArray(branches.bypass_actors)) {
+    expected.bypassActors = branches.bypass_actors.map(parseBypassActor);
+  }
+  return expected;
+}
+
+function createViolation(
+  rule: string,
+  message: string,
+  severity: ProcessViolation["severity"] = "error"
+): ProcessViolation {
+  return {
+    category: "branches",
+    check: "branches.rulesets",
+    rule,
+    message,
+    severity,
+  };
+}
+
+function getRulesOfType(rules: BranchRule[], type: string): BranchRule[] {
+  return rules.filter((r) => r.type === type);
+}
+
+function checkApprovals(
+  state: BranchRulesetState,
+  expected: number
+): ProcessViolation | null {
+  const actual = Math.max(
+    0,
+    ...getRulesOfType(state.rules, "pull_request").map((r) =>
+      Number(r.parameters?.required_approving_review_count ?? 0)
+    )
+  );
+  return actual < expected
+    ? createViolation(
+        "require_reviews",
+        `Rulesets require ${actual} approving review(s) on ${state.branch}, expected ${expected}`
+      )
+    : null;
+}
+
+function checkStatusChecks(
+  state: BranchRulesetState,
+  expected: string[]
+): ProcessViolation | null {
+  const required = new Set(
+    getRulesOfType(state.rules, "required_status_checks").flatMap((r) => {
+      const checks = r.parameters?.required_status_checks;
+      return Array.isArray(checks)
+        ? checks.filter(isTable).map((c) => String(c.context))
+        : [];
+    })
+  );
+  if (expected.length === 0) {
+    return required.size === 0
+      ? createViolation(
+          "require_status_checks",
+          `Rulesets do not require any status checks on ${state.branch}`
+        )
+      : null;
+  }
+  const missing = expected.filter((context) => !required.has(context));
+  return missing.length > 0
+    ? createViolation(
+        "require_status_checks",
+        `Rulesets do not require status check(s) ${missing.join(", ")} on ${state.branch}`
+      )
+    : null;
+}
+
+function checkRuleEnabled(
+  state: BranchRulesetState,
+  rule: { type: string; key: string; label: string }
+): ProcessViolation | null {
+  return getRulesOfType(state.rules, rule.type).length === 0
+    ? createViolation(
+        rule.key,
+        `Rulesets do not require ${rule.label} on ${state.branch}`
+      )
+    : null;
+}
+
+type BypassActor = NonNullable<Ruleset["bypassActors"]>[number];
+
+function describeActor(actor: BypassActor) {
+  return actor.actorId === null
+    ? actor.actorType
+    : `${actor.actorType} ${actor.actorId}`;
+}
+
+/**
+ * An actor is allowed by an entry of its type that has no id or name, or
+ * whose id is the actor's. Names that did not resolve to an id match none.
+ */
+function isAllowedActor(
+  actor: BypassActor,
+  allowed: BypassActorMatcher[]
+): boolean {
+  return allowed.some(
+    (m) =>
+      m.type === actor.actorType &&
+      (m.id === undefined ? m.name === undefined : m.id === actor.actorId)
+  );
+}
+
+function checkBypassActors(
+  state: BranchRulesetState,
+  allowed: BypassActorMatcher[]
+): ProcessViolation[] {
+  return state.rulesets.flatMap((ruleset) => {
+    if (!ruleset.bypassActors) {
+      return [
+        createViolation(
+          "bypass_actors",
+          `Bypass actors of ruleset "${ruleset.name}" are not visible to the token`,
+          "warning"
+        ),
+      ];
+    }
+    const extra = ruleset.bypassActors.filter(
+      (a) => !isAllowedActor(a, allowed)
+    );
+    return extra.length > 0
+      ? [
+          createViolation(
+            "bypass_actors",
+            `Ruleset "${ruleset.name}" can be bypassed by ${extra.map(describeActor).join(", ")}`
+          ),
+        ]
+      : [];
+  });
+}
+
+/** Describe the parameters a repo rule sets lower than an org rule. */
+function findWeakerParameters(org: Table, repo: Table): string[] {
+  return Object.entries(org).flatMap(([key, orgValue]) => {
+    const repoValue = repo[key];
+    if (
+      typeof orgValue === "number" &&
+      typeof repoValue === "number" &&
+      repoValue < orgValue
+    ) {
+      return [`${key} ${orgValue} → ${repoValue}`];
+    }
+    return orgValue === true && repoValue === false
+      ? [`${key} turned off`]
+      : [];
+  });
+}
+
+/**
+ * Find repo ruleset rules that set a rule an org ruleset already sets,
+ * with weaker parameters. GitHub still enforces the stricter org rule, so
+ * these are reported as warnings.
+ */
+function checkOrgOverrides(state: BranchRulesetState): ProcessViolation[] {
+  const names = new Map(state.rulesets.map((r) => [r.id, r.name]));
+  const orgRules = state.rules.filter(
+    (r) => r.rulesetSourceType === "Organization"
+  );
+  const repoRules = state.rules.filter(
+    (r) => r.rulesetSourceType === "Repository"
+  );
+  return repoRules.flatMap((repoRule) =>
+    getRulesOfType(orgRules, repoRule.type).flatMap((orgRule) => {
+      const weaker = findWeakerParameters(
+        orgRule.parameters ?? {},
+        repoRule.parameters ?? {}
+      );
+      return weaker.length > 0
+        ? [
+            createViolation(
+              "org_ruleset_override",
+              `Repository ruleset "${names.get(repoRule.rulesetId)}" weakens org ruleset "${names.get(orgRule.rulesetId)}" (${repoRule.type}: ${weaker.join(", ")})`,
+              "warning"
+            ),
+          ]
+        : [];
+    })
+  );
+}
+
+/**
+ * Check the rules on a branch against the `[process.branches]`
+ * expectations, and flag repo rulesets that weaken org rulesets.
+ */
+export function checkBranchRulesets(
+  state: BranchRulesetState,
+  expected: BranchRulesetExpectations
+): ProcessViolation[] {
+  const violations: (ProcessViolation | null)[] = [];
+  if (expected.requiredApprovals !== undefined) {
+    violations.push(checkApprovals(state, expected.requiredApprovals));
+  }
+  if (expected.requiredStatusChecks) {
+    violations.push(checkStatusChecks(state, expected.requiredStatusChecks));
+  }
+  if (expected.requireSignedCommits) {
+    violations.push(
+      checkRuleEnabled(state, {
+        type: "required_signatures",
+        key: "require_signed_commits",
+        label: "signed commits",
+      })
+    );
+  }
+  if (expected.requireLinearHistory) {
+    violations.push(
+      checkRuleEnabled(state, {
+        type: "required_linear_history",
+        key: "require_linear_history",
+        label: "linear history",
+      })
+    );
+  }
+  if (expected.bypassActors) {
+    violations.push(...checkBypassActors(state, expected.bypassActors));
+  }
+  violations.push(...checkOrgOverrides(state));
+  return violations.filter((v): v is ProcessViolation => v !== null);
+}
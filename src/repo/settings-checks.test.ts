@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyRepoSettingsChecks,
+  getRepoSettingsExpectations,
+} from "./settings-checks.js";
+import type { RepoSettings } from "../github/repo-settings.js";
+import type { ProcessViolationsDetection } from "../types.js";
+
+const SETTINGS: RepoSettings = {
+  mergeMethods: ["squash", "merge"],
+  deleteBranchOnMerge: false,
+  defaultBranch: "main",
+  visibility: "public",
+  vulnerabilityAlerts: true,
+  secretScanning: true,
+};
+
+function createDetection(): ProcessViolationsDetection {
+  return {
+    repository: "org/repo",
+    scanTime: "2026-01-01T00:00:00.000Z",
+    summary: [{ category: "repo", passed: 1, failed: 0 }],
+    violations: [],
+  };
+}
+
+describe("settings-checks", () => {
+  describe("getRepoSettingsExpectations", () => {
+    it("overrides the defaults with the tier's settings", () => {
+      const config = {
+        defaultBranch: "main",
+        visibility: "internal" as const,
+        tiers: { production: { visibility: "private" as const } },
+      };
+
+      expect(getRepoSettingsExpectations(config, "production")).toEqual({
+        defaultBranch: "main",
+        visibility: "private",
+      });
+      expect(getRepoSettingsExpectations(config, "internal")).toEqual({
+        defaultBranch: "main",
+        visibility: "internal",
+      });
+      expect(getRepoSettingsExpectations(undefined, "production")).toEqual({});
+    });
+  });
+
+  describe("applyRepoSettingsChecks", () => {
+    it("reports settings that differ as repo violations", () => {
+      const result = applyRepoSettingsChecks(createDetection(), SETTINGS, {
+        mergeMethods: ["squash"],
+        deleteBranchOnMerge: true,
+        defaultBranch: "main",
+        visibility: "private",
+        vulnerabilityAlerts: true,
+      });
+
+      expect(result.violations).toEqual([
+        {
+          category: "repo",
+          check: "repo.merge_methods",
+          rule: "merge_methods",
+          message: "Merge methods is squash, merge, expected squash",
+          severity: "error",
+        },
+        {
+          category: "repo",
+          check: "repo.delete_branch_on_merge",
+          rule: "delete_branch_on_merge",
+          message: "Delete branch on merge is disabled, expected enabled",
+          severity: "error",
+        },
+        {
+          category: "repo",
+          check: "repo.visibility",
+          rule: "visibility",
+          message: "Visibility is public, expected private",
+          severity: "error",
+        },
+      ]);
+      expect(result.summary).toEqual([
+        { category: "repo", passed: 3, failed: 3 },
+      ]);
+    });
+
+    it("compares merge methods regardless of order", () => {
+      const result = applyRepoSettingsChecks(createDetection(), SETTINGS, {
+        mergeMethods: ["merge", "squash"],
+      });
+
+      expect(result.violations).toEqual([]);
+    });
+
+    it("warns about settings the token cannot read", () => {
+      const result = applyRepoSettingsChecks(createDetection(), SETTINGS, {
+        secretScanning: true,
+        pushProtection: true,
+      });
+
+      expect(result.violations).toEqual([
+        {
+          category: "repo",
+          check: "repo.push_protection",
+          rule: "push_protection",
+          message:
+            "Secret scanning push protection is not visible to the token (requires admin access)",
+          severity: "warning",
+        },
+      ]);
+    });
+
+    it("leaves the detection as-is without expectations", () => {
+      const detection = createDetection();
+
+      expect(applyRepoSettingsChecks(detection, SETTINGS, {})).toBe(detection);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Repository settings checks.
+ *
+ * drift.config.yaml can set the repository settings every repo should
+ * have, with overrides per tier. Settings that differ are reported as
+ * process violations in the `repo` category, next to check-my-toolkit's.
+ */
+
+import type {
+  MergeMethod,
+  RepoSettings,
+  RepoVisibility,
+} from "../github/repo-settings.js";
+import type { ProcessViolation, ProcessViolationsDetection } from "../types.js";
+
+/** Repository settings drift checks itself, beyond check-my-toolkit */
+export interface RepoSettingsExpectations {
+  mergeMethods?: MergeMethod[]; // The only merge methods allowed
+  deleteBranchOnMerge?: boolean;
+  defaultBranch?: string;
+  visibility?: RepoVisibility;
+  vulnerabilityAlerts?: boolean;
+  secretScanning?: boolean;
+  pushProtection?: boolean; // Secret scanning push protection
+  dependabotSecurityUpdates?: boolean;
+}
+
+export interface RepoSettingsConfig extends RepoSettingsExpectations {
+  tiers?: Record<string, RepoSettingsExpectations>; // Override per tier
+}
+
+type SettingKey = keyof RepoSettingsExpectations;
+
+const SETTINGS: Record<SettingKey, { rule: string; label: string }> = {
+  mergeMethods: { rule: "merge_methods", label: "Merge methods" },
+  deleteBranchOnMerge: {
+    rule: "delete_branch_on_merge",
+    label: "Delete branch on merge",
+  },
+  defaultBranch: { rule: "default_branch", label: "Default branch" },
+  visibility: { rule: "visibility", label: "Visibility" },
+  vulnerabilityAlerts: {
+    rule: "vulnerability_alerts",
+    label: "Vulnerability alerts",
+  },
+  secretScanning: { rule: "secret_scanning", label: "Secret scanning" },
+  pushProtection: {
+    rule: "push_protection",
+    label: "Secret scanning push protection",
+  },
+  dependabotSecurityUpdates: {
+    rule: "dependabot_security_updates",
+    label: "Dependabot security updates",
+  },
+};
+
+/**
+ * Get the settings expected of a repo: the defaults, overridden key by
+ * key by its tier's settings.
+ */
+export function getRepoSettingsExpectations(
+  config: RepoSettingsConfig | undefined,
+  tier: string | undefined
+): RepoSettingsExpectations {
+  const { tiers, ...defaults } = config ?? {};
+  return { ...defaults, ...(tier ? tiers?.[tier] : undefined) };
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "boolean") {
+    return value ? "enabled" : "disabled";
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "none";
+  }
+  return String(value);
+}
+
+function isSame(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return (
+      expected.every((v) => actual.includes(v)) &&
+      actual.every((v) => expected.includes(v))
+    );
+  }
+  return expected === actual;
+}
+
+function checkSetting(
+  key: SettingKey,
+  expected: unknown,
+  actual: unknown
+): ProcessViolation | null {
+  const { rule, label } = SETTINGS[key];
+  const violation = { category: "repo", check: `repo.${rule}`, rule };
+  if (actual === undefined) {
+    return {
+      ...violation,
+      message: `${label} is not visible to the token (requires admin access)`,
+      severity: "warning",
+    };
+  }
+  if (isSame(expected, actual)) {
+    return null;
+  }
+  return {
+    ...violation,
+    message: `${label} is ${formatValue(actual)}, expected ${formatValue(expected)}`,
+    severity: "error",
+  };
+}
+
+/**
+ * Add the violations of checks drift runs itself to a detection, and count
+ * the checks in the category's summary.
+ */
+export function addCheckResults(
+  detection: ProcessViolationsDetection,
+  category: string,
+  checked: number,
+  violations: ProcessViolation[]
+): ProcessViolationsDetection {
+  const current = detection.summary.find((c) => c.category === category);
+  const counts = {
+    category,
+    passed: (current?.passed ?? 0) + Math.max(checked - violations.length, 0),
+    failed: (current?.failed ?? 0) + violations.length,
+  };
+  return {
+    ...detection,
+    summary: current
+      ? detection.summary.map((c) => (c === current ? counts : c))
+      : [...detection.summary, counts],
+    violations: [...detection.violations, ...violations],
+  };
+}
+
+/**
+ * Add a violation for each setting that differs from the expected one,
+ * and count the checks in the `repo` category summary. Settings the token
+ * cannot read are reported as warnings.
+ */
+export function applyRepoSettingsChecks(
+  detection: ProcessViolationsDetection,
+  settings: RepoSettings,
+  expected: RepoSettingsExpectations
+): ProcessViolationsDetection {
+  const keys = (Object.keys(expected) as SettingKey[]).filter(
+    (key) => expected[key] !== undefined
+  );
+  if (keys.length === 0) {
+    return detection;
+  }
+  const violations = keys
+    .map((key) => checkSetting(key, expected[key], settings[key]))
+    .filter((v): v is ProcessViolation => v !== null);
+
+  return addCheckResults(detection, "repo", keys.length, violations);
+}
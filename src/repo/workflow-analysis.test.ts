@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { analyzeWorkflowChange, isWorkflowFile } from "./workflow-analysis.js";
+
+const FILE = ".github/workflows/ci.yml";
+const SHA = "8e5e7e5ab8b370d6c329ec480221332ada57f0ab";
+
+const BASE = `
+on: [push, pull_request]
+permissions:
+  contents: read
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@${SHA}
+      - run: npm test
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: npm run lint
+`;
+
+function rules(before: string | null, after: string | null): string[] {
+  return analyzeWorkflowChange(FILE, before, after).map(
+    (f) => `${f.rule} ${f.severity}: ${f.message}`
+  );
+}
+
+describe("workflow-analysis", () => {
+  describe("isWorkflowFile", () => {
+    it("matches workflow files only", () => {
+      expect(isWorkflowFile(".github/workflows/ci.yml")).toBe(true);
+      expect(isWorkflowFile(".github/workflows/release.yaml")).toBe(true);
+      expect(isWorkflowFile(".github/dependabot.yml")).toBe(false);
+    });
+  });
+
+  describe("analyzeWorkflowChange", () => {
+    it("reports nothing for harmless changes", () => {
+      expect(rules(BASE, BASE.replace("npm test", "npm test -- --ci"))).toEqual(
+        []
+      );
+    });
+
+    it("flags newly added actions not pinned to a SHA", () => {
+      const after = BASE.replace(
+        "      - run: npm test",
+        "      - uses: actions/setup-node@v4\n      - uses: some-org/deploy@main\n      - uses: ./.github/actions/local\n      - run: npm test"
+      );
+
+      expect(rules(BASE, after)).toEqual([
+        "unpinned-action low: `actions/setup-node@v4` is not pinned to a commit SHA",
+        "unpinned-action high: `some-org/deploy@main` is not pinned to a commit SHA",
+      ]);
+      // Already unpinned before the change: not reported again
+      expect(rules(after, after.replace("npm test", "npm t"))).toEqual([]);
+    });
+
+    it("flags widened permissions", () => {
+      expect(
+        rules(BASE, BASE.replace("contents: read", "contents: write"))
+      ).toEqual([
+        "permissions-widened high: Workflow `permissions` widened: contents: write",
+      ]);
+      expect(
+        rules(BASE, BASE.replace("permissions:\n  contents: read\n", ""))
+      ).toEqual([
+        "permissions-widened medium: Workflow `permissions` removed (repo default applies)",
+      ]);
+      expect(
+        rules(
+          BASE,
+          BASE.replace(
+            "  lint:\n    runs-on: ubuntu-latest\n",
+            "  lint:\n    runs-on: ubuntu-latest\n    permissions: write-all\n"
+          )
+        )
+      ).toEqual([
+        "permissions-widened high: Job `lint` `permissions` set to `write-all`",
+      ]);
+    });
+
+    it("flags new pull_request_target triggers", () => {
+      expect(
+        rules(
+          BASE,
+          BASE.replace("[push, pull_request]", "[pull_request_target]")
+        )
+      ).toEqual([
+        "pull-request-target high: New `pull_request_target` trigger runs with write access and secrets on pull requests from forks",
+      ]);
+    });
+
+    it("flags removed jobs", () => {
+      const after = BASE.replace(
+        "  lint:\n    runs-on: ubuntu-latest\n    steps:\n      - run: npm run lint\n",
+        ""
+      );
+
+      expect(rules(BASE, after)).toEqual([
+        "job-removed medium: Job `lint` removed; required status checks it reported will no longer run",
+      ]);
+    });
+
+    it("flags new secrets usage", () => {
+      const after = BASE.replace(
+        "      - run: npm test",
+        `      - run: npm test\n        env:\n          TOKEN: \${{ secrets.NPM_TOKEN }}\n          GH: \${{ secrets.GITHUB_TOKEN }}`
+      ).concat(
+        "  release:\n    uses: org/workflows/.github/workflows/release.yml@" +
+          SHA +
+          "\n    secrets: inherit\n"
+      );
+
+      expect(rules(BASE, after)).toEqual([
+        "secrets-added medium: Uses secret `NPM_TOKEN`",
+        "secrets-added medium: Job `release` passes all secrets to a reusable workflow (`secrets: inherit`)",
+      ]);
+    });
+
+    it("checks new workflows in full, and ignores deleted ones apart from their jobs", () => {
+      const added = rules(
+        null,
+        "on: pull_request_target\npermissions: write-all\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - uses: other/action@v1\n"
+      );
+      expect(added).toEqual([
+        "unpinned-action high: `other/action@v1` is not pinned to a commit SHA",
+        "permissions-widened high: Workflow `permissions` set to `write-all`",
+        "pull-request-target high: New `pull_request_target` trigger runs with write access and secrets on pull requests from forks",
+      ]);
+      // New workflows that only read are not flagged
+      expect(rules(null, BASE)).toEqual([]);
+
+      expect(rules(BASE, null).map((r) => r.split(":")[0])).toEqual([
+        "job-removed medium",
+        "job-removed medium",
+      ]);
+    });
+  });
+});
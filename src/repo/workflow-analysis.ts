@@ -0,0 +1,372 @@
+/**
+ * Security analysis of changed GitHub Actions workflows.
+ *
+ * Compares two versions of a workflow file and flags changes that widen
+ * what the workflow can do: actions not pinned to a commit SHA, widened
+ * `permissions:`, new `pull_request_target` triggers, removed jobs (whose
+ * required status checks stop running) and new secrets usage. Only what
+ * the change introduces is flagged, so an old unpinned action is not
+ * reported again every time its workflow is edited.
+ */
+
+import { minimatch } from "minimatch";
+import { parse as parseYaml } from "yaml";
+import { WORKFLOW_PATTERNS } from "../constants.js";
+import { execGit } from "../utils/git.js";
+
+export type WorkflowFindingSeverity = "high" | "medium" | "low";
+
+export type WorkflowFindingRule =
+  | "unpinned-action"
+  | "permissions-widened"
+  | "pull-request-target"
+  | "job-removed"
+  | "secrets-added";
+
+export interface WorkflowFinding {
+  file: string; // e.g. ".github/workflows/ci.yml"
+  rule: WorkflowFindingRule;
+  severity: WorkflowFindingSeverity;
+  job?: string; // Job the finding is about, if not the whole workflow
+  message: string; // e.g. "`some/action@v1` is not pinned to a commit SHA"
+}
+
+type Workflow = Record<string, unknown>;
+
+/** Action refs pinned to a full commit SHA */
+const PINNED_REF = /@[0-9a-f]{40}$/;
+
+const SECRET_REFERENCE = /\$\{\{[^}]*?\bsecrets\.([\w-]+)/g;
+
+/** Secrets every workflow has; using them is not new exposure */
+const BUILTIN_SECRETS = new Set(["GITHUB_TOKEN"]);
+
+const PERMISSION_LEVELS: Record<string, number> = {
+  none: 0,
+  read: 1,
+  write: 2,
+};
+
+/** Whether a file is a GitHub Actions workflow. */
+export function isWorkflowFile(file: string): boolean {
+  return WORKFLOW_PATTERNS.patterns.some((pattern) => minimatch(file, pattern));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Parse a workflow; missing or invalid YAML counts as an empty workflow. */
+function parseWorkflow(content: string | null): Workflow {
+  if (!content) {
+    return {};
+  }
+  try {
+    const parsed: unknown = parseYaml(content);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getJobs(workflow: Workflow): Record<string, Record<string, unknown>> {
+  const jobs: Record<string, Record<string, unknown>> = {};
+  if (isRecord(workflow.jobs)) {
+    for (const [id, job] of Object.entries(workflow.jobs)) {
+      if (isRecord(job)) {
+        jobs[id] = job;
+      }
+    }
+  }
+  return jobs;
+}
+
+/** Trigger names from the `on:` key, which may be a string, list or map. */
+function getTriggers(workflow: Workflow): string[] {
+  const on = workflow.on;
+  if (typeof on === "string") {
+    return [on];
+  }
+  if (Array.isArray(on)) {
+    return on.filter((t): t is string => typeof t === "string");
+  }
+  return isRecord(on) ? Object.keys(on) : [];
+}
+
+/** Every `uses:` ref in the workflow: job-level reusable workflows and steps. */
+function getUsedActions(workflow: Workflow): string[] {
+  const refs: string[] = [];
+  for (const job of Object.values(getJobs(workflow))) {
+    if (typeof job.uses === "string") {
+      refs.push(job.uses);
+    }
+    const steps = Array.isArray(job.steps) ? job.steps : [];
+    for (const step of steps) {
+      if (isRecord(step) && typeof step.uses === "string") {
+        refs.push(step.uses);
+      }
+    }
+  }
+  return refs;
+}
+
+function getSecrets(content: string | null): Set<string> {
+  const names = [...(content ?? "").matchAll(SECRET_REFERENCE)].map(
+    (m) => m[1]
+  );
+  return new Set(names.filter((name) => !BUILTIN_SECRETS.has(name)));
+}
+
+/** Jobs that pass all of the caller's secrets to a reusable workflow. */
+function getJobsInheritingSecrets(workflow: Workflow): Set<string> {
+  return new Set(
+    Object.entries(getJobs(workflow))
+      .filter(([, job]) => job.secrets === "inherit")
+      .map(([id]) => id)
+  );
+}
+
+/** Local actions and Docker images pinned by digest need no SHA pin. */
+function isPinned(ref: string): boolean {
+  return (
+    ref.startsWith("./") ||
+    (ref.startsWith("docker://") && ref.includes("@sha256:")) ||
+    PINNED_REF.test(ref)
+  );
+}
+
+function findUnpinnedActions(
+  file: string,
+  before: Workflow,
+  after: Workflow
+): WorkflowFinding[] {
+  const existing = new Set(getUsedActions(before));
+  const added = new Set(getUsedActions(after).filter((r) => !existing.has(r)));
+  return [...added]
+    .filter((ref) => !isPinned(ref))
+    .map(
+      (ref): WorkflowFinding => ({
+        file,
+        rule: "unpinned-action",
+        // First-party actions are still mutable, but less likely to be hijacked
+        severity: /^(actions|github)\//.test(ref) ? "low" : "high",
+        message: `\`${ref}\` is not pinned to a commit SHA`,
+      })
+    );
+}
+
+/**
+ * Permission level per scope. `write-all`/`read-all` set every scope;
+ * a missing block means the repo's default token permissions.
+ */
+function getPermissions(
+  permissions: unknown
+): Record<string, number> | "write-all" | "default" {
+  if (permissions === undefined || permissions === null) {
+    return "default";
+  }
+  if (permissions === "write-all") {
+    return "write-all";
+  }
+  if (permissions === "read-all") {
+    return { "*": PERMISSION_LEVELS.read };
+  }
+  const levels: Record<string, number> = {};
+  if (isRecord(permissions)) {
+    for (const [scope, level] of Object.entries(permissions)) {
+      levels[scope] = PERMISSION_LEVELS[String(level)] ?? 0;
+    }
+  }
+  return levels;
+}
+
+/** Describe how a permissions block widened, or null if it did not. */
+function describeWidening(
+  before: unknown,
+  after: unknown
+): { severity: WorkflowFindingSeverity; change: string } | null {
+  const [from, to] = [getPermissions(before), getPermissions(after)];
+  if (to === "write-all") {
+    return from === "write-all"
+      ? null
+      : { severity: "high", change: "set to `write-all`" };
+  }
+  if (to === "default") {
+    return from === "default"
+      ? null
+      : { severity: "medium", change: "removed (repo default applies)" };
+  }
+  if (from === "write-all" || from === "default") {
+    return null;
+  }
+  const widened = Object.entries(to).filter(
+    ([scope, level]) => level > (from[scope] ?? from["*"] ?? 0)
+  );
+  if (widened.length === 0) {
+    return null;
+  }
+  const names = ["none", "read", "write"];
+  return {
+    severity: widened.some(([, level]) => level === 2) ? "high" : "low",
+    change: `widened: ${widened.map(([scope, level]) => `${scope}: ${names[level]}`).join(", ")}`,
+  };
+}
+
+function findWidenedPermissions(
+  file: string,
+  before: Workflow,
+  after: Workflow
+): WorkflowFinding[] {
+  const findings: WorkflowFinding[] = [];
+  if (Object.keys(after).length === 0) {
+    return findings; // Deleted workflows grant nothing
+  }
+  // New workflows and jobs are only flagged for write access
+  const isNew = Object.keys(before).length === 0;
+  const workflowLevel =
+    isNew && after.permissions === undefined
+      ? null
+      : describeWidening(isNew ? {} : before.permissions, after.permissions);
+  if (workflowLevel && (!isNew || workflowLevel.severity === "high")) {
+    findings.push({
+      file,
+      rule: "permissions-widened",
+      severity: workflowLevel.severity,
+      message: `Workflow \`permissions\` ${workflowLevel.change}`,
+    });
+  }
+  const beforeJobs = getJobs(before);
+  for (const [id, job] of Object.entries(getJobs(after))) {
+    // Jobs without their own permissions inherit the workflow's
+    if (job.permissions === undefined) {
+      continue;
+    }
+    const existed = beforeJobs[id] !== undefined;
+    const previous = existed
+      ? (beforeJobs[id].permissions ?? before.permissions)
+      : {};
+    const jobLevel = describeWidening(previous, job.permissions);
+    if (jobLevel && (existed || jobLevel.severity === "high")) {
+      findings.push({
+        file,
+        rule: "permissions-widened",
+        severity: jobLevel.severity,
+        job: id,
+        message: `Job \`${id}\` \`permissions\` ${jobLevel.change}`,
+      });
+    }
+  }
+  return findings;
+}
+
+function findPullRequestTarget(
+  file: string,
+  before: Workflow,
+  after: Workflow
+): WorkflowFinding[] {
+  const trigger = "pull_request_target";
+  if (getTriggers(before).includes(trigger)) {
+    return [];
+  }
+  return getTriggers(after).includes(trigger)
+    ? [
+        {
+          file,
+          rule: "pull-request-target",
+          severity: "high",
+          message:
+            "New `pull_request_target` trigger runs with write access and secrets on pull requests from forks",
+        },
+      ]
+    : [];
+}
+
+function findRemovedJobs(
+  file: string,
+  before: Workflow,
+  after: Workflow
+): WorkflowFinding[] {
+  const afterJobs = getJobs(after);
+  return Object.keys(getJobs(before))
+    .filter((id) => !afterJobs[id])
+    .map(
+      (id): WorkflowFinding => ({
+        file,
+        rule: "job-removed",
+        severity: "medium",
+        job: id,
+        message: `Job \`${id}\` removed; required status checks it reported will no longer run`,
+      })
+    );
+}
+
+function findNewSecrets(
+  file: string,
+  contents: { before: string | null; after: string | null },
+  workflows: { before: Workflow; after: Workflow }
+): WorkflowFinding[] {
+  const existing = getSecrets(contents.before);
+  const findings: WorkflowFinding[] = [...getSecrets(contents.after)]
+    .filter((name) => !existing.has(name))
+    .map(
+      (name): WorkflowFinding => ({
+        file,
+        rule: "secrets-added",
+        severity: "medium",
+        message: `Uses secret \`${name}\``,
+      })
+    );
+  const inheriting = getJobsInheritingSecrets(workflows.before);
+  for (const id of getJobsInheritingSecrets(workflows.after)) {
+    if (!inheriting.has(id)) {
+      findings.push({
+        file,
+        rule: "secrets-added",
+        severity: "medium",
+        job: id,
+        message: `Job \`${id}\` passes all secrets to a reusable workflow (\`secrets: inherit\`)`,
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Analyse a change to a workflow file. A missing version (null) counts as
+ * an empty workflow, so new workflows are checked in full.
+ *
+ * @returns Findings in rule order
+ */
+export function analyzeWorkflowChange(
+  file: string,
+  before: string | null,
+  after: string | null
+): WorkflowFinding[] {
+  const workflows = {
+    before: parseWorkflow(before),
+    after: parseWorkflow(after),
+  };
+  return [
+    ...findUnpinnedActions(file, workflows.before, workflows.after),
+    ...findWidenedPermissions(file, workflows.before, workflows.after),
+    ...findPullRequestTarget(file, workflows.before, workflows.after),
+    ...findRemovedJobs(file, workflows.before, workflows.after),
+    ...findNewSecrets(file, { before, after }, workflows),
+  ];
+}
+
+/**
+ * Analyse a workflow file's changes between two commits.
+ *
+ * @returns Findings, empty if the change introduces none
+ */
+export function analyzeWorkflowBetweenCommits(
+  repoPath: string,
+  filePath: string,
+  fromCommit: string,
+  toCommit: string
+): WorkflowFinding[] {
+  const read = (commit: string): string | null =>
+    execGit(repoPath, `show ${commit}:"${filePath}"`) || null;
+  return analyzeWorkflowChange(filePath, read(fromCommit), read(toCommit));
+}
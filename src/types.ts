@@ -1,3 +1,7 @@
+import type { ProcessIssueSeverityConfig } from "./config/issue-severity.js";
+import type { WorkflowFinding } from "./repo/workflow-analysis.js";
+import type { RepoSettingsConfig } from "./repo/settings-checks.js";
+
 // Metadata schema for validating repo-metadata.yaml
 
 export interface MetadataSchema {
@@ -7,9 +11,45 @@ export interface MetadataSchema {
 
 // Configuration
 
+export interface ScanStateConfig {
+  path: string; // JSON file in the config repo holding per-repo scan state
+}
+
+export type NotifierType = "webhook" | "slack" | "teams";
+
+export interface NotifierConfig {
+  type: NotifierType;
+  url?: string; // Webhook URL
+  urlEnv?: string; // Environment variable holding the webhook URL
+  teams?: string[]; // Only notify about repos owned by these teams
+}
+
+export interface GitHubServerConfig {
+  url?: string; // GitHub Enterprise Server URL (default: https://github.com)
+}
+
+export interface DependencyChangesConfig {
+  onlyWeakening?: boolean; // Only report changes that weaken standards
+  tiers?: string[]; // Only report changes in repos of these tiers
+}
+
+/** check.toml `[process.*]` sections, e.g. { branches: { require_reviews: 2 } } */
+export type ProcessSections = Record<string, Record<string, unknown>>;
+
+export interface ProcessConfig {
+  baseline?: Record<string, ProcessSections>; // Org-default [process.*] sections per tier
+  issueSeverity?: ProcessIssueSeverityConfig;
+  repoSettings?: RepoSettingsConfig;
+}
+
 export interface DriftConfig {
   schema?: MetadataSchema;
   exclude?: string[]; // repo name patterns to exclude from org scanning
+  state?: ScanStateConfig;
+  notifications?: NotifierConfig[];
+  github?: GitHubServerConfig;
+  dependencyChanges?: DependencyChangesConfig;
+  process?: ProcessConfig;
 }
 
 // Overall results
@@ -27,13 +67,25 @@ export interface RepoScanResult {
   missingProjects?: MissingProject[];
   tierValidation?: TierValidationResult;
   dependencyChanges?: DependencyChangesDetection;
+  metadataViolations?: MetadataViolation[];
+  warnings?: string[]; // Missing or invalid repo-metadata.yaml / check.toml (local scans)
+  scannedCommit?: string;
+  issueUrls?: string[]; // Issues created or updated for this repo's drift
+  closedIssues?: number[]; // Issues closed because their drift is resolved
+  findingsUnchanged?: boolean; // Same findings as the last scan: issues left as-is
   error?: string;
 }
 
+export interface HttpCacheStats {
+  requests: number; // GET requests made while the cache was enabled
+  hits: number; // Requests answered with 304 Not Modified from the cache
+}
+
 export interface OrgScanSummary {
   reposScanned: number;
   reposWithIssues: number;
   reposSkipped: number;
+  apiCache?: HttpCacheStats; // Absent with --no-cache
 }
 
 export interface OrgScanResults {
@@ -46,8 +98,22 @@ export interface OrgScanResults {
 
 // GitHub issue creation
 
+/** Kind of drift tracked by an issue, recorded in its hidden fingerprint */
+export type DriftIssueKind =
+  | "missing-projects"
+  | "tier-mismatch"
+  | "dependency-changes"
+  | "metadata-violations"
+  | "process-violations"
+  | "infra-drift"
+  | "audit-summary";
+
+/** What happened to the issue tracking a drift detection */
+export type IssueSyncAction = "created" | "updated" | "unchanged" | "closed";
+
 export interface DriftIssueResult {
   created: boolean;
+  action?: IssueSyncAction;
   issueNumber?: number;
   issueUrl?: string;
   error?: string;
@@ -86,13 +152,69 @@ export interface TierMismatchDetection {
   error: string;
 }
 
+// Metadata validation (repo-metadata.yaml against the config schema)
+
+export interface MetadataViolation {
+  field: "tier" | "team";
+  type: "missing" | "not-allowed";
+  value?: string; // Value found in repo-metadata.yaml, if any
+  allowed: string[]; // Values allowed by drift.config.yaml
+  message: string;
+}
+
+export interface MetadataViolationsDetection {
+  repository: string;
+  scanTime: string;
+  violations: MetadataViolation[];
+}
+
 // Dependency file changes detection
 
+export interface ChangeAttribution {
+  commit: string;
+  commitUrl: string;
+  author: string;
+}
+
+export type CheckTomlChangeKind =
+  | "added"
+  | "removed"
+  | "changed"
+  | "raised"
+  | "lowered"
+  | "enabled"
+  | "disabled"
+  | "item-added"
+  | "item-removed";
+
+/** Whether a change weakens or strengthens the standards a repo enforces */
+export type ChangeImpact = "weakening" | "strengthening" | "neutral";
+
+export interface CheckTomlChange {
+  path: string; // e.g. "[process.branches].require_reviews" or "[code.linting.eslint]"
+  kind: CheckTomlChangeKind;
+  before?: unknown; // Old value, or the removed list item
+  after?: unknown; // New value, or the added list item
+  description: string; // e.g. "`[process.branches].require_reviews` lowered 2 → 1"
+  impact: ChangeImpact;
+}
+
+export interface ConfigChange {
+  path: string; // e.g. "compilerOptions.strict" or "rules.no-console"
+  kind: CheckTomlChangeKind;
+  before?: unknown; // Old value, or the removed list item
+  after?: unknown; // New value, or the added list item
+  description: string; // e.g. "`compilerOptions.strict` changed true → false"
+}
+
 export interface DependencyFileChange {
   file: string;
   status: "added" | "modified" | "deleted";
   checkType: string | null;
   diff?: string;
+  checkTomlChanges?: CheckTomlChange[]; // Parsed changes, for check.toml files
+  configChanges?: ConfigChange[]; // Parsed changes, for JSON, JSONC and YAML files
+  introducedBy?: ChangeAttribution; // Last commit in the scanned window that touched the file
 }
 
 export interface DependencyChangesDetection {
@@ -100,8 +222,12 @@ export interface DependencyChangesDetection {
   scanTime: string;
   commit: string;
   commitUrl: string;
+  baseCommit?: string; // Start of the scanned window (exclusive)
+  compareUrl?: string;
   changes: DependencyFileChange[];
   byCheck: Record<string, DependencyFileChange[]>;
+  impact?: ChangeImpact; // Overall impact of the check.toml changes, if any
+  workflowFindings?: WorkflowFinding[]; // Security findings in changed workflows
 }
 
 // Process violations detection
@@ -117,15 +243,46 @@ export interface ProcessViolation {
   check: string;
   rule: string;
   message: string;
-  severity: "error" | "warning";
+  severity: ProcessSeverity;
   file?: string;
+  layer?: ProcessRuleLayer; // Config layer that defined the rule (with an org baseline)
 }
 
+export type ProcessSeverity = "error" | "warning";
+
+/** Where a process rule came from: the org baseline or the repo's check.toml */
+export type ProcessRuleLayer = "org" | "repo";
+
+/** Layer of each merged `[process.*]` key, by section then key */
+export type ProcessRuleLayers = Record<
+  string,
+  Record<string, ProcessRuleLayer>
+>;
+
 export interface ProcessViolationsDetection {
   repository: string;
   scanTime: string;
   summary: ProcessCheckSummary[];
   violations: ProcessViolation[];
+  baselineTier?: string; // Tier whose org baseline was merged into the repo's rules
+  waived?: WaivedProcessViolation[]; // Violations suppressed by a waiver
+}
+
+/** An accepted deviation from a standard, from drift-waivers.yaml */
+export interface Waiver {
+  domain: "process";
+  repo?: string; // Repo name, for waivers kept in the config repo
+  category: string;
+  check: string;
+  rule: string;
+  file?: string;
+  reason: string;
+  owner: string;
+  expires: string; // YYYY-MM-DD, the last day the waiver applies
+}
+
+export interface WaivedProcessViolation extends ProcessViolation {
+  waiver: Pick<Waiver, "reason" | "owner" | "expires">;
 }
 
 // Org-wide process scanning
@@ -133,7 +290,9 @@ export interface ProcessViolationsDetection {
 export interface ProcessRepoScanResult {
   repo: string;
   detection?: ProcessViolationsDetection;
+  unreported?: number; // Violations below the issue severity threshold
   issueCreated?: boolean;
+  issueAction?: IssueSyncAction;
   issueNumber?: number;
   issueUrl?: string;
   error?: string;
@@ -142,8 +301,13 @@ export interface ProcessRepoScanResult {
 export interface ProcessOrgScanSummary {
   reposScanned: number;
   reposWithViolations: number;
+  reposWithErrors: number; // Repos with error-level violations (sets the exit code)
+  violationsWaived: number;
   reposSkipped: number;
   issuesCreated: number;
+  issuesUpdated: number;
+  issuesClosed: number;
+  apiCache?: HttpCacheStats; // Absent with --no-cache
 }
 
 export interface ProcessOrgScanResults {
@@ -183,6 +347,7 @@ export interface InfraRepoScanResult {
   repo: string;
   detection?: InfraDriftDetection;
   issueCreated?: boolean;
+  issueAction?: IssueSyncAction;
   issueNumber?: number;
   issueUrl?: string;
   error?: string;
@@ -193,6 +358,9 @@ export interface InfraOrgScanSummary {
   reposWithDrift: number;
   reposSkipped: number;
   issuesCreated: number;
+  issuesUpdated: number;
+  issuesClosed: number;
+  apiCache?: HttpCacheStats; // Absent with --no-cache
 }
 
 export interface InfraOrgScanResults {
@@ -201,3 +369,21 @@ export interface InfraOrgScanResults {
   repos: InfraRepoScanResult[];
   summary: InfraOrgScanSummary;
 }
+
+// Unified scanning (code, process and infra in one pass)
+
+export type ScanDomain = "code" | "process" | "infra";
+
+/** How org scans find repos: one REST request per check, or batched GraphQL */
+export type DiscoveryBackend = "rest" | "graphql";
+
+export interface UnifiedScanSummary {
+  reposScanned: number;
+  reposWithDrift: number;
+  reposSkipped: number;
+  codeReposWithIssues: number;
+  processReposWithViolations: number;
+  processViolationsWaived: number;
+  infraReposWithDrift: number;
+  apiCache?: HttpCacheStats; // Absent with --no-cache
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { createFingerprint } from "./fingerprint.js";
+
+describe("fingerprint", () => {
+  describe("createFingerprint", () => {
+    it("returns a 16 character hex string", () => {
+      expect(createFingerprint({ a: 1 })).toMatch(/^[a-f0-9]{16}$/);
+    });
+
+    it("is stable regardless of object key order", () => {
+      expect(createFingerprint({ a: 1, b: { c: 2, d: 3 } })).toBe(
+        createFingerprint({ b: { d: 3, c: 2 }, a: 1 })
+      );
+    });
+
+    it("ignores undefined properties", () => {
+      expect(createFingerprint({ a: 1, b: undefined })).toBe(
+        createFingerprint({ a: 1 })
+      );
+    });
+
+    it("changes when values change", () => {
+      expect(createFingerprint({ a: 1 })).not.toBe(createFingerprint({ a: 2 }));
+    });
+
+    it("is sensitive to array order", () => {
+      expect(createFingerprint([1, 2])).not.toBe(createFingerprint([2, 1]));
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Stable fingerprints for drift findings.
+ * Used to recognise the same findings across scans.
+ */
+
+import { createHash } from "crypto";
+
+/** Length of the hex fingerprint (64 bits is plenty to tell findings apart). */
+const FINGERPRINT_LENGTH = 16;
+
+/**
+ * Serialize a value to JSON with object keys sorted, so values that are
+ * equal but built in a different order serialize identically.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Create a short, stable fingerprint of any JSON-serializable value.
+ *
+ * @param value - The findings to fingerprint
+ * @returns Hex fingerprint that only changes when the findings change
+ */
+export function createFingerprint(value: unknown): string {
+  return createHash("sha256")
+    .update(stableStringify(value))
+    .digest("hex")
+    .slice(0, FINGERPRINT_LENGTH);
+}
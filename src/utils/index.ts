@@ -3,6 +3,7 @@
  */
 
 export * from "./errors.js";
+export * from "./fingerprint.js";
 export * from "./formatting.js";
 export * from "./git.js";
 export * from "./paths.js";